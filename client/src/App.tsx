@@ -1,8 +1,44 @@
 import { SignupPage } from './components/SignupPage';
+import { SignInPage } from './components/SignInPage';
+import { DevicesPage } from './components/DevicesPage';
+import { ForgotPasswordPage } from './components/ForgotPasswordPage';
+import { ResetPasswordPage } from './components/ResetPasswordPage';
+import { AccountSecurityPage } from './components/AccountSecurityPage';
+import { CommunicationPreferencesPage } from './components/CommunicationPreferencesPage';
+import { OAuthCompletePage } from './components/OAuthCompletePage';
+import { VerifyEmailLinkPage } from './components/VerifyEmailLinkPage';
+import { MagicLinkPage } from './components/MagicLinkPage';
+import { UnlockAccountPage } from './components/UnlockAccountPage';
+import { usePathname } from './utils/navigation';
 import './App.css';
 
 function App() {
-  return <SignupPage />;
+  const pathname = usePathname();
+
+  switch (pathname) {
+    case '/signin':
+      return <SignInPage />;
+    case '/account/devices':
+      return <DevicesPage />;
+    case '/account/security':
+      return <AccountSecurityPage />;
+    case '/account/communication':
+      return <CommunicationPreferencesPage />;
+    case '/forgot-password':
+      return <ForgotPasswordPage />;
+    case '/reset-password':
+      return <ResetPasswordPage />;
+    case '/magic-link':
+      return <MagicLinkPage />;
+    case '/unlock-account':
+      return <UnlockAccountPage />;
+    case '/verify':
+      return <VerifyEmailLinkPage />;
+    case '/auth/complete':
+      return <OAuthCompletePage />;
+    default:
+      return <SignupPage />;
+  }
 }
 
-export default App;
\ No newline at end of file
+export default App;
@@ -0,0 +1,241 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { trpc, withSessionRefresh } from '@/utils/trpc';
+import { navigate } from '@/utils/navigation';
+import { calculatePasswordStrength } from '@/utils/password';
+import { PasswordStrengthIndicator } from './PasswordStrengthIndicator';
+import type { CurrentUser, LinkedIdentity } from '../../../server/src/schema';
+
+const PROVIDER_NAMES: Record<string, string> = {
+  google: 'Google'
+};
+
+const inputClassName = 'border-gray-300 focus:border-orange-500 focus:ring-orange-500/20 rounded-xl py-3 px-4 bg-gray-50/50 focus:bg-white';
+
+export function AccountSecurityPage() {
+  const [user, setUser] = useState<CurrentUser | null>(null);
+  const [identities, setIdentities] = useState<LinkedIdentity[]>([]);
+  const [unlinkingId, setUnlinkingId] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [error, setError] = useState<string>('');
+  const [message, setMessage] = useState<string>('');
+
+  const loadUser = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError('');
+      const [result, linked] = await Promise.all([
+        withSessionRefresh(() => trpc.me.query()),
+        withSessionRefresh(() => trpc.listLinkedIdentities.query())
+      ]);
+      setUser(result);
+      setIdentities(linked);
+    } catch (error) {
+      console.error('Failed to load account:', error);
+      setError(error instanceof Error ? error.message : 'Failed to load your account');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadUser();
+  }, [loadUser]);
+
+  const handleUnlink = async (identity: LinkedIdentity) => {
+    setError('');
+    setMessage('');
+    setUnlinkingId(identity.id);
+
+    try {
+      const result = await withSessionRefresh(() => trpc.unlinkIdentity.mutate({ identity_id: identity.id }));
+      setIdentities((prev: LinkedIdentity[]) => prev.filter((item: LinkedIdentity) => item.id !== identity.id));
+      setMessage(result.message);
+    } catch (error) {
+      console.error('Unlinking failed:', error);
+      setError(error instanceof Error ? error.message : 'Unlinking failed. Please try again.');
+    } finally {
+      setUnlinkingId(null);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+
+    setError('');
+    setMessage('');
+
+    if (newPassword !== confirmPassword) {
+      setError('Passwords do not match.');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const result = user.has_password
+        ? await withSessionRefresh(() => trpc.changePassword.mutate({ current_password: currentPassword, new_password: newPassword }))
+        : await withSessionRefresh(() => trpc.setPassword.mutate({ new_password: newPassword }));
+
+      setMessage(result.message);
+      setUser({ ...user, has_password: true });
+      setCurrentPassword('');
+      setNewPassword('');
+      setConfirmPassword('');
+    } catch (error) {
+      console.error('Password update failed:', error);
+      setError(error instanceof Error ? error.message : 'Password update failed. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-orange-50 to-amber-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md mx-auto bg-white/95 backdrop-blur-sm p-10 border border-gray-200/50 rounded-2xl shadow-2xl">
+        <div className="mb-8">
+          <h2 className="text-3xl font-bold bg-gradient-to-r from-gray-900 to-gray-700 bg-clip-text text-transparent mb-2">
+            Login & security
+          </h2>
+          <p className="text-gray-600 text-sm">
+            {user && !user.has_password
+              ? 'You sign in with Google. Add a password to also sign in with your email.'
+              : 'Changing your password signs you out of all other devices.'}
+          </p>
+        </div>
+
+        {error && (
+          <Alert className="mb-6 border-red-200/50 bg-red-50/50 rounded-xl">
+            <AlertDescription className="text-red-700 font-medium">⚠️ {error}</AlertDescription>
+          </Alert>
+        )}
+
+        {message && (
+          <Alert className="mb-6 border-emerald-200/50 bg-emerald-50/50 rounded-xl">
+            <AlertDescription className="text-emerald-700 font-medium">✓ {message}</AlertDescription>
+          </Alert>
+        )}
+
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <div className="animate-spin h-8 w-8 border-2 border-orange-500 border-t-transparent rounded-full"></div>
+          </div>
+        ) : !user ? (
+          <Button onClick={() => navigate('/signin')} className="w-full rounded-xl py-3">Sign in</Button>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-6">
+            {user.has_password && (
+              <div>
+                <Label htmlFor="current_password" className="text-sm font-semibold text-gray-800 mb-2 block">
+                  Current password
+                </Label>
+                <Input
+                  id="current_password"
+                  type="password"
+                  autoComplete="current-password"
+                  value={currentPassword}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) => setCurrentPassword(e.target.value)}
+                  className={inputClassName}
+                  required
+                />
+              </div>
+            )}
+
+            <div>
+              <Label htmlFor="account_new_password" className="text-sm font-semibold text-gray-800 mb-2 block">
+                New password 🔐
+              </Label>
+              <Input
+                id="account_new_password"
+                type="password"
+                autoComplete="new-password"
+                placeholder="At least 8 characters"
+                value={newPassword}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setNewPassword(e.target.value)}
+                className={inputClassName}
+                required
+              />
+              <PasswordStrengthIndicator strength={calculatePasswordStrength(newPassword)} password={newPassword} />
+            </div>
+
+            <div>
+              <Label htmlFor="account_confirm_password" className="text-sm font-semibold text-gray-800 mb-2 block">
+                Re-enter new password
+              </Label>
+              <Input
+                id="account_confirm_password"
+                type="password"
+                autoComplete="new-password"
+                value={confirmPassword}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setConfirmPassword(e.target.value)}
+                className={inputClassName}
+                required
+              />
+            </div>
+
+            <Button
+              type="submit"
+              disabled={isSaving}
+              className="w-full bg-gradient-to-r from-yellow-400 to-orange-400 hover:from-yellow-500 hover:to-orange-500 text-black font-bold py-4 rounded-xl shadow-lg disabled:opacity-50"
+            >
+              {isSaving ? 'Saving...' : user.has_password ? 'Change password' : 'Set password'}
+            </Button>
+
+            <div className="pt-6 border-t border-gray-200">
+              <h3 className="text-lg font-semibold text-gray-900 mb-3">Linked accounts</h3>
+              {identities.length === 0 ? (
+                <p className="text-sm text-gray-500">No external accounts are linked.</p>
+              ) : (
+                <ul className="space-y-3">
+                  {identities.map((identity: LinkedIdentity) => (
+                    <li key={identity.id} className="flex items-center justify-between p-3 border border-gray-200 rounded-xl">
+                      <div>
+                        <p className="font-medium text-gray-900">{PROVIDER_NAMES[identity.provider] ?? identity.provider}</p>
+                        <p className="text-xs text-gray-500">
+                          {identity.email ?? 'No email'} · linked {identity.linked_at.toLocaleDateString()}
+                        </p>
+                      </div>
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        disabled={unlinkingId === identity.id}
+                        onClick={() => handleUnlink(identity)}
+                        className="rounded-lg"
+                      >
+                        {unlinkingId === identity.id ? 'Unlinking...' : 'Unlink'}
+                      </Button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
+            <button
+              type="button"
+              onClick={() => navigate('/account/devices')}
+              className="w-full text-sm text-orange-600 font-medium hover:text-orange-700 hover:underline"
+            >
+              Manage your devices →
+            </button>
+
+            <button
+              type="button"
+              onClick={() => navigate('/account/communication')}
+              className="w-full text-sm text-orange-600 font-medium hover:text-orange-700 hover:underline"
+            >
+              Email preferences →
+            </button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
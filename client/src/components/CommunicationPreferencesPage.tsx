@@ -0,0 +1,160 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { trpc, withSessionRefresh } from '@/utils/trpc';
+import { navigate } from '@/utils/navigation';
+import type { CommunicationCategory, CommunicationPreferences } from '../../../server/src/schema';
+
+type Category = CommunicationPreferences['categories'][number];
+
+const SOURCE_LABELS: Record<string, string> = {
+  registration: 'when you created your account',
+  preferences_center: 'in email preferences'
+};
+
+export function CommunicationPreferencesPage() {
+  const [preferences, setPreferences] = useState<CommunicationPreferences | null>(null);
+  const [draft, setDraft] = useState<Partial<Record<CommunicationCategory, boolean>>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string>('');
+  const [message, setMessage] = useState<string>('');
+
+  const loadPreferences = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError('');
+      setPreferences(await withSessionRefresh(() => trpc.getCommunicationPreferences.query()));
+    } catch (error) {
+      console.error('Failed to load email preferences:', error);
+      setError(error instanceof Error ? error.message : 'Failed to load your email preferences');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadPreferences();
+  }, [loadPreferences]);
+
+  const isEnabled = (category: Category): boolean => draft[category.category] ?? category.enabled;
+
+  const changed = preferences
+    ? preferences.categories.filter((category: Category) => isEnabled(category) !== category.enabled)
+    : [];
+
+  const handleSave = async () => {
+    setError('');
+    setMessage('');
+    setIsSaving(true);
+
+    try {
+      const result = await withSessionRefresh(() => trpc.updateCommunicationPreferences.mutate({
+        preferences: changed.map((category: Category) => ({ category: category.category, enabled: isEnabled(category) }))
+      }));
+      setPreferences(result);
+      setDraft({});
+      setMessage('Your email preferences have been saved.');
+    } catch (error) {
+      console.error('Saving email preferences failed:', error);
+      setError(error instanceof Error ? error.message : 'Saving failed. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const labelFor = (category: CommunicationCategory): string =>
+    preferences?.categories.find((item: Category) => item.category === category)?.label ?? category;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-orange-50 to-amber-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md mx-auto bg-white/95 backdrop-blur-sm p-10 border border-gray-200/50 rounded-2xl shadow-2xl">
+        <div className="mb-8">
+          <h2 className="text-3xl font-bold bg-gradient-to-r from-gray-900 to-gray-700 bg-clip-text text-transparent mb-2">
+            Email preferences
+          </h2>
+          <p className="text-gray-600 text-sm">
+            Choose which optional emails you get. We always send messages about your account and its security.
+          </p>
+        </div>
+
+        {error && (
+          <Alert className="mb-6 border-red-200/50 bg-red-50/50 rounded-xl">
+            <AlertDescription className="text-red-700 font-medium">⚠️ {error}</AlertDescription>
+          </Alert>
+        )}
+
+        {message && (
+          <Alert className="mb-6 border-emerald-200/50 bg-emerald-50/50 rounded-xl">
+            <AlertDescription className="text-emerald-700">{message}</AlertDescription>
+          </Alert>
+        )}
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <div className="animate-spin h-8 w-8 border-2 border-orange-500 border-t-transparent rounded-full"></div>
+          </div>
+        ) : !preferences ? (
+          <Button onClick={() => navigate('/signin')} className="w-full rounded-xl py-3">Sign in</Button>
+        ) : (
+          <div className="space-y-6">
+            <ul className="space-y-4">
+              {preferences.categories.map((category: Category) => (
+                <li key={category.category} className="flex items-start justify-between gap-4 border border-gray-200 rounded-xl px-4 py-3">
+                  <div>
+                    <Label htmlFor={`category_${category.category}`} className="text-sm font-semibold text-gray-900">
+                      {category.label}
+                    </Label>
+                    <p className="text-xs text-gray-500 mt-1">{category.description}</p>
+                  </div>
+                  <Switch
+                    id={`category_${category.category}`}
+                    checked={isEnabled(category)}
+                    onCheckedChange={(checked: boolean) => {
+                      setDraft((prev: Partial<Record<CommunicationCategory, boolean>>) => ({ ...prev, [category.category]: checked }));
+                      setMessage('');
+                    }}
+                    className="mt-1 data-[state=checked]:bg-orange-500"
+                  />
+                </li>
+              ))}
+            </ul>
+
+            <Button
+              type="button"
+              onClick={handleSave}
+              disabled={isSaving || changed.length === 0}
+              className="w-full bg-gradient-to-r from-yellow-400 to-orange-400 hover:from-yellow-500 hover:to-orange-500 text-black font-bold py-3 rounded-xl shadow-lg disabled:opacity-50"
+            >
+              {isSaving ? 'Saving...' : 'Save preferences'}
+            </Button>
+
+            {preferences.history.length > 0 && (
+              <div className="border-t border-gray-200 pt-6">
+                <h3 className="text-sm font-semibold text-gray-800 mb-3">Your choices so far</h3>
+                <ul className="space-y-2 text-xs text-gray-600">
+                  {preferences.history.map((record: CommunicationPreferences['history'][number]) => (
+                    <li key={record.id}>
+                      <span className="font-medium text-gray-800">{record.granted ? 'Subscribed to' : 'Unsubscribed from'} {labelFor(record.category)}</span>
+                      {' '}{SOURCE_LABELS[record.source] ?? record.source} · {record.created_at.toLocaleString()}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            <button
+              type="button"
+              onClick={() => navigate('/account/security')}
+              className="w-full text-sm text-orange-600 font-medium hover:text-orange-700 hover:underline"
+            >
+              ← Login & security
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
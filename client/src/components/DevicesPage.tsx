@@ -0,0 +1,224 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { trpc, withSessionRefresh } from '@/utils/trpc';
+import { clearSession } from '@/utils/auth';
+import { navigate } from '@/utils/navigation';
+import type { SessionSummary } from '../../../server/src/schema';
+
+// Rough "Browser on OS" label from a user-agent string
+function describeUserAgent(userAgent: string | null): string {
+  if (!userAgent) return 'Unknown device';
+
+  const browser =
+    /Edg\//.test(userAgent) ? 'Edge' :
+    /Firefox\//.test(userAgent) ? 'Firefox' :
+    /Chrome\//.test(userAgent) ? 'Chrome' :
+    /Safari\//.test(userAgent) ? 'Safari' :
+    'Browser';
+
+  const os =
+    /iPhone|iPad/.test(userAgent) ? 'iOS' :
+    /Android/.test(userAgent) ? 'Android' :
+    /Mac OS X|Macintosh/.test(userAgent) ? 'macOS' :
+    /Windows/.test(userAgent) ? 'Windows' :
+    /Linux/.test(userAgent) ? 'Linux' :
+    'unknown OS';
+
+  return `${browser} on ${os}`;
+}
+
+export function DevicesPage() {
+  const [sessions, setSessions] = useState<SessionSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [busySessionId, setBusySessionId] = useState<string | null>(null);
+  const [editingSessionId, setEditingSessionId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState('');
+  const [error, setError] = useState<string>('');
+
+  const loadSessions = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError('');
+      const result = await withSessionRefresh(() => trpc.listSessions.query());
+      setSessions(result);
+    } catch (error) {
+      console.error('Failed to load sessions:', error);
+      setError(error instanceof Error ? error.message : 'Failed to load your devices');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSessions();
+  }, [loadSessions]);
+
+  const handleRevoke = async (session: SessionSummary) => {
+    setBusySessionId(session.id);
+    setError('');
+
+    try {
+      await withSessionRefresh(() => trpc.revokeSession.mutate({ session_id: session.id }));
+
+      if (session.is_current) {
+        // Signing out this device ends our own session
+        clearSession();
+        navigate('/signin');
+        return;
+      }
+
+      setSessions((prev: SessionSummary[]) => prev.filter((item: SessionSummary) => item.id !== session.id));
+    } catch (error) {
+      console.error('Failed to sign out device:', error);
+      setError(error instanceof Error ? error.message : 'Failed to sign out device');
+    } finally {
+      setBusySessionId(null);
+    }
+  };
+
+  const handleRevokeOthers = async () => {
+    setBusySessionId('others');
+    setError('');
+
+    try {
+      await withSessionRefresh(() => trpc.revokeAllOtherSessions.mutate());
+      setSessions((prev: SessionSummary[]) => prev.filter((item: SessionSummary) => item.is_current));
+    } catch (error) {
+      console.error('Failed to sign out other devices:', error);
+      setError(error instanceof Error ? error.message : 'Failed to sign out other devices');
+    } finally {
+      setBusySessionId(null);
+    }
+  };
+
+  const handleRename = async (e: React.FormEvent, session: SessionSummary) => {
+    e.preventDefault();
+    setBusySessionId(session.id);
+    setError('');
+
+    try {
+      const deviceName = editingName.trim();
+      await withSessionRefresh(() => trpc.renameSession.mutate({ session_id: session.id, device_name: deviceName }));
+      setSessions((prev: SessionSummary[]) =>
+        prev.map((item: SessionSummary) => item.id === session.id ? { ...item, device_name: deviceName } : item)
+      );
+      setEditingSessionId(null);
+    } catch (error) {
+      console.error('Failed to rename device:', error);
+      setError(error instanceof Error ? error.message : 'Failed to rename device');
+    } finally {
+      setBusySessionId(null);
+    }
+  };
+
+  const otherSessionCount = sessions.filter((session: SessionSummary) => !session.is_current).length;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-orange-50 to-amber-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-2xl mx-auto">
+        <div className="bg-white/95 backdrop-blur-sm p-10 border border-gray-200/50 rounded-2xl shadow-2xl">
+          <div className="flex items-start justify-between mb-8">
+            <div>
+              <h2 className="text-3xl font-bold bg-gradient-to-r from-gray-900 to-gray-700 bg-clip-text text-transparent mb-2">
+                Your devices
+              </h2>
+              <p className="text-gray-600 text-sm">Places where your account is currently signed in</p>
+            </div>
+            {otherSessionCount > 0 && (
+              <Button
+                variant="outline"
+                onClick={handleRevokeOthers}
+                disabled={busySessionId !== null}
+                className="rounded-xl border-red-200 text-red-700 hover:bg-red-50"
+              >
+                Sign out all other devices
+              </Button>
+            )}
+          </div>
+
+          {error && (
+            <Alert className="mb-6 border-red-200/50 bg-red-50/50 backdrop-blur-sm rounded-xl">
+              <div className="flex items-center space-x-2">
+                <div className="text-red-500 text-lg">⚠️</div>
+                <AlertDescription className="text-red-700 font-medium">{error}</AlertDescription>
+              </div>
+            </Alert>
+          )}
+
+          {isLoading ? (
+            <div className="flex justify-center py-12">
+              <div className="animate-spin h-8 w-8 border-2 border-orange-500 border-t-transparent rounded-full"></div>
+            </div>
+          ) : sessions.length === 0 ? (
+            <div className="text-center py-12 text-gray-600">
+              <p className="mb-4">You are not signed in on any device.</p>
+              <Button onClick={() => navigate('/signin')} className="rounded-xl">Sign in</Button>
+            </div>
+          ) : (
+            <ul className="space-y-4">
+              {sessions.map((session: SessionSummary) => (
+                <li key={session.id} className="p-4 border border-gray-200 rounded-xl bg-gray-50/50">
+                  <div className="flex items-start justify-between gap-4">
+                    <div className="min-w-0 flex-1">
+                      {editingSessionId === session.id ? (
+                        <form onSubmit={(e: React.FormEvent) => handleRename(e, session)} className="flex gap-2 mb-2">
+                          <Input
+                            value={editingName}
+                            maxLength={100}
+                            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setEditingName(e.target.value)}
+                            className="rounded-xl"
+                            autoFocus
+                            required
+                          />
+                          <Button type="submit" disabled={busySessionId !== null} className="rounded-xl">Save</Button>
+                          <Button type="button" variant="ghost" onClick={() => setEditingSessionId(null)}>Cancel</Button>
+                        </form>
+                      ) : (
+                        <div className="flex items-center gap-2 mb-1">
+                          <span className="font-semibold text-gray-900">
+                            {session.device_name || describeUserAgent(session.user_agent)}
+                          </span>
+                          {session.is_current && <Badge className="bg-emerald-100 text-emerald-700">This device</Badge>}
+                        </div>
+                      )}
+                      <p className="text-xs text-gray-500 truncate">{session.user_agent || 'Unknown browser'}</p>
+                      <p className="text-xs text-gray-500">
+                        {session.ip_address || 'Unknown location'} · Signed in {session.created_at.toLocaleDateString()} · Last active {session.last_seen_at.toLocaleString()}
+                      </p>
+                    </div>
+                    <div className="flex flex-col gap-2 shrink-0">
+                      {editingSessionId !== session.id && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => {
+                            setEditingSessionId(session.id);
+                            setEditingName(session.device_name || describeUserAgent(session.user_agent));
+                          }}
+                        >
+                          Rename
+                        </Button>
+                      )}
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleRevoke(session)}
+                        disabled={busySessionId !== null}
+                        className="border-red-200 text-red-700 hover:bg-red-50"
+                      >
+                        {busySessionId === session.id ? 'Signing out...' : 'Sign out'}
+                      </Button>
+                    </div>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
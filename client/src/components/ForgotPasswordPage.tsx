@@ -0,0 +1,96 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { trpc } from '@/utils/trpc';
+import { navigate } from '@/utils/navigation';
+
+export function ForgotPasswordPage() {
+  const [email, setEmail] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string>('');
+  const [message, setMessage] = useState<string>('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setIsLoading(true);
+
+    try {
+      const result = await trpc.requestPasswordReset.mutate({ email });
+      setMessage(result.message);
+    } catch (error) {
+      console.error('Password reset request failed:', error);
+      setError(error instanceof Error ? error.message : 'Something went wrong. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-slate-50 via-orange-50 to-amber-50 px-4">
+      <div className="max-w-md w-full bg-white/95 backdrop-blur-sm p-10 border border-gray-200/50 rounded-2xl shadow-2xl">
+        <div className="text-center mb-8">
+          <h2 className="text-3xl font-bold bg-gradient-to-r from-gray-900 to-gray-700 bg-clip-text text-transparent mb-2">
+            Password assistance
+          </h2>
+          <p className="text-gray-600 text-sm">Enter the email address associated with your account</p>
+        </div>
+
+        {error && (
+          <Alert className="mb-6 border-red-200/50 bg-red-50/50 rounded-xl">
+            <AlertDescription className="text-red-700 font-medium">⚠️ {error}</AlertDescription>
+          </Alert>
+        )}
+
+        {message ? (
+          <div className="text-center space-y-6">
+            <div className="text-5xl">📬</div>
+            <p className="text-gray-700 leading-relaxed">{message}</p>
+            <Button variant="outline" onClick={() => navigate('/signin')} className="w-full rounded-xl py-3">
+              Back to sign in
+            </Button>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-6">
+            <div>
+              <Label htmlFor="reset_email" className="text-sm font-semibold text-gray-800 mb-2 block">
+                Email address 📧
+              </Label>
+              <Input
+                id="reset_email"
+                type="email"
+                autoComplete="email"
+                placeholder="Enter your email"
+                value={email}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
+                  setEmail(e.target.value);
+                  setError('');
+                }}
+                className="border-gray-300 focus:border-orange-500 focus:ring-orange-500/20 rounded-xl py-3 px-4 bg-gray-50/50 focus:bg-white"
+                required
+              />
+            </div>
+
+            <Button
+              type="submit"
+              disabled={isLoading}
+              className="w-full bg-gradient-to-r from-yellow-400 to-orange-400 hover:from-yellow-500 hover:to-orange-500 text-black font-bold py-4 rounded-xl shadow-lg disabled:opacity-50"
+            >
+              {isLoading ? 'Sending...' : 'Send reset link'}
+            </Button>
+
+            <button
+              type="button"
+              onClick={() => navigate('/signin')}
+              className="w-full text-sm text-orange-600 font-medium hover:text-orange-700 hover:underline"
+            >
+              ← Back to sign in
+            </button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
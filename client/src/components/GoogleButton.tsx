@@ -1,5 +1,6 @@
-import { useState } from 'react';
-import { Button } from '@/components/ui/button';
+import { useEffect, useRef, useState } from 'react';
+import { googleClientId, loadGoogleIdentity } from '@/utils/google_identity';
+import { trpc } from '@/utils/trpc';
 import type { GoogleSignInInput } from '../../../server/src/schema';
 
 interface GoogleButtonProps {
@@ -7,69 +8,80 @@ interface GoogleButtonProps {
   disabled?: boolean;
 }
 
+// Renders Google's own sign-in button; the ID token it returns is verified by the server
 export function GoogleButton({ onSuccess, disabled = false }: GoogleButtonProps) {
-  const [isLoading, setIsLoading] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const onSuccessRef = useRef(onSuccess);
+  const [loadError, setLoadError] = useState<string>('');
 
-  const handleGoogleSignIn = async () => {
-    setIsLoading(true);
-    
-    try {
-      // Note: This is a mock implementation since we don't have Google OAuth set up
-      // In a real application, you would integrate with Google's OAuth API
-      
-      // Mock Google user data - in reality this would come from Google's API
-      const mockGoogleData: GoogleSignInInput = {
-        google_id: `google_${Date.now()}`,
-        email: 'user@gmail.com',
-        first_name: 'John',
-        last_name: 'Doe',
-        email_verified: true
-      };
-      
-      await onSuccess(mockGoogleData);
-    } catch (error) {
-      console.error('Google sign-in error:', error);
-    } finally {
-      setIsLoading(false);
+  useEffect(() => {
+    onSuccessRef.current = onSuccess;
+  }, [onSuccess]);
+
+  useEffect(() => {
+    if (!googleClientId) {
+      setLoadError('Google sign-in is not configured');
+      return;
     }
-  };
+
+    let cancelled = false;
+
+    // Each attempt uses a nonce the server issued to this browser, spent by the
+    // sign-in, so a fresh one is fetched before the button can be used again
+    const prepare = async () => {
+      const [googleId, { nonce }] = await Promise.all([loadGoogleIdentity(), trpc.startGoogleSignIn.mutate()]);
+      if (cancelled || !containerRef.current) return;
+
+      googleId.initialize({
+        client_id: googleClientId!,
+        nonce,
+        ux_mode: 'popup',
+        callback: async ({ credential }) => {
+          try {
+            await onSuccessRef.current({ id_token: credential, sync_profile: false });
+          } catch (error) {
+            console.error('Google sign-in error:', error);
+          } finally {
+            prepare().catch((error) => console.error('Google sign-in error:', error));
+          }
+        }
+      });
+
+      // Rendered again so the button picks up the new configuration
+      containerRef.current.replaceChildren();
+      googleId.renderButton(containerRef.current, {
+        type: 'standard',
+        theme: 'outline',
+        size: 'large',
+        text: 'continue_with',
+        shape: 'pill',
+        width: containerRef.current.offsetWidth || 320
+      });
+    };
+
+    prepare().catch((error) => {
+      console.error('Google sign-in error:', error);
+      setLoadError(error instanceof Error ? error.message : 'Google sign-in is unavailable');
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  if (loadError) {
+    return (
+      <p className="w-full text-center text-sm text-gray-500 py-3">
+        {loadError}
+      </p>
+    );
+  }
 
   return (
-    <Button
-      type="button"
-      variant="outline"
-      onClick={handleGoogleSignIn}
-      disabled={disabled || isLoading}
-      className="w-full bg-white/80 backdrop-blur-sm border-2 border-gray-200 hover:border-gray-300 hover:bg-white text-gray-700 font-semibold py-4 px-6 rounded-xl flex items-center justify-center space-x-3 shadow-md hover:shadow-lg transition-all duration-300 transform hover:scale-[1.02] disabled:opacity-50 disabled:cursor-not-allowed disabled:transform-none"
-    >
-      {isLoading ? (
-        <div className="flex items-center space-x-2">
-          <div className="animate-spin h-5 w-5 border-2 border-gray-400 border-t-transparent rounded-full"></div>
-          <span className="text-base">Connecting...</span>
-        </div>
-      ) : (
-        <>
-          <svg className="w-6 h-6 flex-shrink-0" viewBox="0 0 24 24">
-            <path
-              fill="#4285F4"
-              d="M22.56 12.25c0-.78-.07-1.53-.2-2.25H12v4.26h5.92c-.26 1.37-1.04 2.53-2.21 3.31v2.77h3.57c2.08-1.92 3.28-4.74 3.28-8.09z"
-            />
-            <path
-              fill="#34A853"
-              d="M12 23c2.97 0 5.46-.98 7.28-2.66l-3.57-2.77c-.98.66-2.23 1.06-3.71 1.06-2.86 0-5.29-1.93-6.16-4.53H2.18v2.84C3.99 20.53 7.7 23 12 23z"
-            />
-            <path
-              fill="#FBBC05"
-              d="M5.84 14.09c-.22-.66-.35-1.36-.35-2.09s.13-1.43.35-2.09V7.07H2.18C1.43 8.55 1 10.22 1 12s.43 3.45 1.18 4.93l2.85-2.22.81-.62z"
-            />
-            <path
-              fill="#EA4335"
-              d="M12 5.38c1.62 0 3.06.56 4.21 1.64l3.15-3.15C17.45 2.09 14.97 1 12 1 7.7 1 3.99 3.47 2.18 7.07l3.66 2.84c.87-2.6 3.3-4.53 6.16-4.53z"
-            />
-          </svg>
-          <span className="text-base font-semibold">Continue with Google</span>
-        </>
-      )}
-    </Button>
+    <div
+      ref={containerRef}
+      aria-disabled={disabled}
+      className={`w-full flex justify-center min-h-[44px] ${disabled ? 'pointer-events-none opacity-50' : ''}`}
+    />
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,173 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { trpc } from '@/utils/trpc';
+import type { AuthResponse, ExternalSignInResponse, LinkProofMethod } from '../../../server/src/schema';
+
+type LinkRequest = Extract<ExternalSignInResponse, { status: 'link_required' }>;
+
+interface LinkAccountPromptProps {
+  request: LinkRequest;
+  onLinked: (response: AuthResponse) => void;
+  onCancel: () => void;
+}
+
+const inputClassName = 'border-gray-300 focus:border-orange-500 focus:ring-orange-500/20 rounded-xl py-3 px-4 bg-gray-50/50 focus:bg-white';
+
+// Shown when an external sign-in matches an existing account: the user proves they
+// own that account before the provider is linked to it
+export function LinkAccountPrompt({ request, onLinked, onCancel }: LinkAccountPromptProps) {
+  const [method, setMethod] = useState<LinkProofMethod>(request.methods[0]);
+  const [password, setPassword] = useState('');
+  const [verificationCode, setVerificationCode] = useState('');
+  const [codeSent, setCodeSent] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string>('');
+  const [message, setMessage] = useState<string>('');
+
+  const sendCode = async () => {
+    setError('');
+    setIsLoading(true);
+    try {
+      const result = await trpc.sendLinkVerificationCode.mutate({ link_token: request.link_token });
+      setMessage(result.message);
+      setCodeSent(true);
+    } catch (error) {
+      console.error('Sending linking code failed:', error);
+      setError(error instanceof Error ? error.message : 'Could not send a code. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setIsLoading(true);
+
+    try {
+      const response = await trpc.linkExternalAccount.mutate(
+        method === 'password'
+          ? { link_token: request.link_token, password }
+          : { link_token: request.link_token, verification_code: verificationCode }
+      );
+      onLinked(response);
+    } catch (error) {
+      console.error('Linking account failed:', error);
+      setError(error instanceof Error ? error.message : 'Linking failed. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const switchMethod = (next: LinkProofMethod) => {
+    setMethod(next);
+    setError('');
+    setMessage('');
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-slate-50 via-orange-50 to-amber-50 px-4">
+      <div className="max-w-md w-full bg-white/95 backdrop-blur-sm p-10 border border-gray-200/50 rounded-2xl shadow-2xl">
+        <h2 className="text-3xl font-bold bg-gradient-to-r from-gray-900 to-gray-700 bg-clip-text text-transparent mb-2">
+          Link your {request.provider_name} account
+        </h2>
+        <p className="text-gray-600 text-sm mb-6">
+          An account for <span className="font-semibold">{request.email}</span> already exists.
+          {method === 'password'
+            ? ` Enter its password to use ${request.provider_name} to sign in from now on.`
+            : ' We will email you a code to confirm it is yours.'}
+        </p>
+
+        {error && (
+          <Alert className="mb-6 border-red-200/50 bg-red-50/50 rounded-xl">
+            <AlertDescription className="text-red-700 font-medium">⚠️ {error}</AlertDescription>
+          </Alert>
+        )}
+
+        {message && (
+          <Alert className="mb-6 border-emerald-200/50 bg-emerald-50/50 rounded-xl">
+            <AlertDescription className="text-emerald-700 font-medium">✓ {message}</AlertDescription>
+          </Alert>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-6">
+          {method === 'password' ? (
+            <div>
+              <Label htmlFor="link_password" className="text-sm font-semibold text-gray-800 mb-2 block">
+                Password 🔐
+              </Label>
+              <Input
+                id="link_password"
+                type="password"
+                autoComplete="current-password"
+                value={password}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setPassword(e.target.value)}
+                className={inputClassName}
+                required
+              />
+            </div>
+          ) : codeSent ? (
+            <div>
+              <Label htmlFor="link_code" className="text-sm font-semibold text-gray-800 mb-2 block">
+                Verification code
+              </Label>
+              <Input
+                id="link_code"
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                maxLength={6}
+                value={verificationCode}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setVerificationCode(e.target.value.replace(/\D/g, ''))}
+                className={`${inputClassName} tracking-[0.5em] text-center text-lg`}
+                required
+              />
+            </div>
+          ) : null}
+
+          {method === 'email_code' && !codeSent ? (
+            <Button
+              type="button"
+              onClick={sendCode}
+              disabled={isLoading}
+              className="w-full bg-gradient-to-r from-yellow-400 to-orange-400 hover:from-yellow-500 hover:to-orange-500 text-black font-bold py-4 rounded-xl shadow-lg disabled:opacity-50"
+            >
+              {isLoading ? 'Sending...' : 'Email me a code'}
+            </Button>
+          ) : (
+            <Button
+              type="submit"
+              disabled={isLoading}
+              className="w-full bg-gradient-to-r from-yellow-400 to-orange-400 hover:from-yellow-500 hover:to-orange-500 text-black font-bold py-4 rounded-xl shadow-lg disabled:opacity-50"
+            >
+              {isLoading ? 'Linking...' : `Link ${request.provider_name} and sign in`}
+            </Button>
+          )}
+        </form>
+
+        <div className="mt-6 flex flex-col items-center space-y-2 text-sm">
+          {request.methods.includes('email_code') && method === 'password' && (
+            <button type="button" onClick={() => switchMethod('email_code')} className="text-orange-600 font-medium hover:underline">
+              Use an emailed code instead
+            </button>
+          )}
+          {request.methods.includes('password') && method === 'email_code' && (
+            <button type="button" onClick={() => switchMethod('password')} className="text-orange-600 font-medium hover:underline">
+              Use my password instead
+            </button>
+          )}
+          {method === 'email_code' && codeSent && (
+            <button type="button" onClick={sendCode} disabled={isLoading} className="text-orange-600 font-medium hover:underline">
+              Send a new code
+            </button>
+          )}
+          <button type="button" onClick={onCancel} className="text-gray-500 hover:text-gray-700 hover:underline">
+            Cancel
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
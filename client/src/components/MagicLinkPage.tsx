@@ -0,0 +1,50 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { trpc } from '@/utils/trpc';
+import { navigate } from '@/utils/navigation';
+import { getBrowserKey, saveSession } from '@/utils/auth';
+import { useLinkToken, useRedeemLinkToken } from '@/utils/link_token';
+
+// Landing page for the emailed sign-in link
+export function MagicLinkPage() {
+  const token = useLinkToken();
+  const [error, setError] = useState<string>(() => token ? '' : 'This sign-in link is incomplete. Please request a new one.');
+
+  useRedeemLinkToken(token, (token) => {
+    trpc.consumeMagicLink.mutate({ token, browser_key: getBrowserKey() })
+      .then((response) => {
+        saveSession(response);
+        navigate('/account/security');
+      })
+      .catch((error: unknown) => {
+        console.error('Magic link sign-in failed:', error);
+        setError(error instanceof Error ? error.message : 'Sign-in failed. Please try again.');
+      });
+  });
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-slate-50 via-orange-50 to-amber-50 px-4">
+      <div className="max-w-md w-full bg-white/95 backdrop-blur-sm p-10 border border-gray-200/50 rounded-2xl shadow-2xl text-center">
+        {error ? (
+          <div className="space-y-6">
+            <Alert className="border-red-200/50 bg-red-50/50 rounded-xl text-left">
+              <AlertDescription className="text-red-700 font-medium">⚠️ {error}</AlertDescription>
+            </Alert>
+            <Button
+              onClick={() => navigate('/signin')}
+              className="w-full bg-gradient-to-r from-yellow-400 to-orange-400 hover:from-yellow-500 hover:to-orange-500 text-black font-bold py-3 rounded-xl"
+            >
+              Back to sign in
+            </Button>
+          </div>
+        ) : (
+          <div className="flex items-center justify-center space-x-2 text-gray-600">
+            <div className="animate-spin h-5 w-5 border-2 border-orange-500 border-t-transparent rounded-full"></div>
+            <span>Signing you in...</span>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,100 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { navigate } from '@/utils/navigation';
+import { saveSession } from '@/utils/auth';
+import { LinkAccountPrompt } from './LinkAccountPrompt';
+import type { AuthResponse, ExternalSignInResponse, LinkProofMethod } from '../../../server/src/schema';
+
+type LinkRequest = Extract<ExternalSignInResponse, { status: 'link_required' }>;
+
+type Completion =
+  | { kind: 'signed_in'; token: string; refresh_token: string; returnTo: string }
+  | { kind: 'link_required'; request: LinkRequest; returnTo: string }
+  | { kind: 'error'; message: string };
+
+const DEFAULT_RETURN_TO = '/account/security';
+
+// The server's /auth/:provider/callback redirects here with the outcome in the URL fragment
+const parseCompletion = (hash: string): Completion => {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  const returnTo = params.get('return_to') || DEFAULT_RETURN_TO;
+
+  if (params.get('status') === 'signed_in' && params.get('token') && params.get('refresh_token')) {
+    return {
+      kind: 'signed_in',
+      token: params.get('token') ?? '',
+      refresh_token: params.get('refresh_token') ?? '',
+      returnTo
+    };
+  }
+
+  if (params.get('status') === 'link_required' && params.get('link_token')) {
+    return {
+      kind: 'link_required',
+      request: {
+        status: 'link_required',
+        provider: params.get('provider') ?? '',
+        provider_name: params.get('provider_name') ?? 'your sign-in',
+        email: params.get('email') ?? '',
+        link_token: params.get('link_token') ?? '',
+        methods: (params.get('methods') ?? 'email_code').split(',') as LinkProofMethod[]
+      },
+      returnTo
+    };
+  }
+
+  return { kind: 'error', message: params.get('error') || 'Sign-in could not be completed. Please try again.' };
+};
+
+export function OAuthCompletePage() {
+  const [completion] = useState(() => parseCompletion(window.location.hash));
+
+  useEffect(() => {
+    // Tokens should not linger in the address bar or browser history
+    window.history.replaceState({}, '', window.location.pathname);
+
+    if (completion.kind === 'signed_in') {
+      saveSession(completion);
+      navigate(completion.returnTo);
+    }
+  }, [completion]);
+
+  if (completion.kind === 'link_required') {
+    return (
+      <LinkAccountPrompt
+        request={completion.request}
+        onLinked={(response: AuthResponse) => {
+          saveSession(response);
+          navigate(completion.returnTo);
+        }}
+        onCancel={() => navigate('/signin')}
+      />
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-slate-50 via-orange-50 to-amber-50 px-4">
+      <div className="max-w-md w-full bg-white/95 backdrop-blur-sm p-10 border border-gray-200/50 rounded-2xl shadow-2xl text-center">
+        {completion.kind === 'error' ? (
+          <div className="space-y-6">
+            <Alert className="border-red-200/50 bg-red-50/50 rounded-xl">
+              <AlertDescription className="text-red-700 font-medium">⚠️ {completion.message}</AlertDescription>
+            </Alert>
+            <Button
+              onClick={() => navigate('/signin')}
+              className="w-full bg-gradient-to-r from-yellow-400 to-orange-400 hover:from-yellow-500 hover:to-orange-500 text-black font-bold py-3 rounded-xl"
+            >
+              Back to sign in
+            </Button>
+          </div>
+        ) : (
+          <div className="flex items-center justify-center space-x-2 text-gray-600">
+            <div className="animate-spin h-5 w-5 border-2 border-orange-500 border-t-transparent rounded-full"></div>
+            <span>Signing you in...</span>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+import { useRef } from 'react';
+import { Input } from '@/components/ui/input';
+
+interface OtpInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  length?: number;
+  disabled?: boolean;
+  invalid?: boolean;
+  autoFocus?: boolean;
+}
+
+// One box per digit. Pasting or autofilling a whole code into any box spreads it
+// across the boxes; the first box advertises one-time-code so browsers and
+// phones offer the code from the email or SMS.
+export function OtpInput({ value, onChange, length = 6, disabled = false, invalid = false, autoFocus = false }: OtpInputProps) {
+  const inputs = useRef<(HTMLInputElement | null)[]>([]);
+  const digits = Array.from({ length }, (_, index) => value[index] ?? '');
+
+  const focusBox = (index: number) => {
+    const target = inputs.current[Math.max(0, Math.min(index, length - 1))];
+    target?.focus();
+    target?.select();
+  };
+
+  // Writes digits starting at a box, as typed, pasted or autofilled
+  const fillFrom = (index: number, entered: string) => {
+    const incoming = entered.replace(/\D/g, '');
+    if (!incoming) return;
+
+    // A full code replaces whatever was there
+    const start = incoming.length >= length ? 0 : index;
+    const next = digits.slice();
+    incoming.slice(0, length - start).split('').forEach((digit, offset) => {
+      next[start + offset] = digit;
+    });
+
+    onChange(next.join('').slice(0, length));
+    focusBox(start + incoming.length);
+  };
+
+  const handleKeyDown = (index: number, e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Backspace') {
+      e.preventDefault();
+      const next = digits.slice();
+      // Clear this box, or step back and clear the previous one if it is already empty
+      const target = digits[index] ? index : index - 1;
+      if (target < 0) return;
+      next[target] = '';
+      onChange(next.join(''));
+      focusBox(target);
+    } else if (e.key === 'ArrowLeft') {
+      e.preventDefault();
+      focusBox(index - 1);
+    } else if (e.key === 'ArrowRight') {
+      e.preventDefault();
+      focusBox(index + 1);
+    }
+  };
+
+  return (
+    <div className="flex justify-center gap-2" role="group" aria-label="Verification code">
+      {digits.map((digit, index) => (
+        <Input
+          key={index}
+          ref={(element: HTMLInputElement | null) => {
+            inputs.current[index] = element;
+          }}
+          type="text"
+          inputMode="numeric"
+          pattern="[0-9]*"
+          autoComplete={index === 0 ? 'one-time-code' : 'off'}
+          aria-label={`Digit ${index + 1} of ${length}`}
+          aria-invalid={invalid || undefined}
+          autoFocus={autoFocus && index === 0}
+          disabled={disabled}
+          value={digit}
+          onFocus={(e: React.FocusEvent<HTMLInputElement>) => e.target.select()}
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) => fillFrom(index, e.target.value.replace(digit, '') || e.target.value)}
+          onKeyDown={(e: React.KeyboardEvent<HTMLInputElement>) => handleKeyDown(index, e)}
+          onPaste={(e: React.ClipboardEvent<HTMLInputElement>) => {
+            e.preventDefault();
+            fillFrom(index, e.clipboardData.getData('text'));
+          }}
+          className="h-14 w-12 text-center text-2xl font-semibold border-gray-300 focus:border-orange-500 focus:ring-orange-500/20 rounded-xl bg-gray-50/50 focus:bg-white"
+        />
+      ))}
+    </div>
+  );
+}
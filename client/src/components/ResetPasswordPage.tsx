@@ -0,0 +1,126 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { trpc } from '@/utils/trpc';
+import { navigate } from '@/utils/navigation';
+import { clearSession } from '@/utils/auth';
+import { calculatePasswordStrength } from '@/utils/password';
+import { useLinkToken } from '@/utils/link_token';
+import { PasswordStrengthIndicator } from './PasswordStrengthIndicator';
+
+export function ResetPasswordPage() {
+  const token = useLinkToken();
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string>('');
+  const [completed, setCompleted] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (newPassword !== confirmPassword) {
+      setError('Passwords do not match.');
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const result = await trpc.resetPassword.mutate({ token, new_password: newPassword });
+      if (!result.success) {
+        setError(result.message);
+        return;
+      }
+
+      // Every session was revoked server-side, including any stored here
+      clearSession();
+      setCompleted(true);
+    } catch (error) {
+      console.error('Password reset failed:', error);
+      setError(error instanceof Error ? error.message : 'Password reset failed. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-slate-50 via-orange-50 to-amber-50 px-4">
+      <div className="max-w-md w-full bg-white/95 backdrop-blur-sm p-10 border border-gray-200/50 rounded-2xl shadow-2xl">
+        <div className="text-center mb-8">
+          <h2 className="text-3xl font-bold bg-gradient-to-r from-gray-900 to-gray-700 bg-clip-text text-transparent mb-2">
+            Create new password
+          </h2>
+          <p className="text-gray-600 text-sm">You will be signed out of all devices</p>
+        </div>
+
+        {!token ? (
+          <div className="text-center space-y-6">
+            <p className="text-gray-700">This password reset link is incomplete. Please request a new one.</p>
+            <Button onClick={() => navigate('/forgot-password')} className="w-full rounded-xl py-3">
+              Request a new link
+            </Button>
+          </div>
+        ) : completed ? (
+          <div className="text-center space-y-6">
+            <div className="text-emerald-500 text-6xl">✓</div>
+            <p className="text-gray-700">Your password has been reset. Please sign in with your new password.</p>
+            <Button onClick={() => navigate('/signin')} className="w-full rounded-xl py-3">
+              Sign in
+            </Button>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-6">
+            {error && (
+              <Alert className="border-red-200/50 bg-red-50/50 rounded-xl">
+                <AlertDescription className="text-red-700 font-medium">⚠️ {error}</AlertDescription>
+              </Alert>
+            )}
+
+            <div>
+              <Label htmlFor="new_password" className="text-sm font-semibold text-gray-800 mb-2 block">
+                New password 🔐
+              </Label>
+              <Input
+                id="new_password"
+                type="password"
+                autoComplete="new-password"
+                placeholder="At least 8 characters"
+                value={newPassword}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setNewPassword(e.target.value)}
+                className="border-gray-300 focus:border-orange-500 focus:ring-orange-500/20 rounded-xl py-3 px-4 bg-gray-50/50 focus:bg-white"
+                required
+              />
+              <PasswordStrengthIndicator strength={calculatePasswordStrength(newPassword)} password={newPassword} />
+            </div>
+
+            <div>
+              <Label htmlFor="confirm_password" className="text-sm font-semibold text-gray-800 mb-2 block">
+                Re-enter password
+              </Label>
+              <Input
+                id="confirm_password"
+                type="password"
+                autoComplete="new-password"
+                value={confirmPassword}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setConfirmPassword(e.target.value)}
+                className="border-gray-300 focus:border-orange-500 focus:ring-orange-500/20 rounded-xl py-3 px-4 bg-gray-50/50 focus:bg-white"
+                required
+              />
+            </div>
+
+            <Button
+              type="submit"
+              disabled={isLoading}
+              className="w-full bg-gradient-to-r from-yellow-400 to-orange-400 hover:from-yellow-500 hover:to-orange-500 text-black font-bold py-4 rounded-xl shadow-lg disabled:opacity-50"
+            >
+              {isLoading ? 'Saving...' : 'Save new password'}
+            </Button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,282 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { trpc, getRetryAfterSeconds } from '@/utils/trpc';
+import { formatCountdown, useCountdown } from '@/utils/countdown';
+import { navigate } from '@/utils/navigation';
+import { getBrowserKey, saveSession } from '@/utils/auth';
+import type { SignInInput, AuthResponse, SignInProvider } from '../../../server/src/schema';
+
+export function SignInPage() {
+  const [formData, setFormData] = useState<SignInInput>({
+    email: '',
+    password: ''
+  });
+
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string>('');
+  const [signedInUser, setSignedInUser] = useState<AuthResponse['user'] | null>(null);
+  const [providers, setProviders] = useState<SignInProvider[]>([]);
+  const [useMagicLink, setUseMagicLink] = useState(false);
+  const [bindToBrowser, setBindToBrowser] = useState(true);
+  const [magicLinkMessage, setMagicLinkMessage] = useState<string>('');
+  // Password sign-in waits out server-side delays and locks; the emailed link still works
+  const [throttledSeconds, startThrottle] = useCountdown(0);
+  const isThrottled = !useMagicLink && throttledSeconds > 0;
+
+  useEffect(() => {
+    trpc.listSignInProviders.query()
+      .then(setProviders)
+      .catch((error: unknown) => console.error('Loading sign-in providers failed:', error));
+  }, []);
+
+  const handleInputChange = (field: keyof SignInInput, value: string) => {
+    setFormData((prev: SignInInput) => ({ ...prev, [field]: value }));
+    setError(''); // Clear errors when user starts typing
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setIsLoading(true);
+
+    if (useMagicLink) {
+      try {
+        const result = await trpc.requestMagicLink.mutate({
+          email: formData.email,
+          browser_key: bindToBrowser ? getBrowserKey() : undefined
+        });
+        setMagicLinkMessage(result.message);
+      } catch (error) {
+        console.error('Requesting sign-in link failed:', error);
+        setError(error instanceof Error ? error.message : 'Could not send a sign-in link. Please try again.');
+      } finally {
+        setIsLoading(false);
+      }
+      return;
+    }
+
+    try {
+      const response: AuthResponse = await trpc.signIn.mutate(formData);
+      saveSession(response);
+      setSignedInUser(response.user);
+    } catch (error) {
+      console.error('Sign-in failed:', error);
+      const retryAfter = getRetryAfterSeconds(error);
+      if (retryAfter !== null) {
+        startThrottle(retryAfter);
+      }
+      setError(error instanceof Error ? error.message : 'Sign-in failed. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (signedInUser) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-orange-50 via-amber-50 to-yellow-50">
+        <div className="max-w-lg w-full mx-4">
+          <div className="bg-white p-10 border border-gray-100 rounded-2xl shadow-2xl text-center backdrop-blur-sm">
+            <div className="text-emerald-500 text-7xl mb-6">✓</div>
+            <h2 className="text-3xl font-bold bg-gradient-to-r from-gray-900 to-gray-700 bg-clip-text text-transparent mb-4">
+              Welcome back, {signedInUser.first_name}!
+            </h2>
+            <p className="text-gray-600 mb-8 text-lg leading-relaxed">
+              You are signed in as {signedInUser.email}.
+            </p>
+            <div className="space-y-3">
+              <Button
+                variant="outline"
+                onClick={() => navigate('/account/security')}
+                className="w-full rounded-xl py-3"
+              >
+                Login & security
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => navigate('/account/devices')}
+                className="w-full rounded-xl py-3"
+              >
+                Manage your devices
+              </Button>
+            </div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-orange-50 to-amber-50">
+      <div className="bg-white/80 backdrop-blur-sm border-b border-gray-200/50 sticky top-0 z-10 shadow-sm">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center justify-between h-20">
+            <div className="flex items-center space-x-3">
+              <div className="text-3xl font-black bg-gradient-to-r from-orange-600 to-yellow-600 bg-clip-text text-transparent">
+                amazon
+              </div>
+              <div className="text-sm text-gray-500 hidden sm:block">📦</div>
+            </div>
+            <div className="text-sm text-gray-600 flex items-center space-x-2">
+              <span>New to Amazon?</span>
+              <button
+                type="button"
+                onClick={() => navigate('/')}
+                className="text-orange-600 font-medium hover:text-orange-700 hover:underline transition-colors duration-200"
+              >
+                Create account →
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="flex items-center justify-center py-12 px-4 sm:px-6 lg:px-8">
+        <div className="max-w-md w-full space-y-8">
+          <div className="bg-white/95 backdrop-blur-sm p-10 border border-gray-200/50 rounded-2xl shadow-2xl">
+            <div className="text-center mb-8">
+              <h2 className="text-4xl font-bold bg-gradient-to-r from-gray-900 to-gray-700 bg-clip-text text-transparent mb-2">
+                Sign in
+              </h2>
+              <p className="text-gray-600 text-sm">Welcome back! Enter your details to continue</p>
+            </div>
+
+            {error && (
+              <Alert className="mb-6 border-red-200/50 bg-red-50/50 backdrop-blur-sm rounded-xl">
+                <div className="flex items-center space-x-2">
+                  <div className="text-red-500 text-lg">⚠️</div>
+                  <AlertDescription className="text-red-700 font-medium">{error}</AlertDescription>
+                </div>
+              </Alert>
+            )}
+
+            {magicLinkMessage && (
+              <Alert className="mb-6 border-emerald-200/50 bg-emerald-50/50 rounded-xl">
+                <AlertDescription className="text-emerald-700">
+                  📬 {magicLinkMessage} The link works once and expires soon.
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <form onSubmit={handleSubmit} className="space-y-6">
+              <div>
+                <Label htmlFor="signin_email" className="text-sm font-semibold text-gray-800 mb-2 block">
+                  Email address 📧
+                </Label>
+                <Input
+                  id="signin_email"
+                  type="email"
+                  autoComplete="email"
+                  placeholder="Enter your email"
+                  value={formData.email}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                    handleInputChange('email', e.target.value)
+                  }
+                  className="border-gray-300 focus:border-orange-500 focus:ring-orange-500/20 rounded-xl py-3 px-4 text-gray-900 placeholder-gray-400 bg-gray-50/50 focus:bg-white transition-all duration-200"
+                  required
+                />
+              </div>
+
+              {useMagicLink ? (
+                <div className="flex items-start space-x-3">
+                  <Checkbox
+                    id="bind_to_browser"
+                    checked={bindToBrowser}
+                    onCheckedChange={(checked: boolean) => setBindToBrowser(checked)}
+                    className="mt-0.5"
+                  />
+                  <Label htmlFor="bind_to_browser" className="text-sm text-gray-700 leading-relaxed">
+                    Only let the link sign in on this browser
+                  </Label>
+                </div>
+              ) : (
+                <div>
+                  <div className="flex items-center justify-between mb-2">
+                    <Label htmlFor="signin_password" className="text-sm font-semibold text-gray-800 block">
+                      Password 🔐
+                    </Label>
+                    <button
+                      type="button"
+                      onClick={() => navigate('/forgot-password')}
+                      className="text-xs text-orange-600 font-medium hover:text-orange-700 hover:underline transition-colors duration-200"
+                    >
+                      Forgot your password?
+                    </button>
+                  </div>
+                  <Input
+                    id="signin_password"
+                    type="password"
+                    autoComplete="current-password"
+                    placeholder="Enter your password"
+                    value={formData.password}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                      handleInputChange('password', e.target.value)
+                    }
+                    className="border-gray-300 focus:border-orange-500 focus:ring-orange-500/20 rounded-xl py-3 px-4 text-gray-900 placeholder-gray-400 bg-gray-50/50 focus:bg-white transition-all duration-200"
+                    required
+                  />
+                </div>
+              )}
+
+              <Button
+                type="submit"
+                disabled={isLoading || isThrottled}
+                className="w-full bg-gradient-to-r from-yellow-400 to-orange-400 hover:from-yellow-500 hover:to-orange-500 text-black font-bold py-4 px-6 rounded-xl border-0 shadow-lg hover:shadow-xl focus:ring-2 focus:ring-yellow-300/50 transition-all duration-300 transform hover:scale-[1.02] disabled:opacity-50 disabled:cursor-not-allowed disabled:transform-none text-lg"
+              >
+                {isLoading ? (
+                  <div className="flex items-center justify-center space-x-2">
+                    <div className="animate-spin h-5 w-5 border-2 border-black border-t-transparent rounded-full"></div>
+                    <span>{useMagicLink ? 'Sending link...' : 'Signing in...'}</span>
+                  </div>
+                ) : isThrottled ? (
+                  <span>Try again in {formatCountdown(throttledSeconds)}</span>
+                ) : (
+                  <span>{useMagicLink ? 'Email me a sign-in link' : 'Sign in'}</span>
+                )}
+              </Button>
+            </form>
+
+            <div className="mt-4 text-center">
+              <button
+                type="button"
+                onClick={() => {
+                  setUseMagicLink(!useMagicLink);
+                  setMagicLinkMessage('');
+                  setError('');
+                }}
+                className="text-sm text-orange-600 font-medium hover:text-orange-700 hover:underline transition-colors duration-200"
+              >
+                {useMagicLink ? 'Sign in with a password instead' : 'Email me a sign-in link'}
+              </button>
+            </div>
+
+            {providers.length > 0 && (
+              <div className="mt-8 space-y-3">
+                <div className="flex items-center space-x-3 text-xs text-gray-500">
+                  <div className="flex-1 border-t border-gray-200"></div>
+                  <span>or continue with</span>
+                  <div className="flex-1 border-t border-gray-200"></div>
+                </div>
+                {providers.map((provider: SignInProvider) => (
+                  <Button
+                    key={provider.id}
+                    type="button"
+                    variant="outline"
+                    // Full-page redirect through the server's OAuth flow
+                    onClick={() => window.location.assign(`/api/auth/${provider.id}/start?return_to=/account/security`)}
+                    className="w-full rounded-xl py-3"
+                  >
+                    Continue with {provider.name}
+                  </Button>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
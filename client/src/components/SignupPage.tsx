@@ -5,10 +5,20 @@ import { Label } from '@/components/ui/label';
 import { Separator } from '@/components/ui/separator';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { trpc } from '@/utils/trpc';
+import { trpc, getRetryAfterSeconds } from '@/utils/trpc';
+import { formatCountdown, useCountdown } from '@/utils/countdown';
+import { navigate } from '@/utils/navigation';
+import { saveSession } from '@/utils/auth';
+import { calculatePasswordStrength } from '@/utils/password';
 import { GoogleButton } from './GoogleButton';
 import { PasswordStrengthIndicator } from './PasswordStrengthIndicator';
-import type { RegisterUserInput, GoogleSignInInput, AuthResponse } from '../../../server/src/schema';
+import { LinkAccountPrompt } from './LinkAccountPrompt';
+import { VerifyEmailStep } from './VerifyEmailStep';
+import type { RegisterUserInput, RegisterUserResponse, GoogleSignInInput, ExternalSignInResponse, AuthResponse } from '../../../server/src/schema';
+
+// Identifies the wording of the marketing checkbox in the server's consent
+// records (server/src/lib/consent.ts). Changing the text needs a new version.
+const MARKETING_CONSENT_VERSION = 'signup-marketing-v1';
 
 export function SignupPage() {
   const [formData, setFormData] = useState<RegisterUserInput>({
@@ -17,26 +27,34 @@ export function SignupPage() {
     last_name: '',
     password: '',
     phone_number: '',
-    marketing_emails: false
+    marketing_emails: false,
+    marketing_consent_version: MARKETING_CONSENT_VERSION
   });
 
   const [isLoading, setIsLoading] = useState(false);
   const [emailChecking, setEmailChecking] = useState(false);
   const [emailAvailable, setEmailAvailable] = useState<boolean | null>(null);
   const [emailSuggestions, setEmailSuggestions] = useState<string[]>([]);
+  const [emailCorrection, setEmailCorrection] = useState<string | null>(null);
   const [error, setError] = useState<string>('');
   const [success, setSuccess] = useState(false);
+  const [pendingVerification, setPendingVerification] = useState<{ email: string; retryAfterSeconds: number } | null>(null);
+  const [checkInbox, setCheckInbox] = useState<Extract<RegisterUserResponse, { status: 'check_inbox' }> | null>(null);
+  const [linkRequest, setLinkRequest] = useState<Extract<ExternalSignInResponse, { status: 'link_required' }> | null>(null);
   const [passwordStrength, setPasswordStrength] = useState(0);
+  const [throttledSeconds, startThrottle] = useCountdown(0);
 
   // Check email availability with debouncing
   const checkEmail = useCallback(async (email: string) => {
     if (!email || !email.includes('@')) return;
-    
+
     setEmailChecking(true);
     try {
       const result = await trpc.checkEmailAvailability.query({ email });
+      // available is null in email privacy mode; a typo correction is still offered
       setEmailAvailable(result.available);
       setEmailSuggestions(result.suggestions || []);
+      setEmailCorrection(result.did_you_mean ?? null);
     } catch (error) {
       console.error('Email check failed:', error);
     } finally {
@@ -57,16 +75,7 @@ export function SignupPage() {
 
   // Calculate password strength
   useEffect(() => {
-    const password = formData.password;
-    let strength = 0;
-    
-    if (password.length >= 8) strength += 1;
-    if (/[a-z]/.test(password)) strength += 1;
-    if (/[A-Z]/.test(password)) strength += 1;
-    if (/\d/.test(password)) strength += 1;
-    if (/[!@#$%^&*(),.?":{}|<>]/.test(password)) strength += 1;
-    
-    setPasswordStrength(strength);
+    setPasswordStrength(calculatePasswordStrength(formData.password));
   }, [formData.password]);
 
   const handleInputChange = (field: keyof RegisterUserInput, value: string | boolean) => {
@@ -78,6 +87,7 @@ export function SignupPage() {
     setFormData((prev: RegisterUserInput) => ({ ...prev, email: suggestion }));
     setEmailAvailable(null);
     setEmailSuggestions([]);
+    setEmailCorrection(null);
   };
 
   const handleRegisterSubmit = async (e: React.FormEvent) => {
@@ -86,16 +96,28 @@ export function SignupPage() {
     setIsLoading(true);
 
     try {
-      const response: AuthResponse = await trpc.registerUser.mutate(formData);
+      const response: RegisterUserResponse = await trpc.registerUser.mutate(formData);
+      if (response.status === 'check_inbox') {
+        // Email privacy mode: new and existing addresses alike continue from the email, so nothing here says which it was
+        setCheckInbox(response);
+        return;
+      }
+
+      saveSession(response);
       setSuccess(true);
-      console.log('Registration successful:', response);
-      
-      // In a real app, you would:
-      // - Store the JWT token
-      // - Redirect to email verification page or dashboard
-      // - Handle the authentication state
-      
+
+      // New accounts confirm their email with the code that was just sent
+      if (!response.user.is_email_verified) {
+        setPendingVerification({
+          email: response.user.email,
+          retryAfterSeconds: response.verification_retry_after_seconds ?? 0
+        });
+      }
     } catch (error: any) {
+      const retryAfter = getRetryAfterSeconds(error);
+      if (retryAfter !== null) {
+        startThrottle(retryAfter);
+      }
       setError(error.message || 'Registration failed. Please try again.');
     } finally {
       setIsLoading(false);
@@ -107,12 +129,16 @@ export function SignupPage() {
     setIsLoading(true);
 
     try {
-      const response: AuthResponse = await trpc.googleSignIn.mutate(googleData);
+      const response: ExternalSignInResponse = await trpc.googleSignIn.mutate(googleData);
+      if (response.status === 'link_required') {
+        // The email belongs to an existing account; confirm ownership before linking
+        setLinkRequest(response);
+        return;
+      }
+      saveSession(response);
       setSuccess(true);
-      console.log('Google sign-in successful:', response);
       
       // In a real app, you would:
-      // - Store the JWT token
       // - Redirect to dashboard
       // - Handle the authentication state
       
@@ -123,6 +149,54 @@ export function SignupPage() {
     }
   };
 
+  const handleGoogleLinked = (response: AuthResponse) => {
+    saveSession(response);
+    setLinkRequest(null);
+    setSuccess(true);
+  };
+
+  if (linkRequest && !success) {
+    return (
+      <LinkAccountPrompt
+        request={linkRequest}
+        onLinked={handleGoogleLinked}
+        onCancel={() => setLinkRequest(null)}
+      />
+    );
+  }
+
+  if (checkInbox) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-orange-50 via-amber-50 to-yellow-50">
+        <div className="max-w-lg w-full mx-4">
+          <div className="bg-white p-10 border border-gray-100 rounded-2xl shadow-2xl text-center backdrop-blur-sm">
+            <div className="text-7xl mb-6">📬</div>
+            <h2 className="text-3xl font-bold bg-gradient-to-r from-gray-900 to-gray-700 bg-clip-text text-transparent mb-4">
+              Check your inbox
+            </h2>
+            <p className="text-gray-600 mb-2 text-lg leading-relaxed">{checkInbox.message}</p>
+            <p className="text-gray-500 mb-8 text-sm">
+              Sent to <span className="font-semibold text-gray-900">{checkInbox.email}</span>
+            </p>
+            <Button variant="outline" onClick={() => navigate('/signin')} className="w-full rounded-xl py-3">
+              Go to sign in
+            </Button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (success && pendingVerification) {
+    return (
+      <VerifyEmailStep
+        email={pendingVerification.email}
+        retryAfterSeconds={pendingVerification.retryAfterSeconds}
+        onVerified={() => setPendingVerification(null)}
+      />
+    );
+  }
+
   if (success) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-orange-50 via-amber-50 to-yellow-50">
@@ -133,9 +207,9 @@ export function SignupPage() {
               Welcome to Amazon! 🎉
             </h2>
             <p className="text-gray-600 mb-8 text-lg leading-relaxed">
-              Your account has been created successfully. Please check your email to verify your account and start shopping.
+              Your account is ready. Start shopping or review your sign-in and security settings.
             </p>
-            <Button className="w-full bg-gradient-to-r from-yellow-400 to-orange-400 hover:from-yellow-500 hover:to-orange-500 text-black font-semibold py-4 text-lg rounded-xl shadow-lg hover:shadow-xl transition-all duration-300 transform hover:scale-105">
+            <Button onClick={() => navigate('/account/security')} className="w-full bg-gradient-to-r from-yellow-400 to-orange-400 hover:from-yellow-500 hover:to-orange-500 text-black font-semibold py-4 text-lg rounded-xl shadow-lg hover:shadow-xl transition-all duration-300 transform hover:scale-105">
               Continue to Amazon
             </Button>
           </div>
@@ -158,7 +232,11 @@ export function SignupPage() {
             </div>
             <div className="text-sm text-gray-600 flex items-center space-x-2">
               <span>Already have an account?</span>
-              <button className="text-orange-600 font-medium hover:text-orange-700 hover:underline transition-colors duration-200">
+              <button
+                type="button"
+                onClick={() => navigate('/signin')}
+                className="text-orange-600 font-medium hover:text-orange-700 hover:underline transition-colors duration-200"
+              >
                 Sign in →
               </button>
             </div>
@@ -244,6 +322,19 @@ export function SignupPage() {
                     </div>
                   )}
                 </div>
+                {emailCorrection && (
+                  <p className="mt-2 text-sm text-gray-700">
+                    Did you mean{' '}
+                    <button
+                      type="button"
+                      onClick={() => handleEmailSuggestionClick(emailCorrection)}
+                      className="font-semibold text-orange-600 hover:text-orange-700 hover:underline"
+                    >
+                      {emailCorrection}
+                    </button>
+                    ?
+                  </p>
+                )}
                 {emailAvailable === false && (
                   <div className="mt-3 p-3 bg-red-50 border border-red-200 rounded-xl">
                     <p className="text-sm text-red-700 font-medium flex items-center space-x-2">
@@ -327,7 +418,7 @@ export function SignupPage() {
 
               <Button
                 type="submit"
-                disabled={isLoading || emailAvailable === false}
+                disabled={isLoading || emailAvailable === false || throttledSeconds > 0}
                 className="w-full bg-gradient-to-r from-yellow-400 to-orange-400 hover:from-yellow-500 hover:to-orange-500 text-black font-bold py-4 px-6 rounded-xl border-0 shadow-lg hover:shadow-xl focus:ring-2 focus:ring-yellow-300/50 transition-all duration-300 transform hover:scale-[1.02] disabled:opacity-50 disabled:cursor-not-allowed disabled:transform-none text-lg"
               >
                 {isLoading ? (
@@ -335,6 +426,8 @@ export function SignupPage() {
                     <div className="animate-spin h-5 w-5 border-2 border-black border-t-transparent rounded-full"></div>
                     <span>Creating your account...</span>
                   </div>
+                ) : throttledSeconds > 0 ? (
+                  <span>Try again in {formatCountdown(throttledSeconds)}</span>
                 ) : (
                   <span>🚀 Create your Amazon account</span>
                 )}
@@ -377,7 +470,11 @@ export function SignupPage() {
           <div className="text-center text-sm text-gray-600 bg-white/50 backdrop-blur-sm p-4 rounded-xl border border-gray-200/50">
             <div className="flex items-center justify-center space-x-2">
               <span>Already have an account?</span>
-              <button className="text-orange-600 font-semibold hover:text-orange-700 hover:underline transition-colors duration-200">
+              <button
+                type="button"
+                onClick={() => navigate('/signin')}
+                className="text-orange-600 font-semibold hover:text-orange-700 hover:underline transition-colors duration-200"
+              >
                 Sign in here →
               </button>
             </div>
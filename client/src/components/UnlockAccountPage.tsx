@@ -0,0 +1,76 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { trpc } from '@/utils/trpc';
+import { navigate } from '@/utils/navigation';
+import { useLinkToken, useRedeemLinkToken } from '@/utils/link_token';
+
+type UnlockState =
+  | { status: 'unlocking' }
+  | { status: 'unlocked'; message: string }
+  | { status: 'failed'; message: string };
+
+// Landing page for the link emailed when password sign-in is locked after failed attempts
+export function UnlockAccountPage() {
+  const token = useLinkToken();
+  const [state, setState] = useState<UnlockState>(() =>
+    token ? { status: 'unlocking' } : { status: 'failed', message: 'This unlock link is incomplete. Please use the link from your email.' }
+  );
+
+  useRedeemLinkToken(token, (token) => {
+    trpc.unlockAccount.mutate({ token })
+      .then((result) => {
+        setState(result.success ? { status: 'unlocked', message: result.message } : { status: 'failed', message: result.message });
+      })
+      .catch((error: unknown) => {
+        console.error('Account unlock failed:', error);
+        setState({ status: 'failed', message: error instanceof Error ? error.message : 'Unlocking failed. Please try again.' });
+      });
+  });
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-orange-50 via-amber-50 to-yellow-50 px-4">
+      <div className="max-w-lg w-full bg-white p-10 border border-gray-100 rounded-2xl shadow-2xl text-center">
+        {state.status === 'unlocking' && (
+          <div className="flex items-center justify-center space-x-2 text-gray-600">
+            <div className="animate-spin h-5 w-5 border-2 border-orange-500 border-t-transparent rounded-full"></div>
+            <span>Unlocking sign-in...</span>
+          </div>
+        )}
+
+        {state.status === 'unlocked' && (
+          <>
+            <div className="text-emerald-500 text-7xl mb-6">✓</div>
+            <h2 className="text-3xl font-bold bg-gradient-to-r from-gray-900 to-gray-700 bg-clip-text text-transparent mb-4">
+              Sign-in unlocked
+            </h2>
+            <p className="text-gray-600 mb-8">{state.message}</p>
+            <Button
+              onClick={() => navigate('/signin')}
+              className="w-full bg-gradient-to-r from-yellow-400 to-orange-400 hover:from-yellow-500 hover:to-orange-500 text-black font-semibold py-4 text-lg rounded-xl shadow-lg"
+            >
+              Continue to sign in
+            </Button>
+          </>
+        )}
+
+        {state.status === 'failed' && (
+          <div className="space-y-6">
+            <h2 className="text-3xl font-bold bg-gradient-to-r from-gray-900 to-gray-700 bg-clip-text text-transparent">
+              Could not unlock sign-in
+            </h2>
+            <Alert className="border-red-200/50 bg-red-50/50 rounded-xl text-left">
+              <AlertDescription className="text-red-700 font-medium">⚠️ {state.message}</AlertDescription>
+            </Alert>
+            <Button onClick={() => navigate('/forgot-password')} className="w-full rounded-xl py-3">
+              Reset your password
+            </Button>
+            <Button variant="outline" onClick={() => navigate('/signin')} className="w-full rounded-xl py-3">
+              Back to sign in
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { trpc } from '@/utils/trpc';
+import { navigate } from '@/utils/navigation';
+import { useLinkToken, useRedeemLinkToken } from '@/utils/link_token';
+
+type LinkState =
+  | { status: 'verifying' }
+  | { status: 'verified' }
+  | { status: 'failed'; message: string };
+
+// Landing page for the verification link emailed alongside the 6-digit code
+export function VerifyEmailLinkPage() {
+  const token = useLinkToken();
+  const [state, setState] = useState<LinkState>(() =>
+    token ? { status: 'verifying' } : { status: 'failed', message: 'This verification link is incomplete. Please request a new code.' }
+  );
+
+  useRedeemLinkToken(token, (token) => {
+    trpc.verifyEmailByToken.mutate({ token })
+      .then((result) => {
+        setState(result.success ? { status: 'verified' } : { status: 'failed', message: result.message });
+      })
+      .catch((error: unknown) => {
+        console.error('Email link verification failed:', error);
+        setState({ status: 'failed', message: error instanceof Error ? error.message : 'Verification failed. Please try again.' });
+      });
+  });
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-orange-50 via-amber-50 to-yellow-50 px-4">
+      <div className="max-w-lg w-full bg-white p-10 border border-gray-100 rounded-2xl shadow-2xl text-center">
+        {state.status === 'verifying' && (
+          <div className="flex items-center justify-center space-x-2 text-gray-600">
+            <div className="animate-spin h-5 w-5 border-2 border-orange-500 border-t-transparent rounded-full"></div>
+            <span>Verifying your email...</span>
+          </div>
+        )}
+
+        {state.status === 'verified' && (
+          <>
+            <div className="text-emerald-500 text-7xl mb-6">✓</div>
+            <h2 className="text-3xl font-bold bg-gradient-to-r from-gray-900 to-gray-700 bg-clip-text text-transparent mb-4">
+              Email verified
+            </h2>
+            <p className="text-gray-600 mb-8">Thanks for confirming your email address.</p>
+            <Button
+              onClick={() => navigate('/signin')}
+              className="w-full bg-gradient-to-r from-yellow-400 to-orange-400 hover:from-yellow-500 hover:to-orange-500 text-black font-semibold py-4 text-lg rounded-xl shadow-lg"
+            >
+              Continue to sign in
+            </Button>
+          </>
+        )}
+
+        {state.status === 'failed' && (
+          <div className="space-y-6">
+            <h2 className="text-3xl font-bold bg-gradient-to-r from-gray-900 to-gray-700 bg-clip-text text-transparent">
+              Verification failed
+            </h2>
+            <Alert className="border-red-200/50 bg-red-50/50 rounded-xl text-left">
+              <AlertDescription className="text-red-700 font-medium">⚠️ {state.message}</AlertDescription>
+            </Alert>
+            <Button variant="outline" onClick={() => navigate('/signin')} className="w-full rounded-xl py-3">
+              Back to sign in
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
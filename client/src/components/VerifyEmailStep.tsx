@@ -0,0 +1,171 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { trpc, getRetryAfterSeconds } from '@/utils/trpc';
+import { formatCountdown, useCountdown } from '@/utils/countdown';
+import { OtpInput } from './OtpInput';
+
+interface VerifyEmailStepProps {
+  email: string;
+  retryAfterSeconds: number; // From the response that sent the first code
+  onVerified: () => void;
+}
+
+const CODE_LENGTH = 6;
+
+type VerifyErrorKind = 'invalid' | 'expired' | 'locked' | 'throttled' | 'other';
+
+// Maps verifyEmail's failure messages onto what the screen should offer next
+const classifyError = (message: string): VerifyErrorKind => {
+  if (/too many incorrect attempts/i.test(message)) return 'locked';
+  if (/expired/i.test(message)) return 'expired';
+  if (/invalid verification code/i.test(message)) return 'invalid';
+  return 'other';
+};
+
+export function VerifyEmailStep({ email, retryAfterSeconds, onVerified }: VerifyEmailStepProps) {
+  const [code, setCode] = useState('');
+  const [isVerifying, setIsVerifying] = useState(false);
+  const [isResending, setIsResending] = useState(false);
+  const [error, setError] = useState<{ kind: VerifyErrorKind; message: string } | null>(null);
+  const [message, setMessage] = useState<string>('');
+  const [secondsLeft, restartCountdown] = useCountdown(retryAfterSeconds);
+  const [throttledSeconds, startThrottle] = useCountdown(0);
+
+  const verify = async (verificationCode: string) => {
+    setError(null);
+    setMessage('');
+    setIsVerifying(true);
+
+    try {
+      const result = await trpc.verifyEmail.mutate({ email, verification_code: verificationCode });
+      if (result.success) {
+        onVerified();
+        return;
+      }
+      setError({ kind: classifyError(result.message), message: result.message });
+      setCode('');
+    } catch (error) {
+      console.error('Email verification failed:', error);
+      const retryAfter = getRetryAfterSeconds(error);
+      if (retryAfter !== null) {
+        startThrottle(retryAfter);
+        setError({ kind: 'throttled', message: 'Too many attempts.' });
+        return;
+      }
+      setError({ kind: 'other', message: error instanceof Error ? error.message : 'Verification failed. Please try again.' });
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  const handleCodeChange = (next: string) => {
+    setCode(next);
+    if (error?.kind === 'invalid') setError(null);
+    // Submit as soon as the last digit arrives, including paste and autofill
+    if (next.length === CODE_LENGTH && !isVerifying) {
+      verify(next);
+    }
+  };
+
+  const resend = async () => {
+    setError(null);
+    setMessage('');
+    setIsResending(true);
+
+    try {
+      const result = await trpc.sendVerificationCode.mutate({ email });
+      restartCountdown(result.retry_after_seconds);
+      if (result.success) {
+        setCode('');
+        setMessage(result.message);
+      } else {
+        setError({ kind: 'other', message: result.message });
+      }
+    } catch (error) {
+      console.error('Resending verification code failed:', error);
+      const retryAfter = getRetryAfterSeconds(error);
+      if (retryAfter !== null) {
+        // Same wait as the resend cooldown
+        restartCountdown(retryAfter);
+        return;
+      }
+      setError({ kind: 'other', message: error instanceof Error ? error.message : 'Could not send a new code. Please try again.' });
+    } finally {
+      setIsResending(false);
+    }
+  };
+
+  // A spent code cannot succeed; only a new one can
+  const needsNewCode = error?.kind === 'expired' || error?.kind === 'locked';
+  const isThrottled = error?.kind === 'throttled' && throttledSeconds > 0;
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-orange-50 via-amber-50 to-yellow-50 px-4">
+      <div className="max-w-lg w-full bg-white p-10 border border-gray-100 rounded-2xl shadow-2xl text-center">
+        <div className="text-5xl mb-4">📬</div>
+        <h2 className="text-3xl font-bold bg-gradient-to-r from-gray-900 to-gray-700 bg-clip-text text-transparent mb-2">
+          Verify your email
+        </h2>
+        <p className="text-gray-600 mb-8">
+          Enter the 6-digit code we sent to <span className="font-semibold">{email}</span>, or open the link in that email.
+        </p>
+
+        {error && (
+          <Alert className="mb-6 border-red-200/50 bg-red-50/50 rounded-xl text-left">
+            <AlertDescription className="text-red-700 font-medium">
+              ⚠️ {error.message}
+              {isThrottled && <span aria-live="polite"> You can try again in {formatCountdown(throttledSeconds)}.</span>}
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {message && (
+          <Alert className="mb-6 border-emerald-200/50 bg-emerald-50/50 rounded-xl text-left">
+            <AlertDescription className="text-emerald-700">{message}</AlertDescription>
+          </Alert>
+        )}
+
+        <form
+          onSubmit={(e: React.FormEvent) => {
+            e.preventDefault();
+            verify(code);
+          }}
+          className="space-y-6"
+        >
+          <OtpInput
+            value={code}
+            onChange={handleCodeChange}
+            length={CODE_LENGTH}
+            disabled={isVerifying || needsNewCode || isThrottled}
+            invalid={error?.kind === 'invalid'}
+            autoFocus
+          />
+
+          <Button
+            type="submit"
+            disabled={isVerifying || needsNewCode || isThrottled || code.length !== CODE_LENGTH}
+            className="w-full bg-gradient-to-r from-yellow-400 to-orange-400 hover:from-yellow-500 hover:to-orange-500 text-black font-bold py-4 text-lg rounded-xl shadow-lg disabled:opacity-50"
+          >
+            {isVerifying ? 'Verifying...' : 'Verify email'}
+          </Button>
+        </form>
+
+        <div className="mt-6 text-sm text-gray-600">
+          {secondsLeft > 0 ? (
+            <span aria-live="polite">You can request a new code in {formatCountdown(secondsLeft)}</span>
+          ) : (
+            <button
+              type="button"
+              onClick={resend}
+              disabled={isResending}
+              className={`font-medium hover:underline disabled:opacity-50 ${needsNewCode ? 'text-orange-700 font-bold' : 'text-orange-600'}`}
+            >
+              {isResending ? 'Sending...' : needsNewCode ? 'Send me a new code' : "Didn't get it? Resend code"}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,39 @@
+// Persists the tokens returned by sign-in procedures for subsequent requests
+const ACCESS_TOKEN_KEY = 'auth.access_token';
+const REFRESH_TOKEN_KEY = 'auth.refresh_token';
+
+interface SessionTokens {
+  token?: string;
+  refresh_token?: string;
+}
+
+export function saveSession(tokens: SessionTokens) {
+  if (tokens.token) localStorage.setItem(ACCESS_TOKEN_KEY, tokens.token);
+  if (tokens.refresh_token) localStorage.setItem(REFRESH_TOKEN_KEY, tokens.refresh_token);
+}
+
+export function getAccessToken(): string | null {
+  return localStorage.getItem(ACCESS_TOKEN_KEY);
+}
+
+export function getRefreshToken(): string | null {
+  return localStorage.getItem(REFRESH_TOKEN_KEY);
+}
+
+export function clearSession() {
+  localStorage.removeItem(ACCESS_TOKEN_KEY);
+  localStorage.removeItem(REFRESH_TOKEN_KEY);
+}
+
+const BROWSER_KEY = 'auth.browser_key';
+
+// Random key that never leaves this browser except to bind sign-in links to it
+export function getBrowserKey(): string {
+  let key = localStorage.getItem(BROWSER_KEY);
+  if (!key) {
+    const bytes = crypto.getRandomValues(new Uint8Array(32));
+    key = Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+    localStorage.setItem(BROWSER_KEY, key);
+  }
+  return key;
+}
@@ -0,0 +1,19 @@
+import { useEffect, useState } from 'react';
+
+export const formatCountdown = (seconds: number): string =>
+  `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+
+// Counts down from a server-provided wait in seconds; restarts whenever a new value arrives
+export function useCountdown(initialSeconds: number): [number, (seconds: number) => void] {
+  const [deadline, setDeadline] = useState(() => Date.now() + initialSeconds * 1000);
+  const [remaining, setRemaining] = useState(initialSeconds);
+
+  useEffect(() => {
+    const tick = () => setRemaining(Math.max(0, Math.ceil((deadline - Date.now()) / 1000)));
+    tick();
+    const timer = setInterval(tick, 1000);
+    return () => clearInterval(timer);
+  }, [deadline]);
+
+  return [remaining, (seconds: number) => setDeadline(Date.now() + seconds * 1000)];
+}
@@ -0,0 +1,56 @@
+// Minimal typings and loader for Google Identity Services
+// (https://developers.google.com/identity/gsi/web)
+
+const GSI_SCRIPT_URL = 'https://accounts.google.com/gsi/client';
+
+export interface GoogleCredentialResponse {
+  credential: string; // ID token (JWT)
+}
+
+interface GoogleIdConfiguration {
+  client_id: string;
+  callback: (response: GoogleCredentialResponse) => void;
+  nonce?: string;
+  ux_mode?: 'popup' | 'redirect';
+}
+
+interface GoogleButtonConfiguration {
+  type?: 'standard' | 'icon';
+  theme?: 'outline' | 'filled_blue' | 'filled_black';
+  size?: 'large' | 'medium' | 'small';
+  text?: 'signin_with' | 'signup_with' | 'continue_with' | 'signin';
+  shape?: 'rectangular' | 'pill' | 'circle' | 'square';
+  width?: number;
+}
+
+interface GoogleAccountsId {
+  initialize: (config: GoogleIdConfiguration) => void;
+  renderButton: (parent: HTMLElement, options: GoogleButtonConfiguration) => void;
+}
+
+declare global {
+  interface Window {
+    google?: { accounts: { id: GoogleAccountsId } };
+  }
+}
+
+export const googleClientId: string | undefined = import.meta.env.VITE_GOOGLE_CLIENT_ID;
+
+let scriptPromise: Promise<GoogleAccountsId> | null = null;
+
+export function loadGoogleIdentity(): Promise<GoogleAccountsId> {
+  if (!scriptPromise) {
+    scriptPromise = new Promise((resolve, reject) => {
+      const script = document.createElement('script');
+      script.src = GSI_SCRIPT_URL;
+      script.async = true;
+      script.onload = () => window.google ? resolve(window.google.accounts.id) : reject(new Error('Google sign-in failed to load'));
+      script.onerror = () => {
+        scriptPromise = null;
+        reject(new Error('Google sign-in failed to load'));
+      };
+      document.head.appendChild(script);
+    });
+  }
+  return scriptPromise;
+}
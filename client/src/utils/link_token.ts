@@ -0,0 +1,20 @@
+import { useEffect, useRef, useState } from 'react';
+
+// The ?token= of an emailed link (verification, sign-in, unlock, password
+// reset), read once when the landing page mounts
+export function useLinkToken(): string {
+  const [token] = useState(() => new URLSearchParams(window.location.search).get('token') || '');
+  return token;
+}
+
+// Sends the link's token to the server once. Links are single-use, so the
+// request must not be repeated when StrictMode runs effects twice.
+export function useRedeemLinkToken(token: string, redeem: (token: string) => void): void {
+  const redeemed = useRef(false);
+
+  useEffect(() => {
+    if (!token || redeemed.current) return;
+    redeemed.current = true;
+    redeem(token);
+  }, [token, redeem]);
+}
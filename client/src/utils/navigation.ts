@@ -0,0 +1,26 @@
+import { useEffect, useState } from 'react';
+
+const NAVIGATION_EVENT = 'app:navigate';
+
+// Client-side navigation without a full page reload
+export function navigate(path: string) {
+  window.history.pushState({}, '', path);
+  window.dispatchEvent(new Event(NAVIGATION_EVENT));
+}
+
+// Current pathname, kept in sync with navigate() and the browser back/forward buttons
+export function usePathname(): string {
+  const [pathname, setPathname] = useState(window.location.pathname);
+
+  useEffect(() => {
+    const update = () => setPathname(window.location.pathname);
+    window.addEventListener('popstate', update);
+    window.addEventListener(NAVIGATION_EVENT, update);
+    return () => {
+      window.removeEventListener('popstate', update);
+      window.removeEventListener(NAVIGATION_EVENT, update);
+    };
+  }, []);
+
+  return pathname;
+}
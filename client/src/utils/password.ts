@@ -0,0 +1,12 @@
+// Score from 0 to 5 used by PasswordStrengthIndicator
+export function calculatePasswordStrength(password: string): number {
+  let strength = 0;
+
+  if (password.length >= 8) strength += 1;
+  if (/[a-z]/.test(password)) strength += 1;
+  if (/[A-Z]/.test(password)) strength += 1;
+  if (/\d/.test(password)) strength += 1;
+  if (/[!@#$%^&*(),.?":{}|<>]/.test(password)) strength += 1;
+
+  return strength;
+}
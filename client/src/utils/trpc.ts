@@ -1,10 +1,18 @@
-import { createTRPCClient, httpBatchLink, loggerLink } from '@trpc/client';
+import { createTRPCClient, httpBatchLink, loggerLink, TRPCClientError } from '@trpc/client';
 import type { AppRouter } from '../../../server/src';
 import superjson from 'superjson';
+import { getAccessToken, getRefreshToken, saveSession } from './auth';
 
 export const trpc = createTRPCClient<AppRouter>({
   links: [
-    httpBatchLink({ url: '/api', transformer: superjson }),
+    httpBatchLink({
+      url: '/api',
+      transformer: superjson,
+      headers() {
+        const token = getAccessToken();
+        return token ? { Authorization: `Bearer ${token}` } : {};
+      },
+    }),
     loggerLink({
           enabled: (opts) =>
             (typeof window !== 'undefined') ||
@@ -12,3 +20,28 @@ export const trpc = createTRPCClient<AppRouter>({
         }),
   ],
 });
+
+// Runs a protected call, refreshing the short-lived access token once if it has expired
+export async function withSessionRefresh<T>(call: () => Promise<T>): Promise<T> {
+  try {
+    return await call();
+  } catch (error) {
+    const refreshToken = getRefreshToken();
+    const isUnauthorized = error instanceof TRPCClientError && error.data?.code === 'UNAUTHORIZED';
+    if (!isUnauthorized || !refreshToken) {
+      throw error;
+    }
+
+    const tokens = await trpc.refreshSession.mutate({ refresh_token: refreshToken });
+    saveSession(tokens);
+    return call();
+  }
+}
+
+// The wait the server asked for when a call was rate limited; null for any other error
+export function getRetryAfterSeconds(error: unknown): number | null {
+  if (error instanceof TRPCClientError && error.data?.code === 'TOO_MANY_REQUESTS') {
+    return error.data.retry_after_seconds ?? null;
+  }
+  return null;
+}
@@ -0,0 +1,101 @@
+import type { IncomingHttpHeaders } from 'node:http';
+import { type CreateHTTPContextOptions } from '@trpc/server/adapters/standalone';
+import { and, eq, gt, isNull, lt } from 'drizzle-orm';
+import { db } from './db';
+import { usersTable, userSessionsTable, type User, type UserSession } from './db/schema';
+import { ACCESS_TOKEN_COOKIE, parseCookies } from './lib/cookies';
+import { verifyAccessToken } from './lib/tokens';
+import { getRequestMetadata, type RequestMetadata } from './lib/request_metadata';
+
+export interface AuthState {
+  user: User | null;
+  session: UserSession | null; // Current (latest, unrotated) row of the session family
+}
+
+export type Context = AuthState & Partial<CreateHTTPContextOptions> & {
+  meta: RequestMetadata;
+};
+
+const ANONYMOUS: AuthState = { user: null, session: null };
+
+// last_seen_at is only written when it is staler than this, to avoid a write per request
+const LAST_SEEN_RESOLUTION_MS = 60 * 1000;
+
+const touchSession = async (session: UserSession, meta: RequestMetadata): Promise<void> => {
+  const threshold = new Date(Date.now() - LAST_SEEN_RESOLUTION_MS);
+  if (session.last_seen_at > threshold) {
+    return;
+  }
+
+  await db.update(userSessionsTable)
+    .set({
+      last_seen_at: new Date(),
+      ip_address: meta.ip_address ?? session.ip_address
+    })
+    .where(
+      and(
+        eq(userSessionsTable.id, session.id),
+        lt(userSessionsTable.last_seen_at, threshold)
+      )
+    )
+    .execute();
+};
+
+// Bearer token takes precedence over the session cookie
+const extractAccessToken = (headers: IncomingHttpHeaders): string | null => {
+  const authorization = headers.authorization;
+  if (authorization) {
+    const match = authorization.match(/^Bearer\s+(.+)$/i);
+    return match ? match[1].trim() : null;
+  }
+
+  return parseCookies(headers.cookie)[ACCESS_TOKEN_COOKIE] ?? null;
+};
+
+// Resolves the signed-in user and session from request headers. Invalid, expired
+// or revoked credentials resolve to an anonymous request; protected procedures
+// decide whether that is an error.
+export const authenticate = async (headers: IncomingHttpHeaders, meta: RequestMetadata = {}): Promise<AuthState> => {
+  const accessToken = extractAccessToken(headers);
+  if (!accessToken) {
+    return ANONYMOUS;
+  }
+
+  try {
+    const claims = await verifyAccessToken(accessToken);
+
+    const results = await db.select()
+      .from(userSessionsTable)
+      .innerJoin(usersTable, eq(userSessionsTable.user_id, usersTable.id))
+      .where(
+        and(
+          eq(userSessionsTable.family_id, claims.sessionId),
+          eq(userSessionsTable.user_id, claims.userId),
+          isNull(userSessionsTable.rotated_at),
+          isNull(userSessionsTable.revoked_at),
+          gt(userSessionsTable.expires_at, new Date())
+        )
+      )
+      .execute();
+
+    if (results.length === 0) {
+      return ANONYMOUS;
+    }
+
+    await touchSession(results[0].user_sessions, meta);
+
+    return {
+      user: results[0].users,
+      session: results[0].user_sessions
+    };
+  } catch {
+    // Expected for expired or tampered tokens - the client should refresh
+    return ANONYMOUS;
+  }
+};
+
+export const createContext = async (opts: CreateHTTPContextOptions): Promise<Context> => {
+  const meta = getRequestMetadata(opts.req);
+  const auth = await authenticate(opts.req.headers, meta);
+  return { ...opts, ...auth, meta };
+};
@@ -1,49 +1,249 @@
-import { serial, text, pgTable, timestamp, boolean, varchar } from 'drizzle-orm/pg-core';
+import { serial, text, pgTable, timestamp, boolean, varchar, integer, uuid, index, uniqueIndex, unique, jsonb, primaryKey } from 'drizzle-orm/pg-core';
 
+// Users are unique by email_canonical; email is the address as entered, for
+// display and delivery. See lib/email_canonical.ts.
 export const usersTable = pgTable('users', {
   id: serial('id').primaryKey(),
-  email: varchar('email', { length: 255 }).notNull().unique(),
+  email: varchar('email', { length: 255 }).notNull(),
+  email_canonical: varchar('email_canonical', { length: 255 }).notNull().unique(),
   first_name: varchar('first_name', { length: 100 }).notNull(),
   last_name: varchar('last_name', { length: 100 }).notNull(),
-  password_hash: text('password_hash'), // Nullable for Google users
-  google_id: varchar('google_id', { length: 255 }), // Nullable for regular users
+  password_hash: text('password_hash'), // Nullable for users who only sign in with an external provider
   phone_number: varchar('phone_number', { length: 20 }), // Nullable
   is_email_verified: boolean('is_email_verified').notNull().default(false),
+  is_admin: boolean('is_admin').notNull().default(false),
   created_at: timestamp('created_at').defaultNow().notNull(),
   updated_at: timestamp('updated_at').defaultNow().notNull(),
 });
 
+// Table for external sign-in identities (Google, ...). A user can link one
+// identity per provider; each provider account belongs to at most one user.
+export const userIdentitiesTable = pgTable('user_identities', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').references(() => usersTable.id, { onDelete: 'cascade' }).notNull(),
+  provider: varchar('provider', { length: 32 }).notNull(), // e.g. 'google'
+  subject: varchar('subject', { length: 255 }).notNull(), // Provider's stable account ID (`sub` claim)
+  email: varchar('email', { length: 255 }), // Email reported by the provider, nullable
+  raw_claims: jsonb('raw_claims').$type<Record<string, unknown>>(), // Verified claims from the last sign-in, nullable
+  linked_at: timestamp('linked_at').defaultNow().notNull(),
+}, (table) => [
+  unique('user_identities_provider_subject_unique').on(table.provider, table.subject),
+  uniqueIndex('user_identities_user_provider_idx').on(table.user_id, table.provider),
+]);
+
 // Table for storing email verification codes
 export const emailVerificationTable = pgTable('email_verification', {
   id: serial('id').primaryKey(),
-  email: varchar('email', { length: 255 }).notNull(),
-  verification_code: varchar('verification_code', { length: 6 }).notNull(),
+  email: varchar('email', { length: 255 }).notNull(), // Canonical form of the address being verified
+  code_hash: varchar('code_hash', { length: 64 }).notNull(), // HMAC-SHA256 of the 6-digit code; see lib/verification_codes.ts
+  attempts: integer('attempts').notNull().default(0), // Wrong guesses so far
+  link_token_hash: varchar('link_token_hash', { length: 64 }).unique(), // SHA-256 of the emailed link token; same row as the code, so either one consumes both
+  purpose: varchar('purpose', { length: 32, enum: ['verify_email', 'link_account'] }).notNull().default('verify_email'), // What the code may be used for
   expires_at: timestamp('expires_at').notNull(),
   created_at: timestamp('created_at').defaultNow().notNull(),
 });
 
-// Table for tracking user sessions/tokens (optional for JWT implementation)
+// Table for tracking user sessions. Each row holds one refresh token; rotating
+// the token inserts a new row in the same family and marks the old one rotated.
+// Presenting a rotated token again is treated as theft and revokes the family.
 export const userSessionsTable = pgTable('user_sessions', {
   id: serial('id').primaryKey(),
-  user_id: serial('user_id').references(() => usersTable.id).notNull(),
-  session_token: text('session_token').notNull(),
+  user_id: integer('user_id').references(() => usersTable.id, { onDelete: 'cascade' }).notNull(),
+  family_id: uuid('family_id').notNull(), // Stable session identifier across rotations
+  refresh_token_hash: varchar('refresh_token_hash', { length: 64 }).notNull().unique(), // SHA-256 of the opaque token
+  authenticated_at: timestamp('authenticated_at').defaultNow().notNull(), // When the user last proved their credentials
+  device_name: varchar('device_name', { length: 100 }), // User-chosen label, nullable
+  user_agent: text('user_agent'), // Nullable
+  ip_address: varchar('ip_address', { length: 45 }), // Last seen IPv4/IPv6 address, nullable
+  last_seen_at: timestamp('last_seen_at').defaultNow().notNull(),
+  expires_at: timestamp('expires_at').notNull(),
+  rotated_at: timestamp('rotated_at'), // Set once the token has been exchanged for a new one
+  revoked_at: timestamp('revoked_at'), // Set when the whole family is signed out
+  created_at: timestamp('created_at').defaultNow().notNull(), // Carried across rotations: when the session started
+}, (table) => [
+  index('user_sessions_family_id_idx').on(table.family_id),
+  index('user_sessions_user_id_idx').on(table.user_id),
+]);
+
+// Table for single-use password reset links; only a hash of the token is stored
+export const passwordResetTokensTable = pgTable('password_reset_tokens', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').references(() => usersTable.id, { onDelete: 'cascade' }).notNull(),
+  token_hash: varchar('token_hash', { length: 64 }).notNull().unique(), // SHA-256 of the emailed token
+  expires_at: timestamp('expires_at').notNull(),
+  consumed_at: timestamp('consumed_at'), // Set when the token is used, nullable
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Ledger of failed password sign-ins, used for progressive delays and temporary
+// locks (lib/account_lockout.ts). Rows are keyed by a hash of the email that was
+// tried, so unknown addresses are throttled exactly like real accounts; user_id
+// is set when the email belongs to an account.
+export const signInFailuresTable = pgTable('sign_in_failures', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').references(() => usersTable.id, { onDelete: 'cascade' }), // Nullable
+  email_hash: varchar('email_hash', { length: 64 }).notNull(), // SHA-256 of the canonical email
+  ip_address: varchar('ip_address', { length: 45 }), // Nullable
+  user_agent: text('user_agent'), // Nullable
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  index('sign_in_failures_email_hash_idx').on(table.email_hash, table.created_at),
+  index('sign_in_failures_user_id_idx').on(table.user_id),
+]);
+
+// Table for the single-use links emailed when an account's sign-in is locked
+export const accountUnlockTokensTable = pgTable('account_unlock_tokens', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').references(() => usersTable.id, { onDelete: 'cascade' }).notNull(),
+  token_hash: varchar('token_hash', { length: 64 }).notNull().unique(), // SHA-256 of the emailed token
+  expires_at: timestamp('expires_at').notNull(),
+  consumed_at: timestamp('consumed_at'), // Set when the link is used, nullable
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Table for passwordless sign-in links. A link may be bound to the browser that
+// requested it by storing a hash of a random key that only that browser holds.
+export const magicLinkTokensTable = pgTable('magic_link_tokens', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').references(() => usersTable.id, { onDelete: 'cascade' }).notNull(),
+  token_hash: varchar('token_hash', { length: 64 }).notNull().unique(), // SHA-256 of the emailed token
+  browser_key_hash: varchar('browser_key_hash', { length: 64 }), // SHA-256 of the requesting browser's key; null if unbound
   expires_at: timestamp('expires_at').notNull(),
+  consumed_at: timestamp('consumed_at'), // Set when the link is used, nullable
   created_at: timestamp('created_at').defaultNow().notNull(),
 });
 
+// Table for in-flight OAuth/OIDC authorization requests. Each row is created when
+// the user is sent to the provider and consumed by the matching callback.
+export const oauthStatesTable = pgTable('oauth_states', {
+  id: serial('id').primaryKey(),
+  state_hash: varchar('state_hash', { length: 64 }).notNull().unique(), // SHA-256 of the state parameter
+  provider: varchar('provider', { length: 32 }).notNull(),
+  nonce: varchar('nonce', { length: 64 }).notNull(), // Expected in the ID token
+  code_verifier: varchar('code_verifier', { length: 128 }).notNull(), // PKCE verifier for the token request
+  redirect_uri: text('redirect_uri').notNull(), // Must match on the token request
+  return_to: text('return_to'), // App path to continue at after sign-in, nullable
+  expires_at: timestamp('expires_at').notNull(),
+  consumed_at: timestamp('consumed_at'), // Set when the callback uses the state, nullable
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Nonces for Google Identity Services sign-in, issued by the server and bound
+// to the browser by a cookie holding the binding secret. Each is used once.
+export const googleSignInNoncesTable = pgTable('google_sign_in_nonces', {
+  id: serial('id').primaryKey(),
+  binding_hash: varchar('binding_hash', { length: 64 }).notNull().unique(), // SHA-256 of the cookie's binding secret
+  nonce: varchar('nonce', { length: 64 }).notNull(), // Expected in the ID token
+  expires_at: timestamp('expires_at').notNull(),
+  consumed_at: timestamp('consumed_at'), // Set when a sign-in uses the nonce, nullable
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Append-only history of marketing consent. Each row is one choice the user
+// made for one category, with the evidence needed for an audit: when, where,
+// from which client, and which version of the wording they were shown. The
+// current preference for a category is its newest row.
+export const consentRecordsTable = pgTable('consent_records', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').references(() => usersTable.id, { onDelete: 'cascade' }).notNull(),
+  category: varchar('category', { length: 32, enum: ['promotions', 'recommendations', 'product_updates', 'surveys'] }).notNull(),
+  granted: boolean('granted').notNull(),
+  source: varchar('source', { length: 32, enum: ['registration', 'preferences_center'] }).notNull(),
+  wording_version: varchar('wording_version', { length: 64 }).notNull(), // See lib/consent.ts
+  ip_address: varchar('ip_address', { length: 45 }), // Nullable
+  user_agent: text('user_agent'), // Nullable
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  index('consent_records_user_category_idx').on(table.user_id, table.category, table.created_at),
+]);
+
+// Table for outgoing email. Handlers queue messages here and a background sender
+// (lib/email/outbox.ts) delivers them, retrying with backoff and recording the
+// outcome, so a slow or unavailable mail server never fails a request.
+export const emailOutboxTable = pgTable('email_outbox', {
+  id: serial('id').primaryKey(),
+  kind: varchar('kind', { length: 32 }).notNull(), // What the message is for, e.g. 'verify_email'
+  to_address: varchar('to_address', { length: 255 }).notNull(),
+  subject: text('subject').notNull(),
+  text_body: text('text_body').notNull(), // Emptied once the message is sent or failed; see lib/email/outbox.ts
+  html_body: text('html_body'), // Nullable, cleared with text_body
+  status: varchar('status', { length: 16, enum: ['pending', 'sending', 'sent', 'failed'] }).notNull().default('pending'),
+  attempts: integer('attempts').notNull().default(0), // Delivery attempts so far
+  next_attempt_at: timestamp('next_attempt_at').defaultNow().notNull(), // When the sender may pick the message up
+  locked_at: timestamp('locked_at'), // Set while a sender is delivering the message, nullable
+  last_error: text('last_error'), // From the most recent failed attempt, nullable
+  provider_message_id: text('provider_message_id'), // Returned by the transport on delivery, nullable
+  sent_at: timestamp('sent_at'), // Nullable
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  index('email_outbox_status_next_attempt_idx').on(table.status, table.next_attempt_at),
+  index('email_outbox_to_address_idx').on(table.to_address),
+]);
+
+// Table for rate limit counters when RATE_LIMIT_STORE=postgres (the default),
+// so limits hold across server instances. One row per key and fixed window;
+// rows are swept once expired. See lib/rate_limit.
+export const rateLimitCountersTable = pgTable('rate_limit_counters', {
+  key: varchar('key', { length: 255 }).notNull(), // Procedure, scope and subject, e.g. 'signIn:ip:203.0.113.7'
+  window_start: timestamp('window_start').notNull(),
+  count: integer('count').notNull().default(0),
+  expires_at: timestamp('expires_at').notNull(), // Once the window can no longer affect a decision
+}, (table) => [
+  primaryKey({ columns: [table.key, table.window_start] }),
+  index('rate_limit_counters_expires_at_idx').on(table.expires_at),
+]);
+
 // TypeScript types for the table schemas
 export type User = typeof usersTable.$inferSelect; // For SELECT operations
 export type NewUser = typeof usersTable.$inferInsert; // For INSERT operations
 
+export type UserIdentity = typeof userIdentitiesTable.$inferSelect;
+export type NewUserIdentity = typeof userIdentitiesTable.$inferInsert;
+
 export type EmailVerification = typeof emailVerificationTable.$inferSelect;
 export type NewEmailVerification = typeof emailVerificationTable.$inferInsert;
 
 export type UserSession = typeof userSessionsTable.$inferSelect;
 export type NewUserSession = typeof userSessionsTable.$inferInsert;
 
+export type MagicLinkToken = typeof magicLinkTokensTable.$inferSelect;
+export type NewMagicLinkToken = typeof magicLinkTokensTable.$inferInsert;
+
+export type OAuthState = typeof oauthStatesTable.$inferSelect;
+export type NewOAuthState = typeof oauthStatesTable.$inferInsert;
+
+export type GoogleSignInNonce = typeof googleSignInNoncesTable.$inferSelect;
+
+export type ConsentRecordRow = typeof consentRecordsTable.$inferSelect;
+export type NewConsentRecordRow = typeof consentRecordsTable.$inferInsert;
+
+export type RateLimitCounter = typeof rateLimitCountersTable.$inferSelect;
+
+export type OutboxEmail = typeof emailOutboxTable.$inferSelect;
+export type NewOutboxEmail = typeof emailOutboxTable.$inferInsert;
+
+export type PasswordResetToken = typeof passwordResetTokensTable.$inferSelect;
+export type NewPasswordResetToken = typeof passwordResetTokensTable.$inferInsert;
+
+export type SignInFailure = typeof signInFailuresTable.$inferSelect;
+export type NewSignInFailure = typeof signInFailuresTable.$inferInsert;
+
+export type AccountUnlockToken = typeof accountUnlockTokensTable.$inferSelect;
+export type NewAccountUnlockToken = typeof accountUnlockTokensTable.$inferInsert;
+
 // Important: Export all tables and relations for proper query building
 export const tables = { 
   users: usersTable, 
+  userIdentities: userIdentitiesTable,
   emailVerification: emailVerificationTable,
-  userSessions: userSessionsTable 
+  userSessions: userSessionsTable,
+  passwordResetTokens: passwordResetTokensTable,
+  signInFailures: signInFailuresTable,
+  accountUnlockTokens: accountUnlockTokensTable,
+  magicLinkTokens: magicLinkTokensTable,
+  oauthStates: oauthStatesTable,
+  googleSignInNonces: googleSignInNoncesTable,
+  emailOutbox: emailOutboxTable,
+  consentRecords: consentRecordsTable,
+  rateLimitCounters: rateLimitCountersTable
 };
\ No newline at end of file
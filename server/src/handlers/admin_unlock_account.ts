@@ -0,0 +1,29 @@
+import { db } from '../db';
+import { usersTable } from '../db/schema';
+import { type AdminUnlockAccountInput } from '../schema';
+import { eq } from 'drizzle-orm';
+import { clearSignInFailures } from '../lib/account_lockout';
+
+// Lifts any sign-in delay or lock on a user's account, e.g. after a support request
+export const adminUnlockAccount = async (input: AdminUnlockAccountInput): Promise<{ success: boolean; message: string }> => {
+  try {
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, input.user_id))
+      .execute();
+
+    if (users.length === 0) {
+      throw new Error('User not found');
+    }
+
+    await clearSignInFailures(users[0]);
+
+    return {
+      success: true,
+      message: 'Sign-in is unlocked for this account.'
+    };
+  } catch (error) {
+    console.error('Admin account unlock failed:', error);
+    throw error;
+  }
+};
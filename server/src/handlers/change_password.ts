@@ -0,0 +1,64 @@
+import { db } from '../db';
+import { usersTable, type User, type UserSession } from '../db/schema';
+import { type ChangePasswordInput } from '../schema';
+import { eq } from 'drizzle-orm';
+import { hashPassword, verifyPassword } from '../lib/password';
+import { revokeUserSessions } from '../lib/sessions';
+import { type RequestMetadata } from '../lib/request_metadata';
+import { clearSignInFailures, getSignInThrottle, recordSignInFailure, signInThrottledError } from '../lib/account_lockout';
+
+export const changePassword = async (
+  user: User,
+  session: UserSession,
+  input: ChangePasswordInput,
+  meta: RequestMetadata = {}
+): Promise<{ success: boolean; message: string }> => {
+  try {
+    // 1. Accounts without a password must use setPassword instead
+    if (!user.password_hash) {
+      throw new Error('Your account does not have a password yet. Please set one instead.');
+    }
+
+    // 2. Require the current password; guesses count towards the same delays
+    // and lock as sign-in, so a stolen access token cannot be used to find it
+    const throttle = await getSignInThrottle(user.email_canonical);
+    if (throttle.status !== 'open') {
+      throw signInThrottledError(throttle);
+    }
+
+    const valid = await verifyPassword(input.current_password, user.password_hash);
+    if (!valid) {
+      const after = await recordSignInFailure(user.email_canonical, user, meta);
+      if (after.status === 'locked') {
+        throw signInThrottledError(after);
+      }
+      throw new Error('Current password is incorrect');
+    }
+
+    await clearSignInFailures(user);
+
+    if (input.current_password === input.new_password) {
+      throw new Error('New password must be different from your current password');
+    }
+
+    // 3. Store the new password
+    await db.update(usersTable)
+      .set({
+        password_hash: await hashPassword(input.new_password),
+        updated_at: new Date()
+      })
+      .where(eq(usersTable.id, user.id))
+      .execute();
+
+    // 4. Sign out every other device; this one stays signed in
+    await revokeUserSessions(user.id, session.family_id);
+
+    return {
+      success: true,
+      message: 'Your password has been changed. Other devices have been signed out.'
+    };
+  } catch (error) {
+    console.error('Password change failed:', error);
+    throw error;
+  }
+};
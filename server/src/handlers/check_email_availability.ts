@@ -2,44 +2,46 @@ import { db } from '../db';
 import { usersTable } from '../db/schema';
 import { eq } from 'drizzle-orm';
 import { type CheckEmailInput, type EmailAvailability } from '../schema';
+import { isEmailPrivacyMode } from '../lib/email_privacy';
+import { canonicalizeEmail } from '../lib/email_canonical';
+import { suggestAvailableAlternatives, suggestDomainCorrection } from '../lib/email_suggestions';
 
 export const checkEmailAvailability = async (input: CheckEmailInput): Promise<EmailAvailability> => {
   try {
+    // A likely typo in the domain is worth pointing out whether or not the address is taken
+    const didYouMean = suggestDomainCorrection(input.email);
+
+    // Registration is not disclosed; duplicates are handled by email at sign-up instead
+    if (isEmailPrivacyMode()) {
+      return {
+        available: null,
+        did_you_mean: didYouMean ?? undefined
+      };
+    }
+
     // Query the database to check if email already exists
     const existingUsers = await db.select()
       .from(usersTable)
-      .where(eq(usersTable.email, input.email))
+      .where(eq(usersTable.email_canonical, canonicalizeEmail(input.email)))
       .execute();
 
     const emailExists = existingUsers.length > 0;
 
     if (emailExists) {
-      // Generate email suggestions if the original is taken
-      const emailParts = input.email.split('@');
-      const localPart = emailParts[0];
-      const domain = emailParts[1];
-
-      // Generate deterministic suggestions for better user experience
-      const currentYear = new Date().getFullYear();
-      const suggestions = [
-        `${localPart}.${currentYear}@${domain}`,
-        `${localPart}_${currentYear}@${domain}`,
-        `${localPart}.user@${domain}`,
-        `${localPart}123@${domain}`,
-        `${localPart}_official@${domain}`
-      ];
-
+      // Offer variations that nobody has registered yet
       return {
         available: false,
-        suggestions
+        suggestions: await suggestAvailableAlternatives(input.email),
+        did_you_mean: didYouMean ?? undefined
       };
     }
 
     return {
-      available: true
+      available: true,
+      did_you_mean: didYouMean ?? undefined
     };
   } catch (error) {
     console.error('Email availability check failed:', error);
     throw error;
   }
-};
\ No newline at end of file
+};
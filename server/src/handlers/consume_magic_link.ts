@@ -0,0 +1,71 @@
+import { db } from '../db';
+import { usersTable, magicLinkTokensTable } from '../db/schema';
+import { type ConsumeMagicLinkInput, type AuthResponse } from '../schema';
+import { and, eq, gt, isNull } from 'drizzle-orm';
+import { hashToken } from '../lib/tokens';
+import { createSession } from '../lib/sessions';
+import { type RequestMetadata } from '../lib/request_metadata';
+
+export const INVALID_MAGIC_LINK_MESSAGE = 'This sign-in link is invalid or has expired. Please request a new one.';
+export const MAGIC_LINK_BROWSER_MISMATCH_MESSAGE = 'Please open this sign-in link in the browser you requested it from.';
+
+export const consumeMagicLink = async (input: ConsumeMagicLinkInput, meta: RequestMetadata = {}): Promise<AuthResponse> => {
+  try {
+    const now = new Date();
+    const tokenHash = hashToken(input.token);
+
+    // 1. A bound link only works in the browser that asked for it. It is left
+    // unused so that browser can still open it.
+    const links = await db.select()
+      .from(magicLinkTokensTable)
+      .where(eq(magicLinkTokensTable.token_hash, tokenHash))
+      .execute();
+
+    const link = links[0];
+    if (!link || link.consumed_at || link.expires_at <= now) {
+      throw new Error(INVALID_MAGIC_LINK_MESSAGE);
+    }
+
+    if (link.browser_key_hash && link.browser_key_hash !== hashToken(input.browser_key ?? '')) {
+      throw new Error(MAGIC_LINK_BROWSER_MISMATCH_MESSAGE);
+    }
+
+    // 2. Consume the link atomically - a second use finds nothing to update
+    const consumed = await db.update(magicLinkTokensTable)
+      .set({ consumed_at: now })
+      .where(
+        and(
+          eq(magicLinkTokensTable.id, link.id),
+          isNull(magicLinkTokensTable.consumed_at),
+          gt(magicLinkTokensTable.expires_at, now)
+        )
+      )
+      .returning()
+      .execute();
+
+    if (consumed.length === 0) {
+      throw new Error(INVALID_MAGIC_LINK_MESSAGE);
+    }
+
+    // 3. Opening the emailed link proves the user owns the address
+    const users = await db.update(usersTable)
+      .set({ is_email_verified: true, updated_at: now })
+      .where(eq(usersTable.id, link.user_id))
+      .returning()
+      .execute();
+
+    // 4. Start a session, as for any other sign-in
+    const session = await createSession(link.user_id, meta);
+    const { password_hash, ...userWithoutPassword } = users[0];
+
+    return {
+      user: userWithoutPassword,
+      token: session.token,
+      refresh_token: session.refresh_token,
+      is_new_user: false
+    };
+  } catch (error) {
+    console.error('Magic link sign-in failed:', error);
+    throw error;
+  }
+};
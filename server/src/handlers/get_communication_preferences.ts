@@ -0,0 +1,23 @@
+import { type CommunicationPreferences } from '../schema';
+import { COMMUNICATION_CATEGORIES, currentConsent, getConsentHistory } from '../lib/consent';
+
+export const getCommunicationPreferences = async (userId: number): Promise<CommunicationPreferences> => {
+  try {
+    const history = await getConsentHistory(userId);
+    const current = currentConsent(history);
+
+    return {
+      categories: COMMUNICATION_CATEGORIES.map(definition => ({
+        category: definition.category,
+        label: definition.label,
+        description: definition.description,
+        enabled: current.get(definition.category)?.granted ?? false,
+        updated_at: current.get(definition.category)?.created_at ?? null
+      })),
+      history
+    };
+  } catch (error) {
+    console.error('Communication preferences lookup failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,24 @@
+import { db } from '../db';
+import { usersTable } from '../db/schema';
+import { type ConsentRecord, type GetConsentHistoryInput } from '../schema';
+import { eq } from 'drizzle-orm';
+import { getConsentHistory as readConsentHistory } from '../lib/consent';
+
+// Full consent history of any user, for compliance audits
+export const getConsentHistory = async (input: GetConsentHistoryInput): Promise<ConsentRecord[]> => {
+  try {
+    const users = await db.select({ id: usersTable.id })
+      .from(usersTable)
+      .where(eq(usersTable.id, input.user_id))
+      .execute();
+
+    if (users.length === 0) {
+      throw new Error('User not found');
+    }
+
+    return await readConsentHistory(input.user_id);
+  } catch (error) {
+    console.error('Consent history lookup failed:', error);
+    throw error;
+  }
+};
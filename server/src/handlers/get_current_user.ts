@@ -0,0 +1,12 @@
+import { type User } from '../db/schema';
+import { type CurrentUser } from '../schema';
+
+export const getCurrentUser = async (user: User): Promise<CurrentUser> => {
+  // The user is loaded by the request context; strip the hash before returning it
+  const { password_hash, ...userWithoutPassword } = user;
+
+  return {
+    ...userWithoutPassword,
+    has_password: password_hash !== null
+  };
+};
@@ -0,0 +1,104 @@
+import { db } from '../db';
+import { usersTable } from '../db/schema';
+import { type LinkExternalAccountInput, type AuthResponse } from '../schema';
+import { eq } from 'drizzle-orm';
+import { verifyUserPassword } from '../lib/password';
+import { createSession, revokeUserSessions } from '../lib/sessions';
+import { type RequestMetadata } from '../lib/request_metadata';
+import { readLinkToken, INVALID_LINK_TOKEN_MESSAGE } from '../lib/account_linking';
+import { findUserIdentity, linkIdentity } from '../lib/identities';
+import { checkVerificationCode, TOO_MANY_ATTEMPTS_MESSAGE } from '../lib/verification_codes';
+import { canonicalizeEmail } from '../lib/email_canonical';
+import { clearSignInFailures, getSignInThrottle, recordSignInFailure, signInThrottledError } from '../lib/account_lockout';
+import { enforceEmailRateLimit } from '../trpc';
+
+export const linkExternalAccount = async (input: LinkExternalAccountInput, meta: RequestMetadata = {}): Promise<AuthResponse> => {
+  try {
+    const request = await readLinkToken(input.link_token);
+
+    // 1. The account must still exist, still own the email and not be linked elsewhere
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, request.userId))
+      .execute();
+
+    const user = users[0];
+    if (!user || !request.identity.email || user.email_canonical !== canonicalizeEmail(request.identity.email)) {
+      throw new Error(INVALID_LINK_TOKEN_MESSAGE);
+    }
+
+    if (await findUserIdentity(user.id, request.identity.provider)) {
+      throw new Error('This account is already linked to an account with this provider.');
+    }
+
+    // 2. Prove ownership of the existing account
+    let provedEmail = false;
+
+    if (input.password !== undefined) {
+      // Password guesses count towards the same delays and lock as sign-in
+      const throttle = await getSignInThrottle(user.email_canonical);
+      if (throttle.status !== 'open') {
+        throw signInThrottledError(throttle);
+      }
+
+      const valid = user.password_hash !== null && await verifyUserPassword(user, input.password);
+      if (!valid) {
+        const after = await recordSignInFailure(user.email_canonical, user, meta);
+        if (after.status === 'locked') {
+          throw signInThrottledError(after);
+        }
+        throw new Error('Incorrect password');
+      }
+
+      await clearSignInFailures(user);
+    } else {
+      // Guesses across every code sent for this account count together
+      await enforceEmailRateLimit('linkExternalAccount', user.email_canonical);
+
+      const check = await checkVerificationCode(user.email_canonical, 'link_account', input.verification_code ?? '');
+      if (check === 'locked') {
+        throw new Error(TOO_MANY_ATTEMPTS_MESSAGE);
+      }
+      if (check !== 'valid') {
+        throw new Error('Invalid or expired verification code. Please request a new code.');
+      }
+      provedEmail = true;
+    }
+
+    // Whoever set up an unverified account never proved they own the email,
+    // so once the real owner does, their password and sessions go
+    const takesOverUnverified = provedEmail && !user.is_email_verified;
+
+    // 3. Link the identity; the existing profile is left as it is
+    const updatedUsers = await db.transaction(async (tx) => {
+      await linkIdentity(user.id, request.identity, tx);
+
+      if (takesOverUnverified) {
+        await revokeUserSessions(user.id, undefined, tx);
+      }
+
+      return tx.update(usersTable)
+        .set({
+          is_email_verified: user.is_email_verified || provedEmail || request.identity.email_verified,
+          ...(takesOverUnverified ? { password_hash: null } : {}),
+          updated_at: new Date()
+        })
+        .where(eq(usersTable.id, user.id))
+        .returning()
+        .execute();
+    });
+
+    const session = await createSession(user.id, meta);
+    const { password_hash, ...userWithoutPassword } = updatedUsers[0];
+
+    return {
+      user: userWithoutPassword,
+      token: session.token,
+      refresh_token: session.refresh_token,
+      is_new_user: false
+    };
+  } catch (error) {
+    console.error('Account linking failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,25 @@
+import { db } from '../db';
+import { userIdentitiesTable } from '../db/schema';
+import { type LinkedIdentity } from '../schema';
+import { asc, eq } from 'drizzle-orm';
+
+export const listLinkedIdentities = async (userId: number): Promise<LinkedIdentity[]> => {
+  try {
+    const identities = await db.select()
+      .from(userIdentitiesTable)
+      .where(eq(userIdentitiesTable.user_id, userId))
+      .orderBy(asc(userIdentitiesTable.linked_at))
+      .execute();
+
+    // Raw claims stay server-side
+    return identities.map(identity => ({
+      id: identity.id,
+      provider: identity.provider,
+      email: identity.email,
+      linked_at: identity.linked_at
+    }));
+  } catch (error) {
+    console.error('Identity listing failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,35 @@
+import { db } from '../db';
+import { userSessionsTable, type UserSession } from '../db/schema';
+import { type SessionSummary } from '../schema';
+import { and, desc, eq, gt, isNull } from 'drizzle-orm';
+
+export const listSessions = async (userId: number, currentSession: UserSession): Promise<SessionSummary[]> => {
+  try {
+    // Only the live (unrotated, unrevoked, unexpired) row of each family represents a device
+    const sessions = await db.select()
+      .from(userSessionsTable)
+      .where(
+        and(
+          eq(userSessionsTable.user_id, userId),
+          isNull(userSessionsTable.rotated_at),
+          isNull(userSessionsTable.revoked_at),
+          gt(userSessionsTable.expires_at, new Date())
+        )
+      )
+      .orderBy(desc(userSessionsTable.last_seen_at))
+      .execute();
+
+    return sessions.map(session => ({
+      id: session.family_id,
+      device_name: session.device_name,
+      user_agent: session.user_agent,
+      ip_address: session.ip_address,
+      created_at: session.created_at,
+      last_seen_at: session.last_seen_at,
+      is_current: session.family_id === currentSession.family_id
+    }));
+  } catch (error) {
+    console.error('Session listing failed:', error);
+    throw error;
+  }
+};
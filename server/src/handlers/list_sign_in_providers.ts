@@ -0,0 +1,15 @@
+import { type SignInProvider } from '../schema';
+import { listOAuthProviders } from '../lib/oauth/providers';
+
+export const listSignInProviders = async (): Promise<SignInProvider[]> => {
+  try {
+    // Only what the sign-in page needs to render buttons; secrets stay server-side
+    return listOAuthProviders().map(provider => ({
+      id: provider.id,
+      name: provider.name
+    }));
+  } catch (error) {
+    console.error('Sign-in provider listing failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,18 @@
+import { type RefreshSessionInput, type SessionTokensResponse } from '../schema';
+import { rotateSession } from '../lib/sessions';
+import { type RequestMetadata } from '../lib/request_metadata';
+
+export const refreshSession = async (input: RefreshSessionInput, meta: RequestMetadata = {}): Promise<SessionTokensResponse> => {
+  try {
+    // Consume the refresh token and issue a new pair in the same session
+    const session = await rotateSession(input.refresh_token, meta);
+
+    return {
+      token: session.token,
+      refresh_token: session.refresh_token
+    };
+  } catch (error) {
+    console.error('Session refresh failed:', error);
+    throw error;
+  }
+};
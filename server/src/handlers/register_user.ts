@@ -1,74 +1,150 @@
 import { db } from '../db';
-import { usersTable, emailVerificationTable } from '../db/schema';
-import { type RegisterUserInput, type AuthResponse } from '../schema';
+import { usersTable } from '../db/schema';
+import { type RegisterUserInput, type AuthResponse, type RegisterUserResponse } from '../schema';
+import { type User } from '../db/schema';
 import { eq } from 'drizzle-orm';
+import { hashPassword } from '../lib/password';
+import { createSession } from '../lib/sessions';
+import { type RequestMetadata } from '../lib/request_metadata';
+import { getVerificationCodeTtlMinutes, issueVerificationCode } from '../lib/verification_policy';
+import { queueEmail } from '../lib/email/outbox';
+import { buildEmail } from '../lib/email/templates';
+import { resolveEmailLocale } from '../lib/email/locales';
+import { recordConsent, SIGNUP_MARKETING_CATEGORIES, SIGNUP_MARKETING_CONSENT_VERSION } from '../lib/consent';
+import { buildAppUrl } from '../lib/links';
+import { isEmailPrivacyMode } from '../lib/email_privacy';
+import { canonicalizeEmail, normalizeEmail } from '../lib/email_canonical';
 
-export const registerUser = async (input: RegisterUserInput): Promise<AuthResponse> => {
-  try {
-    // 1. Check if email is already registered
-    const existingUsers = await db.select()
-      .from(usersTable)
-      .where(eq(usersTable.email, input.email))
-      .execute();
-
-    if (existingUsers.length > 0) {
-      throw new Error('Email is already registered');
-    }
+// Returned for every registration in privacy mode, whether or not the email was already registered
+export const CHECK_INBOX_MESSAGE = "Check your inbox: we've sent you an email with the next steps.";
 
-    // 2. Hash the password (simplified - in production use bcrypt)
-    const passwordHash = `hashed_${input.password}`;
+// Creates the unverified account and emails its verification code
+const createAccount = async (input: RegisterUserInput, meta: RequestMetadata): Promise<{ user: User; retryAfterSeconds: number }> => {
+  const email = normalizeEmail(input.email);
 
-    // 3. Create new user record
-    const result = await db.insert(usersTable)
-      .values({
-        email: input.email,
-        first_name: input.first_name,
-        last_name: input.last_name,
-        password_hash: passwordHash,
-        phone_number: input.phone_number || null,
-        is_email_verified: false
-      })
-      .returning()
-      .execute();
-
-    const newUser = result[0];
-
-    // 4. Generate and store email verification code
-    const verificationCode = Math.floor(100000 + Math.random() * 900000).toString();
-    const expiresAt = new Date();
-    expiresAt.setHours(expiresAt.getHours() + 24); // 24 hours expiry
-
-    await db.insert(emailVerificationTable)
-      .values({
-        email: input.email,
-        verification_code: verificationCode,
-        expires_at: expiresAt
-      })
-      .execute();
+  // 1. Check if email is already registered, in any spelling of the same address
+  const existingUsers = await db.select()
+    .from(usersTable)
+    .where(eq(usersTable.email_canonical, email.canonical))
+    .execute();
+
+  if (existingUsers.length > 0) {
+    throw new Error('Email is already registered');
+  }
+
+  // 2. Hash the password (argon2id or bcrypt, per configuration)
+  const passwordHash = await hashPassword(input.password);
+
+  // 3. Create new user record
+  const result = await db.insert(usersTable)
+    .values({
+      email: email.display,
+      email_canonical: email.canonical,
+      first_name: input.first_name,
+      last_name: input.last_name,
+      password_hash: passwordHash,
+      phone_number: input.phone_number || null,
+      is_email_verified: false
+    })
+    .returning()
+    .execute();
 
-    // 5. Generate JWT token (simplified - in production use proper JWT library)
-    const token = `jwt_token_${newUser.id}_${Date.now()}`;
+  const newUser = result[0];
+
+  // 4. Record the marketing choice, opt-out included, if the form offered one
+  if (input.marketing_emails !== undefined) {
+    await recordConsent(newUser.id, SIGNUP_MARKETING_CATEGORIES.map(category => ({
+      category,
+      granted: input.marketing_emails ?? false,
+      source: 'registration' as const,
+      wording_version: input.marketing_consent_version ?? SIGNUP_MARKETING_CONSENT_VERSION
+    })), meta);
+  }
+
+  // 5. Generate and store email verification code, and email it
+  const verification = await issueVerificationCode(email.canonical, 'verify_email');
+
+  await queueEmail(buildEmail('verify_email', email.display, resolveEmailLocale(meta.accept_language), {
+    first_name: input.first_name,
+    code: verification.code,
+    link_url: verification.link_url,
+    expires_in_minutes: getVerificationCodeTtlMinutes()
+  }));
+
+  return { user: newUser, retryAfterSeconds: verification.retry_after_seconds };
+};
+
+export const registerUser = async (input: RegisterUserInput, meta: RequestMetadata = {}): Promise<AuthResponse> => {
+  try {
+    const { user: newUser, retryAfterSeconds } = await createAccount(input, meta);
 
-    // 6. Return user data (without password hash) and token
+    // Start a session for the new user
+    const session = await createSession(newUser.id, meta);
+
+    // Return user data (without password hash) and tokens
     const userResponse = {
       id: newUser.id,
       email: newUser.email,
+      email_canonical: newUser.email_canonical,
       first_name: newUser.first_name,
       last_name: newUser.last_name,
-      google_id: newUser.google_id,
       phone_number: newUser.phone_number,
       is_email_verified: newUser.is_email_verified,
+      is_admin: newUser.is_admin,
       created_at: newUser.created_at,
       updated_at: newUser.updated_at
     };
 
     return {
       user: userResponse,
-      token,
-      is_new_user: true
+      token: session.token,
+      refresh_token: session.refresh_token,
+      is_new_user: true,
+      verification_retry_after_seconds: retryAfterSeconds
     };
   } catch (error) {
     console.error('User registration failed:', error);
     throw error;
   }
-};
\ No newline at end of file
+};
+
+// Registration as offered to clients. In email privacy mode every caller is
+// only told to check the inbox (lib/email_privacy.ts): a new account gets its
+// verification email and no session until the address is verified, and an
+// already registered email does not fail but has its owner emailed a reminder.
+export const submitRegistration = async (input: RegisterUserInput, meta: RequestMetadata = {}): Promise<RegisterUserResponse> => {
+  try {
+    if (isEmailPrivacyMode()) {
+      const existingUsers = await db.select()
+        .from(usersTable)
+        .where(eq(usersTable.email_canonical, canonicalizeEmail(input.email)))
+        .execute();
+
+      if (existingUsers.length > 0) {
+        const owner = existingUsers[0];
+
+        // Take as long as creating an account would
+        await hashPassword(input.password);
+
+        await queueEmail(buildEmail('account_exists', owner.email, resolveEmailLocale(meta.accept_language), {
+          first_name: owner.first_name,
+          sign_in_url: buildAppUrl('/signin')
+        }));
+
+      } else {
+        await createAccount(input, meta);
+      }
+
+      return {
+        status: 'check_inbox',
+        email: input.email,
+        message: CHECK_INBOX_MESSAGE
+      };
+    }
+
+    return { status: 'registered', ...await registerUser(input, meta) };
+  } catch (error) {
+    console.error('Registration failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,31 @@
+import { db } from '../db';
+import { userSessionsTable } from '../db/schema';
+import { type RenameSessionInput } from '../schema';
+import { and, eq, isNull } from 'drizzle-orm';
+
+export const renameSession = async (userId: number, input: RenameSessionInput): Promise<{ success: boolean }> => {
+  try {
+    // Rotation copies the name forward, so updating the live row is enough
+    const updated = await db.update(userSessionsTable)
+      .set({ device_name: input.device_name })
+      .where(
+        and(
+          eq(userSessionsTable.user_id, userId),
+          eq(userSessionsTable.family_id, input.session_id),
+          isNull(userSessionsTable.rotated_at),
+          isNull(userSessionsTable.revoked_at)
+        )
+      )
+      .returning()
+      .execute();
+
+    if (updated.length === 0) {
+      throw new Error('Session not found');
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error('Session rename failed:', error);
+    throw error;
+  }
+};
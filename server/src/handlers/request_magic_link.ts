@@ -0,0 +1,57 @@
+import { db } from '../db';
+import { usersTable, magicLinkTokensTable } from '../db/schema';
+import { type RequestMagicLinkInput } from '../schema';
+import { eq } from 'drizzle-orm';
+import { generateOpaqueToken, hashToken } from '../lib/tokens';
+import { buildAppUrl } from '../lib/links';
+import { type RequestMetadata } from '../lib/request_metadata';
+import { canonicalizeEmail } from '../lib/email_canonical';
+import { queueEmail } from '../lib/email/outbox';
+import { buildEmail } from '../lib/email/templates';
+import { resolveEmailLocale } from '../lib/email/locales';
+import { invalidateEmailedLinks } from '../lib/emailed_links';
+
+// Identical for known and unknown emails so the endpoint cannot be used to probe for accounts
+export const MAGIC_LINK_REQUESTED_MESSAGE = 'If an account exists for that email, we have sent a link to sign in.';
+
+const getMagicLinkTtlMinutes = (): number =>
+  parseInt(process.env['MAGIC_LINK_TTL_MINUTES'] ?? '', 10) || 15;
+
+export async function requestMagicLink(input: RequestMagicLinkInput, meta: RequestMetadata = {}): Promise<{ success: boolean; message: string }> {
+  try {
+    const existingUsers = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.email_canonical, canonicalizeEmail(input.email)))
+      .execute();
+
+    if (existingUsers.length > 0) {
+      const user = existingUsers[0];
+
+      await invalidateEmailedLinks(magicLinkTokensTable, user.id);
+
+      const token = generateOpaqueToken();
+
+      await db.insert(magicLinkTokensTable)
+        .values({
+          user_id: user.id,
+          token_hash: hashToken(token),
+          browser_key_hash: input.browser_key ? hashToken(input.browser_key) : null,
+          expires_at: new Date(Date.now() + getMagicLinkTtlMinutes() * 60 * 1000)
+        })
+        .execute();
+
+      await queueEmail(buildEmail('magic_link', user.email, resolveEmailLocale(meta.accept_language), {
+        sign_in_url: buildAppUrl('/magic-link', { token }),
+        expires_in_minutes: getMagicLinkTtlMinutes()
+      }));
+    }
+
+    return {
+      success: true,
+      message: MAGIC_LINK_REQUESTED_MESSAGE
+    };
+  } catch (error) {
+    console.error('Magic link request failed:', error);
+    throw error;
+  }
+}
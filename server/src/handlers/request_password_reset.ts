@@ -0,0 +1,57 @@
+import { db } from '../db';
+import { usersTable, passwordResetTokensTable } from '../db/schema';
+import { type RequestPasswordResetInput } from '../schema';
+import { eq } from 'drizzle-orm';
+import { generateOpaqueToken, hashToken } from '../lib/tokens';
+import { buildAppUrl } from '../lib/links';
+import { type RequestMetadata } from '../lib/request_metadata';
+import { canonicalizeEmail } from '../lib/email_canonical';
+import { queueEmail } from '../lib/email/outbox';
+import { buildEmail } from '../lib/email/templates';
+import { resolveEmailLocale } from '../lib/email/locales';
+import { invalidateEmailedLinks } from '../lib/emailed_links';
+
+// Identical for known and unknown emails so the endpoint cannot be used to probe for accounts
+export const PASSWORD_RESET_REQUESTED_MESSAGE = 'If an account exists for that email, we have sent a link to reset your password.';
+
+const getResetTokenTtlMinutes = (): number =>
+  parseInt(process.env['PASSWORD_RESET_TOKEN_TTL_MINUTES'] ?? '', 10) || 60;
+
+export async function requestPasswordReset(input: RequestPasswordResetInput, meta: RequestMetadata = {}): Promise<{ success: boolean; message: string }> {
+  try {
+    const existingUsers = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.email_canonical, canonicalizeEmail(input.email)))
+      .execute();
+
+    if (existingUsers.length > 0) {
+      const user = existingUsers[0];
+
+      await invalidateEmailedLinks(passwordResetTokensTable, user.id);
+
+      const token = generateOpaqueToken();
+      const expiresAt = new Date(Date.now() + getResetTokenTtlMinutes() * 60 * 1000);
+
+      await db.insert(passwordResetTokensTable)
+        .values({
+          user_id: user.id,
+          token_hash: hashToken(token),
+          expires_at: expiresAt
+        })
+        .execute();
+
+      await queueEmail(buildEmail('password_reset', user.email, resolveEmailLocale(meta.accept_language), {
+        reset_url: buildAppUrl('/reset-password', { token }),
+        expires_in_minutes: getResetTokenTtlMinutes()
+      }));
+    }
+
+    return {
+      success: true,
+      message: PASSWORD_RESET_REQUESTED_MESSAGE
+    };
+  } catch (error) {
+    console.error('Password reset request failed:', error);
+    throw error;
+  }
+}
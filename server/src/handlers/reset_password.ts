@@ -0,0 +1,60 @@
+import { db } from '../db';
+import { usersTable, passwordResetTokensTable } from '../db/schema';
+import { type ResetPasswordInput } from '../schema';
+import { and, eq, gt, isNull } from 'drizzle-orm';
+import { hashToken } from '../lib/tokens';
+import { hashPassword } from '../lib/password';
+import { revokeUserSessions } from '../lib/sessions';
+import { clearSignInFailures } from '../lib/account_lockout';
+
+export async function resetPassword(input: ResetPasswordInput): Promise<{ success: boolean; message: string }> {
+  try {
+    const now = new Date();
+
+    // 1. Consume the token atomically - a second use finds nothing to update
+    const consumed = await db.update(passwordResetTokensTable)
+      .set({ consumed_at: now })
+      .where(
+        and(
+          eq(passwordResetTokensTable.token_hash, hashToken(input.token)),
+          isNull(passwordResetTokensTable.consumed_at),
+          gt(passwordResetTokensTable.expires_at, now)
+        )
+      )
+      .returning()
+      .execute();
+
+    if (consumed.length === 0) {
+      return {
+        success: false,
+        message: 'This password reset link is invalid or has expired. Please request a new one.'
+      };
+    }
+
+    const resetToken = consumed[0];
+
+    // 2. Store the new password
+    const users = await db.update(usersTable)
+      .set({
+        password_hash: await hashPassword(input.new_password),
+        updated_at: now
+      })
+      .where(eq(usersTable.id, resetToken.user_id))
+      .returning()
+      .execute();
+
+    // 3. Sign out everywhere - whoever triggered the reset may not be the only one with access
+    await revokeUserSessions(resetToken.user_id);
+
+    // 4. Failed attempts against the old password no longer matter, so lift any sign-in lock
+    await clearSignInFailures(users[0]);
+
+    return {
+      success: true,
+      message: 'Your password has been reset. Please sign in with your new password.'
+    };
+  } catch (error) {
+    console.error('Password reset failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,14 @@
+import { type UserSession } from '../db/schema';
+import { revokeUserSessions } from '../lib/sessions';
+
+export const revokeAllOtherSessions = async (userId: number, currentSession: UserSession): Promise<{ revoked_count: number }> => {
+  try {
+    // Keep the session making the request signed in
+    const revokedCount = await revokeUserSessions(userId, currentSession.family_id);
+
+    return { revoked_count: revokedCount };
+  } catch (error) {
+    console.error('Revoking other sessions failed:', error);
+    throw error;
+  }
+};
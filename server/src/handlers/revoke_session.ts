@@ -0,0 +1,30 @@
+import { db } from '../db';
+import { userSessionsTable } from '../db/schema';
+import { type RevokeSessionInput } from '../schema';
+import { and, eq, isNull } from 'drizzle-orm';
+
+export const revokeSession = async (userId: number, input: RevokeSessionInput): Promise<{ success: boolean }> => {
+  try {
+    // Scope by user so nobody can sign out someone else's session
+    const revoked = await db.update(userSessionsTable)
+      .set({ revoked_at: new Date() })
+      .where(
+        and(
+          eq(userSessionsTable.user_id, userId),
+          eq(userSessionsTable.family_id, input.session_id),
+          isNull(userSessionsTable.revoked_at)
+        )
+      )
+      .returning()
+      .execute();
+
+    if (revoked.length === 0) {
+      throw new Error('Session not found');
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error('Session revocation failed:', error);
+    throw error;
+  }
+};
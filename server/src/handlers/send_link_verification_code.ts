@@ -0,0 +1,57 @@
+import { db } from '../db';
+import { usersTable } from '../db/schema';
+import { type SendLinkVerificationCodeInput } from '../schema';
+import { eq } from 'drizzle-orm';
+import { readLinkToken, INVALID_LINK_TOKEN_MESSAGE } from '../lib/account_linking';
+import { getResendRetryAfterSeconds, getVerificationCodeTtlMinutes, issueVerificationCode } from '../lib/verification_policy';
+import { type RequestMetadata } from '../lib/request_metadata';
+import { getOAuthProvider } from '../lib/oauth/providers';
+import { queueEmail } from '../lib/email/outbox';
+import { buildEmail } from '../lib/email/templates';
+import { resolveEmailLocale } from '../lib/email/locales';
+import { enforceEmailRateLimit, TooManyRequestsError } from '../trpc';
+
+export async function sendLinkVerificationCode(input: SendLinkVerificationCodeInput, meta: RequestMetadata = {}): Promise<{ success: boolean; message: string }> {
+  try {
+    const request = await readLinkToken(input.link_token);
+
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, request.userId))
+      .execute();
+
+    if (users.length === 0) {
+      throw new Error(INVALID_LINK_TOKEN_MESSAGE);
+    }
+
+    const user = users[0];
+
+    // Same cooldown and per-email allowance as email verification codes, so
+    // resending cannot be used to get a fresh set of guesses at will
+    const retryAfterSeconds = await getResendRetryAfterSeconds(user.email_canonical, 'link_account');
+    if (retryAfterSeconds > 0) {
+      throw new TooManyRequestsError(
+        retryAfterSeconds,
+        'A verification code was already sent recently. Please check your email or wait before requesting a new code.'
+      );
+    }
+    await enforceEmailRateLimit('sendLinkVerificationCode', user.email_canonical);
+
+    // Only the most recent linking code works
+    const verification = await issueVerificationCode(user.email_canonical, 'link_account');
+
+    await queueEmail(buildEmail('link_account', user.email, resolveEmailLocale(meta.accept_language), {
+      code: verification.code,
+      provider_name: getOAuthProvider(request.identity.provider)?.name ?? request.identity.provider,
+      expires_in_minutes: getVerificationCodeTtlMinutes()
+    }));
+
+    return {
+      success: true,
+      message: 'We sent a verification code to your email. Enter it to link your account.'
+    };
+  } catch (error) {
+    console.error('Link verification code sending failed:', error);
+    throw error;
+  }
+}
@@ -1,78 +1,73 @@
 import { db } from '../db';
-import { emailVerificationTable, usersTable } from '../db/schema';
-import { type CheckEmailInput } from '../schema';
-import { eq, and, gt, lt } from 'drizzle-orm';
+import { usersTable } from '../db/schema';
+import { type CheckEmailInput, type SendVerificationCodeResponse } from '../schema';
+import { eq } from 'drizzle-orm';
+import { getResendRetryAfterSeconds, getVerificationCodeTtlMinutes, issueVerificationCode } from '../lib/verification_policy';
+import { type RequestMetadata } from '../lib/request_metadata';
+import { normalizeEmail } from '../lib/email_canonical';
+import { queueEmail } from '../lib/email/outbox';
+import { buildEmail } from '../lib/email/templates';
+import { resolveEmailLocale } from '../lib/email/locales';
+import { buildAppUrl } from '../lib/links';
+import { isEmailPrivacyMode } from '../lib/email_privacy';
 
-export async function sendVerificationCode(input: CheckEmailInput): Promise<{ success: boolean; message: string }> {
+export async function sendVerificationCode(input: CheckEmailInput, meta: RequestMetadata = {}): Promise<SendVerificationCodeResponse> {
   try {
+    const email = normalizeEmail(input.email);
+
     // Check if user already exists and is verified
     const existingUsers = await db.select()
       .from(usersTable)
-      .where(eq(usersTable.email, input.email))
+      .where(eq(usersTable.email_canonical, email.canonical))
       .execute();
 
-    if (existingUsers.length > 0 && existingUsers[0].is_email_verified) {
+    // In privacy mode a verified account is answered like any other email below
+    const alreadyVerified = existingUsers.length > 0 && existingUsers[0].is_email_verified;
+    if (alreadyVerified && !isEmailPrivacyMode()) {
       return {
         success: false,
-        message: 'This email is already registered and verified. Please sign in instead.'
+        message: 'This email is already registered and verified. Please sign in instead.',
+        retry_after_seconds: 0
       };
     }
 
-    // Clean up expired verification codes for this email
-    const now = new Date();
-    await db.delete(emailVerificationTable)
-      .where(
-        and(
-          eq(emailVerificationTable.email, input.email),
-          lt(emailVerificationTable.expires_at, now)
-        )
-      )
-      .execute();
-
-    // Check if there's already a valid (non-expired) verification code
-    const existingCodes = await db.select()
-      .from(emailVerificationTable)
-      .where(
-        and(
-          eq(emailVerificationTable.email, input.email),
-          gt(emailVerificationTable.expires_at, now)
-        )
-      )
-      .execute();
-
-    if (existingCodes.length > 0) {
+    // A new code can be requested once the resend cooldown has passed, even
+    // while the previous code is still valid
+    const retryAfterSeconds = await getResendRetryAfterSeconds(email.canonical, 'verify_email');
+    if (retryAfterSeconds > 0) {
       return {
         success: false,
-        message: 'A verification code was already sent recently. Please check your email or wait before requesting a new code.'
+        message: 'A verification code was already sent recently. Please check your email or wait before requesting a new code.',
+        retry_after_seconds: retryAfterSeconds
       };
     }
 
-    // Generate a 6-digit verification code
-    const verificationCode = Math.floor(100000 + Math.random() * 900000).toString();
-    const expiresAt = new Date(Date.now() + 15 * 60 * 1000); // 15 minutes from now
-
-    // Store verification code in database
-    await db.insert(emailVerificationTable)
-      .values({
-        email: input.email,
-        verification_code: verificationCode,
-        expires_at: expiresAt
-      })
-      .execute();
+    // Replaces (and so invalidates) any earlier code for this email
+    const verification = await issueVerificationCode(email.canonical, 'verify_email');
 
-    // In a real application, you would send the email here
-    // For now, we'll just log it (in production, use a proper email service)
-    console.log(`Verification code for ${input.email}: ${verificationCode}`);
-    
-    // Simulate email sending (in production, replace with actual email service)
-    // await emailService.sendVerificationCode(input.email, verificationCode);
+    if (alreadyVerified) {
+      // The code is stored only so the resend cooldown matches; the owner is
+      // reminded that they already have an account instead
+      await queueEmail(buildEmail('account_exists', existingUsers[0].email, resolveEmailLocale(meta.accept_language), {
+        first_name: existingUsers[0].first_name,
+        sign_in_url: buildAppUrl('/signin')
+      }));
+    } else {
+      await queueEmail(buildEmail('verify_email', existingUsers[0]?.email ?? email.display, resolveEmailLocale(meta.accept_language), {
+        first_name: existingUsers[0]?.first_name ?? null,
+        code: verification.code,
+        link_url: verification.link_url,
+        expires_in_minutes: getVerificationCodeTtlMinutes()
+      }));
+    }
 
     return {
       success: true,
-      message: 'Verification code sent to your email. Please check your inbox.'
+      message: 'Verification code sent to your email. Please check your inbox.',
+      retry_after_seconds: verification.retry_after_seconds
     };
   } catch (error) {
     console.error('Verification code sending failed:', error);
     throw error;
   }
-}
\ No newline at end of file
+}
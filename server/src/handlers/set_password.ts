@@ -0,0 +1,57 @@
+import { db } from '../db';
+import { usersTable, type User, type UserSession } from '../db/schema';
+import { type SetPasswordInput } from '../schema';
+import { and, eq, isNull } from 'drizzle-orm';
+import { hashPassword } from '../lib/password';
+import { revokeUserSessions } from '../lib/sessions';
+
+export const REAUTHENTICATION_REQUIRED_MESSAGE = 'For your security, please sign in again before setting a password.';
+
+// How long after signing in a session may perform sensitive changes
+const getRecentAuthMaxAgeSeconds = (): number =>
+  parseInt(process.env['RECENT_AUTH_MAX_AGE_SECONDS'] ?? '', 10) || 5 * 60;
+
+export const setPassword = async (user: User, session: UserSession, input: SetPasswordInput): Promise<{ success: boolean; message: string }> => {
+  try {
+    // 1. Only accounts without a password (e.g. Google sign-up) can set one
+    if (user.password_hash) {
+      throw new Error('Your account already has a password. Use change password instead.');
+    }
+
+    // 2. There is no current password to confirm, so require a fresh sign-in instead
+    const authAgeMs = Date.now() - session.authenticated_at.getTime();
+    if (authAgeMs > getRecentAuthMaxAgeSeconds() * 1000) {
+      throw new Error(REAUTHENTICATION_REQUIRED_MESSAGE);
+    }
+
+    // 3. Store the password, guarding against a concurrent setPassword call
+    const updated = await db.update(usersTable)
+      .set({
+        password_hash: await hashPassword(input.new_password),
+        updated_at: new Date()
+      })
+      .where(
+        and(
+          eq(usersTable.id, user.id),
+          isNull(usersTable.password_hash)
+        )
+      )
+      .returning()
+      .execute();
+
+    if (updated.length === 0) {
+      throw new Error('Your account already has a password. Use change password instead.');
+    }
+
+    // 4. Sign out every other device; this one stays signed in
+    await revokeUserSessions(user.id, session.family_id);
+
+    return {
+      success: true,
+      message: 'Your password has been set. You can now sign in with your email and password.'
+    };
+  } catch (error) {
+    console.error('Setting password failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,82 @@
+import { db } from '../db';
+import { usersTable } from '../db/schema';
+import { type SignInInput, type AuthResponse } from '../schema';
+import { eq } from 'drizzle-orm';
+import { randomBytes } from 'node:crypto';
+import { hashPassword, verifyPassword, verifyUserPassword } from '../lib/password';
+import { createSession } from '../lib/sessions';
+import { type RequestMetadata } from '../lib/request_metadata';
+import { clearSignInFailures, getSignInThrottle, recordSignInFailure, signInThrottledError } from '../lib/account_lockout';
+import { canonicalizeEmail } from '../lib/email_canonical';
+import { isEmailPrivacyMode } from '../lib/email_privacy';
+
+// Same message for unknown emails, passwordless accounts and wrong passwords
+export const INVALID_CREDENTIALS_MESSAGE = 'Invalid email or password';
+
+// Hash of a random secret, verified against when there is no real hash to check,
+// so failures take as long as a genuine password comparison
+let timingEqualizerHash: Promise<string> | null = null;
+
+const getTimingEqualizerHash = (): Promise<string> => {
+  if (!timingEqualizerHash) {
+    timingEqualizerHash = hashPassword(randomBytes(32).toString('hex'));
+  }
+  return timingEqualizerHash;
+};
+
+export const signIn = async (input: SignInInput, meta: RequestMetadata = {}): Promise<AuthResponse> => {
+  try {
+    // 1. Refuse without checking the password while a delay or lock applies
+    const throttle = await getSignInThrottle(input.email);
+    if (throttle.status !== 'open') {
+      throw signInThrottledError(throttle);
+    }
+
+    // 2. Look up the account by email
+    const existingUsers = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.email_canonical, canonicalizeEmail(input.email)))
+      .execute();
+
+    const user = existingUsers[0];
+
+    // 3. Check the password, doing equivalent work when there is nothing to check
+    let valid = false;
+    if (user && user.password_hash) {
+      valid = await verifyUserPassword(user, input.password);
+    } else {
+      await verifyPassword(input.password, await getTimingEqualizerHash());
+    }
+
+    // In privacy mode anyone can register an address, so an account only
+    // signs in with its password once the address has been verified
+    if (valid && isEmailPrivacyMode() && !user.is_email_verified) {
+      valid = false;
+    }
+
+    if (!user || !valid) {
+      const after = await recordSignInFailure(input.email, user ?? null, meta);
+      if (after.status === 'locked') {
+        throw signInThrottledError(after);
+      }
+      throw new Error(INVALID_CREDENTIALS_MESSAGE);
+    }
+
+    // 4. Start a session; earlier failures no longer count
+    await clearSignInFailures(user);
+    const session = await createSession(user.id, meta);
+
+    // 5. Return user data (without password hash) and tokens
+    const { password_hash, ...userWithoutPassword } = user;
+
+    return {
+      user: userWithoutPassword,
+      token: session.token,
+      refresh_token: session.refresh_token,
+      is_new_user: false
+    };
+  } catch (error) {
+    console.error('Sign-in failed:', error);
+    throw error;
+  }
+};
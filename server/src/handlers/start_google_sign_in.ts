@@ -0,0 +1,16 @@
+import type { ServerResponse } from 'node:http';
+import { type GoogleSignInNonceResponse } from '../schema';
+import { createGoogleNonce, googleNonceCookie } from '../lib/google_nonce';
+
+// Issues the nonce for the next Google sign-in and binds it to this browser
+export const startGoogleSignIn = async (res?: ServerResponse): Promise<GoogleSignInNonceResponse> => {
+  try {
+    const { nonce, binding } = await createGoogleNonce();
+    res?.setHeader('Set-Cookie', googleNonceCookie(binding));
+
+    return { nonce };
+  } catch (error) {
+    console.error('Starting Google sign-in failed:', error);
+    throw error;
+  }
+};
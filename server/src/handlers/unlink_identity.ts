@@ -0,0 +1,60 @@
+import { db } from '../db';
+import { userIdentitiesTable, usersTable } from '../db/schema';
+import { type UnlinkIdentityInput } from '../schema';
+import { and, eq, ne } from 'drizzle-orm';
+
+export const LAST_SIGN_IN_METHOD_MESSAGE = 'You cannot unlink your only way to sign in. Set a password first.';
+
+export const unlinkIdentity = async (userId: number, input: UnlinkIdentityInput): Promise<{ success: boolean; message: string }> => {
+  try {
+    return await db.transaction(async (tx) => {
+      // Lock the user row so two concurrent unlinks cannot remove every sign-in method
+      const users = await tx.select()
+        .from(usersTable)
+        .where(eq(usersTable.id, userId))
+        .for('update')
+        .execute();
+
+      // Scope by user so nobody can unlink someone else's identity
+      const identities = await tx.select()
+        .from(userIdentitiesTable)
+        .where(
+          and(
+            eq(userIdentitiesTable.id, input.identity_id),
+            eq(userIdentitiesTable.user_id, userId)
+          )
+        )
+        .execute();
+
+      if (users.length === 0 || identities.length === 0) {
+        throw new Error('Linked account not found');
+      }
+
+      const otherIdentities = await tx.select({ id: userIdentitiesTable.id })
+        .from(userIdentitiesTable)
+        .where(
+          and(
+            eq(userIdentitiesTable.user_id, userId),
+            ne(userIdentitiesTable.id, input.identity_id)
+          )
+        )
+        .execute();
+
+      if (users[0].password_hash === null && otherIdentities.length === 0) {
+        throw new Error(LAST_SIGN_IN_METHOD_MESSAGE);
+      }
+
+      await tx.delete(userIdentitiesTable)
+        .where(eq(userIdentitiesTable.id, input.identity_id))
+        .execute();
+
+      return {
+        success: true,
+        message: 'The account has been unlinked.'
+      };
+    });
+  } catch (error) {
+    console.error('Identity unlinking failed:', error);
+    throw error;
+  }
+};
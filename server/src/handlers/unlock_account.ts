@@ -0,0 +1,49 @@
+import { db } from '../db';
+import { usersTable, accountUnlockTokensTable } from '../db/schema';
+import { type UnlockAccountInput } from '../schema';
+import { and, eq, gt, isNull } from 'drizzle-orm';
+import { hashToken } from '../lib/tokens';
+import { clearSignInFailures } from '../lib/account_lockout';
+
+// Lifts a sign-in lock using the link emailed when the lock was applied
+export async function unlockAccount(input: UnlockAccountInput): Promise<{ success: boolean; message: string }> {
+  try {
+    const now = new Date();
+
+    // 1. Consume the token atomically - a second use finds nothing to update
+    const consumed = await db.update(accountUnlockTokensTable)
+      .set({ consumed_at: now })
+      .where(
+        and(
+          eq(accountUnlockTokensTable.token_hash, hashToken(input.token)),
+          isNull(accountUnlockTokensTable.consumed_at),
+          gt(accountUnlockTokensTable.expires_at, now)
+        )
+      )
+      .returning()
+      .execute();
+
+    if (consumed.length === 0) {
+      return {
+        success: false,
+        message: 'This unlock link is invalid or has expired. You can wait for the lock to end or reset your password.'
+      };
+    }
+
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, consumed[0].user_id))
+      .execute();
+
+    // 2. Forget the failed attempts that caused the lock
+    await clearSignInFailures(users[0]);
+
+    return {
+      success: true,
+      message: 'Sign-in is unlocked. You can sign in with your password again.'
+    };
+  } catch (error) {
+    console.error('Account unlock failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,45 @@
+import { db } from '../db';
+import { usersTable } from '../db/schema';
+import { type CommunicationPreferences, type UpdateCommunicationPreferencesInput } from '../schema';
+import { eq } from 'drizzle-orm';
+import { type RequestMetadata } from '../lib/request_metadata';
+import { COMMUNICATION_CATEGORIES, currentConsent, getConsentHistory, recordConsent } from '../lib/consent';
+import { getCommunicationPreferences } from './get_communication_preferences';
+
+export const updateCommunicationPreferences = async (
+  userId: number,
+  input: UpdateCommunicationPreferencesInput,
+  meta: RequestMetadata = {}
+): Promise<CommunicationPreferences> => {
+  try {
+    await db.transaction(async (tx) => {
+      // Serialize updates per user so each change is compared with the latest choice
+      await tx.select({ id: usersTable.id })
+        .from(usersTable)
+        .where(eq(usersTable.id, userId))
+        .for('update')
+        .execute();
+
+      const current = currentConsent(await getConsentHistory(userId, tx));
+
+      // Only actual changes go into the history; the last entry for a category wins
+      const requested = new Map(input.preferences.map(preference => [preference.category, preference.enabled]));
+      const changes = COMMUNICATION_CATEGORIES
+        .filter(definition => requested.has(definition.category))
+        .filter(definition => requested.get(definition.category) !== (current.get(definition.category)?.granted ?? false))
+        .map(definition => ({
+          category: definition.category,
+          granted: requested.get(definition.category) ?? false,
+          source: 'preferences_center' as const,
+          wording_version: definition.wording_version
+        }));
+
+      await recordConsent(userId, changes, meta, tx);
+    });
+
+    return await getCommunicationPreferences(userId);
+  } catch (error) {
+    console.error('Communication preferences update failed:', error);
+    throw error;
+  }
+};
@@ -1,67 +1,77 @@
-import { db } from '../db';
-import { usersTable, emailVerificationTable } from '../db/schema';
+import { usersTable, type User } from '../db/schema';
 import { type VerifyEmailInput } from '../schema';
-import { eq, and } from 'drizzle-orm';
+import { eq } from 'drizzle-orm';
+import { type RequestMetadata } from '../lib/request_metadata';
+import { sendWelcomeEmail } from '../lib/account_notifications';
+import { checkVerificationCode, TOO_MANY_ATTEMPTS_MESSAGE } from '../lib/verification_codes';
+import { canonicalizeEmail } from '../lib/email_canonical';
 
-export async function verifyEmail(input: VerifyEmailInput): Promise<{ success: boolean; message: string }> {
+export async function verifyEmail(input: VerifyEmailInput, meta: RequestMetadata = {}): Promise<{ success: boolean; message: string }> {
   try {
-    // 1. Find the verification record by email and code
-    const verificationRecords = await db.select()
-      .from(emailVerificationTable)
-      .where(
-        and(
-          eq(emailVerificationTable.email, input.email),
-          eq(emailVerificationTable.verification_code, input.verification_code)
-        )
-      )
-      .execute();
+    const email = canonicalizeEmail(input.email);
+    let newlyVerified: User | null = null;
 
-    if (verificationRecords.length === 0) {
+    // 1. Check the code against the pending verification for this email and mark
+    // the email as verified when it matches. A wrong code and an email with no
+    // pending code get the same response.
+    const check = await checkVerificationCode(email, 'verify_email', input.verification_code, async (tx) => {
+      const users = await tx.select()
+        .from(usersTable)
+        .where(eq(usersTable.email_canonical, email))
+        .execute();
+
+      // Keep the code if there is no account to verify
+      if (users.length === 0) {
+        return false;
+      }
+
+      if (!users[0].is_email_verified) {
+        await tx.update(usersTable)
+          .set({ 
+            is_email_verified: true,
+            updated_at: new Date()
+          })
+          .where(eq(usersTable.id, users[0].id))
+          .execute();
+        newlyVerified = users[0];
+      }
+      return true;
+    });
+
+    if (check === 'invalid') {
       return {
         success: false,
         message: 'Invalid verification code. Please check your email and try again.'
       };
     }
 
-    const verificationRecord = verificationRecords[0];
-
-    // 2. Check if the code is expired
-    const now = new Date();
-    if (verificationRecord.expires_at < now) {
-      // Clean up expired record
-      await db.delete(emailVerificationTable)
-        .where(eq(emailVerificationTable.id, verificationRecord.id))
-        .execute();
-
+    if (check === 'expired') {
       return {
         success: false,
         message: 'Verification code has expired. Please request a new code.'
       };
     }
 
-    // 3. Mark the user's email as verified in the database
-    const updateResult = await db.update(usersTable)
-      .set({ 
-        is_email_verified: true,
-        updated_at: now
-      })
-      .where(eq(usersTable.email, input.email))
-      .execute();
+    if (check === 'locked') {
+      return {
+        success: false,
+        message: TOO_MANY_ATTEMPTS_MESSAGE
+      };
+    }
 
-    // Check if user was found and updated
-    if (updateResult.rowCount === 0) {
+    if (check === 'declined') {
       return {
         success: false,
         message: 'User account not found. Please contact support.'
       };
     }
 
-    // 4. Delete the verification record
-    await db.delete(emailVerificationTable)
-      .where(eq(emailVerificationTable.id, verificationRecord.id))
-      .execute();
+    // 2. Welcome the user the first time their email is verified
+    if (newlyVerified) {
+      await sendWelcomeEmail(newlyVerified, meta);
+    }
 
-    // 5. Return success status and message
+    // 3. Return success status and message
     return {
       success: true,
       message: 'Email successfully verified!'
@@ -70,4 +80,4 @@ export async function verifyEmail(input: VerifyEmailInput): Promise<{ success: b
     console.error('Email verification failed:', error);
     throw error;
   }
-}
\ No newline at end of file
+}
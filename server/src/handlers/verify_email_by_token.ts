@@ -0,0 +1,96 @@
+import { db } from '../db';
+import { usersTable, emailVerificationTable } from '../db/schema';
+import { type VerifyEmailByTokenInput } from '../schema';
+import { and, eq, TransactionRollbackError } from 'drizzle-orm';
+import { hashToken } from '../lib/tokens';
+import { type RequestMetadata } from '../lib/request_metadata';
+import { sendWelcomeEmail } from '../lib/account_notifications';
+
+export const INVALID_VERIFICATION_LINK_MESSAGE = 'This verification link is invalid or has already been used.';
+
+export async function verifyEmailByToken(input: VerifyEmailByTokenInput, meta: RequestMetadata = {}): Promise<{ success: boolean; message: string }> {
+  try {
+    const records = await db.select()
+      .from(emailVerificationTable)
+      .where(
+        and(
+          eq(emailVerificationTable.link_token_hash, hashToken(input.token)),
+          eq(emailVerificationTable.purpose, 'verify_email')
+        )
+      )
+      .execute();
+
+    const record = records[0];
+    if (!record) {
+      return { success: false, message: INVALID_VERIFICATION_LINK_MESSAGE };
+    }
+
+    if (record.expires_at < new Date()) {
+      await db.delete(emailVerificationTable)
+        .where(eq(emailVerificationTable.id, record.id))
+        .execute();
+
+      return {
+        success: false,
+        message: 'This verification link has expired. Please request a new code.'
+      };
+    }
+
+    // The link and the code share one row, so consuming it spends both
+    const verified = await db.transaction(async (tx) => {
+      const consumed = await tx.delete(emailVerificationTable)
+        .where(eq(emailVerificationTable.id, record.id))
+        .returning()
+        .execute();
+      if (consumed.length === 0) {
+        return false;
+      }
+
+      const users = await tx.select()
+        .from(usersTable)
+        .where(eq(usersTable.email_canonical, record.email))
+        .execute();
+      if (users.length === 0) {
+        tx.rollback();
+      }
+
+      if (!users[0].is_email_verified) {
+        await tx.update(usersTable)
+          .set({ is_email_verified: true, updated_at: new Date() })
+          .where(eq(usersTable.id, users[0].id))
+          .execute();
+        return { welcome: users[0] };
+      }
+      return { welcome: null };
+    }).catch((error: unknown) => {
+      if (error instanceof TransactionRollbackError) {
+        return null;
+      }
+      throw error;
+    });
+
+    if (verified === null) {
+      return {
+        success: false,
+        message: 'User account not found. Please contact support.'
+      };
+    }
+
+    if (!verified) {
+      return { success: false, message: INVALID_VERIFICATION_LINK_MESSAGE };
+    }
+
+    // Welcome the user the first time their email is verified
+    if (verified.welcome) {
+      await sendWelcomeEmail(verified.welcome, meta);
+    }
+
+    return {
+      success: true,
+      message: 'Email successfully verified!'
+    };
+  } catch (error) {
+    console.error('Email link verification failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,156 @@
+import { createHash } from 'node:crypto';
+import { SignJWT, exportJWK, generateKeyPair, type CryptoKey, type JWTPayload } from 'jose';
+
+// Local stand-in for an OpenID Connect provider, used by tests in place of
+// Google and friends. It publishes discovery metadata and a JWKS, signs ID
+// tokens, and implements the token endpoint of the authorization-code + PKCE
+// flow. GitHub-shaped profile routes (/user, /user/emails) serve plain OAuth2 tests.
+
+export interface OidcIssuerStub {
+  url: string;
+  jwksUrl: string;
+  clientId: string;
+  clientSecret: string;
+  signIdToken: (claims: JWTPayload, options?: SignIdTokenOptions) => Promise<string>;
+  // Simulates the user approving an authorization URL; returns what the provider redirects back with
+  authorize: (authorizationUrl: string, claims: JWTPayload) => { code: string; state: string; redirectUri: string };
+  stop: () => void;
+}
+
+export interface SignIdTokenOptions {
+  expiresAt?: number | string; // Epoch seconds or a relative time; defaults to '1h'
+  key?: CryptoKey; // Sign with a different key than the one published
+}
+
+export interface OidcIssuerOptions {
+  clientId?: string;
+  clientSecret?: string;
+}
+
+interface PendingCode {
+  claims: JWTPayload;
+  nonce: string | null;
+  codeChallenge: string;
+  redirectUri: string;
+}
+
+export const startOidcIssuer = async (options: OidcIssuerOptions = {}): Promise<OidcIssuerStub> => {
+  const clientId = options.clientId ?? 'test-client';
+  const clientSecret = options.clientSecret ?? 'test-secret';
+
+  const { publicKey, privateKey } = await generateKeyPair('RS256', { extractable: true });
+  const kid = 'test-key';
+  const jwk = { ...(await exportJWK(publicKey)), kid, alg: 'RS256', use: 'sig' };
+
+  const pendingCodes = new Map<string, PendingCode>();
+  const accessTokens = new Map<string, JWTPayload>();
+  let url = '';
+  let counter = 0;
+
+  const signIdToken = (claims: JWTPayload, signOptions: SignIdTokenOptions = {}) =>
+    new SignJWT(claims)
+      .setProtectedHeader({ alg: 'RS256', kid })
+      .setIssuedAt()
+      .setExpirationTime(signOptions.expiresAt ?? '1h')
+      .sign(signOptions.key ?? privateKey);
+
+  const tokenError = (error: string) => Response.json({ error }, { status: 400 });
+
+  const handleToken = async (request: Request): Promise<Response> => {
+    const form = new URLSearchParams(await request.text());
+    const pending = pendingCodes.get(form.get('code') ?? '');
+    pendingCodes.delete(form.get('code') ?? ''); // Codes are single-use
+
+    if (form.get('grant_type') !== 'authorization_code' || !pending) {
+      return tokenError('invalid_grant');
+    }
+    if (form.get('client_id') !== clientId || form.get('client_secret') !== clientSecret) {
+      return tokenError('invalid_client');
+    }
+    if (form.get('redirect_uri') !== pending.redirectUri) {
+      return tokenError('invalid_grant');
+    }
+    const challenge = createHash('sha256').update(form.get('code_verifier') ?? '').digest('base64url');
+    if (challenge !== pending.codeChallenge) {
+      return tokenError('invalid_grant');
+    }
+
+    const accessToken = `access-${++counter}`;
+    accessTokens.set(accessToken, pending.claims);
+
+    return Response.json({
+      access_token: accessToken,
+      token_type: 'Bearer',
+      expires_in: 3600,
+      id_token: await signIdToken({
+        iss: url,
+        aud: clientId,
+        ...(pending.nonce ? { nonce: pending.nonce } : {}),
+        ...pending.claims
+      })
+    });
+  };
+
+  const profileFor = (request: Request): JWTPayload | undefined =>
+    accessTokens.get((request.headers.get('authorization') ?? '').replace(/^Bearer\s+/i, ''));
+
+  const server = Bun.serve({
+    port: 0,
+    fetch: async (request: Request) => {
+      const { pathname } = new URL(request.url);
+
+      if (pathname === '/.well-known/openid-configuration') {
+        return Response.json({
+          issuer: url,
+          authorization_endpoint: `${url}/authorize`,
+          token_endpoint: `${url}/token`,
+          userinfo_endpoint: `${url}/userinfo`,
+          jwks_uri: `${url}/jwks`,
+          token_endpoint_auth_methods_supported: ['client_secret_post']
+        });
+      }
+      if (pathname === '/jwks') {
+        return Response.json({ keys: [jwk] });
+      }
+      if ((pathname === '/token' || pathname === '/login/oauth/access_token') && request.method === 'POST') {
+        return handleToken(request);
+      }
+      if (pathname === '/userinfo' || pathname === '/user' || pathname === '/user/emails') {
+        const profile = profileFor(request);
+        if (!profile) {
+          return new Response('Unauthorized', { status: 401 });
+        }
+        return Response.json(pathname === '/user/emails' ? profile['emails'] ?? [] : profile);
+      }
+      return new Response('Not found', { status: 404 });
+    }
+  });
+
+  url = `http://127.0.0.1:${server.port}`;
+
+  return {
+    url,
+    jwksUrl: `${url}/jwks`,
+    clientId,
+    clientSecret,
+    signIdToken,
+    authorize: (authorizationUrl, claims) => {
+      const params = new URL(authorizationUrl).searchParams;
+      if (params.get('client_id') !== clientId || params.get('code_challenge_method') !== 'S256') {
+        throw new Error('Stub issuer rejected the authorization request');
+      }
+
+      const code = `code-${++counter}`;
+      const redirectUri = params.get('redirect_uri') ?? '';
+      pendingCodes.set(code, {
+        claims,
+        nonce: params.get('nonce'),
+        codeChallenge: params.get('code_challenge') ?? '',
+        redirectUri
+      });
+
+      return { code, state: params.get('state') ?? '', redirectUri };
+    },
+    stop: () => server.stop(true)
+  };
+};
@@ -0,0 +1,110 @@
+import { createServer, type AddressInfo, type Socket } from 'node:net';
+
+// Local SMTP server that accepts every message and keeps it, used by tests in
+// place of a real mail server. It speaks just enough ESMTP for nodemailer
+// (no TLS, no auth). Recipients listed in rejectRecipients are refused.
+
+export interface ReceivedMessage {
+  from: string;
+  to: string[];
+  data: string; // Raw message as sent, with dot-stuffing removed
+}
+
+export interface SmtpSinkStub {
+  url: string;
+  messages: ReceivedMessage[];
+  stop: () => Promise<void>;
+}
+
+export interface SmtpSinkOptions {
+  rejectRecipients?: string[];
+}
+
+const addressOf = (line: string): string => (line.match(/<([^>]*)>/)?.[1] ?? '').toLowerCase();
+
+const handleConnection = (socket: Socket, messages: ReceivedMessage[], options: SmtpSinkOptions): void => {
+  let buffer = '';
+  let inData = false;
+  let envelope: ReceivedMessage = { from: '', to: [], data: '' };
+  const reply = (line: string) => socket.write(`${line}\r\n`);
+
+  const handleCommand = (line: string) => {
+    const command = line.slice(0, 4).toUpperCase();
+
+    if (command === 'EHLO' || command === 'HELO') {
+      reply('250-localhost');
+      reply('250 8BITMIME');
+    } else if (command === 'MAIL') {
+      envelope = { from: addressOf(line), to: [], data: '' };
+      reply('250 OK');
+    } else if (command === 'RCPT') {
+      const recipient = addressOf(line);
+      if (options.rejectRecipients?.includes(recipient)) {
+        reply('550 No such user');
+      } else {
+        envelope.to.push(recipient);
+        reply('250 OK');
+      }
+    } else if (command === 'DATA') {
+      inData = true;
+      reply('354 End data with <CR><LF>.<CR><LF>');
+    } else if (command === 'RSET') {
+      envelope = { from: '', to: [], data: '' };
+      reply('250 OK');
+    } else if (command === 'QUIT') {
+      reply('221 Bye');
+      socket.end();
+    } else {
+      reply('250 OK');
+    }
+  };
+
+  socket.setEncoding('utf8');
+  reply('220 localhost ESMTP sink');
+
+  socket.on('data', (chunk: string) => {
+    buffer += chunk;
+
+    while (true) {
+      if (inData) {
+        const end = buffer.indexOf('\r\n.\r\n');
+        if (end === -1) return;
+        envelope.data = buffer.slice(0, end).replace(/^\.\./gm, '.');
+        buffer = buffer.slice(end + 5);
+        inData = false;
+        messages.push(envelope);
+        reply(`250 OK queued as sink-${messages.length}`);
+        continue;
+      }
+
+      const end = buffer.indexOf('\r\n');
+      if (end === -1) return;
+      const line = buffer.slice(0, end);
+      buffer = buffer.slice(end + 2);
+      handleCommand(line);
+    }
+  });
+};
+
+export const startSmtpSink = async (options: SmtpSinkOptions = {}): Promise<SmtpSinkStub> => {
+  const messages: ReceivedMessage[] = [];
+  const sockets = new Set<Socket>();
+
+  const server = createServer((socket) => {
+    sockets.add(socket);
+    socket.on('close', () => sockets.delete(socket));
+    handleConnection(socket, messages, options);
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `smtp://127.0.0.1:${port}`,
+    messages,
+    stop: () => new Promise<void>((resolve) => {
+      for (const socket of sockets) socket.destroy();
+      server.close(() => resolve());
+    })
+  };
+};
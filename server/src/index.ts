@@ -1,45 +1,198 @@
-import { initTRPC } from '@trpc/server';
 import { createHTTPServer } from '@trpc/server/adapters/standalone';
 import 'dotenv/config';
 import cors from 'cors';
-import superjson from 'superjson';
+import { createContext } from './context';
+import { handleOAuthRoute } from './routes/oauth';
+import { handleDevEmailRoute } from './routes/dev_email';
+import { startOutboxSender } from './lib/email/outbox';
+import { router, publicProcedure, protectedProcedure, adminProcedure, TooManyRequestsError } from './trpc';
 
 // Import schemas
 import { 
   registerUserInputSchema, 
+  signInInputSchema,
   googleSignInInputSchema, 
+  linkExternalAccountInputSchema,
+  sendLinkVerificationCodeInputSchema,
+  refreshSessionInputSchema,
+  revokeSessionInputSchema,
+  renameSessionInputSchema,
+  unlinkIdentityInputSchema,
+  requestPasswordResetInputSchema,
+  resetPasswordInputSchema,
+  unlockAccountInputSchema,
+  adminUnlockAccountInputSchema,
+  requestMagicLinkInputSchema,
+  consumeMagicLinkInputSchema,
+  changePasswordInputSchema,
+  setPasswordInputSchema,
   verifyEmailInputSchema,
-  checkEmailInputSchema
+  verifyEmailByTokenInputSchema,
+  checkEmailInputSchema,
+  updateCommunicationPreferencesInputSchema,
+  getConsentHistoryInputSchema
 } from './schema';
 
 // Import handlers
-import { registerUser } from './handlers/register_user';
+import { submitRegistration } from './handlers/register_user';
+import { signIn } from './handlers/sign_in';
 import { googleSignIn } from './handlers/google_sign_in';
+import { startGoogleSignIn } from './handlers/start_google_sign_in';
+import { readGoogleNonceBinding } from './lib/google_nonce';
+import { linkExternalAccount } from './handlers/link_external_account';
+import { sendLinkVerificationCode } from './handlers/send_link_verification_code';
+import { refreshSession } from './handlers/refresh_session';
 import { checkEmailAvailability } from './handlers/check_email_availability';
 import { verifyEmail } from './handlers/verify_email';
+import { verifyEmailByToken } from './handlers/verify_email_by_token';
 import { sendVerificationCode } from './handlers/send_verification_code';
-
-const t = initTRPC.create({
-  transformer: superjson,
-});
-
-const publicProcedure = t.procedure;
-const router = t.router;
+import { getCurrentUser } from './handlers/get_current_user';
+import { listSessions } from './handlers/list_sessions';
+import { revokeSession } from './handlers/revoke_session';
+import { revokeAllOtherSessions } from './handlers/revoke_all_other_sessions';
+import { renameSession } from './handlers/rename_session';
+import { listLinkedIdentities } from './handlers/list_linked_identities';
+import { unlinkIdentity } from './handlers/unlink_identity';
+import { listSignInProviders } from './handlers/list_sign_in_providers';
+import { requestPasswordReset } from './handlers/request_password_reset';
+import { resetPassword } from './handlers/reset_password';
+import { unlockAccount } from './handlers/unlock_account';
+import { adminUnlockAccount } from './handlers/admin_unlock_account';
+import { requestMagicLink } from './handlers/request_magic_link';
+import { consumeMagicLink } from './handlers/consume_magic_link';
+import { changePassword } from './handlers/change_password';
+import { setPassword } from './handlers/set_password';
+import { getCommunicationPreferences } from './handlers/get_communication_preferences';
+import { updateCommunicationPreferences } from './handlers/update_communication_preferences';
+import { getConsentHistory } from './handlers/get_consent_history';
 
 const appRouter = router({
   healthcheck: publicProcedure.query(() => {
     return { status: 'ok', timestamp: new Date().toISOString() };
   }),
 
-  // User registration endpoint
+  // User registration endpoint (in email privacy mode, an existing email gets a "check your inbox" response)
   registerUser: publicProcedure
     .input(registerUserInputSchema)
-    .mutation(({ input }) => registerUser(input)),
+    .mutation(({ input, ctx }) => submitRegistration(input, ctx.meta)),
+
+  // Email/password sign-in endpoint
+  signIn: publicProcedure
+    .input(signInInputSchema)
+    .mutation(({ input, ctx }) => signIn(input, ctx.meta)),
+
+  // Issue the nonce for a Google sign-in, bound to this browser by a cookie
+  startGoogleSignIn: publicProcedure
+    .mutation(({ ctx }) => startGoogleSignIn(ctx.res)),
 
   // Google sign-in endpoint
   googleSignIn: publicProcedure
     .input(googleSignInInputSchema)
-    .mutation(({ input }) => googleSignIn(input)),
+    .mutation(({ input, ctx }) => googleSignIn(input, ctx.meta, readGoogleNonceBinding(ctx.req?.headers.cookie))),
+
+  // Link a sign-in provider to an existing account after proving ownership with a password or emailed code
+  linkExternalAccount: publicProcedure
+    .input(linkExternalAccountInputSchema)
+    .mutation(({ input, ctx }) => linkExternalAccount(input, ctx.meta)),
+
+  // Email a code that proves ownership of the account being linked
+  sendLinkVerificationCode: publicProcedure
+    .input(sendLinkVerificationCodeInputSchema)
+    .mutation(({ input, ctx }) => sendLinkVerificationCode(input, ctx.meta)),
+
+  // Exchange a refresh token for a new access/refresh token pair
+  refreshSession: publicProcedure
+    .input(refreshSessionInputSchema)
+    .mutation(({ input, ctx }) => refreshSession(input, ctx.meta)),
+
+  // Profile of the signed-in user
+  me: protectedProcedure
+    .query(({ ctx }) => getCurrentUser(ctx.user)),
+
+  // Devices the signed-in user is currently signed in on
+  listSessions: protectedProcedure
+    .query(({ ctx }) => listSessions(ctx.user.id, ctx.session)),
+
+  // Sign out one device (including the current one)
+  revokeSession: protectedProcedure
+    .input(revokeSessionInputSchema)
+    .mutation(({ input, ctx }) => revokeSession(ctx.user.id, input)),
+
+  // Sign out every device except the current one
+  revokeAllOtherSessions: protectedProcedure
+    .mutation(({ ctx }) => revokeAllOtherSessions(ctx.user.id, ctx.session)),
+
+  // Give a device a recognisable name
+  renameSession: protectedProcedure
+    .input(renameSessionInputSchema)
+    .mutation(({ input, ctx }) => renameSession(ctx.user.id, input)),
+
+  // External sign-in accounts (Google, ...) linked to the signed-in user
+  listLinkedIdentities: protectedProcedure
+    .query(({ ctx }) => listLinkedIdentities(ctx.user.id)),
+
+  // Providers with a redirect sign-in flow configured
+  listSignInProviders: publicProcedure
+    .query(() => listSignInProviders()),
+
+  // Remove a linked sign-in account, as long as another way to sign in remains
+  unlinkIdentity: protectedProcedure
+    .input(unlinkIdentityInputSchema)
+    .mutation(({ input, ctx }) => unlinkIdentity(ctx.user.id, input)),
+
+  // Marketing email choices of the signed-in user, with their consent history
+  getCommunicationPreferences: protectedProcedure
+    .query(({ ctx }) => getCommunicationPreferences(ctx.user.id)),
+
+  // Opt in or out per category; each change is recorded as consent evidence
+  updateCommunicationPreferences: protectedProcedure
+    .input(updateCommunicationPreferencesInputSchema)
+    .mutation(({ input, ctx }) => updateCommunicationPreferences(ctx.user.id, input, ctx.meta)),
+
+  // Consent history of any user, for compliance audits (administrators only)
+  getConsentHistory: adminProcedure
+    .input(getConsentHistoryInputSchema)
+    .query(({ input }) => getConsentHistory(input)),
+
+  // Lift a sign-in lock on any user's account (administrators only)
+  adminUnlockAccount: adminProcedure
+    .input(adminUnlockAccountInputSchema)
+    .mutation(({ input }) => adminUnlockAccount(input)),
+
+  // Email a password reset link (same response whether or not the account exists)
+  requestPasswordReset: publicProcedure
+    .input(requestPasswordResetInputSchema)
+    .mutation(({ input, ctx }) => requestPasswordReset(input, ctx.meta)),
+
+  // Set a new password using the emailed reset token
+  resetPassword: publicProcedure
+    .input(resetPasswordInputSchema)
+    .mutation(({ input }) => resetPassword(input)),
+
+  // Lift a sign-in lock using the link emailed when it was applied
+  unlockAccount: publicProcedure
+    .input(unlockAccountInputSchema)
+    .mutation(({ input }) => unlockAccount(input)),
+
+  // Email a single-use sign-in link (same response whether or not the account exists)
+  requestMagicLink: publicProcedure
+    .input(requestMagicLinkInputSchema)
+    .mutation(({ input, ctx }) => requestMagicLink(input, ctx.meta)),
+
+  // Sign in with the emailed link
+  consumeMagicLink: publicProcedure
+    .input(consumeMagicLinkInputSchema)
+    .mutation(({ input, ctx }) => consumeMagicLink(input, ctx.meta)),
+
+  // Change the password of the signed-in user
+  changePassword: protectedProcedure
+    .input(changePasswordInputSchema)
+    .mutation(({ input, ctx }) => changePassword(ctx.user, ctx.session, input, ctx.meta)),
+
+  // Add a password to an account that only signs in with an external provider
+  setPassword: protectedProcedure
+    .input(setPasswordInputSchema)
+    .mutation(({ input, ctx }) => setPassword(ctx.user, ctx.session, input)),
 
   // Check if email is available for registration
   checkEmailAvailability: publicProcedure
@@ -49,12 +202,17 @@ const appRouter = router({
   // Verify email address with code
   verifyEmail: publicProcedure
     .input(verifyEmailInputSchema)
-    .mutation(({ input }) => verifyEmail(input)),
+    .mutation(({ input, ctx }) => verifyEmail(input, ctx.meta)),
+
+  // Verify email address with the emailed link instead of the code
+  verifyEmailByToken: publicProcedure
+    .input(verifyEmailByTokenInputSchema)
+    .mutation(({ input, ctx }) => verifyEmailByToken(input, ctx.meta)),
 
   // Send verification code to email
   sendVerificationCode: publicProcedure
     .input(checkEmailInputSchema)
-    .mutation(({ input }) => sendVerificationCode(input)),
+    .mutation(({ input, ctx }) => sendVerificationCode(input, ctx.meta)),
 });
 
 export type AppRouter = typeof appRouter;
@@ -63,15 +221,27 @@ async function start() {
   const port = process.env['SERVER_PORT'] || 2022;
   const server = createHTTPServer({
     middleware: (req, res, next) => {
-      cors()(req, res, next);
+      cors()(req, res, () => {
+        // OAuth redirects and the dev inbox are plain HTTP routes next to the tRPC procedures
+        handleOAuthRoute(req, res)
+          .then(handled => handled || handleDevEmailRoute(req, res))
+          .then(handled => handled || next())
+          .catch(next);
+      });
     },
     router: appRouter,
-    createContext() {
-      return {};
+    createContext,
+    responseMeta: ({ errors }) => {
+      // Tell HTTP clients and proxies how long to back off
+      const retryAfter = Math.max(0, ...errors.map(error => error instanceof TooManyRequestsError ? error.retryAfterSeconds : 0));
+      return retryAfter > 0 ? { headers: { 'Retry-After': String(retryAfter) } } : {};
     },
   });
   server.listen(port);
   console.log(`TRPC server listening at port: ${port}`);
+
+  // Delivers queued emails in the background
+  startOutboxSender();
 }
 
 start();
\ No newline at end of file
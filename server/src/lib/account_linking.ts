@@ -0,0 +1,41 @@
+import { signPurposeToken, verifyPurposeToken } from './tokens';
+import { type ExternalIdentity } from './identities';
+
+// An external sign-in whose email matches an existing account is parked in a
+// signed link token until the user proves they own that account. The token
+// carries the verified identity, so the provider does not need to be asked again.
+
+const LINK_PURPOSE = 'link_account';
+
+export const LINK_TOKEN_TTL_SECONDS = 10 * 60;
+
+export const INVALID_LINK_TOKEN_MESSAGE = 'This linking request has expired. Please sign in again.';
+
+export interface LinkRequest {
+  userId: number; // Account the identity will be linked to
+  identity: ExternalIdentity;
+}
+
+export const createLinkToken = (request: LinkRequest): Promise<string> =>
+  signPurposeToken(
+    LINK_PURPOSE,
+    { sub: String(request.userId), identity: { ...request.identity } },
+    LINK_TOKEN_TTL_SECONDS
+  );
+
+export const readLinkToken = async (token: string): Promise<LinkRequest> => {
+  try {
+    const payload = await verifyPurposeToken(LINK_PURPOSE, token);
+    const userId = parseInt(payload.sub ?? '', 10);
+    const identity = payload['identity'] as ExternalIdentity | undefined;
+
+    if (!Number.isInteger(userId) || !identity?.provider || !identity.subject || !identity.email) {
+      throw new Error('Link token is missing required claims');
+    }
+
+    return { userId, identity };
+  } catch (error) {
+    console.warn('Rejected link token:', error instanceof Error ? error.message : error);
+    throw new Error(INVALID_LINK_TOKEN_MESSAGE);
+  }
+};
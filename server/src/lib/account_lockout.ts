@@ -0,0 +1,172 @@
+import { and, count, eq, gt, lt, max, or } from 'drizzle-orm';
+import { db } from '../db';
+import { accountUnlockTokensTable, signInFailuresTable, type User } from '../db/schema';
+import { generateOpaqueToken, hashToken } from './tokens';
+import { buildAppUrl } from './links';
+import { type RequestMetadata } from './request_metadata';
+import { queueEmail } from './email/outbox';
+import { buildEmail } from './email/templates';
+import { resolveEmailLocale } from './email/locales';
+import { canonicalizeEmail } from './email_canonical';
+import { invalidateEmailedLinks } from './emailed_links';
+import { TooManyRequestsError, formatWait } from '../trpc';
+
+// Brute-force protection for password sign-in. Failed attempts are recorded per
+// email in a ledger. After SIGN_IN_BACKOFF_AFTER failures each further attempt
+// must wait twice as long as the one before; after SIGN_IN_LOCK_AFTER failures
+// sign-in is locked for SIGN_IN_LOCK_MINUTES and the owner is emailed a link to
+// unlock it early. Only failures within the last SIGN_IN_FAILURE_WINDOW_MINUTES
+// count, and a successful sign-in clears them.
+//
+// Unknown emails go through the same ledger, so the delays and the lock look
+// the same whether or not an account exists.
+
+const getBackoffAfter = (): number =>
+  parseInt(process.env['SIGN_IN_BACKOFF_AFTER'] ?? '', 10) || 3;
+
+const getBackoffBaseSeconds = (): number =>
+  parseInt(process.env['SIGN_IN_BACKOFF_BASE_SECONDS'] ?? '', 10) || 1;
+
+export const getLockAfter = (): number =>
+  parseInt(process.env['SIGN_IN_LOCK_AFTER'] ?? '', 10) || 10;
+
+export const getLockMinutes = (): number =>
+  parseInt(process.env['SIGN_IN_LOCK_MINUTES'] ?? '', 10) || 30;
+
+const getFailureWindowMinutes = (): number =>
+  parseInt(process.env['SIGN_IN_FAILURE_WINDOW_MINUTES'] ?? '', 10) || 24 * 60;
+
+const getUnlockTokenTtlMinutes = (): number =>
+  parseInt(process.env['ACCOUNT_UNLOCK_TOKEN_TTL_MINUTES'] ?? '', 10) || 60;
+
+type Executor = typeof db | Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export type SignInThrottle =
+  | { status: 'open' }
+  | { status: 'backoff' | 'locked'; retry_after_seconds: number };
+
+const emailKey = (email: string): string => hashToken(canonicalizeEmail(email));
+
+// Shown while sign-in is locked; worded so it reads the same for unknown emails
+export const signInLockedMessage = (retryAfterSeconds: number): string =>
+  `Too many failed sign-in attempts. If this email belongs to an account, we've sent it a link to unlock sign-in. Otherwise, please try again in ${formatWait(retryAfterSeconds)}.`;
+
+// What a password check refused by the throttle throws
+export const signInThrottledError = (throttle: Exclude<SignInThrottle, { status: 'open' }>): TooManyRequestsError =>
+  throttle.status === 'locked'
+    ? new TooManyRequestsError(throttle.retry_after_seconds, signInLockedMessage(throttle.retry_after_seconds))
+    : new TooManyRequestsError(throttle.retry_after_seconds);
+
+// Decides from the failure count and the time of the latest failure
+export const getThrottleFromFailures = (failures: number, lastFailureAt: Date | null, now: Date = new Date()): SignInThrottle => {
+  if (!lastFailureAt) {
+    return { status: 'open' };
+  }
+
+  let status: 'backoff' | 'locked';
+  let allowedAt: number;
+  if (failures >= getLockAfter()) {
+    status = 'locked';
+    allowedAt = lastFailureAt.getTime() + getLockMinutes() * 60 * 1000;
+  } else if (failures >= getBackoffAfter()) {
+    status = 'backoff';
+    allowedAt = lastFailureAt.getTime() + getBackoffBaseSeconds() * 2 ** (failures - getBackoffAfter()) * 1000;
+  } else {
+    return { status: 'open' };
+  }
+
+  const waitMs = allowedAt - now.getTime();
+  return waitMs > 0 ? { status, retry_after_seconds: Math.ceil(waitMs / 1000) } : { status: 'open' };
+};
+
+// Whether a password sign-in for this email may be attempted now
+export const getSignInThrottle = async (email: string, now: Date = new Date()): Promise<SignInThrottle> => {
+  const windowStart = new Date(now.getTime() - getFailureWindowMinutes() * 60 * 1000);
+
+  const result = await db.select({ failures: count(), last_failure_at: max(signInFailuresTable.created_at) })
+    .from(signInFailuresTable)
+    .where(
+      and(
+        eq(signInFailuresTable.email_hash, emailKey(email)),
+        gt(signInFailuresTable.created_at, windowStart)
+      )
+    )
+    .execute();
+
+  return getThrottleFromFailures(result[0]?.failures ?? 0, result[0]?.last_failure_at ?? null, now);
+};
+
+// Records a failed attempt and returns the throttle that now applies. When the
+// failure locks an existing account, the owner is emailed an unlock link.
+export const recordSignInFailure = async (
+  email: string,
+  user: User | null,
+  meta: RequestMetadata = {},
+  now: Date = new Date()
+): Promise<SignInThrottle> => {
+  const key = emailKey(email);
+  const windowStart = new Date(now.getTime() - getFailureWindowMinutes() * 60 * 1000);
+
+  // Failures outside the window no longer count
+  await db.delete(signInFailuresTable)
+    .where(
+      and(
+        eq(signInFailuresTable.email_hash, key),
+        lt(signInFailuresTable.created_at, windowStart)
+      )
+    )
+    .execute();
+
+  await db.insert(signInFailuresTable)
+    .values({
+      user_id: user?.id ?? null,
+      email_hash: key,
+      ip_address: meta.ip_address ?? null,
+      user_agent: meta.user_agent ?? null,
+      created_at: now
+    })
+    .execute();
+
+  const throttle = await getSignInThrottle(email, now);
+
+  if (throttle.status === 'locked' && user) {
+    await sendUnlockLink(user, meta);
+  }
+
+  return throttle;
+};
+
+// Forgets every failure for the account, lifting any delay or lock
+export const clearSignInFailures = async (user: Pick<User, 'id' | 'email_canonical'>, executor: Executor = db): Promise<void> => {
+  await executor.delete(signInFailuresTable)
+    .where(
+      or(
+        eq(signInFailuresTable.user_id, user.id),
+        eq(signInFailuresTable.email_hash, emailKey(user.email_canonical))
+      )
+    )
+    .execute();
+
+  // Outstanding unlock links have nothing left to unlock
+  await invalidateEmailedLinks(accountUnlockTokensTable, user.id, executor);
+};
+
+const sendUnlockLink = async (user: User, meta: RequestMetadata): Promise<void> => {
+  await invalidateEmailedLinks(accountUnlockTokensTable, user.id);
+
+  const token = generateOpaqueToken();
+
+  await db.insert(accountUnlockTokensTable)
+    .values({
+      user_id: user.id,
+      token_hash: hashToken(token),
+      expires_at: new Date(Date.now() + getUnlockTokenTtlMinutes() * 60 * 1000)
+    })
+    .execute();
+
+  await queueEmail(buildEmail('account_locked', user.email, resolveEmailLocale(meta.accept_language), {
+    first_name: user.first_name,
+    unlock_url: buildAppUrl('/unlock-account', { token }),
+    locked_minutes: getLockMinutes()
+  }));
+};
@@ -0,0 +1,82 @@
+import { eq } from 'drizzle-orm';
+import { db } from '../db';
+import { usersTable, userSessionsTable, type User } from '../db/schema';
+import { type RequestMetadata } from './request_metadata';
+import { buildAppUrl } from './links';
+import { queueEmail } from './email/outbox';
+import { buildEmail } from './email/templates';
+import { resolveEmailLocale } from './email/locales';
+
+// Emails sent to account owners about their account, rather than to prove
+// something: a welcome once the email is verified, and a notice when a sign-in
+// comes from a device the account has not been used on before.
+
+// Once, when the account's email is first verified
+export const sendWelcomeEmail = async (user: Pick<User, 'email' | 'first_name'>, meta: RequestMetadata = {}): Promise<void> => {
+  await queueEmail(buildEmail('welcome', user.email, resolveEmailLocale(meta.accept_language), {
+    first_name: user.first_name,
+    shop_url: buildAppUrl('/')
+  }));
+};
+
+const BROWSERS: [RegExp, string][] = [
+  [/Edg\//, 'Edge'],
+  [/OPR\/|Opera/, 'Opera'],
+  [/Firefox\//, 'Firefox'],
+  [/Chrome\/|CriOS\//, 'Chrome'],
+  [/Safari\//, 'Safari']
+];
+
+const SYSTEMS: [RegExp, string][] = [
+  [/iPhone|iPad/, 'iOS'],
+  [/Android/, 'Android'],
+  [/Windows/, 'Windows'],
+  [/Mac OS X|Macintosh/, 'macOS'],
+  [/CrOS/, 'ChromeOS'],
+  [/Linux/, 'Linux']
+];
+
+// e.g. "Firefox on macOS"; the user agent itself when it is not recognised
+export const describeUserAgent = (userAgent: string): string => {
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const system = SYSTEMS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  if (browser && system) {
+    return `${browser} on ${system}`;
+  }
+  return browser ?? system ?? userAgent.slice(0, 100);
+};
+
+// Devices are told apart by user agent. Call before the new session is stored:
+// the first session of an account (sign-up) is not reported, and neither is a
+// request without a user agent.
+export const notifyIfNewDevice = async (userId: number, meta: RequestMetadata): Promise<void> => {
+  const userAgent = meta.user_agent;
+  if (!userAgent) {
+    return;
+  }
+
+  const previous = await db.select({ user_agent: userSessionsTable.user_agent })
+    .from(userSessionsTable)
+    .where(eq(userSessionsTable.user_id, userId))
+    .execute();
+
+  if (previous.length === 0 || previous.some(session => session.user_agent === userAgent)) {
+    return;
+  }
+
+  const users = await db.select()
+    .from(usersTable)
+    .where(eq(usersTable.id, userId))
+    .execute();
+  if (users.length === 0) {
+    return;
+  }
+
+  await queueEmail(buildEmail('new_device', users[0].email, resolveEmailLocale(meta.accept_language), {
+    first_name: users[0].first_name,
+    device_name: describeUserAgent(userAgent),
+    ip_address: meta.ip_address ?? null,
+    signed_in_at: new Date(),
+    devices_url: buildAppUrl('/account/devices')
+  }));
+};
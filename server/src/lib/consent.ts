@@ -0,0 +1,118 @@
+import { desc, eq } from 'drizzle-orm';
+import { db } from '../db';
+import { consentRecordsTable, type ConsentRecordRow } from '../db/schema';
+import { type CommunicationCategory, type ConsentRecord, type SignupMarketingConsentVersion } from '../schema';
+import { type RequestMetadata } from './request_metadata';
+
+// Wording the user agrees to when opting in, by version. A record stores only
+// the version, so the text of every version that was ever shown must stay in
+// this catalog: change wording by adding a new version, never by editing one.
+export const CONSENT_WORDING: Record<string, string> & Record<SignupMarketingConsentVersion, string> = {
+  'signup-marketing-v1': 'I would like to receive promotional emails with exclusive savings and personalized product recommendations.',
+  'promotions-v1': 'Deals and promotions: exclusive savings, sales and coupons.',
+  'recommendations-v1': 'Recommendations: personalized product picks based on your activity.',
+  'product_updates-v1': 'Product news: new features and services.',
+  'surveys-v1': 'Surveys: occasional requests for feedback.'
+};
+
+// The marketing checkbox on the sign-up form covers these categories
+export const SIGNUP_MARKETING_CONSENT_VERSION: SignupMarketingConsentVersion = 'signup-marketing-v1';
+export const SIGNUP_MARKETING_CATEGORIES: CommunicationCategory[] = ['promotions', 'recommendations'];
+
+export interface CommunicationCategoryDefinition {
+  category: CommunicationCategory;
+  label: string;
+  description: string;
+  wording_version: string; // Recorded when the user changes this category in the preferences center
+}
+
+export const COMMUNICATION_CATEGORIES: CommunicationCategoryDefinition[] = [
+  {
+    category: 'promotions',
+    label: 'Deals and promotions',
+    description: 'Exclusive savings, sales and coupons.',
+    wording_version: 'promotions-v1'
+  },
+  {
+    category: 'recommendations',
+    label: 'Recommendations',
+    description: 'Personalized product picks based on your activity.',
+    wording_version: 'recommendations-v1'
+  },
+  {
+    category: 'product_updates',
+    label: 'Product news',
+    description: 'New features and services.',
+    wording_version: 'product_updates-v1'
+  },
+  {
+    category: 'surveys',
+    label: 'Surveys',
+    description: 'Occasional requests for feedback.',
+    wording_version: 'surveys-v1'
+  }
+];
+
+type Executor = typeof db | Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export interface ConsentChoice {
+  category: CommunicationCategory;
+  granted: boolean;
+  source: ConsentRecordRow['source'];
+  wording_version: string;
+}
+
+export const recordConsent = async (
+  userId: number,
+  choices: ConsentChoice[],
+  meta: RequestMetadata,
+  executor: Executor = db
+): Promise<void> => {
+  if (choices.length === 0) {
+    return;
+  }
+
+  await executor.insert(consentRecordsTable)
+    .values(choices.map(choice => ({
+      user_id: userId,
+      category: choice.category,
+      granted: choice.granted,
+      source: choice.source,
+      wording_version: choice.wording_version,
+      ip_address: meta.ip_address ?? null,
+      user_agent: meta.user_agent ?? null
+    })))
+    .execute();
+};
+
+// Every record for the user, newest first
+export const getConsentHistory = async (userId: number, executor: Executor = db): Promise<ConsentRecord[]> => {
+  const records = await executor.select()
+    .from(consentRecordsTable)
+    .where(eq(consentRecordsTable.user_id, userId))
+    .orderBy(desc(consentRecordsTable.created_at), desc(consentRecordsTable.id))
+    .execute();
+
+  return records.map(record => ({
+    id: record.id,
+    category: record.category,
+    granted: record.granted,
+    source: record.source,
+    wording_version: record.wording_version,
+    wording: CONSENT_WORDING[record.wording_version] ?? null,
+    ip_address: record.ip_address,
+    user_agent: record.user_agent,
+    created_at: record.created_at
+  }));
+};
+
+// Latest record per category from a newest-first history; categories without one are opted out
+export const currentConsent = (history: ConsentRecord[]): Map<CommunicationCategory, ConsentRecord> => {
+  const latest = new Map<CommunicationCategory, ConsentRecord>();
+  for (const record of history) {
+    if (!latest.has(record.category)) {
+      latest.set(record.category, record);
+    }
+  }
+  return latest;
+};
@@ -0,0 +1,55 @@
+// Minimal Cookie header parsing; values are URI-decoded when possible
+export const parseCookies = (header: string | undefined): Record<string, string> => {
+  const cookies: Record<string, string> = {};
+  if (!header) {
+    return cookies;
+  }
+
+  for (const part of header.split(';')) {
+    const separator = part.indexOf('=');
+    if (separator === -1) continue;
+
+    const name = part.slice(0, separator).trim();
+    const rawValue = part.slice(separator + 1).trim().replace(/^"(.*)"$/, '$1');
+    if (!name || name in cookies) continue;
+
+    try {
+      cookies[name] = decodeURIComponent(rawValue);
+    } catch {
+      cookies[name] = rawValue;
+    }
+  }
+
+  return cookies;
+};
+
+export const ACCESS_TOKEN_COOKIE = 'access_token';
+
+export interface CookieOptions {
+  maxAgeSeconds: number; // 0 deletes the cookie
+  path?: string;
+  secure?: boolean;
+  sameSite?: 'Lax' | 'Strict' | 'None';
+}
+
+// Set-Cookie value for an HttpOnly cookie
+export const serializeCookie = (name: string, value: string, options: CookieOptions): string => {
+  const attributes = [
+    `${name}=${encodeURIComponent(value)}`,
+    `Max-Age=${options.maxAgeSeconds}`,
+    `Path=${options.path ?? '/'}`,
+    'HttpOnly',
+    `SameSite=${options.sameSite ?? 'Lax'}`
+  ];
+  // Browsers only accept SameSite=None on secure cookies
+  if (options.secure || options.sameSite === 'None') {
+    attributes.push('Secure');
+  }
+  return attributes.join('; ');
+};
+
+// Binds an OAuth authorization request to the browser that started it
+export const OAUTH_STATE_COOKIE = 'oauth_state';
+
+// Binds a Google sign-in nonce to the browser it was issued to
+export const GOOGLE_NONCE_COOKIE = 'google_nonce';
@@ -0,0 +1,85 @@
+import type { EmailContent } from './templates/types';
+import type { EmailLocale } from './locales';
+
+// Shared branded frame for every email. The HTML uses tables and inline styles
+// because that is what mail clients reliably render.
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+const BRAND_COLOR = '#f97316';
+
+export const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const renderHtml = (content: EmailContent, footer: string, locale: EmailLocale): string => {
+  const paragraphs = content.paragraphs
+    .map(paragraph => `<p style="margin:0 0 16px;font-size:16px;line-height:24px;color:#374151;">${escapeHtml(paragraph)}</p>`)
+    .join('\n');
+
+  const code = content.code
+    ? `<p style="margin:24px 0;font-size:32px;font-weight:700;letter-spacing:8px;text-align:center;color:#111827;">${escapeHtml(content.code)}</p>`
+    : '';
+
+  const action = content.action
+    ? `<p style="margin:24px 0;text-align:center;"><a href="${escapeHtml(content.action.url)}" style="display:inline-block;padding:12px 24px;border-radius:8px;background:${BRAND_COLOR};color:#000000;font-weight:700;text-decoration:none;">${escapeHtml(content.action.label)}</a></p>`
+    : '';
+
+  const note = content.note
+    ? `<p style="margin:16px 0 0;font-size:13px;line-height:20px;color:#6b7280;">${escapeHtml(content.note)}</p>`
+    : '';
+
+  return `<!DOCTYPE html>
+<html lang="${locale}">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(content.subject)}</title>
+</head>
+<body style="margin:0;padding:0;background:#fff7ed;font-family:Arial,Helvetica,sans-serif;">
+<div style="display:none;max-height:0;overflow:hidden;">${escapeHtml(content.preheader)}</div>
+<table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="background:#fff7ed;">
+<tr><td align="center" style="padding:32px 16px;">
+<table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="max-width:560px;background:#ffffff;border-radius:16px;">
+<tr><td style="padding:24px 32px;border-bottom:4px solid ${BRAND_COLOR};font-size:28px;font-weight:900;color:#ea580c;">amazon</td></tr>
+<tr><td style="padding:32px;">
+<h1 style="margin:0 0 24px;font-size:24px;line-height:32px;color:#111827;">${escapeHtml(content.heading)}</h1>
+${paragraphs}
+${code}
+${action}
+${note}
+</td></tr>
+</table>
+<p style="max-width:560px;margin:16px auto 0;font-size:12px;line-height:18px;color:#9ca3af;">${escapeHtml(footer)}</p>
+</td></tr>
+</table>
+</body>
+</html>
+`;
+};
+
+const renderText = (content: EmailContent, footer: string): string => {
+  const blocks = [
+    content.heading,
+    ...content.paragraphs,
+    ...(content.code ? [`    ${content.code}`] : []),
+    ...(content.action ? [`${content.action.label}: ${content.action.url}`] : []),
+    ...(content.note ? [content.note] : []),
+    `--\n${footer}`
+  ];
+  return `${blocks.join('\n\n')}\n`;
+};
+
+export const renderLayout = (content: EmailContent, footer: string, locale: EmailLocale): RenderedEmail => ({
+  subject: content.subject,
+  html: renderHtml(content, footer, locale),
+  text: renderText(content, footer)
+});
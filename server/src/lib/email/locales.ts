@@ -0,0 +1,29 @@
+// Languages the transactional emails are written in. Recipients get the best
+// match for their browser's Accept-Language, falling back to English.
+
+export const EMAIL_LOCALES = ['en', 'es'] as const;
+
+export type EmailLocale = typeof EMAIL_LOCALES[number];
+
+export const DEFAULT_EMAIL_LOCALE: EmailLocale = 'en';
+
+export const isEmailLocale = (value: string): value is EmailLocale =>
+  (EMAIL_LOCALES as readonly string[]).includes(value);
+
+// Picks the supported locale the header prefers most, e.g. "es-MX,es;q=0.9,en;q=0.8" -> 'es'
+export const resolveEmailLocale = (acceptLanguage: string | null | undefined): EmailLocale => {
+  if (!acceptLanguage) {
+    return DEFAULT_EMAIL_LOCALE;
+  }
+
+  const ranked = acceptLanguage.split(',')
+    .map((part, index) => {
+      const [tag, ...params] = part.trim().split(';');
+      const q = params.map(param => param.trim().match(/^q=([\d.]+)$/)?.[1]).find(Boolean);
+      return { language: tag.trim().toLowerCase().split('-')[0], quality: q ? parseFloat(q) : 1, index };
+    })
+    .filter(entry => entry.language && entry.quality > 0)
+    .sort((a, b) => b.quality - a.quality || a.index - b.index);
+
+  return ranked.map(entry => entry.language).find(isEmailLocale) ?? DEFAULT_EMAIL_LOCALE;
+};
@@ -0,0 +1,200 @@
+import { and, asc, eq, inArray, lt, lte, or, sql } from 'drizzle-orm';
+import { db } from '../../db';
+import { emailOutboxTable, type OutboxEmail } from '../../db/schema';
+import { createEmailTransport, type EmailTransport } from './transports';
+
+// Outgoing email is written to the email_outbox table and delivered in the
+// background. A failed delivery is retried with exponential backoff
+// (EMAIL_RETRY_BASE_SECONDS, doubling, at most an hour apart) until
+// EMAIL_MAX_ATTEMPTS attempts have been made, after which the message is marked
+// failed. Several senders may run at once: each claims its batch with
+// SKIP LOCKED, and a message left 'sending' by a sender that died is picked up
+// again once it has been locked for longer than STALE_LOCK_MS.
+//
+// Bodies carry live secrets (reset and sign-in links, codes), so they are
+// cleared as soon as a message is sent or has failed for good; only the
+// delivery record is kept.
+
+export interface QueuedEmail {
+  kind: string;
+  to: string;
+  subject: string;
+  text: string;
+  html?: string | null;
+}
+
+export interface OutboxRunResult {
+  sent: number;
+  retried: number; // Failed this time, scheduled for another attempt
+  failed: number; // Failed for the last time
+}
+
+const BATCH_SIZE = 10;
+const STALE_LOCK_MS = 5 * 60 * 1000;
+const MAX_RETRY_DELAY_SECONDS = 60 * 60;
+
+export const getMaxEmailAttempts = (): number =>
+  parseInt(process.env['EMAIL_MAX_ATTEMPTS'] ?? '', 10) || 8;
+
+const getRetryBaseSeconds = (): number =>
+  parseInt(process.env['EMAIL_RETRY_BASE_SECONDS'] ?? '', 10) || 30;
+
+const getPollIntervalMs = (): number =>
+  parseInt(process.env['EMAIL_OUTBOX_POLL_MS'] ?? '', 10) || 5000;
+
+// Delay before the next attempt, after the given number of failed attempts
+export const getRetryDelaySeconds = (attempts: number): number =>
+  Math.min(getRetryBaseSeconds() * 2 ** Math.max(attempts - 1, 0), MAX_RETRY_DELAY_SECONDS);
+
+// Set while a sender is running in this process, so new mail goes out without waiting for the next poll
+let wakeSender: (() => void) | null = null;
+
+export const queueEmail = async (email: QueuedEmail): Promise<OutboxEmail> => {
+  const result = await db.insert(emailOutboxTable)
+    .values({
+      kind: email.kind,
+      to_address: email.to,
+      subject: email.subject,
+      text_body: email.text,
+      html_body: email.html ?? null
+    })
+    .returning()
+    .execute();
+
+  console.log(`Queued ${email.kind} email (outbox #${result[0].id})`);
+  wakeSender?.();
+
+  return result[0];
+};
+
+const clearedBodies = { text_body: '', html_body: null };
+
+// Marks up to `limit` due messages as 'sending' and returns them
+const claimDueEmails = async (limit: number): Promise<OutboxEmail[]> => {
+  const now = new Date();
+
+  const due = db.select({ id: emailOutboxTable.id })
+    .from(emailOutboxTable)
+    .where(
+      or(
+        and(
+          eq(emailOutboxTable.status, 'pending'),
+          lte(emailOutboxTable.next_attempt_at, now)
+        ),
+        and(
+          eq(emailOutboxTable.status, 'sending'),
+          lt(emailOutboxTable.locked_at, new Date(now.getTime() - STALE_LOCK_MS))
+        )
+      )
+    )
+    .orderBy(asc(emailOutboxTable.next_attempt_at))
+    .limit(limit)
+    .for('update', { skipLocked: true });
+
+  return db.update(emailOutboxTable)
+    .set({
+      status: 'sending',
+      locked_at: now,
+      attempts: sql`${emailOutboxTable.attempts} + 1`
+    })
+    .where(inArray(emailOutboxTable.id, due))
+    .returning()
+    .execute();
+};
+
+const deliver = async (email: OutboxEmail, transport: EmailTransport): Promise<'sent' | 'retried' | 'failed'> => {
+  try {
+    const result = await transport.send({
+      to: email.to_address,
+      subject: email.subject,
+      text: email.text_body,
+      html: email.html_body
+    });
+
+    await db.update(emailOutboxTable)
+      .set({
+        ...clearedBodies,
+        status: 'sent',
+        sent_at: new Date(),
+        locked_at: null,
+        last_error: null,
+        provider_message_id: result.message_id
+      })
+      .where(eq(emailOutboxTable.id, email.id))
+      .execute();
+
+    return 'sent';
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const giveUp = email.attempts >= getMaxEmailAttempts();
+    console.error(`Email delivery failed for outbox #${email.id} (attempt ${email.attempts}, via ${transport.name}):`, message);
+
+    await db.update(emailOutboxTable)
+      .set({
+        ...(giveUp ? clearedBodies : {}),
+        status: giveUp ? 'failed' : 'pending',
+        locked_at: null,
+        last_error: message,
+        next_attempt_at: giveUp
+          ? email.next_attempt_at
+          : new Date(Date.now() + getRetryDelaySeconds(email.attempts) * 1000)
+      })
+      .where(eq(emailOutboxTable.id, email.id))
+      .execute();
+
+    return giveUp ? 'failed' : 'retried';
+  }
+};
+
+// Delivers one batch of due messages
+export const processOutbox = async (transport: EmailTransport, limit = BATCH_SIZE): Promise<OutboxRunResult> => {
+  const result: OutboxRunResult = { sent: 0, retried: 0, failed: 0 };
+
+  const claimed = await claimDueEmails(limit);
+  for (const email of claimed) {
+    result[await deliver(email, transport)] += 1;
+  }
+
+  return result;
+};
+
+// Runs the sender until the returned function is called: every
+// EMAIL_OUTBOX_POLL_MS, and right away whenever this process queues a message
+export const startOutboxSender = (transport: EmailTransport = createEmailTransport()): (() => void) => {
+  let running = false;
+  let rerun = false;
+
+  const run = async (): Promise<void> => {
+    if (running) {
+      rerun = true;
+      return;
+    }
+
+    running = true;
+    try {
+      do {
+        rerun = false;
+        const result = await processOutbox(transport);
+        // A full batch means there may be more due right now
+        if (result.sent + result.retried + result.failed >= BATCH_SIZE) {
+          rerun = true;
+        }
+      } while (rerun);
+    } catch (error) {
+      console.error('Email outbox processing failed:', error);
+    } finally {
+      running = false;
+    }
+  };
+
+  const timer = setInterval(run, getPollIntervalMs());
+  wakeSender = () => void run();
+  void run();
+
+  console.log(`Email outbox sender started (transport: ${transport.name})`);
+
+  return () => {
+    clearInterval(timer);
+    wakeSender = null;
+  };
+};
@@ -0,0 +1,105 @@
+import type { EmailCatalog } from './types';
+
+const greeting = (firstName: string | null): string => firstName ? `Hi ${firstName},` : 'Hi,';
+
+export const en: EmailCatalog = {
+  footer: 'You are receiving this email because of activity on your Amazon account.',
+  formatDate: (date) => new Intl.DateTimeFormat('en-US', { dateStyle: 'long', timeStyle: 'short', timeZone: 'UTC' }).format(date) + ' UTC',
+  templates: {
+    verify_email: ({ first_name, code, link_url, expires_in_minutes }) => ({
+      subject: `${code} is your verification code`,
+      preheader: `Use ${code} to verify your email address.`,
+      heading: 'Verify your email address',
+      paragraphs: [
+        greeting(first_name),
+        `Enter this code to finish setting up your account. It expires in ${expires_in_minutes} minutes.`
+      ],
+      code,
+      action: link_url ? { label: 'Verify email', url: link_url } : undefined,
+      note: "If you didn't create an account, you can ignore this email."
+    }),
+
+    link_account: ({ code, provider_name, expires_in_minutes }) => ({
+      subject: `${code} is your account linking code`,
+      preheader: `Use ${code} to link ${provider_name} to your account.`,
+      heading: `Link ${provider_name} to your account`,
+      paragraphs: [
+        `Someone is signing in with ${provider_name} using this email address. Enter this code to link it to your account. It expires in ${expires_in_minutes} minutes.`
+      ],
+      code,
+      note: "If this wasn't you, ignore this email. Your account has not been changed."
+    }),
+
+    welcome: ({ first_name, shop_url }) => ({
+      subject: 'Welcome to Amazon',
+      preheader: 'Your account is ready.',
+      heading: `Welcome, ${first_name}!`,
+      paragraphs: [
+        'Your email address is verified and your account is ready to use.',
+        'You can manage your sign-in methods and devices any time from Login & security.'
+      ],
+      action: { label: 'Start shopping', url: shop_url }
+    }),
+
+    password_reset: ({ reset_url, expires_in_minutes }) => ({
+      subject: 'Reset your password',
+      preheader: 'Choose a new password for your account.',
+      heading: 'Reset your password',
+      paragraphs: [
+        `We received a request to reset your password. The link below works once and expires in ${expires_in_minutes} minutes.`
+      ],
+      action: { label: 'Choose a new password', url: reset_url },
+      note: "If you didn't ask to reset your password, you can ignore this email. Your password has not been changed."
+    }),
+
+    new_device: ({ first_name, device_name, ip_address, signed_in_at, devices_url }) => ({
+      subject: 'New sign-in to your account',
+      preheader: `Your account was signed in on ${device_name}.`,
+      heading: 'New sign-in to your account',
+      paragraphs: [
+        greeting(first_name),
+        `Your account was signed in on ${device_name}${ip_address ? ` from ${ip_address}` : ''} on ${en.formatDate(signed_in_at)}.`,
+        'If this was you, there is nothing else to do.'
+      ],
+      action: { label: 'Review your devices', url: devices_url },
+      note: "If this wasn't you, sign the device out and change your password right away."
+    }),
+
+    magic_link: ({ sign_in_url, expires_in_minutes }) => ({
+      subject: 'Your sign-in link',
+      preheader: 'Sign in to your account with one click.',
+      heading: 'Sign in to Amazon',
+      paragraphs: [
+        `Use the button below to sign in. The link works once and expires in ${expires_in_minutes} minutes.`
+      ],
+      action: { label: 'Sign in', url: sign_in_url },
+      note: "If you didn't ask to sign in, you can ignore this email."
+    }),
+
+    account_exists: ({ first_name, sign_in_url }) => ({
+      subject: 'You already have an account',
+      preheader: 'Someone tried to create an account with your email address.',
+      heading: 'You already have an account',
+      paragraphs: [
+        greeting(first_name),
+        'Someone tried to create an account with this email address, but it already belongs to your account.',
+        "If it was you, sign in instead. If you've forgotten your password, choose \"Forgot your password?\" on the sign-in page."
+      ],
+      action: { label: 'Sign in', url: sign_in_url },
+      note: "If it wasn't you, you can ignore this email. Nobody can create another account with your email address."
+    }),
+
+    account_locked: ({ first_name, unlock_url, locked_minutes }) => ({
+      subject: 'Sign-in to your account was paused',
+      preheader: 'We paused password sign-in after several failed attempts.',
+      heading: 'Sign-in paused',
+      paragraphs: [
+        greeting(first_name),
+        `After several failed attempts to sign in with your password, we paused password sign-in to your account for ${locked_minutes} minutes.`,
+        'If it was you, use the button below to sign in again right away.'
+      ],
+      action: { label: 'Unlock sign-in', url: unlock_url },
+      note: "If it wasn't you, someone may be trying to guess your password. It has not been changed, but you may want to reset it."
+    })
+  }
+};
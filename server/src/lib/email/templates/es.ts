@@ -0,0 +1,105 @@
+import type { EmailCatalog } from './types';
+
+const greeting = (firstName: string | null): string => firstName ? `Hola, ${firstName}:` : 'Hola:';
+
+export const es: EmailCatalog = {
+  footer: 'Recibes este correo por la actividad en tu cuenta de Amazon.',
+  formatDate: (date) => new Intl.DateTimeFormat('es-ES', { dateStyle: 'long', timeStyle: 'short', timeZone: 'UTC' }).format(date) + ' UTC',
+  templates: {
+    verify_email: ({ first_name, code, link_url, expires_in_minutes }) => ({
+      subject: `${code} es tu código de verificación`,
+      preheader: `Usa ${code} para verificar tu dirección de correo.`,
+      heading: 'Verifica tu dirección de correo',
+      paragraphs: [
+        greeting(first_name),
+        `Introduce este código para terminar de configurar tu cuenta. Caduca en ${expires_in_minutes} minutos.`
+      ],
+      code,
+      action: link_url ? { label: 'Verificar correo', url: link_url } : undefined,
+      note: 'Si no has creado una cuenta, puedes ignorar este correo.'
+    }),
+
+    link_account: ({ code, provider_name, expires_in_minutes }) => ({
+      subject: `${code} es tu código para vincular tu cuenta`,
+      preheader: `Usa ${code} para vincular ${provider_name} a tu cuenta.`,
+      heading: `Vincula ${provider_name} a tu cuenta`,
+      paragraphs: [
+        `Alguien está iniciando sesión con ${provider_name} usando esta dirección de correo. Introduce este código para vincularlo a tu cuenta. Caduca en ${expires_in_minutes} minutos.`
+      ],
+      code,
+      note: 'Si no has sido tú, ignora este correo. Tu cuenta no ha cambiado.'
+    }),
+
+    welcome: ({ first_name, shop_url }) => ({
+      subject: 'Te damos la bienvenida a Amazon',
+      preheader: 'Tu cuenta está lista.',
+      heading: `¡Bienvenido, ${first_name}!`,
+      paragraphs: [
+        'Tu dirección de correo está verificada y tu cuenta está lista para usar.',
+        'Puedes gestionar tus métodos de inicio de sesión y tus dispositivos en cualquier momento desde Inicio de sesión y seguridad.'
+      ],
+      action: { label: 'Empezar a comprar', url: shop_url }
+    }),
+
+    password_reset: ({ reset_url, expires_in_minutes }) => ({
+      subject: 'Restablece tu contraseña',
+      preheader: 'Elige una contraseña nueva para tu cuenta.',
+      heading: 'Restablece tu contraseña',
+      paragraphs: [
+        `Hemos recibido una solicitud para restablecer tu contraseña. El enlace funciona una sola vez y caduca en ${expires_in_minutes} minutos.`
+      ],
+      action: { label: 'Elegir una contraseña nueva', url: reset_url },
+      note: 'Si no has pedido restablecer tu contraseña, puedes ignorar este correo. Tu contraseña no ha cambiado.'
+    }),
+
+    new_device: ({ first_name, device_name, ip_address, signed_in_at, devices_url }) => ({
+      subject: 'Nuevo inicio de sesión en tu cuenta',
+      preheader: `Se ha iniciado sesión en tu cuenta desde ${device_name}.`,
+      heading: 'Nuevo inicio de sesión en tu cuenta',
+      paragraphs: [
+        greeting(first_name),
+        `Se ha iniciado sesión en tu cuenta desde ${device_name}${ip_address ? ` (${ip_address})` : ''} el ${es.formatDate(signed_in_at)}.`,
+        'Si has sido tú, no tienes que hacer nada más.'
+      ],
+      action: { label: 'Revisar tus dispositivos', url: devices_url },
+      note: 'Si no has sido tú, cierra la sesión en ese dispositivo y cambia tu contraseña cuanto antes.'
+    }),
+
+    magic_link: ({ sign_in_url, expires_in_minutes }) => ({
+      subject: 'Tu enlace para iniciar sesión',
+      preheader: 'Inicia sesión en tu cuenta con un clic.',
+      heading: 'Inicia sesión en Amazon',
+      paragraphs: [
+        `Usa el botón de abajo para iniciar sesión. El enlace funciona una sola vez y caduca en ${expires_in_minutes} minutos.`
+      ],
+      action: { label: 'Iniciar sesión', url: sign_in_url },
+      note: 'Si no has pedido iniciar sesión, puedes ignorar este correo.'
+    }),
+
+    account_exists: ({ first_name, sign_in_url }) => ({
+      subject: 'Ya tienes una cuenta',
+      preheader: 'Alguien ha intentado crear una cuenta con tu dirección de correo.',
+      heading: 'Ya tienes una cuenta',
+      paragraphs: [
+        greeting(first_name),
+        'Alguien ha intentado crear una cuenta con esta dirección de correo, pero ya pertenece a tu cuenta.',
+        'Si has sido tú, inicia sesión. Si has olvidado tu contraseña, elige "¿Has olvidado tu contraseña?" en la página de inicio de sesión.'
+      ],
+      action: { label: 'Iniciar sesión', url: sign_in_url },
+      note: 'Si no has sido tú, puedes ignorar este correo. Nadie puede crear otra cuenta con tu dirección de correo.'
+    }),
+
+    account_locked: ({ first_name, unlock_url, locked_minutes }) => ({
+      subject: 'Hemos pausado el inicio de sesión en tu cuenta',
+      preheader: 'Hemos pausado el inicio de sesión con contraseña tras varios intentos fallidos.',
+      heading: 'Inicio de sesión pausado',
+      paragraphs: [
+        greeting(first_name),
+        `Tras varios intentos fallidos de iniciar sesión con tu contraseña, hemos pausado el inicio de sesión con contraseña en tu cuenta durante ${locked_minutes} minutos.`,
+        'Si has sido tú, usa el botón de abajo para volver a iniciar sesión ahora mismo.'
+      ],
+      action: { label: 'Desbloquear inicio de sesión', url: unlock_url },
+      note: 'Si no has sido tú, puede que alguien esté intentando adivinar tu contraseña. No se ha cambiado, pero quizá quieras restablecerla.'
+    })
+  }
+};
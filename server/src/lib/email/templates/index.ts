@@ -0,0 +1,72 @@
+import { renderLayout, type RenderedEmail } from '../layout';
+import { DEFAULT_EMAIL_LOCALE, type EmailLocale } from '../locales';
+import type { QueuedEmail } from '../outbox';
+import type { EmailCatalog, EmailKind, EmailVariables } from './types';
+import { en } from './en';
+import { es } from './es';
+
+export type { EmailKind, EmailVariables } from './types';
+
+const CATALOGS: Record<EmailLocale, EmailCatalog> = { en, es };
+
+export const EMAIL_KINDS = Object.keys(en.templates) as EmailKind[];
+
+export const isEmailKind = (value: string): value is EmailKind =>
+  (EMAIL_KINDS as string[]).includes(value);
+
+export const renderEmail = <K extends EmailKind>(kind: K, locale: EmailLocale, variables: EmailVariables[K]): RenderedEmail => {
+  const catalog = CATALOGS[locale] ?? CATALOGS[DEFAULT_EMAIL_LOCALE];
+  return renderLayout(catalog.templates[kind](variables), catalog.footer, locale);
+};
+
+// Renders an email and addresses it, ready for queueEmail
+export const buildEmail = <K extends EmailKind>(kind: K, to: string, locale: EmailLocale, variables: EmailVariables[K]): QueuedEmail => {
+  const rendered = renderEmail(kind, locale, variables);
+  return { kind, to, subject: rendered.subject, text: rendered.text, html: rendered.html };
+};
+
+// Representative values for previewing each template
+export const SAMPLE_EMAIL_VARIABLES: EmailVariables = {
+  verify_email: {
+    first_name: 'Ada',
+    code: '482913',
+    link_url: 'http://localhost:5173/verify?token=sample-token',
+    expires_in_minutes: 15
+  },
+  link_account: {
+    code: '482913',
+    provider_name: 'Google',
+    expires_in_minutes: 15
+  },
+  welcome: {
+    first_name: 'Ada',
+    shop_url: 'http://localhost:5173/'
+  },
+  password_reset: {
+    reset_url: 'http://localhost:5173/reset-password?token=sample-token',
+    expires_in_minutes: 60
+  },
+  new_device: {
+    first_name: 'Ada',
+    device_name: 'Firefox on macOS',
+    ip_address: '203.0.113.7',
+    signed_in_at: new Date('2026-01-15T09:30:00Z'),
+    devices_url: 'http://localhost:5173/account/devices'
+  },
+  magic_link: {
+    sign_in_url: 'http://localhost:5173/magic-link?token=sample-token',
+    expires_in_minutes: 15
+  },
+  account_exists: {
+    first_name: 'Ada',
+    sign_in_url: 'http://localhost:5173/signin'
+  },
+  account_locked: {
+    first_name: 'Ada',
+    unlock_url: 'http://localhost:5173/unlock-account?token=sample-token',
+    locked_minutes: 30
+  }
+};
+
+export const renderSampleEmail = (kind: EmailKind, locale: EmailLocale): RenderedEmail =>
+  renderEmail(kind, locale, SAMPLE_EMAIL_VARIABLES[kind]);
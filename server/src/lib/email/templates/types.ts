@@ -0,0 +1,64 @@
+// Typed variables for each kind of email, and the structured content a
+// template produces from them. The layout (../layout.ts) turns content into
+// the HTML and plain-text parts, so every email looks the same.
+
+export interface EmailVariables {
+  verify_email: {
+    first_name: string | null;
+    code: string;
+    link_url: string | null;
+    expires_in_minutes: number;
+  };
+  link_account: {
+    code: string;
+    provider_name: string;
+    expires_in_minutes: number;
+  };
+  welcome: {
+    first_name: string;
+    shop_url: string;
+  };
+  password_reset: {
+    reset_url: string;
+    expires_in_minutes: number;
+  };
+  new_device: {
+    first_name: string;
+    device_name: string;
+    ip_address: string | null;
+    signed_in_at: Date;
+    devices_url: string;
+  };
+  magic_link: {
+    sign_in_url: string;
+    expires_in_minutes: number;
+  };
+  account_exists: {
+    first_name: string;
+    sign_in_url: string;
+  };
+  account_locked: {
+    first_name: string;
+    unlock_url: string;
+    locked_minutes: number;
+  };
+}
+
+export type EmailKind = keyof EmailVariables;
+
+export interface EmailContent {
+  subject: string;
+  preheader: string; // Inbox preview line; hidden in the body
+  heading: string;
+  paragraphs: string[];
+  code?: string; // Shown large, for codes to type in
+  action?: { label: string; url: string }; // Button in HTML, label and URL in text
+  note?: string; // Small print below the action, e.g. "ignore this if it wasn't you"
+}
+
+// One language's wording for every kind of email
+export interface EmailCatalog {
+  footer: string;
+  formatDate: (date: Date) => string;
+  templates: { [K in EmailKind]: (variables: EmailVariables[K]) => EmailContent };
+}
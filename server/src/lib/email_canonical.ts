@@ -0,0 +1,78 @@
+import { domainToASCII } from 'node:url';
+
+// Every account keeps two forms of its email address:
+//   display   - what the user typed, trimmed, with the domain lowercased and
+//               internationalized domains in ASCII (punycode). Email is sent here.
+//   canonical - identifies the mailbox: the display form with the local part
+//               lowercased too, plus provider rules when enabled. Accounts are
+//               unique by canonical form and looked up by it.
+//
+// Provider rules (EMAIL_CANONICAL_PROVIDER_RULES=true) fold addresses that
+// reach the same mailbox: Gmail ignores dots in the local part, and several
+// providers deliver user+anything@ to user@. They are off by default because
+// turning them on can make existing accounts collide; run
+// `bun db:migrate-canonical-emails` after changing the setting.
+
+export interface NormalizedEmail {
+  display: string;
+  canonical: string;
+}
+
+interface ProviderRule {
+  ignoreDots?: boolean; // Dots in the local part are not significant
+  plusTags?: boolean; // Anything after a "+" in the local part is a tag
+  alias?: string; // Same mailboxes as this domain
+}
+
+const PROVIDER_RULES: Record<string, ProviderRule> = {
+  'gmail.com': { ignoreDots: true, plusTags: true },
+  'googlemail.com': { ignoreDots: true, plusTags: true, alias: 'gmail.com' },
+  'outlook.com': { plusTags: true },
+  'hotmail.com': { plusTags: true },
+  'live.com': { plusTags: true },
+  'icloud.com': { plusTags: true },
+  'me.com': { plusTags: true, alias: 'icloud.com' },
+  'mac.com': { plusTags: true, alias: 'icloud.com' },
+  'fastmail.com': { plusTags: true },
+  'proton.me': { plusTags: true },
+  'protonmail.com': { plusTags: true }
+};
+
+export const areProviderRulesEnabled = (): boolean =>
+  process.env['EMAIL_CANONICAL_PROVIDER_RULES'] === 'true';
+
+const toAsciiDomain = (domain: string): string => {
+  const lowered = domain.toLowerCase();
+  // domainToASCII returns '' for names it cannot convert; keep those as typed
+  return domainToASCII(lowered) || lowered;
+};
+
+export const normalizeEmail = (email: string): NormalizedEmail => {
+  const trimmed = email.trim();
+  const at = trimmed.lastIndexOf('@');
+  if (at <= 0) {
+    return { display: trimmed, canonical: trimmed.toLowerCase() };
+  }
+
+  const localPart = trimmed.slice(0, at).normalize('NFC');
+  const domain = toAsciiDomain(trimmed.slice(at + 1));
+  const display = `${localPart}@${domain}`;
+
+  let canonicalLocal = localPart.toLowerCase();
+  let canonicalDomain = domain;
+
+  const rule = areProviderRulesEnabled() ? PROVIDER_RULES[domain] : undefined;
+  if (rule) {
+    if (rule.plusTags && canonicalLocal.indexOf('+') > 0) {
+      canonicalLocal = canonicalLocal.slice(0, canonicalLocal.indexOf('+'));
+    }
+    if (rule.ignoreDots) {
+      canonicalLocal = canonicalLocal.replace(/\./g, '');
+    }
+    canonicalDomain = rule.alias ?? domain;
+  }
+
+  return { display, canonical: `${canonicalLocal}@${canonicalDomain}` };
+};
+
+export const canonicalizeEmail = (email: string): string => normalizeEmail(email).canonical;
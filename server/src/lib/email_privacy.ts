@@ -0,0 +1,7 @@
+// In email privacy mode (EMAIL_PRIVACY_MODE=true) nothing tells an anonymous
+// caller whether an email address is registered: checkEmailAvailability answers
+// without looking, and every registration gets the same "check your inbox"
+// response, with an existing address's owner emailed a reminder instead of a
+// new account being created. New accounts sign in once they are verified, and
+// sendVerificationCode answers a verified account like any other address.
+export const isEmailPrivacyMode = (): boolean => process.env['EMAIL_PRIVACY_MODE'] === 'true';
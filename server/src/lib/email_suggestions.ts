@@ -0,0 +1,186 @@
+import { inArray } from 'drizzle-orm';
+import { db } from '../db';
+import { usersTable } from '../db/schema';
+import { canonicalizeEmail } from './email_canonical';
+
+// Suggestions shown next to the email field at sign-up: a correction when the
+// domain looks like a misspelling of a well-known one ("gmial.com"), and free
+// alternatives when the address is already taken.
+
+// Domains that misspellings are corrected to. EMAIL_SUGGESTION_DOMAINS, a
+// comma-separated list, replaces these.
+export const DEFAULT_SUGGESTION_DOMAINS = [
+  'gmail.com',
+  'googlemail.com',
+  'yahoo.com',
+  'hotmail.com',
+  'outlook.com',
+  'live.com',
+  'msn.com',
+  'icloud.com',
+  'me.com',
+  'aol.com',
+  'proton.me',
+  'protonmail.com',
+  'gmx.com',
+  'mail.com',
+  'yahoo.co.uk',
+  'hotmail.co.uk',
+  'comcast.net',
+  'verizon.net'
+];
+
+export const getSuggestionDomains = (): string[] => {
+  const raw = process.env['EMAIL_SUGGESTION_DOMAINS'];
+  if (!raw) {
+    return DEFAULT_SUGGESTION_DOMAINS;
+  }
+  return raw.split(',').map(domain => domain.trim().toLowerCase()).filter(Boolean);
+};
+
+// Real domains that sit a typo or two away from one above and must never be
+// "corrected" (ymail.com is not a misspelled gmail.com). The suggestion
+// domains are always known too. EMAIL_KNOWN_DOMAINS, a comma-separated list,
+// adds to these.
+export const DEFAULT_KNOWN_DOMAINS = [
+  'ymail.com',
+  'rocketmail.com',
+  'email.com',
+  'gmail.co.uk',
+  'mac.com',
+  'aim.com',
+  'msn.co.uk',
+  'mail.ru',
+  'mail.de',
+  'gmx.de',
+  'gmx.net',
+  'gmx.at',
+  'gmx.ch',
+  'web.de',
+  'live.co.uk',
+  'live.fr',
+  'live.de',
+  'live.ca',
+  'hotmail.fr',
+  'hotmail.de',
+  'hotmail.it',
+  'hotmail.es',
+  'hotmail.ca',
+  'outlook.fr',
+  'outlook.de',
+  'outlook.es',
+  'yahoo.co.jp',
+  'yahoo.co.in',
+  'yahoo.co.id',
+  'yahoo.co.nz',
+  'yahoo.com.au',
+  'yahoo.com.br',
+  'yahoo.ca',
+  'yahoo.fr',
+  'yahoo.de',
+  'yahoo.es',
+  'yahoo.it',
+  'protonmail.ch',
+  'pm.me'
+];
+
+export const getKnownDomains = (): string[] => [
+  ...DEFAULT_KNOWN_DOMAINS,
+  ...(process.env['EMAIL_KNOWN_DOMAINS'] ?? '').split(',').map(domain => domain.trim().toLowerCase()).filter(Boolean)
+];
+
+const getAlternativeLimit = (): number =>
+  parseInt(process.env['EMAIL_ALTERNATIVE_LIMIT'] ?? '', 10) || 5;
+
+// Edit distance counting insertions, deletions, substitutions and swaps of
+// neighbouring characters as one edit each, so "gmial" is one edit from "gmail"
+export const editDistance = (a: string, b: string): number => {
+  const d: number[][] = Array.from({ length: a.length + 1 }, (_, i) =>
+    Array.from({ length: b.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  );
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+
+  return d[a.length][b.length];
+};
+
+// Only a single edit is corrected, and never towards a short domain: every
+// character of "me.com" or "aol.com" is one edit from some other real domain
+const MAX_EDITS = 1;
+const MIN_CORRECTED_DOMAIN_LENGTH = 8;
+
+// The email with its domain corrected, or null when the domain is known or nothing is close
+export const suggestDomainCorrection = (
+  email: string,
+  domains: string[] = getSuggestionDomains(),
+  knownDomains: string[] = getKnownDomains()
+): string | null => {
+  const at = email.lastIndexOf('@');
+  if (at <= 0) {
+    return null;
+  }
+
+  const localPart = email.slice(0, at);
+  const domain = email.slice(at + 1).toLowerCase();
+  if (!domain || domains.includes(domain) || knownDomains.includes(domain)) {
+    return null;
+  }
+
+  let best: { domain: string; distance: number } | null = null;
+  for (const candidate of domains) {
+    const distance = editDistance(domain, candidate);
+    // The first listed domain wins a tie
+    if (candidate.length >= MIN_CORRECTED_DOMAIN_LENGTH && distance <= MAX_EDITS && (!best || distance < best.distance)) {
+      best = { domain: candidate, distance };
+    }
+  }
+
+  return best ? `${localPart}@${best.domain}` : null;
+};
+
+// Variations on the local part to offer when an address is taken, in order of preference
+export const alternativeCandidates = (email: string, year: number = new Date().getFullYear()): string[] => {
+  const at = email.lastIndexOf('@');
+  const localPart = email.slice(0, at);
+  const domain = email.slice(at + 1);
+
+  const locals = [
+    `${localPart}.${year}`,
+    `${localPart}_${year}`,
+    `${localPart}.user`,
+    `${localPart}123`,
+    `${localPart}_official`,
+    // Fallbacks for when the usual variations are taken too
+    `${localPart}${year % 100}`,
+    `${localPart}.shop`,
+    `${localPart}1`,
+    `${localPart}2`
+  ];
+
+  // Local parts are limited to 64 characters
+  return locals.filter(local => local.length <= 64).map(local => `${local}@${domain}`);
+};
+
+// Alternatives to a taken address that nobody has registered, checked in one query
+export const suggestAvailableAlternatives = async (email: string, limit: number = getAlternativeLimit()): Promise<string[]> => {
+  const candidates = alternativeCandidates(email);
+  if (candidates.length === 0) {
+    return [];
+  }
+
+  const taken = await db.select({ email_canonical: usersTable.email_canonical })
+    .from(usersTable)
+    .where(inArray(usersTable.email_canonical, candidates.map(canonicalizeEmail)))
+    .execute();
+
+  const takenEmails = new Set(taken.map(row => row.email_canonical));
+  return candidates.filter(candidate => !takenEmails.has(canonicalizeEmail(candidate))).slice(0, limit);
+};
@@ -0,0 +1,23 @@
+import { and, eq, isNull } from 'drizzle-orm';
+import { db } from '../db';
+import { accountUnlockTokensTable, magicLinkTokensTable, passwordResetTokensTable } from '../db/schema';
+
+// Tables of single-use tokens sent as email links. Each row belongs to a user
+// and is marked consumed_at when its link is used.
+export type EmailedLinkTable = typeof passwordResetTokensTable | typeof magicLinkTokensTable | typeof accountUnlockTokensTable;
+
+type Executor = typeof db | Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Deletes the user's unused links of one kind. Called before a new link is
+// sent, so only the most recent one works, and when there is nothing left for
+// the links to do.
+export const invalidateEmailedLinks = async (table: EmailedLinkTable, userId: number, executor: Executor = db): Promise<void> => {
+  await executor.delete(table)
+    .where(
+      and(
+        eq(table.user_id, userId),
+        isNull(table.consumed_at)
+      )
+    )
+    .execute();
+};
@@ -0,0 +1,128 @@
+import { eq } from 'drizzle-orm';
+import { db } from '../db';
+import { usersTable } from '../db/schema';
+import { type ExternalSignInResponse, type LinkProofMethod } from '../schema';
+import { createSession } from './sessions';
+import { type RequestMetadata } from './request_metadata';
+import { findUserByIdentity, findUserIdentity, linkIdentity, refreshIdentity, type ExternalIdentity } from './identities';
+import { createLinkToken } from './account_linking';
+import { getOAuthProvider } from './oauth/providers';
+import { canonicalizeEmail, normalizeEmail } from './email_canonical';
+
+export const NO_PROVIDER_EMAIL_MESSAGE = 'Your account did not share an email address. Please use another way to sign in.';
+export const EMAIL_LINKED_TO_OTHER_IDENTITY_MESSAGE = 'This email is already linked to a different account with this provider.';
+export const UNVERIFIED_PROVIDER_EMAIL_MESSAGE = 'This email address is not verified with your sign-in provider. Please verify it there, or sign in another way.';
+
+export interface ExternalSignInOptions {
+  syncProfile?: boolean; // Overwrite name fields with the provider's profile
+}
+
+// Signs in with a verified external identity, whichever provider it came from:
+// 1. an identity that is already linked signs in its user;
+// 2. an email that belongs to an existing account requires linking first,
+//    offered only when the provider has verified the email;
+// 3. otherwise a new account is created with the identity linked.
+export const signInWithExternalIdentity = async (
+  identity: ExternalIdentity,
+  options: ExternalSignInOptions = {},
+  meta: RequestMetadata = {}
+): Promise<ExternalSignInResponse> => {
+  const linked = await findUserByIdentity(identity.provider, identity.subject);
+
+  let user;
+  let isNewUser = false;
+
+  if (linked) {
+    const existingUser = linked.user;
+    await refreshIdentity(linked.identity.id, identity);
+
+    // Only upgrade verification status; names are kept unless the user opted in
+    const updatedUsers = await db.update(usersTable)
+      .set({
+        is_email_verified: existingUser.is_email_verified || (identity.email_verified && identity.email !== null && existingUser.email_canonical === canonicalizeEmail(identity.email)),
+        ...(options.syncProfile ? {
+          first_name: identity.first_name ?? existingUser.first_name,
+          last_name: identity.last_name ?? existingUser.last_name
+        } : {}),
+        updated_at: new Date()
+      })
+      .where(eq(usersTable.id, existingUser.id))
+      .returning()
+      .execute();
+
+    user = updatedUsers[0];
+  } else {
+    if (!identity.email) {
+      throw new Error(NO_PROVIDER_EMAIL_MESSAGE);
+    }
+
+    const email = normalizeEmail(identity.email);
+
+    // An existing account with the same email is never merged silently:
+    // the user has to prove they own it before the identity is linked
+    const emailUsers = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.email_canonical, email.canonical))
+      .execute();
+
+    if (emailUsers.length > 0) {
+      const existingUser = emailUsers[0];
+
+      if (await findUserIdentity(existingUser.id, identity.provider)) {
+        throw new Error(EMAIL_LINKED_TO_OTHER_IDENTITY_MESSAGE);
+      }
+
+      // Anyone can put an address they do not own on an account elsewhere
+      if (!identity.email_verified) {
+        throw new Error(UNVERIFIED_PROVIDER_EMAIL_MESSAGE);
+      }
+
+      const methods: LinkProofMethod[] = existingUser.password_hash
+        ? ['password', 'email_code']
+        : ['email_code'];
+
+      return {
+        status: 'link_required',
+        provider: identity.provider,
+        provider_name: getOAuthProvider(identity.provider)?.name ?? identity.provider,
+        email: existingUser.email,
+        link_token: await createLinkToken({ userId: existingUser.id, identity }),
+        methods
+      };
+    }
+
+    // New user - create the account and its identity together
+    user = await db.transaction(async (tx) => {
+      const newUsers = await tx.insert(usersTable)
+        .values({
+          email: email.display,
+          email_canonical: email.canonical,
+          first_name: identity.first_name ?? '',
+          last_name: identity.last_name ?? '',
+          password_hash: null, // Users created by a provider don't have passwords
+          phone_number: null,
+          is_email_verified: identity.email_verified
+        })
+        .returning()
+        .execute();
+
+      await linkIdentity(newUsers[0].id, identity, tx);
+      return newUsers[0];
+    });
+    isNewUser = true;
+  }
+
+  // Start a session for the signed-in user
+  const session = await createSession(user.id, meta);
+
+  // Return user data without password_hash
+  const { password_hash, ...userWithoutPassword } = user;
+
+  return {
+    status: 'signed_in',
+    user: userWithoutPassword,
+    token: session.token,
+    refresh_token: session.refresh_token,
+    is_new_user: isNewUser
+  };
+};
@@ -0,0 +1,97 @@
+import { createRemoteJWKSet, jwtVerify, type JWTVerifyGetKey } from 'jose';
+import { type ExternalIdentity } from './identities';
+
+// Google ID tokens are RS256 JWTs signed with keys published at GOOGLE_JWKS_URL.
+// GOOGLE_CLIENT_ID may list several comma-separated client IDs (web, mobile, ...);
+// a token is accepted when its audience matches any of them.
+
+export interface GoogleIdentity {
+  sub: string; // Stable Google account ID
+  email: string;
+  email_verified: boolean;
+  given_name: string | null;
+  family_name: string | null;
+  claims: Record<string, unknown>; // Full verified payload, kept on the linked identity
+}
+
+export const GOOGLE_PROVIDER = 'google';
+
+export const INVALID_GOOGLE_TOKEN_MESSAGE = 'Google sign-in could not be verified. Please try again.';
+
+const DEFAULT_JWKS_URL = 'https://www.googleapis.com/oauth2/v3/certs';
+const DEFAULT_ISSUERS = ['https://accounts.google.com', 'accounts.google.com'];
+
+const splitList = (value: string | undefined): string[] =>
+  (value ?? '').split(',').map(item => item.trim()).filter(Boolean);
+
+const getClientIds = (): string[] => {
+  const clientIds = splitList(process.env['GOOGLE_CLIENT_ID']);
+  if (clientIds.length === 0) {
+    throw new Error('GOOGLE_CLIENT_ID is not configured');
+  }
+  return clientIds;
+};
+
+const getIssuers = (): string[] => {
+  const issuers = splitList(process.env['GOOGLE_ISSUER']);
+  return issuers.length > 0 ? issuers : DEFAULT_ISSUERS;
+};
+
+// createRemoteJWKSet caches keys and refetches on an unknown `kid`, so keep one per URL
+const jwksByUrl = new Map<string, JWTVerifyGetKey>();
+
+const getJwks = (): JWTVerifyGetKey => {
+  const url = process.env['GOOGLE_JWKS_URL'] || DEFAULT_JWKS_URL;
+  let jwks = jwksByUrl.get(url);
+  if (!jwks) {
+    jwks = createRemoteJWKSet(new URL(url));
+    jwksByUrl.set(url, jwks);
+  }
+  return jwks;
+};
+
+// Verifies signature, issuer, audience, expiry and nonce. Throws
+// INVALID_GOOGLE_TOKEN_MESSAGE for any token that should not be trusted.
+export const verifyGoogleIdToken = async (idToken: string, nonce: string): Promise<GoogleIdentity> => {
+  const clientIds = getClientIds();
+
+  try {
+    const { payload } = await jwtVerify(idToken, getJwks(), {
+      issuer: getIssuers(),
+      audience: clientIds,
+      algorithms: ['RS256'],
+      requiredClaims: ['sub', 'exp', 'iat']
+    });
+
+    if (payload['nonce'] !== nonce) {
+      throw new Error('Nonce mismatch');
+    }
+
+    const email = payload['email'];
+    if (typeof email !== 'string' || !payload.sub) {
+      throw new Error('ID token is missing the email claim');
+    }
+
+    return {
+      sub: payload.sub,
+      email,
+      email_verified: payload['email_verified'] === true || payload['email_verified'] === 'true',
+      given_name: typeof payload['given_name'] === 'string' ? payload['given_name'] : null,
+      family_name: typeof payload['family_name'] === 'string' ? payload['family_name'] : null,
+      claims: { ...payload }
+    };
+  } catch (error) {
+    console.warn('Rejected Google ID token:', error instanceof Error ? error.message : error);
+    throw new Error(INVALID_GOOGLE_TOKEN_MESSAGE);
+  }
+};
+
+export const toExternalIdentity = (identity: GoogleIdentity): ExternalIdentity => ({
+  provider: GOOGLE_PROVIDER,
+  subject: identity.sub,
+  email: identity.email,
+  email_verified: identity.email_verified,
+  first_name: identity.given_name,
+  last_name: identity.family_name,
+  claims: identity.claims
+});
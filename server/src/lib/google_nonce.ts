@@ -0,0 +1,77 @@
+import { and, eq, isNull, lt } from 'drizzle-orm';
+import { db } from '../db';
+import { googleSignInNoncesTable } from '../db/schema';
+import { generateOpaqueToken, hashToken } from './tokens';
+import { GOOGLE_NONCE_COOKIE, parseCookies, serializeCookie } from './cookies';
+import { getAppBaseUrl } from './links';
+
+// Google Identity Services sign-in asks the server for a nonce before showing
+// the button. The nonce goes into the ID token; a binding secret goes into an
+// HttpOnly cookie, and only its hash is stored. googleSignIn consumes the row
+// for the cookie once and expects its nonce in the token, so a captured token
+// cannot be replayed and a nonce issued to one browser is useless in another.
+
+export const getGoogleNonceTtlMinutes = (): number =>
+  parseInt(process.env['GOOGLE_NONCE_TTL_MINUTES'] ?? '', 10) || 10;
+
+export interface NewGoogleNonce {
+  nonce: string;
+  binding: string; // Cookie value
+}
+
+export const createGoogleNonce = async (): Promise<NewGoogleNonce> => {
+  const nonce = generateOpaqueToken();
+  const binding = generateOpaqueToken();
+
+  // Abandoned attempts are cleaned up as new ones start
+  await db.delete(googleSignInNoncesTable)
+    .where(lt(googleSignInNoncesTable.expires_at, new Date()))
+    .execute();
+
+  await db.insert(googleSignInNoncesTable)
+    .values({
+      binding_hash: hashToken(binding),
+      nonce,
+      expires_at: new Date(Date.now() + getGoogleNonceTtlMinutes() * 60 * 1000)
+    })
+    .execute();
+
+  return { nonce, binding };
+};
+
+// The nonce issued with this binding, or null when it is unknown, already
+// used or expired. Claimed atomically so it can only be used once.
+export const consumeGoogleNonce = async (binding: string | null): Promise<string | null> => {
+  if (!binding) {
+    return null;
+  }
+
+  const now = new Date();
+  const claimed = await db.update(googleSignInNoncesTable)
+    .set({ consumed_at: now })
+    .where(
+      and(
+        eq(googleSignInNoncesTable.binding_hash, hashToken(binding)),
+        isNull(googleSignInNoncesTable.consumed_at)
+      )
+    )
+    .returning()
+    .execute();
+
+  if (claimed.length === 0 || claimed[0].expires_at < now) {
+    return null;
+  }
+
+  return claimed[0].nonce;
+};
+
+export const googleNonceCookie = (binding: string): string =>
+  serializeCookie(GOOGLE_NONCE_COOKIE, binding, {
+    maxAgeSeconds: getGoogleNonceTtlMinutes() * 60,
+    path: '/',
+    secure: getAppBaseUrl().startsWith('https:'),
+    sameSite: 'Strict'
+  });
+
+export const readGoogleNonceBinding = (cookieHeader: string | undefined): string | null =>
+  parseCookies(cookieHeader)[GOOGLE_NONCE_COOKIE] ?? null;
@@ -0,0 +1,84 @@
+import { and, eq } from 'drizzle-orm';
+import { db } from '../db';
+import { userIdentitiesTable, usersTable, type User, type UserIdentity } from '../db/schema';
+
+// Verified account at an external sign-in provider, with its claims already
+// mapped onto our user fields
+export interface ExternalIdentity {
+  provider: string; // e.g. 'google'
+  subject: string; // Provider's stable account ID
+  email: string | null;
+  email_verified: boolean; // Whether the provider vouches for the email
+  first_name: string | null;
+  last_name: string | null;
+  claims: Record<string, unknown>;
+}
+
+export const IDENTITY_ALREADY_LINKED_MESSAGE = 'This sign-in account is already linked to a different user.';
+
+// Lets callers link an identity inside their own transaction
+type Executor = Pick<typeof db, 'insert'>;
+
+export const findUserByIdentity = async (provider: string, subject: string): Promise<{ user: User; identity: UserIdentity } | null> => {
+  const results = await db.select()
+    .from(userIdentitiesTable)
+    .innerJoin(usersTable, eq(userIdentitiesTable.user_id, usersTable.id))
+    .where(
+      and(
+        eq(userIdentitiesTable.provider, provider),
+        eq(userIdentitiesTable.subject, subject)
+      )
+    )
+    .execute();
+
+  return results.length > 0
+    ? { user: results[0].users, identity: results[0].user_identities }
+    : null;
+};
+
+export const findUserIdentity = async (userId: number, provider: string): Promise<UserIdentity | null> => {
+  const identities = await db.select()
+    .from(userIdentitiesTable)
+    .where(
+      and(
+        eq(userIdentitiesTable.user_id, userId),
+        eq(userIdentitiesTable.provider, provider)
+      )
+    )
+    .execute();
+
+  return identities[0] ?? null;
+};
+
+// Throws IDENTITY_ALREADY_LINKED_MESSAGE when the provider account belongs to
+// someone else or the user already has an identity with this provider
+export const linkIdentity = async (userId: number, identity: ExternalIdentity, executor: Executor = db): Promise<UserIdentity> => {
+  const inserted = await executor.insert(userIdentitiesTable)
+    .values({
+      user_id: userId,
+      provider: identity.provider,
+      subject: identity.subject,
+      email: identity.email,
+      raw_claims: identity.claims
+    })
+    .onConflictDoNothing()
+    .returning()
+    .execute();
+
+  if (inserted.length === 0) {
+    throw new Error(IDENTITY_ALREADY_LINKED_MESSAGE);
+  }
+
+  return inserted[0];
+};
+
+// Keeps the stored email and claims current after a successful sign-in
+export const refreshIdentity = async (identityId: number, identity: ExternalIdentity): Promise<void> => {
+  await db.update(userIdentitiesTable)
+    .set({
+      email: identity.email,
+      raw_claims: identity.claims
+    })
+    .where(eq(userIdentitiesTable.id, identityId))
+    .execute();
+};
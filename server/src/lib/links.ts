@@ -0,0 +1,11 @@
+// Absolute links into the client app, used in emails
+export const getAppBaseUrl = (): string =>
+  (process.env['APP_BASE_URL'] || 'http://localhost:5173').replace(/\/+$/, '');
+
+export const buildAppUrl = (path: string, params: Record<string, string> = {}): string => {
+  const url = new URL(path, `${getAppBaseUrl()}/`);
+  for (const [key, value] of Object.entries(params)) {
+    url.searchParams.set(key, value);
+  }
+  return url.toString();
+};
@@ -0,0 +1,175 @@
+import { createHash } from 'node:crypto';
+import { jwtVerify, type JWTPayload } from 'jose';
+import { type ExternalIdentity } from '../identities';
+import { discoverOidc, getJwks } from './discovery';
+import { createAuthorizationState, consumeAuthorizationState } from './state';
+import { type OAuthProvider } from './providers';
+
+// Authorization-code flow with PKCE (RFC 7636) for every provider in ./providers.ts
+
+export interface AuthorizationRequestOptions {
+  redirectUri: string; // Our callback URL registered with the provider
+  returnTo?: string | null; // App path to continue at after sign-in
+}
+
+export interface AuthorizationResult {
+  identity: ExternalIdentity;
+  returnTo: string | null;
+}
+
+interface TokenResponse {
+  access_token?: string;
+  id_token?: string;
+  token_type?: string;
+  error?: string;
+  error_description?: string;
+}
+
+const codeChallenge = (codeVerifier: string): string =>
+  createHash('sha256').update(codeVerifier).digest('base64url');
+
+const resolveEndpoints = async (provider: OAuthProvider) => {
+  if (provider.kind === 'oauth2') {
+    return {
+      authorization: provider.authorizationEndpoint,
+      token: provider.tokenEndpoint,
+      basicAuth: false
+    };
+  }
+
+  const metadata = await discoverOidc(provider.issuer);
+  const authMethods = metadata.token_endpoint_auth_methods_supported;
+  return {
+    authorization: metadata.authorization_endpoint,
+    token: metadata.token_endpoint,
+    // client_secret_basic is the OIDC default when the provider lists nothing else
+    basicAuth: authMethods !== undefined && authMethods.includes('client_secret_basic') && !authMethods.includes('client_secret_post')
+  };
+};
+
+// Builds the provider URL to send the browser to, persisting state, nonce and PKCE verifier
+export const createAuthorizationUrl = async (provider: OAuthProvider, options: AuthorizationRequestOptions): Promise<string> => {
+  const endpoints = await resolveEndpoints(provider);
+  const { state, nonce, codeVerifier } = await createAuthorizationState(
+    provider.id,
+    options.redirectUri,
+    options.returnTo ?? null
+  );
+
+  const url = new URL(endpoints.authorization);
+  url.searchParams.set('response_type', 'code');
+  url.searchParams.set('client_id', provider.clientId);
+  url.searchParams.set('redirect_uri', options.redirectUri);
+  url.searchParams.set('scope', provider.scopes.join(' '));
+  url.searchParams.set('state', state);
+  url.searchParams.set('code_challenge', codeChallenge(codeVerifier));
+  url.searchParams.set('code_challenge_method', 'S256');
+  if (provider.kind === 'oidc') {
+    url.searchParams.set('nonce', nonce);
+  }
+  for (const [name, value] of Object.entries(provider.authorizationParams ?? {})) {
+    url.searchParams.set(name, value);
+  }
+
+  return url.toString();
+};
+
+const exchangeCode = async (
+  provider: OAuthProvider,
+  tokenEndpoint: string,
+  basicAuth: boolean,
+  code: string,
+  redirectUri: string,
+  codeVerifier: string
+): Promise<TokenResponse> => {
+  const clientSecret = await provider.getClientSecret();
+  const body = new URLSearchParams({
+    grant_type: 'authorization_code',
+    code,
+    redirect_uri: redirectUri,
+    code_verifier: codeVerifier
+  });
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/x-www-form-urlencoded',
+    Accept: 'application/json'
+  };
+
+  if (basicAuth && clientSecret) {
+    const credentials = `${encodeURIComponent(provider.clientId)}:${encodeURIComponent(clientSecret)}`;
+    headers['Authorization'] = `Basic ${Buffer.from(credentials).toString('base64')}`;
+  } else {
+    body.set('client_id', provider.clientId);
+    if (clientSecret) {
+      body.set('client_secret', clientSecret);
+    }
+  }
+
+  const response = await fetch(tokenEndpoint, {
+    method: 'POST',
+    headers,
+    body,
+    signal: AbortSignal.timeout(10_000)
+  });
+
+  // Some providers (GitHub) report errors with a 200 status
+  const tokens = await response.json() as TokenResponse;
+  if (!response.ok || tokens.error) {
+    throw new Error(`Token request failed: ${tokens.error ?? response.status} ${tokens.error_description ?? ''}`.trim());
+  }
+
+  return tokens;
+};
+
+const verifyIdToken = async (provider: OAuthProvider & { kind: 'oidc' }, idToken: string, nonce: string): Promise<JWTPayload> => {
+  const metadata = await discoverOidc(provider.issuer);
+
+  const { payload } = await jwtVerify(idToken, getJwks(metadata.jwks_uri), {
+    audience: provider.clientId,
+    requiredClaims: ['sub', 'exp', 'iat']
+  });
+
+  const expectedIssuer = provider.expectedIssuer
+    ? provider.expectedIssuer(metadata.issuer, payload)
+    : metadata.issuer;
+  if (payload.iss !== expectedIssuer) {
+    throw new Error(`Unexpected ID token issuer ${payload.iss}`);
+  }
+
+  if (payload['nonce'] !== nonce) {
+    throw new Error('ID token nonce mismatch');
+  }
+
+  return payload;
+};
+
+// Handles the provider's callback: consumes the state, exchanges the code and
+// returns the verified identity. State errors are thrown with user-facing
+// messages from ./state.ts; anything else is a provider or configuration problem.
+export const completeAuthorization = async (provider: OAuthProvider, state: string, code: string): Promise<AuthorizationResult> => {
+  const stored = await consumeAuthorizationState(provider.id, state);
+  const endpoints = await resolveEndpoints(provider);
+
+  const tokens = await exchangeCode(provider, endpoints.token, endpoints.basicAuth, code, stored.redirect_uri, stored.code_verifier);
+
+  let claims: Record<string, unknown>;
+  if (provider.kind === 'oidc') {
+    if (!tokens.id_token) {
+      throw new Error('Token response did not include an ID token');
+    }
+    claims = await verifyIdToken(provider, tokens.id_token, stored.nonce);
+  } else {
+    if (!tokens.access_token) {
+      throw new Error('Token response did not include an access token');
+    }
+    claims = await provider.fetchProfile(tokens.access_token);
+  }
+
+  return {
+    identity: {
+      provider: provider.id,
+      ...provider.mapClaims(claims),
+      claims
+    },
+    returnTo: stored.return_to
+  };
+};
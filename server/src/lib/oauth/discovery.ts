@@ -0,0 +1,55 @@
+import { createRemoteJWKSet, type JWTVerifyGetKey } from 'jose';
+
+// OpenID Connect discovery (https://openid.net/specs/openid-connect-discovery-1_0.html)
+
+export interface OidcMetadata {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+  userinfo_endpoint?: string;
+  token_endpoint_auth_methods_supported?: string[];
+}
+
+const METADATA_TTL_MS = 60 * 60 * 1000;
+
+const metadataCache = new Map<string, { metadata: OidcMetadata; fetchedAt: number }>();
+const jwksCache = new Map<string, JWTVerifyGetKey>();
+
+export const discoverOidc = async (issuer: string): Promise<OidcMetadata> => {
+  const cached = metadataCache.get(issuer);
+  if (cached && Date.now() - cached.fetchedAt < METADATA_TTL_MS) {
+    return cached.metadata;
+  }
+
+  const response = await fetch(`${issuer}/.well-known/openid-configuration`, {
+    headers: { Accept: 'application/json' },
+    signal: AbortSignal.timeout(10_000)
+  });
+  if (!response.ok) {
+    throw new Error(`OIDC discovery for ${issuer} responded with ${response.status}`);
+  }
+
+  const metadata = await response.json() as OidcMetadata;
+  if (!metadata.authorization_endpoint || !metadata.token_endpoint || !metadata.jwks_uri) {
+    throw new Error(`OIDC discovery for ${issuer} is missing required endpoints`);
+  }
+
+  // Templated issuers (e.g. Microsoft's {tenantid}) are checked per token instead
+  if (metadata.issuer !== issuer && !metadata.issuer.includes('{')) {
+    throw new Error(`OIDC discovery issuer mismatch: expected ${issuer}, got ${metadata.issuer}`);
+  }
+
+  metadataCache.set(issuer, { metadata, fetchedAt: Date.now() });
+  return metadata;
+};
+
+// createRemoteJWKSet caches keys and refetches on an unknown `kid`, so keep one per URL
+export const getJwks = (jwksUri: string): JWTVerifyGetKey => {
+  let jwks = jwksCache.get(jwksUri);
+  if (!jwks) {
+    jwks = createRemoteJWKSet(new URL(jwksUri));
+    jwksCache.set(jwksUri, jwks);
+  }
+  return jwks;
+};
@@ -0,0 +1,239 @@
+import { SignJWT, importPKCS8, type JWTPayload } from 'jose';
+
+// Sign-in providers for the authorization-code + PKCE flow in ./client.ts.
+// OIDC providers are configured by issuer and their endpoints discovered; plain
+// OAuth2 providers (GitHub) list their endpoints and fetch a profile instead of
+// receiving an ID token. A provider is only offered when its client ID is set.
+
+// Provider claims mapped onto our user fields
+export interface MappedClaims {
+  subject: string;
+  email: string | null;
+  email_verified: boolean;
+  first_name: string | null;
+  last_name: string | null;
+}
+
+interface BaseProvider {
+  id: string; // URL segment and user_identities.provider
+  name: string; // Shown on sign-in buttons
+  clientId: string;
+  getClientSecret: () => Promise<string | null>;
+  scopes: string[];
+  authorizationParams?: Record<string, string>; // Extra query parameters for the authorization request
+  mapClaims: (claims: Record<string, unknown>) => MappedClaims;
+}
+
+export interface OidcProvider extends BaseProvider {
+  kind: 'oidc';
+  issuer: string; // Discovery base URL
+  expectedIssuer?: (discoveredIssuer: string, claims: JWTPayload) => string; // For multi-tenant issuers
+}
+
+export interface OAuth2Provider extends BaseProvider {
+  kind: 'oauth2';
+  authorizationEndpoint: string;
+  tokenEndpoint: string;
+  fetchProfile: (accessToken: string) => Promise<Record<string, unknown>>;
+}
+
+export type OAuthProvider = OidcProvider | OAuth2Provider;
+
+const env = (name: string): string | undefined => process.env[name]?.trim() || undefined;
+
+const stringClaim = (claims: Record<string, unknown>, name: string): string | null =>
+  typeof claims[name] === 'string' && claims[name] !== '' ? claims[name] as string : null;
+
+// Some providers send booleans as strings
+const booleanClaim = (claims: Record<string, unknown>, name: string): boolean =>
+  claims[name] === true || claims[name] === 'true';
+
+const splitName = (name: string | null): { first_name: string | null; last_name: string | null } => {
+  if (!name) {
+    return { first_name: null, last_name: null };
+  }
+  const [first, ...rest] = name.trim().split(/\s+/);
+  return { first_name: first, last_name: rest.join(' ') || null };
+};
+
+// Standard OIDC claims (https://openid.net/specs/openid-connect-core-1_0.html#StandardClaims)
+export const mapOidcClaims = (claims: Record<string, unknown>): MappedClaims => {
+  const fromName = splitName(stringClaim(claims, 'name'));
+  return {
+    subject: String(claims['sub']),
+    email: stringClaim(claims, 'email'),
+    email_verified: booleanClaim(claims, 'email_verified'),
+    first_name: stringClaim(claims, 'given_name') ?? fromName.first_name,
+    last_name: stringClaim(claims, 'family_name') ?? fromName.last_name
+  };
+};
+
+const staticSecret = (value: string | undefined) => async (): Promise<string | null> => value ?? null;
+
+const googleProvider = (): OAuthProvider | null => {
+  // GOOGLE_CLIENT_ID may list several IDs for ID token sign-in; the first is the web client
+  const clientId = env('GOOGLE_CLIENT_ID')?.split(',')[0].trim();
+  if (!clientId) return null;
+
+  return {
+    kind: 'oidc',
+    id: 'google',
+    name: 'Google',
+    issuer: 'https://accounts.google.com',
+    clientId,
+    getClientSecret: staticSecret(env('GOOGLE_CLIENT_SECRET')),
+    scopes: ['openid', 'email', 'profile'],
+    authorizationParams: { prompt: 'select_account' },
+    mapClaims: mapOidcClaims
+  };
+};
+
+const microsoftProvider = (): OAuthProvider | null => {
+  const clientId = env('MICROSOFT_CLIENT_ID');
+  if (!clientId) return null;
+
+  const tenant = env('MICROSOFT_TENANT') ?? 'common';
+
+  return {
+    kind: 'oidc',
+    id: 'microsoft',
+    name: 'Microsoft',
+    issuer: `https://login.microsoftonline.com/${tenant}/v2.0`,
+    // Multi-tenant discovery returns an issuer template filled in per token
+    expectedIssuer: (discoveredIssuer, claims) =>
+      discoveredIssuer.replace('{tenantid}', typeof claims['tid'] === 'string' ? claims['tid'] : ''),
+    clientId,
+    getClientSecret: staticSecret(env('MICROSOFT_CLIENT_SECRET')),
+    scopes: ['openid', 'email', 'profile'],
+    mapClaims: (claims) => ({
+      ...mapOidcClaims(claims),
+      // Microsoft does not verify the email claim unless it says so explicitly
+      email_verified: booleanClaim(claims, 'xms_edov')
+    })
+  };
+};
+
+// Apple's client secret is a JWT signed with the team's private key
+const appleClientSecret = (clientId: string, teamId: string, keyId: string, privateKeyPem: string) => {
+  let cached: { secret: string; expiresAt: number } | null = null;
+
+  return async (): Promise<string> => {
+    if (cached && cached.expiresAt > Date.now() + 60 * 1000) {
+      return cached.secret;
+    }
+
+    const ttlSeconds = 60 * 60;
+    const secret = await new SignJWT({})
+      .setProtectedHeader({ alg: 'ES256', kid: keyId })
+      .setIssuer(teamId)
+      .setSubject(clientId)
+      .setAudience('https://appleid.apple.com')
+      .setIssuedAt()
+      .setExpirationTime(`${ttlSeconds}s`)
+      .sign(await importPKCS8(privateKeyPem, 'ES256'));
+
+    cached = { secret, expiresAt: Date.now() + ttlSeconds * 1000 };
+    return secret;
+  };
+};
+
+const appleProvider = (): OAuthProvider | null => {
+  const clientId = env('APPLE_CLIENT_ID');
+  const teamId = env('APPLE_TEAM_ID');
+  const keyId = env('APPLE_KEY_ID');
+  const privateKey = env('APPLE_PRIVATE_KEY');
+  if (!clientId || !teamId || !keyId || !privateKey) return null;
+
+  return {
+    kind: 'oidc',
+    id: 'apple',
+    name: 'Apple',
+    issuer: 'https://appleid.apple.com',
+    clientId,
+    getClientSecret: appleClientSecret(clientId, teamId, keyId, privateKey),
+    scopes: ['openid', 'email', 'name'],
+    // Apple requires form_post when asking for name or email; the callback is a POST
+    authorizationParams: { response_mode: 'form_post' },
+    // Apple only sends the user's name to the browser once, outside the ID token
+    mapClaims: (claims) => ({ ...mapOidcClaims(claims), first_name: null, last_name: null })
+  };
+};
+
+interface GitHubEmail {
+  email: string;
+  primary: boolean;
+  verified: boolean;
+}
+
+const githubProvider = (): OAuthProvider | null => {
+  const clientId = env('GITHUB_CLIENT_ID');
+  if (!clientId) return null;
+
+  // Overridable for GitHub Enterprise Server
+  const webUrl = env('GITHUB_URL') ?? 'https://github.com';
+  const apiUrl = env('GITHUB_API_URL') ?? 'https://api.github.com';
+
+  const getJson = async (path: string, accessToken: string): Promise<unknown> => {
+    const response = await fetch(`${apiUrl}${path}`, {
+      headers: { Authorization: `Bearer ${accessToken}`, Accept: 'application/vnd.github+json' },
+      signal: AbortSignal.timeout(10_000)
+    });
+    if (!response.ok) {
+      throw new Error(`GitHub API ${path} responded with ${response.status}`);
+    }
+    return response.json();
+  };
+
+  return {
+    kind: 'oauth2',
+    id: 'github',
+    name: 'GitHub',
+    authorizationEndpoint: `${webUrl}/login/oauth/authorize`,
+    tokenEndpoint: `${webUrl}/login/oauth/access_token`,
+    clientId,
+    getClientSecret: staticSecret(env('GITHUB_CLIENT_SECRET')),
+    scopes: ['read:user', 'user:email'],
+    fetchProfile: async (accessToken) => {
+      const profile = await getJson('/user', accessToken) as Record<string, unknown>;
+      const emails = await getJson('/user/emails', accessToken) as GitHubEmail[];
+      // The profile email is user-chosen and may be unverified; prefer the verified primary
+      const primary = emails.find(email => email.primary && email.verified);
+      return { ...profile, verified_email: primary?.email ?? null };
+    },
+    mapClaims: (claims) => ({
+      subject: String(claims['id']),
+      email: stringClaim(claims, 'verified_email'),
+      email_verified: stringClaim(claims, 'verified_email') !== null,
+      ...splitName(stringClaim(claims, 'name'))
+    })
+  };
+};
+
+// Any standards-compliant OpenID Connect provider (Okta, Auth0, Keycloak, ...)
+const genericOidcProvider = (): OAuthProvider | null => {
+  const issuer = env('OIDC_ISSUER');
+  const clientId = env('OIDC_CLIENT_ID');
+  if (!issuer || !clientId) return null;
+
+  return {
+    kind: 'oidc',
+    id: 'oidc',
+    name: env('OIDC_PROVIDER_NAME') ?? 'Single sign-on',
+    issuer: issuer.replace(/\/+$/, ''),
+    clientId,
+    getClientSecret: staticSecret(env('OIDC_CLIENT_SECRET')),
+    scopes: (env('OIDC_SCOPES') ?? 'openid email profile').split(/\s+/),
+    mapClaims: mapOidcClaims
+  };
+};
+
+const PROVIDER_FACTORIES = [googleProvider, githubProvider, microsoftProvider, appleProvider, genericOidcProvider];
+
+// Configured providers, in the order their buttons are shown
+export const listOAuthProviders = (): OAuthProvider[] =>
+  PROVIDER_FACTORIES
+    .map(factory => factory())
+    .filter((provider): provider is OAuthProvider => provider !== null);
+
+export const getOAuthProvider = (id: string): OAuthProvider | null =>
+  listOAuthProviders().find(provider => provider.id === id) ?? null;
@@ -0,0 +1,78 @@
+import { and, eq, isNull, lt } from 'drizzle-orm';
+import { db } from '../../db';
+import { oauthStatesTable, type OAuthState } from '../../db/schema';
+import { generateOpaqueToken, hashToken } from '../tokens';
+
+// Each authorization request gets a random state (CSRF protection), nonce
+// (ID token replay protection) and PKCE verifier (code interception
+// protection). Only a hash of the state is stored; the callback consumes it once.
+
+export const OAUTH_STATE_INVALID_MESSAGE = 'This sign-in attempt is invalid or has already been used. Please try again.';
+export const OAUTH_STATE_EXPIRED_MESSAGE = 'This sign-in attempt has expired. Please try again.';
+
+export const getStateTtlMinutes = (): number =>
+  parseInt(process.env['OAUTH_STATE_TTL_MINUTES'] ?? '', 10) || 10;
+
+export interface NewAuthorizationState {
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+}
+
+export const createAuthorizationState = async (
+  provider: string,
+  redirectUri: string,
+  returnTo: string | null
+): Promise<NewAuthorizationState> => {
+  const state = generateOpaqueToken();
+  const nonce = generateOpaqueToken();
+  const codeVerifier = generateOpaqueToken(); // 43 URL-safe characters, as PKCE requires
+
+  // Abandoned attempts are cleaned up as new ones start
+  await db.delete(oauthStatesTable)
+    .where(lt(oauthStatesTable.expires_at, new Date()))
+    .execute();
+
+  await db.insert(oauthStatesTable)
+    .values({
+      state_hash: hashToken(state),
+      provider,
+      nonce,
+      code_verifier: codeVerifier,
+      redirect_uri: redirectUri,
+      return_to: returnTo,
+      expires_at: new Date(Date.now() + getStateTtlMinutes() * 60 * 1000)
+    })
+    .execute();
+
+  return { state, nonce, codeVerifier };
+};
+
+// Throws OAUTH_STATE_INVALID_MESSAGE for unknown, replayed or cross-provider
+// states and OAUTH_STATE_EXPIRED_MESSAGE for stale ones
+export const consumeAuthorizationState = async (provider: string, state: string): Promise<OAuthState> => {
+  const now = new Date();
+
+  // Claim the state atomically so a replayed callback cannot also succeed
+  const claimed = await db.update(oauthStatesTable)
+    .set({ consumed_at: now })
+    .where(
+      and(
+        eq(oauthStatesTable.state_hash, hashToken(state)),
+        eq(oauthStatesTable.provider, provider),
+        isNull(oauthStatesTable.consumed_at)
+      )
+    )
+    .returning()
+    .execute();
+
+  if (claimed.length === 0) {
+    throw new Error(OAUTH_STATE_INVALID_MESSAGE);
+  }
+
+  if (claimed[0].expires_at < now) {
+    throw new Error(OAUTH_STATE_EXPIRED_MESSAGE);
+  }
+
+  return claimed[0];
+};
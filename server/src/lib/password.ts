@@ -0,0 +1,121 @@
+import { createHash, timingSafeEqual } from 'node:crypto';
+import { eq } from 'drizzle-orm';
+import { db } from '../db';
+import { usersTable, type User } from '../db/schema';
+
+// Hashes are stored in PHC string format, which records the algorithm and its
+// cost parameters next to the salt and digest:
+//   argon2id: $argon2id$v=19$m=19456,t=2,p=1$<salt>$<hash>
+//   bcrypt:   $2b$12$<salt+hash>
+// Accounts created before real hashing was introduced hold `hashed_<password>`.
+const LEGACY_PREFIX = 'hashed_';
+
+export type PasswordAlgorithm = 'argon2id' | 'bcrypt';
+
+export interface PasswordHashConfig {
+  algorithm: PasswordAlgorithm;
+  argon2MemoryCost: number; // KiB
+  argon2TimeCost: number; // iterations
+  bcryptCost: number; // log2 rounds
+}
+
+const readInt = (name: string, fallback: number): number => {
+  const value = parseInt(process.env[name] ?? '', 10);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+// Read on every call so deployments (and tests) can tune costs via env vars
+export const getPasswordHashConfig = (): PasswordHashConfig => ({
+  algorithm: process.env['PASSWORD_HASH_ALGORITHM'] === 'bcrypt' ? 'bcrypt' : 'argon2id',
+  argon2MemoryCost: readInt('PASSWORD_ARGON2_MEMORY_COST', 19456), // OWASP minimum: 19 MiB
+  argon2TimeCost: readInt('PASSWORD_ARGON2_TIME_COST', 2),
+  bcryptCost: readInt('PASSWORD_BCRYPT_COST', 12)
+});
+
+export const hashPassword = async (password: string, config = getPasswordHashConfig()): Promise<string> => {
+  if (config.algorithm === 'bcrypt') {
+    return Bun.password.hash(password, { algorithm: 'bcrypt', cost: config.bcryptCost });
+  }
+
+  return Bun.password.hash(password, {
+    algorithm: 'argon2id',
+    memoryCost: config.argon2MemoryCost,
+    timeCost: config.argon2TimeCost
+  });
+};
+
+const isLegacyHash = (storedHash: string): boolean => storedHash.startsWith(LEGACY_PREFIX);
+
+// Compare digests rather than raw strings so the comparison is constant-time
+// regardless of password length
+const verifyLegacyHash = (password: string, storedHash: string): boolean => {
+  const expected = createHash('sha256').update(storedHash).digest();
+  const actual = createHash('sha256').update(`${LEGACY_PREFIX}${password}`).digest();
+  return timingSafeEqual(expected, actual);
+};
+
+export const verifyPassword = async (password: string, storedHash: string): Promise<boolean> => {
+  if (isLegacyHash(storedHash)) {
+    return verifyLegacyHash(password, storedHash);
+  }
+
+  try {
+    return await Bun.password.verify(password, storedHash);
+  } catch (error) {
+    // Unrecognised hash formats are treated as a failed match, never as a crash
+    console.error('Password verification failed:', error);
+    return false;
+  }
+};
+
+// Whether a stored hash should be replaced because it predates real hashing,
+// uses a different algorithm than configured, or uses weaker cost parameters
+export const needsRehash = (storedHash: string, config = getPasswordHashConfig()): boolean => {
+  if (isLegacyHash(storedHash)) {
+    return true;
+  }
+
+  const argon2Match = storedHash.match(/^\$argon2id\$v=\d+\$m=(\d+),t=(\d+),p=\d+\$/);
+  if (argon2Match) {
+    return config.algorithm !== 'argon2id' ||
+      parseInt(argon2Match[1], 10) < config.argon2MemoryCost ||
+      parseInt(argon2Match[2], 10) < config.argon2TimeCost;
+  }
+
+  const bcryptMatch = storedHash.match(/^\$2[abxy]?\$(\d{2})\$/);
+  if (bcryptMatch) {
+    return config.algorithm !== 'bcrypt' ||
+      parseInt(bcryptMatch[1], 10) < config.bcryptCost;
+  }
+
+  // Unknown format - replace it with the current one
+  return true;
+};
+
+// Verifies a user's password and, on success, transparently upgrades the stored
+// hash when it is legacy or weaker than the current configuration
+export const verifyUserPassword = async (user: User, password: string): Promise<boolean> => {
+  if (!user.password_hash) {
+    return false;
+  }
+
+  const valid = await verifyPassword(password, user.password_hash);
+  if (!valid) {
+    return false;
+  }
+
+  if (needsRehash(user.password_hash)) {
+    try {
+      const upgradedHash = await hashPassword(password);
+      await db.update(usersTable)
+        .set({ password_hash: upgradedHash, updated_at: new Date() })
+        .where(eq(usersTable.id, user.id))
+        .execute();
+    } catch (error) {
+      // A failed upgrade must not block an otherwise successful sign-in
+      console.error('Password hash upgrade failed:', error);
+    }
+  }
+
+  return true;
+};
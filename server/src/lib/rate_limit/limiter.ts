@@ -0,0 +1,143 @@
+import { z } from 'zod';
+import { hashToken } from '../tokens';
+import { canonicalizeEmail } from '../email_canonical';
+import { getRateLimitStore, type RateLimitStore } from './stores';
+
+// Limits on public procedures. Each procedure has a list of rules; a rule
+// allows `limit` calls per `window_seconds`, counted per client IP, per email
+// address in the input, or across everyone (global). A call must pass every
+// rule. Global rules only count calls that passed the per-client rules, so one
+// client cannot use up everyone's allowance. Counting uses a sliding window:
+// the previous fixed window's count is weighted by how much of it still
+// overlaps the last window_seconds.
+//
+// The defaults below can be replaced per procedure with RATE_LIMITS, a JSON
+// object such as {"registerUser":[{"scope":"ip","limit":10,"window_seconds":3600}]}.
+// An empty list turns limiting off for that procedure.
+//
+// Per-email rules on procedures whose input has no email are counted by the
+// handler once it knows the address (enforceEmailRateLimit in trpc.ts).
+
+const rateLimitRuleSchema = z.object({
+  scope: z.enum(['ip', 'email', 'global']),
+  limit: z.number().int().positive(),
+  window_seconds: z.number().int().positive()
+});
+
+export type RateLimitRule = z.infer<typeof rateLimitRuleSchema>;
+
+const rateLimitOverridesSchema = z.record(z.array(rateLimitRuleSchema));
+
+const perIp = (limit: number, windowSeconds: number): RateLimitRule => ({ scope: 'ip', limit, window_seconds: windowSeconds });
+const perEmail = (limit: number, windowSeconds: number): RateLimitRule => ({ scope: 'email', limit, window_seconds: windowSeconds });
+const overall = (limit: number, windowSeconds: number): RateLimitRule => ({ scope: 'global', limit, window_seconds: windowSeconds });
+
+// Applies to public procedures without an entry below
+export const DEFAULT_RATE_LIMIT: RateLimitRule[] = [perIp(120, 60)];
+
+export const RATE_LIMITS: Record<string, RateLimitRule[]> = {
+  healthcheck: [],
+  checkEmailAvailability: [perIp(30, 60), overall(1000, 60)],
+  registerUser: [perIp(5, 60 * 60), perEmail(3, 60 * 60), overall(100, 60)],
+  sendVerificationCode: [perIp(10, 60 * 60), perEmail(5, 60 * 60)],
+  verifyEmail: [perIp(20, 10 * 60), perEmail(10, 10 * 60)],
+  verifyEmailByToken: [perIp(20, 10 * 60)],
+  signIn: [perIp(20, 10 * 60), perEmail(10, 10 * 60)],
+  startGoogleSignIn: [perIp(30, 10 * 60)],
+  googleSignIn: [perIp(20, 10 * 60)],
+  linkExternalAccount: [perIp(20, 10 * 60), perEmail(10, 10 * 60)], // Per email: code guesses only
+  sendLinkVerificationCode: [perIp(10, 60 * 60), perEmail(5, 60 * 60)],
+  requestPasswordReset: [perIp(10, 60 * 60), perEmail(5, 60 * 60)],
+  resetPassword: [perIp(20, 10 * 60)],
+  unlockAccount: [perIp(20, 10 * 60)],
+  requestMagicLink: [perIp(10, 60 * 60), perEmail(5, 60 * 60)],
+  consumeMagicLink: [perIp(20, 10 * 60)],
+  refreshSession: [perIp(60, 60)]
+};
+
+let cachedOverrides: { raw: string; overrides: Record<string, RateLimitRule[]> } | null = null;
+
+const getOverrides = (): Record<string, RateLimitRule[]> => {
+  const raw = process.env['RATE_LIMITS'] ?? '';
+  if (cachedOverrides?.raw !== raw) {
+    cachedOverrides = { raw, overrides: raw ? rateLimitOverridesSchema.parse(JSON.parse(raw)) : {} };
+  }
+  return cachedOverrides.overrides;
+};
+
+export const getRateLimitRules = (procedure: string): RateLimitRule[] =>
+  getOverrides()[procedure] ?? RATE_LIMITS[procedure] ?? DEFAULT_RATE_LIMIT;
+
+// Who a call is counted against
+export interface RateLimitSubject {
+  ip_address?: string | null;
+  email?: string | null;
+}
+
+export type RateLimitDecision =
+  | { allowed: true }
+  | { allowed: false; rule: RateLimitRule; retry_after_seconds: number };
+
+// How long until one more call fits under the limit, if no other calls arrive
+export const getRetryAfterMs = (counts: { current: number; previous: number }, limit: number, windowMs: number, elapsedMs: number): number => {
+  const { current, previous } = counts;
+
+  // Still in this window, once enough of the previous window has slid out
+  if (current + 1 <= limit && previous > 0) {
+    const wait = windowMs * (1 - (limit - current - 1) / previous) - elapsedMs;
+    if (wait < windowMs - elapsedMs) {
+      return Math.max(wait, 0);
+    }
+  }
+
+  // Otherwise in the next window, once enough of this one has slid out
+  const remaining = windowMs - elapsedMs;
+  return remaining + Math.max(windowMs * (1 - (limit - 1) / current), 0);
+};
+
+const subjectKey = (rule: RateLimitRule, subject: RateLimitSubject): string | null => {
+  if (rule.scope === 'global') return 'all';
+  if (rule.scope === 'ip') return subject.ip_address || null;
+  // Emails are hashed so the counters do not hold addresses
+  return subject.email ? hashToken(canonicalizeEmail(subject.email)) : null;
+};
+
+// Counts a call to the procedure and decides whether it may go ahead.
+// Rules whose subject is unknown (no IP, no email in the input) are skipped.
+export const checkRateLimit = async (
+  procedure: string,
+  subject: RateLimitSubject,
+  store: RateLimitStore = getRateLimitStore(),
+  now: number = Date.now()
+): Promise<RateLimitDecision> => {
+  let denied: Extract<RateLimitDecision, { allowed: false }> | null = null;
+
+  // Per-client rules first; a call they refuse is not counted globally
+  const rules = getRateLimitRules(procedure);
+  const ordered = [...rules.filter(rule => rule.scope !== 'global'), ...rules.filter(rule => rule.scope === 'global')];
+
+  for (const rule of ordered) {
+    if (rule.scope === 'global' && denied) break;
+
+    const subjectId = subjectKey(rule, subject);
+    if (!subjectId) continue;
+
+    const windowMs = rule.window_seconds * 1000;
+    const windowStart = Math.floor(now / windowMs) * windowMs;
+    const elapsedMs = now - windowStart;
+    const key = `${procedure}:${rule.scope}:${rule.window_seconds}:${subjectId}`;
+
+    const counts = await store.increment(key, windowStart, windowMs);
+    const estimate = counts.previous * (1 - elapsedMs / windowMs) + counts.current;
+
+    if (estimate > rule.limit) {
+      const retryAfterSeconds = Math.max(Math.ceil(getRetryAfterMs(counts, rule.limit, windowMs, elapsedMs) / 1000), 1);
+      // Report the rule that keeps the caller waiting longest
+      if (!denied || retryAfterSeconds > denied.retry_after_seconds) {
+        denied = { allowed: false, rule, retry_after_seconds: retryAfterSeconds };
+      }
+    }
+  }
+
+  return denied ?? { allowed: true };
+};
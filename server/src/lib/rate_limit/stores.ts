@@ -0,0 +1,119 @@
+import { and, eq, lt, sql } from 'drizzle-orm';
+import { db } from '../../db';
+import { rateLimitCountersTable } from '../../db/schema';
+
+// Where rate limit counters live. Both stores keep one counter per key and
+// fixed window; the limiter combines the current and previous windows into a
+// sliding-window estimate. RATE_LIMIT_STORE picks one:
+//   postgres - shared by every server instance (default)
+//   memory   - per process, for a single instance or local development
+
+export interface WindowCounts {
+  current: number; // Hits in the current window, including this one
+  previous: number; // Hits in the window before it
+}
+
+export interface RateLimitStore {
+  name: string;
+  // Counts a hit for the key in the window starting at windowStart
+  increment: (key: string, windowStart: number, windowMs: number) => Promise<WindowCounts>;
+}
+
+// Expired counters are swept on every this-many increments
+const SWEEP_INTERVAL = 100;
+
+export const createMemoryRateLimitStore = (): RateLimitStore => {
+  const counters = new Map<string, { windowStart: number; windowMs: number; current: number; previous: number }>();
+  let increments = 0;
+
+  const sweep = (now: number) => {
+    for (const [key, counter] of counters) {
+      if (counter.windowStart + 2 * counter.windowMs <= now) {
+        counters.delete(key);
+      }
+    }
+  };
+
+  return {
+    name: 'memory',
+    increment: async (key, windowStart, windowMs) => {
+      if (++increments % SWEEP_INTERVAL === 0) {
+        sweep(Date.now());
+      }
+
+      const counter = counters.get(key);
+      if (!counter || counter.windowStart + windowMs < windowStart) {
+        // New key, or nothing since before the previous window
+        counters.set(key, { windowStart, windowMs, current: 1, previous: 0 });
+        return { current: 1, previous: 0 };
+      }
+
+      if (counter.windowStart < windowStart) {
+        // The window just rolled over
+        counter.previous = counter.current;
+        counter.current = 0;
+        counter.windowStart = windowStart;
+      }
+
+      counter.current += 1;
+      return { current: counter.current, previous: counter.previous };
+    }
+  };
+};
+
+export const createPostgresRateLimitStore = (): RateLimitStore => {
+  let increments = 0;
+
+  return {
+    name: 'postgres',
+    increment: async (key, windowStart, windowMs) => {
+      if (++increments % SWEEP_INTERVAL === 0) {
+        await db.delete(rateLimitCountersTable)
+          .where(lt(rateLimitCountersTable.expires_at, new Date()))
+          .execute();
+      }
+
+      const current = await db.insert(rateLimitCountersTable)
+        .values({
+          key,
+          window_start: new Date(windowStart),
+          count: 1,
+          expires_at: new Date(windowStart + 2 * windowMs)
+        })
+        .onConflictDoUpdate({
+          target: [rateLimitCountersTable.key, rateLimitCountersTable.window_start],
+          set: { count: sql`${rateLimitCountersTable.count} + 1` }
+        })
+        .returning({ count: rateLimitCountersTable.count })
+        .execute();
+
+      const previous = await db.select({ count: rateLimitCountersTable.count })
+        .from(rateLimitCountersTable)
+        .where(
+          and(
+            eq(rateLimitCountersTable.key, key),
+            eq(rateLimitCountersTable.window_start, new Date(windowStart - windowMs))
+          )
+        )
+        .execute();
+
+      return { current: current[0].count, previous: previous[0]?.count ?? 0 };
+    }
+  };
+};
+
+const stores = new Map<string, RateLimitStore>();
+
+export const getRateLimitStore = (): RateLimitStore => {
+  const name = process.env['RATE_LIMIT_STORE'] || 'postgres';
+  if (name !== 'postgres' && name !== 'memory') {
+    throw new Error(`Unknown RATE_LIMIT_STORE "${name}"; expected postgres or memory`);
+  }
+
+  let store = stores.get(name);
+  if (!store) {
+    store = name === 'memory' ? createMemoryRateLimitStore() : createPostgresRateLimitStore();
+    stores.set(name, store);
+  }
+  return store;
+};
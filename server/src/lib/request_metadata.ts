@@ -0,0 +1,87 @@
+import type { IncomingMessage } from 'node:http';
+import { BlockList, isIP } from 'node:net';
+
+// Client details recorded alongside sessions and audit records
+export interface RequestMetadata {
+  ip_address?: string | null;
+  user_agent?: string | null;
+  accept_language?: string | null; // For picking the language of emails sent during the request
+}
+
+// Caddy forwards the client address in X-Real-IP / X-Forwarded-For. Those
+// headers are only believed on connections from a trusted proxy; anyone
+// connecting directly could otherwise claim any address. TRUSTED_PROXIES is a
+// comma-separated list of addresses and CIDR ranges (default: loopback, where
+// Caddy runs).
+const DEFAULT_TRUSTED_PROXIES = '127.0.0.1,::1';
+
+let cachedProxies: { raw: string; list: BlockList } | null = null;
+
+const getTrustedProxies = (): BlockList => {
+  const raw = process.env['TRUSTED_PROXIES'] || DEFAULT_TRUSTED_PROXIES;
+  if (cachedProxies?.raw !== raw) {
+    const list = new BlockList();
+    for (const entry of raw.split(',').map(item => item.trim()).filter(Boolean)) {
+      const [address, prefix] = entry.split('/');
+      const type = isIP(address) === 6 ? 'ipv6' : 'ipv4';
+      if (prefix === undefined) {
+        list.addAddress(address, type);
+      } else {
+        list.addSubnet(address, parseInt(prefix, 10), type);
+      }
+    }
+    cachedProxies = { raw, list };
+  }
+  return cachedProxies.list;
+};
+
+// IPv4 clients on a dual-stack socket show up as ::ffff:a.b.c.d
+const unmapIpv4 = (address: string): string =>
+  address.toLowerCase().startsWith('::ffff:') && isIP(address.slice(7)) === 4 ? address.slice(7) : address;
+
+export const isTrustedProxy = (address: string | undefined): boolean => {
+  if (!address) {
+    return false;
+  }
+  const unmapped = unmapIpv4(address);
+  const type = isIP(unmapped);
+  return type !== 0 && getTrustedProxies().check(unmapped, type === 6 ? 'ipv6' : 'ipv4');
+};
+
+const firstHeader = (value: string | string[] | undefined): string | undefined =>
+  Array.isArray(value) ? value[0] : value;
+
+// The address a trusted proxy says the request came from: X-Real-IP, else the
+// nearest X-Forwarded-For hop that is not itself a trusted proxy
+const forwardedClientIp = (req: IncomingMessage): string | undefined => {
+  const realIp = firstHeader(req.headers['x-real-ip'])?.trim();
+  if (realIp) {
+    return realIp;
+  }
+
+  const hops = (firstHeader(req.headers['x-forwarded-for']) ?? '')
+    .split(',')
+    .map(hop => hop.trim())
+    .filter(Boolean);
+  for (let i = hops.length - 1; i >= 0; i--) {
+    if (i === 0 || !isTrustedProxy(hops[i])) {
+      return hops[i];
+    }
+  }
+  return undefined;
+};
+
+export const getRequestMetadata = (req: IncomingMessage | undefined): RequestMetadata => {
+  if (!req) {
+    return {};
+  }
+
+  const peer = req.socket?.remoteAddress;
+  const ip = (isTrustedProxy(peer) ? forwardedClientIp(req) : undefined) || (peer && unmapIpv4(peer));
+
+  return {
+    ip_address: ip ? ip.trim().slice(0, 45) : null,
+    user_agent: req.headers['user-agent'] ?? null,
+    accept_language: req.headers['accept-language'] ?? null
+  };
+};
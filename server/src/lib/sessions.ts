@@ -0,0 +1,131 @@
+import { randomUUID } from 'node:crypto';
+import { and, eq, isNull, ne } from 'drizzle-orm';
+import { db } from '../db';
+import { userSessionsTable } from '../db/schema';
+import { generateOpaqueToken, getRefreshTokenTtlSeconds, hashToken, signAccessToken } from './tokens';
+import { type RequestMetadata } from './request_metadata';
+import { notifyIfNewDevice } from './account_notifications';
+
+export interface SessionTokens {
+  token: string; // Signed access token
+  refresh_token: string; // Opaque, single-use refresh token
+  session_id: string; // user_sessions.family_id
+}
+
+export const INVALID_REFRESH_TOKEN_MESSAGE = 'Your session has expired. Please sign in again.';
+
+type Executor = Pick<typeof db, 'update'>;
+
+const refreshTokenExpiry = (): Date => new Date(Date.now() + getRefreshTokenTtlSeconds() * 1000);
+
+// Starts a new session family after the user has authenticated, telling the
+// owner when it is on a device the account has not used before
+export const createSession = async (userId: number, meta: RequestMetadata = {}): Promise<SessionTokens> => {
+  const familyId = randomUUID();
+  const refreshToken = generateOpaqueToken();
+
+  await notifyIfNewDevice(userId, meta);
+
+  await db.insert(userSessionsTable)
+    .values({
+      user_id: userId,
+      family_id: familyId,
+      refresh_token_hash: hashToken(refreshToken),
+      user_agent: meta.user_agent ?? null,
+      ip_address: meta.ip_address ?? null,
+      expires_at: refreshTokenExpiry()
+    })
+    .execute();
+
+  return {
+    token: await signAccessToken({ userId, sessionId: familyId }),
+    refresh_token: refreshToken,
+    session_id: familyId
+  };
+};
+
+export const revokeSessionFamily = async (familyId: string): Promise<void> => {
+  await db.update(userSessionsTable)
+    .set({ revoked_at: new Date() })
+    .where(
+      and(
+        eq(userSessionsTable.family_id, familyId),
+        isNull(userSessionsTable.revoked_at)
+      )
+    )
+    .execute();
+};
+
+// Signs the user out everywhere, optionally keeping the session making the request
+export const revokeUserSessions = async (userId: number, exceptFamilyId?: string, executor: Executor = db): Promise<number> => {
+  const revoked = await executor.update(userSessionsTable)
+    .set({ revoked_at: new Date() })
+    .where(
+      and(
+        eq(userSessionsTable.user_id, userId),
+        isNull(userSessionsTable.revoked_at),
+        ...(exceptFamilyId ? [ne(userSessionsTable.family_id, exceptFamilyId)] : [])
+      )
+    )
+    .returning({ family_id: userSessionsTable.family_id })
+    .execute();
+
+  return new Set(revoked.map(row => row.family_id)).size;
+};
+
+// Exchanges a refresh token for a new access/refresh pair. The presented token
+// is consumed; presenting it a second time revokes every token in its family.
+export const rotateSession = async (refreshToken: string, meta: RequestMetadata = {}): Promise<SessionTokens> => {
+  const now = new Date();
+
+  const sessions = await db.select()
+    .from(userSessionsTable)
+    .where(eq(userSessionsTable.refresh_token_hash, hashToken(refreshToken)))
+    .execute();
+
+  const session = sessions[0];
+  if (!session || session.revoked_at || session.expires_at < now) {
+    throw new Error(INVALID_REFRESH_TOKEN_MESSAGE);
+  }
+
+  // Claim the token atomically so two concurrent refreshes cannot both succeed
+  const claimed = await db.update(userSessionsTable)
+    .set({ rotated_at: now })
+    .where(
+      and(
+        eq(userSessionsTable.id, session.id),
+        isNull(userSessionsTable.rotated_at)
+      )
+    )
+    .returning()
+    .execute();
+
+  if (claimed.length === 0) {
+    console.warn(`Refresh token reuse detected for session ${session.family_id}; revoking session`);
+    await revokeSessionFamily(session.family_id);
+    throw new Error(INVALID_REFRESH_TOKEN_MESSAGE);
+  }
+
+  const nextRefreshToken = generateOpaqueToken();
+
+  await db.insert(userSessionsTable)
+    .values({
+      user_id: session.user_id,
+      family_id: session.family_id,
+      refresh_token_hash: hashToken(nextRefreshToken),
+      authenticated_at: session.authenticated_at,
+      device_name: session.device_name,
+      user_agent: meta.user_agent ?? session.user_agent,
+      ip_address: meta.ip_address ?? session.ip_address,
+      last_seen_at: now,
+      expires_at: refreshTokenExpiry(),
+      created_at: session.created_at
+    })
+    .execute();
+
+  return {
+    token: await signAccessToken({ userId: session.user_id, sessionId: session.family_id }),
+    refresh_token: nextRefreshToken,
+    session_id: session.family_id
+  };
+};
@@ -0,0 +1,178 @@
+import { createHash, randomBytes } from 'node:crypto';
+import { SignJWT, jwtVerify, importPKCS8, importSPKI, type CryptoKey, type JWTHeaderParameters, type JWTPayload } from 'jose';
+
+// Access tokens are short-lived JWTs signed with HS256 or EdDSA. Every token
+// carries the `kid` of its signing key so keys can be rotated: the current key
+// signs, while previous keys listed in AUTH_JWT_PREVIOUS_KEYS still verify.
+
+type JwtAlgorithm = 'HS256' | 'EdDSA';
+
+interface JwtKey {
+  kid: string;
+  alg: JwtAlgorithm;
+  signingKey: CryptoKey | Uint8Array | null; // Only the current key can sign
+  verificationKey: CryptoKey | Uint8Array;
+}
+
+interface PreviousKeyConfig {
+  kid: string;
+  alg: JwtAlgorithm;
+  secret?: string; // HS256
+  public_key?: string; // EdDSA, SPKI PEM
+}
+
+export interface AccessTokenClaims {
+  userId: number;
+  sessionId: string; // user_sessions.family_id
+}
+
+export const getAccessTokenTtlSeconds = (): number =>
+  parseInt(process.env['AUTH_ACCESS_TOKEN_TTL_SECONDS'] ?? '', 10) || 15 * 60;
+
+export const getRefreshTokenTtlSeconds = (): number =>
+  parseInt(process.env['AUTH_REFRESH_TOKEN_TTL_SECONDS'] ?? '', 10) || 30 * 24 * 60 * 60;
+
+const getIssuer = (): string => process.env['AUTH_JWT_ISSUER'] || 'amazon-signup-login';
+const getAudience = (): string => process.env['AUTH_JWT_AUDIENCE'] || 'amazon-signup-login';
+
+const encodeSecret = (secret: string): Uint8Array => new TextEncoder().encode(secret);
+
+const loadCurrentKey = async (): Promise<JwtKey> => {
+  const kid = process.env['AUTH_JWT_KEY_ID'] || 'default';
+
+  if (process.env['AUTH_JWT_ALGORITHM'] === 'EdDSA') {
+    const privateKeyPem = process.env['AUTH_JWT_PRIVATE_KEY'];
+    const publicKeyPem = process.env['AUTH_JWT_PUBLIC_KEY'];
+    if (!privateKeyPem || !publicKeyPem) {
+      throw new Error('AUTH_JWT_PRIVATE_KEY and AUTH_JWT_PUBLIC_KEY are required for EdDSA');
+    }
+
+    return {
+      kid,
+      alg: 'EdDSA',
+      signingKey: await importPKCS8(privateKeyPem, 'EdDSA'),
+      verificationKey: await importSPKI(publicKeyPem, 'EdDSA')
+    };
+  }
+
+  let secret = process.env['AUTH_JWT_SECRET'];
+  if (!secret) {
+    // Tokens signed with a per-process secret do not survive a restart
+    console.warn('AUTH_JWT_SECRET is not set; using a random secret for this process');
+    secret = randomBytes(32).toString('hex');
+  }
+
+  const key = encodeSecret(secret);
+  return { kid, alg: 'HS256', signingKey: key, verificationKey: key };
+};
+
+const loadPreviousKeys = async (): Promise<JwtKey[]> => {
+  const raw = process.env['AUTH_JWT_PREVIOUS_KEYS'];
+  if (!raw) {
+    return [];
+  }
+
+  const configs = JSON.parse(raw) as PreviousKeyConfig[];
+  return Promise.all(configs.map(async (config): Promise<JwtKey> => {
+    if (config.alg === 'EdDSA') {
+      return {
+        kid: config.kid,
+        alg: 'EdDSA',
+        signingKey: null,
+        verificationKey: await importSPKI(config.public_key ?? '', 'EdDSA')
+      };
+    }
+
+    return {
+      kid: config.kid,
+      alg: 'HS256',
+      signingKey: null,
+      verificationKey: encodeSecret(config.secret ?? '')
+    };
+  }));
+};
+
+let keyring: Promise<JwtKey[]> | null = null;
+
+// The first key is the current signing key
+const getKeyring = (): Promise<JwtKey[]> => {
+  if (!keyring) {
+    keyring = Promise.all([loadCurrentKey(), loadPreviousKeys()])
+      .then(([current, previous]) => [current, ...previous]);
+  }
+  return keyring;
+};
+
+const resolveKey = (keys: JwtKey[]) => async (header: JWTHeaderParameters) => {
+  const key = keys.find(candidate => candidate.kid === header.kid && candidate.alg === header.alg);
+  if (!key) {
+    throw new Error(`Unknown signing key: ${header.kid}`);
+  }
+  return key.verificationKey;
+};
+
+export const signAccessToken = async (claims: AccessTokenClaims): Promise<string> => {
+  const [currentKey] = await getKeyring();
+
+  return new SignJWT({ sid: claims.sessionId })
+    .setProtectedHeader({ alg: currentKey.alg, kid: currentKey.kid, typ: 'JWT' })
+    .setSubject(String(claims.userId))
+    .setIssuer(getIssuer())
+    .setAudience(getAudience())
+    .setIssuedAt()
+    .setExpirationTime(`${getAccessTokenTtlSeconds()}s`)
+    .sign(currentKey.signingKey!);
+};
+
+// Throws when the token is malformed, expired, or signed with an unknown key
+export const verifyAccessToken = async (token: string): Promise<AccessTokenClaims> => {
+  const keys = await getKeyring();
+
+  const { payload } = await jwtVerify(token, resolveKey(keys), {
+    issuer: getIssuer(),
+    audience: getAudience(),
+    algorithms: ['HS256', 'EdDSA']
+  });
+
+  const userId = parseInt(payload.sub ?? '', 10);
+  if (!Number.isInteger(userId) || typeof payload['sid'] !== 'string') {
+    throw new Error('Access token is missing required claims');
+  }
+
+  return { userId, sessionId: payload['sid'] };
+};
+
+// Short-lived tokens carrying state between the steps of a multi-step flow
+// (e.g. account linking). The purpose is part of the audience, so these can
+// never be accepted as access tokens or for a different flow.
+export const signPurposeToken = async (purpose: string, claims: JWTPayload, ttlSeconds: number): Promise<string> => {
+  const [currentKey] = await getKeyring();
+
+  return new SignJWT(claims)
+    .setProtectedHeader({ alg: currentKey.alg, kid: currentKey.kid, typ: 'JWT' })
+    .setIssuer(getIssuer())
+    .setAudience(`${getAudience()}:${purpose}`)
+    .setIssuedAt()
+    .setExpirationTime(`${ttlSeconds}s`)
+    .sign(currentKey.signingKey!);
+};
+
+// Throws when the token is malformed, expired, or was issued for another purpose
+export const verifyPurposeToken = async (purpose: string, token: string): Promise<JWTPayload> => {
+  const keys = await getKeyring();
+
+  const { payload } = await jwtVerify(token, resolveKey(keys), {
+    issuer: getIssuer(),
+    audience: `${getAudience()}:${purpose}`,
+    algorithms: ['HS256', 'EdDSA']
+  });
+
+  return payload;
+};
+
+// Opaque random tokens (refresh tokens, reset links, ...) are handed to the client
+// once and only their SHA-256 digest is stored
+export const generateOpaqueToken = (): string => randomBytes(32).toString('base64url');
+
+export const hashToken = (token: string): string =>
+  createHash('sha256').update(token).digest('hex');
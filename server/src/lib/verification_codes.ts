@@ -0,0 +1,139 @@
+import { createHmac, randomBytes, randomInt, timingSafeEqual } from 'node:crypto';
+import { and, desc, eq, lt, sql, TransactionRollbackError } from 'drizzle-orm';
+import { db } from '../db';
+import { emailVerificationTable, type EmailVerification } from '../db/schema';
+
+// Six-digit codes have a small keyspace, so they are never stored in the clear:
+// each row holds an HMAC of its code, and every guess counts against the row.
+// Once a code has taken too many wrong guesses it is deleted and a new one
+// must be requested.
+
+export type VerificationPurpose = EmailVerification['purpose'];
+
+// Result of checking a guess against the pending code for an email. 'declined'
+// means the code matched but the caller's onValid step declined to apply it,
+// so the code was left in place.
+export type VerificationCodeCheck = 'valid' | 'invalid' | 'expired' | 'locked' | 'declined';
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export const TOO_MANY_ATTEMPTS_MESSAGE = 'Too many incorrect attempts. Please request a new code.';
+
+export const getMaxVerificationAttempts = (): number =>
+  parseInt(process.env['VERIFICATION_CODE_MAX_ATTEMPTS'] ?? '', 10) || 5;
+
+let processSecret: string | null = null;
+
+const getCodeSecret = (): string => {
+  const secret = process.env['VERIFICATION_CODE_SECRET'];
+  if (secret) {
+    return secret;
+  }
+
+  if (!processSecret) {
+    // Codes hashed with a per-process secret do not survive a restart
+    console.warn('VERIFICATION_CODE_SECRET is not set; using a random secret for this process');
+    processSecret = randomBytes(32).toString('hex');
+  }
+  return processSecret;
+};
+
+export const generateVerificationCode = (): string => randomInt(100000, 1000000).toString();
+
+export const hashVerificationCode = (code: string): string =>
+  createHmac('sha256', getCodeSecret()).update(code).digest('hex');
+
+const codeMatches = (code: string, codeHash: string): boolean => {
+  const expected = Buffer.from(codeHash, 'hex');
+  const actual = Buffer.from(hashVerificationCode(code), 'hex');
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+};
+
+const deleteCode = async (id: number): Promise<void> => {
+  await db.delete(emailVerificationTable)
+    .where(eq(emailVerificationTable.id, id))
+    .execute();
+};
+
+// Checks a guess against the most recent code for the email and purpose,
+// consuming the code when it matches. An email without a pending code is
+// indistinguishable from a wrong guess. onValid runs in the same transaction as
+// the consumption, so whatever the code unlocks happens exactly once.
+export const checkVerificationCode = async (
+  email: string,
+  purpose: VerificationPurpose,
+  code: string,
+  onValid?: (tx: Transaction) => Promise<boolean>
+): Promise<VerificationCodeCheck> => {
+  const pending = await db.select()
+    .from(emailVerificationTable)
+    .where(
+      and(
+        eq(emailVerificationTable.email, email),
+        eq(emailVerificationTable.purpose, purpose)
+      )
+    )
+    .orderBy(desc(emailVerificationTable.created_at), desc(emailVerificationTable.id))
+    .limit(1)
+    .execute();
+
+  const record = pending[0];
+  if (!record) {
+    hashVerificationCode(code); // Same work as a real comparison
+    return 'invalid';
+  }
+
+  if (record.expires_at < new Date()) {
+    await deleteCode(record.id);
+    return 'expired';
+  }
+
+  // Count the guess before comparing, so parallel guesses cannot exceed the limit
+  const maxAttempts = getMaxVerificationAttempts();
+  const claimed = await db.update(emailVerificationTable)
+    .set({ attempts: sql`${emailVerificationTable.attempts} + 1` })
+    .where(
+      and(
+        eq(emailVerificationTable.id, record.id),
+        lt(emailVerificationTable.attempts, maxAttempts)
+      )
+    )
+    .returning()
+    .execute();
+
+  if (claimed.length === 0) {
+    await deleteCode(record.id);
+    return 'locked';
+  }
+
+  if (codeMatches(code, record.code_hash)) {
+    try {
+      return await db.transaction(async (tx) => {
+        // Consume atomically so the code cannot be used twice
+        const consumed = await tx.delete(emailVerificationTable)
+          .where(eq(emailVerificationTable.id, record.id))
+          .returning()
+          .execute();
+        if (consumed.length === 0) {
+          return 'invalid';
+        }
+
+        if (onValid && !(await onValid(tx))) {
+          tx.rollback();
+        }
+        return 'valid';
+      });
+    } catch (error) {
+      if (error instanceof TransactionRollbackError) {
+        return 'declined';
+      }
+      throw error;
+    }
+  }
+
+  if (claimed[0].attempts >= maxAttempts) {
+    await deleteCode(record.id);
+    return 'locked';
+  }
+  return 'invalid';
+};
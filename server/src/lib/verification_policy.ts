@@ -0,0 +1,85 @@
+import { and, desc, eq } from 'drizzle-orm';
+import { db } from '../db';
+import { emailVerificationTable } from '../db/schema';
+import { generateVerificationCode, hashVerificationCode, type VerificationPurpose } from './verification_codes';
+import { generateOpaqueToken, hashToken } from './tokens';
+import { buildAppUrl } from './links';
+
+// One policy for every emailed verification code, whichever handler sends it:
+// a code lives for VERIFICATION_CODE_TTL_MINUTES, a new one can be requested
+// once VERIFICATION_RESEND_COOLDOWN_SECONDS have passed since the last, and
+// sending a new code invalidates every older one for the same email and purpose.
+// Email verification codes come with a link (/verify?token=) as an alternative
+// to typing the code.
+
+export const getVerificationCodeTtlMinutes = (): number =>
+  parseInt(process.env['VERIFICATION_CODE_TTL_MINUTES'] ?? '', 10) || 15;
+
+export const getResendCooldownSeconds = (): number => {
+  const configured = parseInt(process.env['VERIFICATION_RESEND_COOLDOWN_SECONDS'] ?? '', 10);
+  return Number.isNaN(configured) ? 60 : Math.max(configured, 0);
+};
+
+export interface IssuedVerificationCode {
+  code: string; // To be emailed; only its hash is stored
+  link_url: string | null; // Verification link for the same pending verification, for verify_email
+  expires_at: Date;
+  retry_after_seconds: number; // Until another code may be requested
+}
+
+// Seconds until another code may be sent, or 0 when one may be sent now
+export const getResendRetryAfterSeconds = async (email: string, purpose: VerificationPurpose): Promise<number> => {
+  const latest = await db.select({ created_at: emailVerificationTable.created_at })
+    .from(emailVerificationTable)
+    .where(
+      and(
+        eq(emailVerificationTable.email, email),
+        eq(emailVerificationTable.purpose, purpose)
+      )
+    )
+    .orderBy(desc(emailVerificationTable.created_at))
+    .limit(1)
+    .execute();
+
+  if (latest.length === 0) {
+    return 0;
+  }
+
+  const availableAt = latest[0].created_at.getTime() + getResendCooldownSeconds() * 1000;
+  return Math.max(Math.ceil((availableAt - Date.now()) / 1000), 0);
+};
+
+// Replaces any pending codes for the email and purpose with a new one
+export const issueVerificationCode = async (email: string, purpose: VerificationPurpose): Promise<IssuedVerificationCode> => {
+  const code = generateVerificationCode();
+  const linkToken = purpose === 'verify_email' ? generateOpaqueToken() : null;
+  const expiresAt = new Date(Date.now() + getVerificationCodeTtlMinutes() * 60 * 1000);
+
+  await db.transaction(async (tx) => {
+    await tx.delete(emailVerificationTable)
+      .where(
+        and(
+          eq(emailVerificationTable.email, email),
+          eq(emailVerificationTable.purpose, purpose)
+        )
+      )
+      .execute();
+
+    await tx.insert(emailVerificationTable)
+      .values({
+        email,
+        code_hash: hashVerificationCode(code),
+        purpose,
+        link_token_hash: linkToken ? hashToken(linkToken) : null,
+        expires_at: expiresAt
+      })
+      .execute();
+  });
+
+  return {
+    code,
+    link_url: linkToken ? buildAppUrl('/verify', { token: linkToken }) : null,
+    expires_at: expiresAt,
+    retry_after_seconds: getResendCooldownSeconds()
+  };
+};
@@ -0,0 +1,91 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { desc, eq } from 'drizzle-orm';
+import { db } from '../db';
+import { emailOutboxTable } from '../db/schema';
+import { EMAIL_KINDS, isEmailKind, renderSampleEmail } from '../lib/email/templates';
+import { EMAIL_LOCALES, isEmailLocale } from '../lib/email/locales';
+import { escapeHtml } from '../lib/email/layout';
+
+// Read-only view of the email outbox for local development and end-to-end
+// tests, so they can read codes and links from the emails that were sent:
+//   GET /dev/emails?to=someone@example.com  -> newest first, at most 50
+// and previews of every template with sample data:
+//   GET /dev/emails/preview                                  -> index of templates
+//   GET /dev/emails/preview/verify_email?locale=es&format=text
+// Only served when EMAIL_DEV_INBOX=true; never enable it in production.
+
+const ROUTE_PATH = '/dev/emails';
+const PREVIEW_PATTERN = /^\/dev\/emails\/preview(?:\/([a-z_]+))?$/;
+const MAX_EMAILS = 50;
+
+export const isDevInboxEnabled = (): boolean => process.env['EMAIL_DEV_INBOX'] === 'true';
+
+const send = (res: ServerResponse, status: number, contentType: string, body: string): void => {
+  res.statusCode = status;
+  res.setHeader('Content-Type', `${contentType}; charset=utf-8`);
+  res.setHeader('Cache-Control', 'no-store');
+  res.end(body);
+};
+
+const previewIndex = (): string => {
+  const rows = EMAIL_KINDS.map(kind => {
+    const links = EMAIL_LOCALES.map(locale =>
+      `<a href="/dev/emails/preview/${kind}?locale=${locale}">${locale}</a> (<a href="/dev/emails/preview/${kind}?locale=${locale}&amp;format=text">text</a>)`
+    ).join(' · ');
+    return `<li><strong>${escapeHtml(kind)}</strong>: ${links}</li>`;
+  });
+  return `<!DOCTYPE html><html><head><meta charset="utf-8"><title>Email previews</title></head><body><h1>Email previews</h1><ul>${rows.join('')}</ul></body></html>`;
+};
+
+const servePreview = (res: ServerResponse, kind: string | undefined, params: URLSearchParams): void => {
+  if (!kind) {
+    send(res, 200, 'text/html', previewIndex());
+    return;
+  }
+
+  const locale = params.get('locale') ?? 'en';
+  if (!isEmailKind(kind) || !isEmailLocale(locale)) {
+    send(res, 404, 'text/plain', 'Unknown email template or locale');
+    return;
+  }
+
+  const rendered = renderSampleEmail(kind, locale);
+  if (params.get('format') === 'text') {
+    send(res, 200, 'text/plain', `Subject: ${rendered.subject}\n\n${rendered.text}`);
+  } else {
+    send(res, 200, 'text/html', rendered.html);
+  }
+};
+
+// Handles /dev/emails and its previews when enabled; returns false for
+// anything else so the request falls through to tRPC
+export const handleDevEmailRoute = async (req: IncomingMessage, res: ServerResponse): Promise<boolean> => {
+  const url = new URL(req.url ?? '/', 'http://localhost');
+  const preview = url.pathname.match(PREVIEW_PATTERN);
+  if ((url.pathname !== ROUTE_PATH && !preview) || !isDevInboxEnabled()) {
+    return false;
+  }
+
+  if (req.method !== 'GET') {
+    res.statusCode = 405;
+    res.setHeader('Allow', 'GET');
+    res.end();
+    return true;
+  }
+
+  if (preview) {
+    servePreview(res, preview[1], url.searchParams);
+    return true;
+  }
+
+  const to = url.searchParams.get('to');
+  const emails = await db.select()
+    .from(emailOutboxTable)
+    .where(to ? eq(emailOutboxTable.to_address, to) : undefined)
+    .orderBy(desc(emailOutboxTable.id))
+    .limit(MAX_EMAILS)
+    .execute();
+
+  send(res, 200, 'application/json', JSON.stringify(emails));
+  return true;
+};
@@ -0,0 +1,211 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { OAUTH_STATE_COOKIE, parseCookies, serializeCookie } from '../lib/cookies';
+import { getAppBaseUrl } from '../lib/links';
+import { getRequestMetadata } from '../lib/request_metadata';
+import {
+  signInWithExternalIdentity,
+  EMAIL_LINKED_TO_OTHER_IDENTITY_MESSAGE,
+  NO_PROVIDER_EMAIL_MESSAGE,
+  UNVERIFIED_PROVIDER_EMAIL_MESSAGE
+} from '../lib/external_sign_in';
+import { IDENTITY_ALREADY_LINKED_MESSAGE } from '../lib/identities';
+import { createAuthorizationUrl, completeAuthorization } from '../lib/oauth/client';
+import { getOAuthProvider, type OAuthProvider } from '../lib/oauth/providers';
+import { getStateTtlMinutes, OAUTH_STATE_EXPIRED_MESSAGE, OAUTH_STATE_INVALID_MESSAGE } from '../lib/oauth/state';
+
+// Browser redirect flow for the providers in lib/oauth:
+//   GET  /auth/:provider/start?return_to=/path  -> redirect to the provider
+//   GET  /auth/:provider/callback               -> provider redirects back here
+//   POST /auth/:provider/callback               -> same, for response_mode=form_post (Apple)
+// The callback finishes on the client's /auth/complete page. Tokens, link
+// requests and errors are passed in the URL fragment, which is never sent to
+// a server or leaked in a Referer header.
+
+export const OAUTH_BROWSER_MISMATCH_MESSAGE = 'This sign-in attempt was started in a different browser. Please try again.';
+export const OAUTH_CANCELLED_MESSAGE = 'Sign-in was cancelled.';
+
+// Errors written for users; anything else (database, network, provider
+// internals) is logged and replaced with a generic message, since the
+// fragment ends up in browser history
+const USER_FACING_MESSAGES = [
+  OAUTH_STATE_INVALID_MESSAGE,
+  OAUTH_STATE_EXPIRED_MESSAGE,
+  NO_PROVIDER_EMAIL_MESSAGE,
+  EMAIL_LINKED_TO_OTHER_IDENTITY_MESSAGE,
+  UNVERIFIED_PROVIDER_EMAIL_MESSAGE,
+  IDENTITY_ALREADY_LINKED_MESSAGE
+];
+
+const ROUTE_PATTERN = /^\/auth\/([a-z0-9_-]+)\/(start|callback)$/;
+const MAX_FORM_BODY_BYTES = 64 * 1024;
+
+// Public URL of this server; Caddy and the Vite dev server mount it at /api
+export const getOAuthCallbackBaseUrl = (): string =>
+  (process.env['OAUTH_CALLBACK_BASE_URL'] || `${getAppBaseUrl()}/api`).replace(/\/+$/, '');
+
+const callbackUrl = (provider: OAuthProvider): string =>
+  `${getOAuthCallbackBaseUrl()}/auth/${provider.id}/callback`;
+
+// Only same-origin app paths, so the flow cannot be used as an open redirect
+const safeReturnTo = (value: string | null): string | null =>
+  value && /^\/(?![/\\])/.test(value) && !value.includes('\\') ? value : null;
+
+// Form posts from the provider are cross-site, so the binding cookie must be
+// SameSite=None for the browser to send it back
+const stateCookie = (provider: OAuthProvider, state: string, maxAgeSeconds: number): string =>
+  serializeCookie(OAUTH_STATE_COOKIE, state, {
+    maxAgeSeconds,
+    path: '/',
+    secure: getOAuthCallbackBaseUrl().startsWith('https:'),
+    sameSite: provider.authorizationParams?.['response_mode'] === 'form_post' ? 'None' : 'Lax'
+  });
+
+const redirect = (res: ServerResponse, location: string, cookie?: string): void => {
+  res.statusCode = 302;
+  res.setHeader('Location', location);
+  res.setHeader('Cache-Control', 'no-store');
+  if (cookie) {
+    res.setHeader('Set-Cookie', cookie);
+  }
+  res.end();
+};
+
+const redirectToClient = (res: ServerResponse, params: Record<string, string | null | undefined>, cookie?: string): void => {
+  const fragment = new URLSearchParams();
+  for (const [name, value] of Object.entries(params)) {
+    if (value) fragment.set(name, value);
+  }
+  redirect(res, `${getAppBaseUrl()}/auth/complete#${fragment.toString()}`, cookie);
+};
+
+const readCallbackParams = async (req: IncomingMessage, url: URL): Promise<URLSearchParams> => {
+  if (req.method !== 'POST') {
+    return url.searchParams;
+  }
+
+  let body = '';
+  for await (const chunk of req) {
+    body += chunk;
+    if (body.length > MAX_FORM_BODY_BYTES) {
+      throw new Error('Callback body too large');
+    }
+  }
+  return new URLSearchParams(body);
+};
+
+const start = async (res: ServerResponse, provider: OAuthProvider, url: URL): Promise<void> => {
+  const authorizationUrl = await createAuthorizationUrl(provider, {
+    redirectUri: callbackUrl(provider),
+    returnTo: safeReturnTo(url.searchParams.get('return_to'))
+  });
+
+  const state = new URL(authorizationUrl).searchParams.get('state') ?? '';
+  redirect(res, authorizationUrl, stateCookie(provider, state, getStateTtlMinutes() * 60));
+};
+
+const callback = async (req: IncomingMessage, res: ServerResponse, provider: OAuthProvider, url: URL): Promise<void> => {
+  const clearCookie = stateCookie(provider, '', 0);
+  const fail = (message: string) => redirectToClient(res, { error: message }, clearCookie);
+  const failWith = (error: unknown) => {
+    const message = error instanceof Error ? error.message : '';
+    fail(USER_FACING_MESSAGES.includes(message) ? message : `Sign-in with ${provider.name} failed. Please try again.`);
+  };
+
+  const params = await readCallbackParams(req, url);
+  const state = params.get('state');
+  const code = params.get('code');
+
+  const providerError = params.get('error');
+  if (providerError) {
+    console.warn(`${provider.name} sign-in returned ${providerError}: ${params.get('error_description') ?? ''}`);
+    fail(providerError === 'access_denied' ? OAUTH_CANCELLED_MESSAGE : `Sign-in with ${provider.name} failed. Please try again.`);
+    return;
+  }
+
+  if (!state || !code) {
+    fail(OAUTH_STATE_INVALID_MESSAGE);
+    return;
+  }
+
+  // The state must come back to the browser that asked for it (login CSRF)
+  if (parseCookies(req.headers.cookie)[OAUTH_STATE_COOKIE] !== state) {
+    fail(OAUTH_BROWSER_MISMATCH_MESSAGE);
+    return;
+  }
+
+  let authorization;
+  try {
+    authorization = await completeAuthorization(provider, state, code);
+  } catch (error) {
+    console.error(`${provider.name} authorization failed:`, error);
+    failWith(error);
+    return;
+  }
+
+  let result;
+  try {
+    result = await signInWithExternalIdentity(authorization.identity, {}, getRequestMetadata(req));
+  } catch (error) {
+    console.error(`${provider.name} sign-in failed:`, error);
+    failWith(error);
+    return;
+  }
+
+  if (result.status === 'link_required') {
+    redirectToClient(res, {
+      status: result.status,
+      provider: result.provider,
+      provider_name: result.provider_name,
+      email: result.email,
+      link_token: result.link_token,
+      methods: result.methods.join(','),
+      return_to: authorization.returnTo
+    }, clearCookie);
+    return;
+  }
+
+  redirectToClient(res, {
+    status: result.status,
+    token: result.token,
+    refresh_token: result.refresh_token,
+    return_to: authorization.returnTo
+  }, clearCookie);
+};
+
+// Handles /auth/:provider/* requests; returns false for anything else so the
+// request falls through to tRPC
+export const handleOAuthRoute = async (req: IncomingMessage, res: ServerResponse): Promise<boolean> => {
+  const url = new URL(req.url ?? '/', 'http://localhost');
+  const match = url.pathname.match(ROUTE_PATTERN);
+  if (!match) {
+    return false;
+  }
+
+  const [, providerId, action] = match;
+  const provider = getOAuthProvider(providerId);
+  const allowedMethods = action === 'start' ? ['GET'] : ['GET', 'POST'];
+
+  if (!provider) {
+    res.statusCode = 404;
+    res.end('Unknown sign-in provider');
+    return true;
+  }
+  if (!allowedMethods.includes(req.method ?? '')) {
+    res.statusCode = 405;
+    res.setHeader('Allow', allowedMethods.join(', '));
+    res.end();
+    return true;
+  }
+
+  try {
+    if (action === 'start') {
+      await start(res, provider, url);
+    } else {
+      await callback(req, res, provider, url);
+    }
+  } catch (error) {
+    console.error(`OAuth ${action} for ${provider.id} failed:`, error);
+    redirectToClient(res, { error: `Sign-in with ${provider.name} is unavailable right now. Please try again later.` });
+  }
+  return true;
+};
@@ -4,52 +4,271 @@ import { z } from 'zod';
 export const userSchema = z.object({
   id: z.number(),
   email: z.string().email(),
+  email_canonical: z.string(), // Lowercased form the account is unique by
   first_name: z.string(),
   last_name: z.string(),
-  password_hash: z.string().nullable(), // Nullable for Google users who don't have password
-  google_id: z.string().nullable(), // Nullable for regular users without Google
+  password_hash: z.string().nullable(), // Nullable for users who only sign in with an external provider
   phone_number: z.string().nullable(),
   is_email_verified: z.boolean(),
+  is_admin: z.boolean(),
   created_at: z.coerce.date(),
   updated_at: z.coerce.date()
 });
 
 export type User = z.infer<typeof userSchema>;
 
+// Profile of the signed-in user
+export const currentUserSchema = userSchema.omit({ password_hash: true }).extend({
+  has_password: z.boolean() // False for accounts that can only sign in with an external provider
+});
+
+export type CurrentUser = z.infer<typeof currentUserSchema>;
+
+// Password policy shared by registration and every flow that sets a password
+export const passwordSchema = z.string()
+  .min(8, 'Password must be at least 8 characters')
+  .regex(/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)/, 'Password must contain at least one uppercase letter, one lowercase letter, and one number');
+
+// Versions of the sign-up marketing checkbox wording the server has on record
+// (CONSENT_WORDING in lib/consent.ts); add the new one here when the text changes
+export const signupMarketingConsentVersionSchema = z.enum(['signup-marketing-v1']);
+
+export type SignupMarketingConsentVersion = z.infer<typeof signupMarketingConsentVersionSchema>;
+
 // Input schema for user registration
 export const registerUserInputSchema = z.object({
   email: z.string().email('Please enter a valid email address'),
   first_name: z.string().min(1, 'First name is required'),
   last_name: z.string().min(1, 'Last name is required'),
-  password: z.string()
-    .min(8, 'Password must be at least 8 characters')
-    .regex(/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)/, 'Password must contain at least one uppercase letter, one lowercase letter, and one number'),
+  password: passwordSchema,
   phone_number: z.string().optional(),
-  marketing_emails: z.boolean().optional() // For marketing consent
+  marketing_emails: z.boolean().optional(), // For marketing consent
+  marketing_consent_version: signupMarketingConsentVersionSchema.optional() // Version of the consent wording shown next to the checkbox
 });
 
 export type RegisterUserInput = z.infer<typeof registerUserInputSchema>;
 
-// Input schema for Google sign-in
+// Input schema for email/password sign-in
+export const signInInputSchema = z.object({
+  email: z.string().email('Please enter a valid email address'),
+  password: z.string().min(1, 'Password is required')
+});
+
+export type SignInInput = z.infer<typeof signInInputSchema>;
+
+// Input schema for Google sign-in. Profile data is taken from the verified ID
+// token, never from the client.
 export const googleSignInInputSchema = z.object({
-  google_id: z.string(),
-  email: z.string().email(),
-  first_name: z.string(),
-  last_name: z.string(),
-  email_verified: z.boolean().optional().default(true) // Google emails are typically verified
+  id_token: z.string().min(1, 'Google credential is required'), // ID token from Google Identity Services, requested with a nonce from startGoogleSignIn
+  sync_profile: z.boolean().optional().default(false) // Overwrite name fields with the Google profile
 });
 
 export type GoogleSignInInput = z.infer<typeof googleSignInInputSchema>;
 
+// Nonce to pass to Google Identity Services for the next sign-in attempt
+export const googleSignInNonceSchema = z.object({
+  nonce: z.string()
+});
+
+export type GoogleSignInNonceResponse = z.infer<typeof googleSignInNonceSchema>;
+
 // Response schema for successful authentication
 export const authResponseSchema = z.object({
   user: userSchema.omit({ password_hash: true }), // Don't return password hash
-  token: z.string().optional(), // JWT token for session management
-  is_new_user: z.boolean() // Whether this is a newly created account
+  token: z.string().optional(), // Short-lived signed access token (JWT)
+  refresh_token: z.string().optional(), // Opaque single-use token for refreshSession
+  is_new_user: z.boolean(), // Whether this is a newly created account
+  verification_retry_after_seconds: z.number().int().optional() // Set when a verification code was just emailed
 });
 
 export type AuthResponse = z.infer<typeof authResponseSchema>;
 
+// Ways a user can prove they own an existing account before linking a sign-in provider to it
+export const linkProofMethodSchema = z.enum(['password', 'email_code']);
+
+export type LinkProofMethod = z.infer<typeof linkProofMethodSchema>;
+
+// Response for signing in with an external provider: either signed in, or the
+// provider's email belongs to an existing account that the user must prove
+// ownership of first
+export const externalSignInResponseSchema = z.discriminatedUnion('status', [
+  authResponseSchema.extend({
+    status: z.literal('signed_in')
+  }),
+  z.object({
+    status: z.literal('link_required'),
+    provider: z.string(), // Provider being linked, e.g. 'google'
+    provider_name: z.string(), // Display name, e.g. 'Google'
+    email: z.string().email(),
+    link_token: z.string(), // Short-lived; pass to linkExternalAccount
+    methods: z.array(linkProofMethodSchema)
+  })
+]);
+
+export type ExternalSignInResponse = z.infer<typeof externalSignInResponseSchema>;
+
+// Response for registration: signed in to the new account or, in email privacy
+// mode, told to check the inbox whether or not the email was already registered
+export const registerUserResponseSchema = z.discriminatedUnion('status', [
+  authResponseSchema.extend({
+    status: z.literal('registered')
+  }),
+  z.object({
+    status: z.literal('check_inbox'),
+    email: z.string().email(),
+    message: z.string()
+  })
+]);
+
+export type RegisterUserResponse = z.infer<typeof registerUserResponseSchema>;
+
+// Input schema for linking a sign-in provider to an existing account, proven by password or emailed code
+export const linkExternalAccountInputSchema = z.object({
+  link_token: z.string().min(1),
+  password: z.string().min(1).optional(),
+  verification_code: z.string().length(6).optional()
+}).refine(
+  (input) => (input.password === undefined) !== (input.verification_code === undefined),
+  { message: 'Provide either your password or a verification code' }
+);
+
+export type LinkExternalAccountInput = z.infer<typeof linkExternalAccountInputSchema>;
+
+// Input schema for emailing a code that proves ownership during account linking
+export const sendLinkVerificationCodeInputSchema = z.object({
+  link_token: z.string().min(1)
+});
+
+export type SendLinkVerificationCodeInput = z.infer<typeof sendLinkVerificationCodeInputSchema>;
+
+// Input schema for exchanging a refresh token
+export const refreshSessionInputSchema = z.object({
+  refresh_token: z.string().min(1)
+});
+
+export type RefreshSessionInput = z.infer<typeof refreshSessionInputSchema>;
+
+// Response for a refreshed session
+export const sessionTokensSchema = z.object({
+  token: z.string(),
+  refresh_token: z.string()
+});
+
+export type SessionTokensResponse = z.infer<typeof sessionTokensSchema>;
+
+// A signed-in device as shown to its owner
+export const sessionSummarySchema = z.object({
+  id: z.string(), // Session family id - stable across token refreshes
+  device_name: z.string().nullable(),
+  user_agent: z.string().nullable(),
+  ip_address: z.string().nullable(),
+  created_at: z.coerce.date(),
+  last_seen_at: z.coerce.date(),
+  is_current: z.boolean() // The session making the request
+});
+
+export type SessionSummary = z.infer<typeof sessionSummarySchema>;
+
+// Input schema for signing out a single session
+export const revokeSessionInputSchema = z.object({
+  session_id: z.string().uuid()
+});
+
+export type RevokeSessionInput = z.infer<typeof revokeSessionInputSchema>;
+
+// Input schema for labelling a session
+export const renameSessionInputSchema = z.object({
+  session_id: z.string().uuid(),
+  device_name: z.string().trim().min(1, 'Device name is required').max(100)
+});
+
+export type RenameSessionInput = z.infer<typeof renameSessionInputSchema>;
+
+// Input schema for starting a password reset
+export const requestPasswordResetInputSchema = z.object({
+  email: z.string().email('Please enter a valid email address')
+});
+
+export type RequestPasswordResetInput = z.infer<typeof requestPasswordResetInputSchema>;
+
+// Input schema for requesting a passwordless sign-in link
+export const requestMagicLinkInputSchema = z.object({
+  email: z.string().email('Please enter a valid email address'),
+  browser_key: z.string().min(16).max(128).optional() // When set, the link only works in the browser holding this key
+});
+
+export type RequestMagicLinkInput = z.infer<typeof requestMagicLinkInputSchema>;
+
+// Input schema for signing in with an emailed link
+export const consumeMagicLinkInputSchema = z.object({
+  token: z.string().min(1),
+  browser_key: z.string().max(128).optional()
+});
+
+export type ConsumeMagicLinkInput = z.infer<typeof consumeMagicLinkInputSchema>;
+
+// Input schema for completing a password reset from the emailed link
+export const resetPasswordInputSchema = z.object({
+  token: z.string().min(1),
+  new_password: passwordSchema
+});
+
+export type ResetPasswordInput = z.infer<typeof resetPasswordInputSchema>;
+
+// Input schema for lifting a sign-in lock with the emailed link
+export const unlockAccountInputSchema = z.object({
+  token: z.string().min(1)
+});
+
+export type UnlockAccountInput = z.infer<typeof unlockAccountInputSchema>;
+
+// Input schema for an administrator lifting a sign-in lock
+export const adminUnlockAccountInputSchema = z.object({
+  user_id: z.number().int().positive()
+});
+
+export type AdminUnlockAccountInput = z.infer<typeof adminUnlockAccountInputSchema>;
+
+// An external sign-in identity linked to the signed-in user
+export const linkedIdentitySchema = z.object({
+  id: z.number(),
+  provider: z.string(),
+  email: z.string().nullable(),
+  linked_at: z.coerce.date()
+});
+
+export type LinkedIdentity = z.infer<typeof linkedIdentitySchema>;
+
+// A provider offered on the sign-in page via the /auth/:provider/start redirect
+export const signInProviderSchema = z.object({
+  id: z.string(),
+  name: z.string()
+});
+
+export type SignInProvider = z.infer<typeof signInProviderSchema>;
+
+// Input schema for unlinking an external sign-in identity
+export const unlinkIdentityInputSchema = z.object({
+  identity_id: z.number().int().positive()
+});
+
+export type UnlinkIdentityInput = z.infer<typeof unlinkIdentityInputSchema>;
+
+// Input schema for changing an existing password
+export const changePasswordInputSchema = z.object({
+  current_password: z.string().min(1, 'Current password is required'),
+  new_password: passwordSchema
+});
+
+export type ChangePasswordInput = z.infer<typeof changePasswordInputSchema>;
+
+// Input schema for adding a password to an account that only signs in with an external provider
+export const setPasswordInputSchema = z.object({
+  new_password: passwordSchema
+});
+
+export type SetPasswordInput = z.infer<typeof setPasswordInputSchema>;
+
 // Input schema for email verification
 export const verifyEmailInputSchema = z.object({
   email: z.string().email(),
@@ -58,6 +277,13 @@ export const verifyEmailInputSchema = z.object({
 
 export type VerifyEmailInput = z.infer<typeof verifyEmailInputSchema>;
 
+// Input schema for verifying an email address with the emailed link
+export const verifyEmailByTokenInputSchema = z.object({
+  token: z.string().min(1)
+});
+
+export type VerifyEmailByTokenInput = z.infer<typeof verifyEmailByTokenInputSchema>;
+
 // Schema for checking email availability
 export const checkEmailInputSchema = z.object({
   email: z.string().email()
@@ -65,10 +291,72 @@ export const checkEmailInputSchema = z.object({
 
 export type CheckEmailInput = z.infer<typeof checkEmailInputSchema>;
 
+// Response schema for sendVerificationCode
+export const sendVerificationCodeResponseSchema = z.object({
+  success: z.boolean(),
+  message: z.string(),
+  retry_after_seconds: z.number().int() // Until another code can be requested; 0 if it can be now
+});
+
+export type SendVerificationCodeResponse = z.infer<typeof sendVerificationCodeResponseSchema>;
+
 // Response for email availability check
 export const emailAvailabilitySchema = z.object({
-  available: z.boolean(),
-  suggestions: z.array(z.string()).optional() // Email suggestions if unavailable
+  available: z.boolean().nullable(), // Null in email privacy mode, where registration is not disclosed
+  suggestions: z.array(z.string()).optional(), // Unregistered alternatives if unavailable
+  did_you_mean: z.string().optional() // The email with a likely misspelled domain corrected, e.g. gmial.com -> gmail.com
+});
+
+export type EmailAvailability = z.infer<typeof emailAvailabilitySchema>;
+
+// Kinds of optional email a user can opt in to or out of. Transactional email
+// (verification codes, password resets, security alerts) is always sent.
+export const communicationCategorySchema = z.enum(['promotions', 'recommendations', 'product_updates', 'surveys']);
+
+export type CommunicationCategory = z.infer<typeof communicationCategorySchema>;
+
+// An entry in the append-only consent history
+export const consentRecordSchema = z.object({
+  id: z.number(),
+  category: communicationCategorySchema,
+  granted: z.boolean(),
+  source: z.string(), // Where the choice was made, e.g. 'registration'
+  wording_version: z.string(),
+  wording: z.string().nullable(), // Text the user was shown, if the version is still in the catalog
+  ip_address: z.string().nullable(),
+  user_agent: z.string().nullable(),
+  created_at: z.coerce.date()
+});
+
+export type ConsentRecord = z.infer<typeof consentRecordSchema>;
+
+// The signed-in user's current choice for each category, with the wording to show
+export const communicationPreferencesSchema = z.object({
+  categories: z.array(z.object({
+    category: communicationCategorySchema,
+    label: z.string(),
+    description: z.string(),
+    enabled: z.boolean(),
+    updated_at: z.coerce.date().nullable() // When the user last chose; null if they never have
+  })),
+  history: z.array(consentRecordSchema) // Newest first
+});
+
+export type CommunicationPreferences = z.infer<typeof communicationPreferencesSchema>;
+
+// Input schema for changing communication preferences; unchanged categories are not recorded
+export const updateCommunicationPreferencesInputSchema = z.object({
+  preferences: z.array(z.object({
+    category: communicationCategorySchema,
+    enabled: z.boolean()
+  })).min(1)
+});
+
+export type UpdateCommunicationPreferencesInput = z.infer<typeof updateCommunicationPreferencesInputSchema>;
+
+// Input schema for the consent audit lookup
+export const getConsentHistoryInputSchema = z.object({
+  user_id: z.number().int().positive()
 });
 
-export type EmailAvailability = z.infer<typeof emailAvailabilitySchema>;
\ No newline at end of file
+export type GetConsentHistoryInput = z.infer<typeof getConsentHistoryInputSchema>;
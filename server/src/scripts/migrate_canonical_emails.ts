@@ -0,0 +1,100 @@
+import { sql } from 'drizzle-orm';
+import { db } from '../db';
+import { canonicalizeEmail } from '../lib/email_canonical';
+
+export interface CanonicalEmailCollision {
+  canonical: string;
+  users: { id: number; email: string; created_at: Date }[];
+}
+
+export interface CanonicalEmailMigrationResult {
+  updated: number;
+  collisions: CanonicalEmailCollision[];
+}
+
+// Fills in users.email_canonical so that `drizzle-kit push` can make it
+// required and unique. Accounts whose addresses share a canonical form (such
+// as Bob@Example.com and bob@example.com) cannot both keep it: they are
+// reported and nothing is written until they are merged or changed by hand.
+// Also recomputes every canonical form, so run it again after changing
+// EMAIL_CANONICAL_PROVIDER_RULES. Runs before every push, is safe to repeat,
+// and does nothing on new databases.
+export const migrateCanonicalEmails = async (): Promise<CanonicalEmailMigrationResult> => {
+  const usersTableExists = await db.execute(sql`
+    select 1 from information_schema.tables
+    where table_schema = current_schema() and table_name = 'users'
+  `);
+
+  if (usersTableExists.rows.length === 0) {
+    return { updated: 0, collisions: [] };
+  }
+
+  await db.execute(sql`alter table users add column if not exists email_canonical varchar(255)`);
+
+  const users = await db.execute<{ id: number; email: string; email_canonical: string | null; created_at: Date }>(sql`
+    select id, email, email_canonical, created_at from users order by id
+  `);
+
+  const byCanonical = new Map<string, typeof users.rows>();
+  for (const user of users.rows) {
+    const canonical = canonicalizeEmail(user.email);
+    byCanonical.set(canonical, [...(byCanonical.get(canonical) ?? []), user]);
+  }
+
+  const collisions = [...byCanonical.entries()]
+    .filter(([, group]) => group.length > 1)
+    .map(([canonical, group]) => ({
+      canonical,
+      users: group.map(user => ({ id: user.id, email: user.email, created_at: new Date(user.created_at) }))
+    }));
+
+  if (collisions.length > 0) {
+    return { updated: 0, collisions };
+  }
+
+  const changed = [...byCanonical].filter(([canonical, [user]]) => user.email_canonical !== canonical);
+
+  // All or nothing. Rows being changed first get a placeholder unique to the
+  // row, so one account taking a value another is giving up (as can happen
+  // when the rules change) never clashes on the unique index along the way.
+  await db.transaction(async (tx) => {
+    for (const [, [user]] of changed) {
+      await tx.execute(sql`update users set email_canonical = ${`migrating:${user.id}`} where id = ${user.id}`);
+    }
+    for (const [canonical, [user]] of changed) {
+      await tx.execute(sql`update users set email_canonical = ${canonical} where id = ${user.id}`);
+    }
+
+    // Pending codes are looked up by canonical address too
+    const pending = await tx.execute<{ id: number; email: string }>(sql`select id, email from email_verification`);
+    for (const code of pending.rows) {
+      const canonical = canonicalizeEmail(code.email);
+      if (code.email !== canonical) {
+        await tx.execute(sql`update email_verification set email = ${canonical} where id = ${code.id}`);
+      }
+    }
+  });
+
+  const updated = changed.length;
+  return { updated, collisions: [] };
+};
+
+if (import.meta.main) {
+  migrateCanonicalEmails()
+    .then(({ updated, collisions }) => {
+      if (collisions.length > 0) {
+        console.error(`Found ${collisions.length} canonical email collisions; resolve them and run again:`);
+        for (const collision of collisions) {
+          const accounts = collision.users.map(user => `#${user.id} ${user.email} (created ${user.created_at.toISOString()})`);
+          console.error(`  ${collision.canonical}: ${accounts.join(', ')}`);
+        }
+        process.exit(1);
+      }
+      console.log(`Set the canonical email of ${updated} users`);
+      process.exit(0);
+    })
+    .catch((error) => {
+      console.error('Canonical email migration failed:', error);
+      process.exit(1);
+    });
+}
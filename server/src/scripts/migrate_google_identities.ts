@@ -0,0 +1,56 @@
+import { sql } from 'drizzle-orm';
+import { db } from '../db';
+
+// Databases created before user_identities existed keep Google links in
+// users.google_id. This copies them into user_identities so that
+// `drizzle-kit push` can drop the column without losing any links. It runs
+// before every push, is safe to repeat, and does nothing on new databases.
+export const migrateGoogleIdentities = async (): Promise<number> => {
+  const legacyColumn = await db.execute(sql`
+    select 1 from information_schema.columns
+    where table_schema = current_schema() and table_name = 'users' and column_name = 'google_id'
+  `);
+
+  if (legacyColumn.rows.length === 0) {
+    return 0;
+  }
+
+  // Same shape as userIdentitiesTable; push leaves it untouched afterwards
+  await db.execute(sql`
+    create table if not exists user_identities (
+      id serial primary key,
+      user_id integer not null,
+      provider varchar(32) not null,
+      subject varchar(255) not null,
+      email varchar(255),
+      raw_claims jsonb,
+      linked_at timestamp default now() not null,
+      constraint user_identities_user_id_users_id_fk foreign key (user_id) references users(id) on delete cascade,
+      constraint user_identities_provider_subject_unique unique (provider, subject)
+    )
+  `);
+  await db.execute(sql`
+    create unique index if not exists user_identities_user_provider_idx on user_identities (user_id, provider)
+  `);
+
+  const copied = await db.execute(sql`
+    insert into user_identities (user_id, provider, subject, email, linked_at)
+    select id, 'google', google_id, email, updated_at from users
+    where google_id is not null
+    on conflict do nothing
+  `);
+
+  return copied.rowCount ?? 0;
+};
+
+if (import.meta.main) {
+  migrateGoogleIdentities()
+    .then((count) => {
+      console.log(`Copied ${count} Google identities into user_identities`);
+      process.exit(0);
+    })
+    .catch((error) => {
+      console.error('Google identity migration failed:', error);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,54 @@
+import { sql } from 'drizzle-orm';
+import { db } from '../db';
+import { hashVerificationCode } from '../lib/verification_codes';
+
+// Databases created before codes were hashed keep them in
+// email_verification.verification_code. This fills in code_hash so that
+// `drizzle-kit push` can drop the raw column without invalidating pending
+// codes. Hashes are only stable with VERIFICATION_CODE_SECRET set; without it
+// pending codes are deleted and users request new ones. Runs before every
+// push, is safe to repeat, and does nothing on new databases.
+export const migrateVerificationCodes = async (): Promise<number> => {
+  const legacyColumn = await db.execute(sql`
+    select 1 from information_schema.columns
+    where table_schema = current_schema() and table_name = 'email_verification' and column_name = 'verification_code'
+  `);
+
+  if (legacyColumn.rows.length === 0) {
+    return 0;
+  }
+
+  await db.execute(sql`alter table email_verification add column if not exists code_hash varchar(64)`);
+  await db.execute(sql`alter table email_verification add column if not exists attempts integer default 0 not null`);
+
+  if (!process.env['VERIFICATION_CODE_SECRET']) {
+    const deleted = await db.execute(sql`delete from email_verification where code_hash is null`);
+    console.warn(`VERIFICATION_CODE_SECRET is not set; deleted ${deleted.rowCount ?? 0} pending codes`);
+    return 0;
+  }
+
+  const pending = await db.execute<{ id: number; verification_code: string }>(sql`
+    select id, verification_code from email_verification where code_hash is null
+  `);
+
+  for (const row of pending.rows) {
+    await db.execute(sql`
+      update email_verification set code_hash = ${hashVerificationCode(row.verification_code)}
+      where id = ${row.id}
+    `);
+  }
+
+  return pending.rows.length;
+};
+
+if (import.meta.main) {
+  migrateVerificationCodes()
+    .then((count) => {
+      console.log(`Hashed ${count} pending verification codes`);
+      process.exit(0);
+    })
+    .catch((error) => {
+      console.error('Verification code migration failed:', error);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,51 @@
+import { writeFile } from 'node:fs/promises';
+import { EMAIL_KINDS, isEmailKind, renderSampleEmail } from '../lib/email/templates';
+import { EMAIL_LOCALES, isEmailLocale } from '../lib/email/locales';
+
+// Renders a template with sample data, to check wording and layout:
+//   bun email:preview                          -> list templates and locales
+//   bun email:preview verify_email es          -> HTML part to stdout
+//   bun email:preview verify_email es --text   -> plain-text part
+//   bun email:preview welcome --out=/tmp/welcome.html
+// The dev server serves the same previews at /dev/emails/preview when EMAIL_DEV_INBOX=true.
+
+export const previewEmail = (args: string[]): { output: string; file: string | null } => {
+  const positional = args.filter(arg => !arg.startsWith('--'));
+  const [kind, locale = 'en'] = positional;
+  const format = args.includes('--text') ? 'text' : 'html';
+  const file = args.find(arg => arg.startsWith('--out='))?.slice('--out='.length) || null;
+
+  if (!kind) {
+    return {
+      output: `Templates: ${EMAIL_KINDS.join(', ')}\nLocales: ${EMAIL_LOCALES.join(', ')}\n`,
+      file: null
+    };
+  }
+  if (!isEmailKind(kind)) {
+    throw new Error(`Unknown email template "${kind}"; expected one of ${EMAIL_KINDS.join(', ')}`);
+  }
+  if (!isEmailLocale(locale)) {
+    throw new Error(`Unsupported locale "${locale}"; expected one of ${EMAIL_LOCALES.join(', ')}`);
+  }
+
+  const rendered = renderSampleEmail(kind, locale);
+  return {
+    output: format === 'text' ? `Subject: ${rendered.subject}\n\n${rendered.text}` : rendered.html,
+    file
+  };
+};
+
+if (import.meta.main) {
+  try {
+    const { output, file } = previewEmail(process.argv.slice(2));
+    if (file) {
+      await writeFile(file, output);
+      console.log(`Wrote ${file}`);
+    } else {
+      process.stdout.write(output);
+    }
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+}
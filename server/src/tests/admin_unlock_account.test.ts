@@ -0,0 +1,36 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, signInFailuresTable } from '../db/schema';
+import { adminUnlockAccount } from '../handlers/admin_unlock_account';
+import { getSignInThrottle } from '../lib/account_lockout';
+import { hashToken } from '../lib/tokens';
+
+describe('adminUnlockAccount', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should clear the failures of the account only', async () => {
+    const users = await db.insert(usersTable)
+      .values({ email: 'Test@example.com', email_canonical: 'test@example.com', first_name: 'Test', last_name: 'User', password_hash: 'hashed_SecurePass123' })
+      .returning()
+      .execute();
+
+    await db.insert(signInFailuresTable)
+      .values([
+        ...Array.from({ length: 10 }, () => ({ user_id: users[0].id, email_hash: hashToken('test@example.com') })),
+        ...Array.from({ length: 10 }, () => ({ user_id: null, email_hash: hashToken('other@example.com') }))
+      ])
+      .execute();
+
+    const result = await adminUnlockAccount({ user_id: users[0].id });
+
+    expect(result.success).toBe(true);
+    expect(await getSignInThrottle('test@example.com')).toEqual({ status: 'open' });
+    expect((await getSignInThrottle('other@example.com')).status).toEqual('locked');
+  });
+
+  it('should reject unknown users', async () => {
+    await expect(adminUnlockAccount({ user_id: 9999 })).rejects.toThrow('User not found');
+  });
+});
@@ -0,0 +1,134 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, userSessionsTable, signInFailuresTable } from '../db/schema';
+import { type ChangePasswordInput } from '../schema';
+import { changePassword } from '../handlers/change_password';
+import { hashPassword, verifyPassword } from '../lib/password';
+import { createSession } from '../lib/sessions';
+import { TooManyRequestsError } from '../trpc';
+import { eq } from 'drizzle-orm';
+
+// Test input
+const testInput: ChangePasswordInput = {
+  current_password: 'SecurePass123',
+  new_password: 'NewSecurePass456'
+};
+
+const createUser = async (passwordHash: string | null) => {
+  const result = await db.insert(usersTable)
+    .values({
+      email: 'test@example.com',
+      email_canonical: 'test@example.com',
+      first_name: 'Test',
+      last_name: 'User',
+      password_hash: passwordHash,
+      is_email_verified: true
+    })
+    .returning()
+    .execute();
+
+  return result[0];
+};
+
+const sessionRow = async (familyId: string) => {
+  const rows = await db.select()
+    .from(userSessionsTable)
+    .where(eq(userSessionsTable.family_id, familyId))
+    .execute();
+
+  return rows[0];
+};
+
+describe('changePassword', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should change the password when the current one is correct', async () => {
+    const user = await createUser(await hashPassword('SecurePass123'));
+    const session = await createSession(user.id);
+
+    const result = await changePassword(user, await sessionRow(session.session_id), testInput);
+
+    expect(result.success).toBe(true);
+
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, user.id))
+      .execute();
+
+    expect(await verifyPassword('NewSecurePass456', users[0].password_hash!)).toBe(true);
+  });
+
+  it('should revoke other sessions but keep the current one', async () => {
+    const user = await createUser(await hashPassword('SecurePass123'));
+    const current = await createSession(user.id);
+    const other = await createSession(user.id);
+
+    await changePassword(user, await sessionRow(current.session_id), testInput);
+
+    expect((await sessionRow(current.session_id)).revoked_at).toBeNull();
+    expect((await sessionRow(other.session_id)).revoked_at).toBeInstanceOf(Date);
+  });
+
+  it('should reject a wrong current password', async () => {
+    const user = await createUser(await hashPassword('SecurePass123'));
+    const session = await createSession(user.id);
+
+    await expect(changePassword(user, await sessionRow(session.session_id), { ...testInput, current_password: 'WrongPass123' }))
+      .rejects.toThrow(/current password is incorrect/i);
+  });
+
+  it('should delay and then lock repeated wrong guesses like sign-in', async () => {
+    const saved = {
+      SIGN_IN_BACKOFF_AFTER: process.env['SIGN_IN_BACKOFF_AFTER'],
+      SIGN_IN_LOCK_AFTER: process.env['SIGN_IN_LOCK_AFTER']
+    };
+    process.env['SIGN_IN_BACKOFF_AFTER'] = '100';
+    process.env['SIGN_IN_LOCK_AFTER'] = '3';
+    try {
+      const user = await createUser(await hashPassword('SecurePass123'));
+      const session = await sessionRow((await createSession(user.id)).session_id);
+      const guess = { ...testInput, current_password: 'WrongPass123' };
+
+      await expect(changePassword(user, session, guess)).rejects.toThrow('Current password is incorrect');
+      await expect(changePassword(user, session, guess)).rejects.toThrow('Current password is incorrect');
+      await expect(changePassword(user, session, guess)).rejects.toBeInstanceOf(TooManyRequestsError);
+
+      // Even the right password is refused while locked
+      await expect(changePassword(user, session, testInput)).rejects.toBeInstanceOf(TooManyRequestsError);
+      expect(await db.select().from(signInFailuresTable).execute()).toHaveLength(3);
+    } finally {
+      for (const [name, value] of Object.entries(saved)) {
+        if (value === undefined) delete process.env[name];
+        else process.env[name] = value;
+      }
+    }
+  });
+
+  it('should clear earlier failures once the current password is confirmed', async () => {
+    const user = await createUser(await hashPassword('SecurePass123'));
+    const session = await sessionRow((await createSession(user.id)).session_id);
+
+    await changePassword(user, session, { ...testInput, current_password: 'WrongPass123' }).catch(() => {});
+    await changePassword(user, session, testInput);
+
+    expect(await db.select().from(signInFailuresTable).execute()).toHaveLength(0);
+  });
+
+  it('should reject reusing the current password', async () => {
+    const user = await createUser(await hashPassword('SecurePass123'));
+    const session = await createSession(user.id);
+
+    await expect(changePassword(user, await sessionRow(session.session_id), { ...testInput, new_password: 'SecurePass123' }))
+      .rejects.toThrow(/must be different/i);
+  });
+
+  it('should reject accounts without a password', async () => {
+    const user = await createUser(null);
+    const session = await createSession(user.id);
+
+    await expect(changePassword(user, await sessionRow(session.session_id), testInput))
+      .rejects.toThrow(/does not have a password/i);
+  });
+});
@@ -30,10 +30,10 @@ describe('checkEmailAvailability', () => {
     await db.insert(usersTable)
       .values({
         email: 'existing@example.com',
+        email_canonical: 'existing@example.com',
         first_name: 'John',
         last_name: 'Doe',
         password_hash: 'hashedpassword',
-        google_id: null,
         phone_number: null,
         is_email_verified: false
       })
@@ -52,10 +52,10 @@ describe('checkEmailAvailability', () => {
     await db.insert(usersTable)
       .values({
         email: 'testuser@domain.com',
+        email_canonical: 'testuser@domain.com',
         first_name: 'Test',
         last_name: 'User',
         password_hash: 'hashedpassword',
-        google_id: null,
         phone_number: null,
         is_email_verified: true
       })
@@ -94,10 +94,10 @@ describe('checkEmailAvailability', () => {
     await db.insert(usersTable)
       .values({
         email: 'user.name@example.org',
+        email_canonical: 'user.name@example.org',
         first_name: 'User',
         last_name: 'Name',
         password_hash: 'hashedpassword',
-        google_id: null,
         phone_number: null,
         is_email_verified: false
       })
@@ -125,10 +125,10 @@ describe('checkEmailAvailability', () => {
     await db.insert(usersTable)
       .values({
         email: 'mixedcase@example.com',
+        email_canonical: 'mixedcase@example.com',
         first_name: 'Mixed',
         last_name: 'Case',
         password_hash: 'hashedpassword',
-        google_id: null,
         phone_number: null,
         is_email_verified: true
       })
@@ -141,9 +141,8 @@ describe('checkEmailAvailability', () => {
 
     const result = await checkEmailAvailability(upperCaseInput);
 
-    // Email should be considered available since database stores lowercase
-    // but input is uppercase (assuming case-sensitive comparison)
-    expect(result.available).toBe(true);
+    // Addresses are compared by their canonical, lowercased form
+    expect(result.available).toBe(false);
   });
 
   it('should return available true for similar but different email', async () => {
@@ -151,10 +150,10 @@ describe('checkEmailAvailability', () => {
     await db.insert(usersTable)
       .values({
         email: 'testuser@example.com',
+        email_canonical: 'testuser@example.com',
         first_name: 'Test',
         last_name: 'User',
         password_hash: 'hashedpassword',
-        google_id: null,
         phone_number: null,
         is_email_verified: false
       })
@@ -177,19 +176,19 @@ describe('checkEmailAvailability', () => {
       .values([
         {
           email: 'user1@example.com',
+          email_canonical: 'user1@example.com',
           first_name: 'User',
           last_name: 'One',
           password_hash: 'hash1',
-          google_id: null,
           phone_number: null,
           is_email_verified: true
         },
         {
           email: 'user2@example.com',
+          email_canonical: 'user2@example.com',
           first_name: 'User',
           last_name: 'Two',
           password_hash: 'hash2',
-          google_id: null,
           phone_number: null,
           is_email_verified: false
         }
@@ -215,4 +214,49 @@ describe('checkEmailAvailability', () => {
     const availableResult = await checkEmailAvailability(availableInput);
     expect(availableResult.available).toBe(true);
   });
-});
\ No newline at end of file
+
+  it('should not disclose registration in privacy mode', async () => {
+    const saved = process.env['EMAIL_PRIVACY_MODE'];
+    process.env['EMAIL_PRIVACY_MODE'] = 'true';
+
+    try {
+      await db.insert(usersTable)
+        .values({ email: takenEmailInput.email, email_canonical: takenEmailInput.email, first_name: 'Existing', last_name: 'User', password_hash: 'hashed_password' })
+        .execute();
+
+      expect(await checkEmailAvailability(takenEmailInput)).toEqual({ available: null });
+      expect(await checkEmailAvailability(availableEmailInput)).toEqual({ available: null });
+    } finally {
+      if (saved === undefined) delete process.env['EMAIL_PRIVACY_MODE'];
+      else process.env['EMAIL_PRIVACY_MODE'] = saved;
+    }
+  });
+
+  it('should point out a likely typo separately from availability', async () => {
+    const result = await checkEmailAvailability({ email: 'newuser@gmial.com' });
+
+    expect(result.available).toBe(true);
+    expect(result.did_you_mean).toEqual('newuser@gmail.com');
+    expect(result.suggestions).toBeUndefined();
+  });
+
+  it('should only suggest alternatives nobody has registered', async () => {
+    const currentYear = new Date().getFullYear();
+    await db.insert(usersTable)
+      .values(['taken@example.com', `taken.${currentYear}@example.com`].map(email => ({
+        email,
+        email_canonical: email,
+        first_name: 'Taken',
+        last_name: 'User',
+        password_hash: 'hashedpassword'
+      })))
+      .execute();
+
+    const result = await checkEmailAvailability({ email: 'taken@example.com' });
+
+    expect(result.available).toBe(false);
+    expect(result.did_you_mean).toBeUndefined();
+    expect(result.suggestions).toHaveLength(5);
+    expect(result.suggestions).not.toContain(`taken.${currentYear}@example.com`);
+  });
+});
@@ -0,0 +1,130 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, consentRecordsTable } from '../db/schema';
+import { getCommunicationPreferences } from '../handlers/get_communication_preferences';
+import { updateCommunicationPreferences } from '../handlers/update_communication_preferences';
+import { getConsentHistory } from '../handlers/get_consent_history';
+import { CONSENT_WORDING } from '../lib/consent';
+
+const META = { ip_address: '203.0.113.7', user_agent: 'Mozilla/5.0 (Macintosh) Firefox/128.0' };
+
+const createUser = async () => {
+  const result = await db.insert(usersTable)
+    .values({
+      email: 'test@example.com',
+      email_canonical: 'test@example.com',
+      first_name: 'Test',
+      last_name: 'User',
+      password_hash: null,
+      is_email_verified: true
+    })
+    .returning()
+    .execute();
+
+  return result[0];
+};
+
+describe('getCommunicationPreferences', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should list every category as opted out before any choice', async () => {
+    const user = await createUser();
+
+    const preferences = await getCommunicationPreferences(user.id);
+
+    expect(preferences.categories.map(category => category.category))
+      .toEqual(['promotions', 'recommendations', 'product_updates', 'surveys']);
+    expect(preferences.categories.every(category => !category.enabled && category.updated_at === null)).toBe(true);
+    expect(preferences.history).toEqual([]);
+  });
+
+  it('should reflect the newest record per category', async () => {
+    const user = await createUser();
+    await db.insert(consentRecordsTable)
+      .values([
+        { user_id: user.id, category: 'promotions', granted: true, source: 'registration', wording_version: 'signup-marketing-v1', created_at: new Date(Date.now() - 60_000) },
+        { user_id: user.id, category: 'promotions', granted: false, source: 'preferences_center', wording_version: 'promotions-v1' }
+      ])
+      .execute();
+
+    const preferences = await getCommunicationPreferences(user.id);
+
+    expect(preferences.categories[0].enabled).toBe(false);
+    expect(preferences.history.map(record => record.source)).toEqual(['preferences_center', 'registration']);
+    expect(preferences.history[1].wording).toEqual(CONSENT_WORDING['signup-marketing-v1']);
+  });
+});
+
+describe('updateCommunicationPreferences', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should record each change with its evidence', async () => {
+    const user = await createUser();
+
+    const preferences = await updateCommunicationPreferences(user.id, {
+      preferences: [
+        { category: 'surveys', enabled: true },
+        { category: 'product_updates', enabled: true }
+      ]
+    }, META);
+
+    const enabled = preferences.categories.filter(category => category.enabled).map(category => category.category);
+    expect(enabled).toEqual(['product_updates', 'surveys']);
+
+    const records = await db.select().from(consentRecordsTable).execute();
+    expect(records).toHaveLength(2);
+    const surveys = records.find(record => record.category === 'surveys');
+    expect(surveys?.granted).toBe(true);
+    expect(surveys?.source).toEqual('preferences_center');
+    expect(surveys?.wording_version).toEqual('surveys-v1');
+    expect(surveys?.ip_address).toEqual(META.ip_address);
+    expect(surveys?.user_agent).toEqual(META.user_agent);
+  });
+
+  it('should not record choices that do not change anything', async () => {
+    const user = await createUser();
+    await updateCommunicationPreferences(user.id, { preferences: [{ category: 'promotions', enabled: true }] });
+
+    await updateCommunicationPreferences(user.id, {
+      preferences: [
+        { category: 'promotions', enabled: true },
+        { category: 'surveys', enabled: false } // Already opted out by default
+      ]
+    });
+
+    expect(await db.select().from(consentRecordsTable).execute()).toHaveLength(1);
+  });
+
+  it('should keep the full history when consent is withdrawn', async () => {
+    const user = await createUser();
+    await updateCommunicationPreferences(user.id, { preferences: [{ category: 'promotions', enabled: true }] });
+
+    const preferences = await updateCommunicationPreferences(user.id, { preferences: [{ category: 'promotions', enabled: false }] });
+
+    expect(preferences.categories[0].enabled).toBe(false);
+    expect(preferences.history.map(record => record.granted)).toEqual([false, true]);
+  });
+});
+
+describe('getConsentHistory', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should return a user\'s full history for audits', async () => {
+    const user = await createUser();
+    await updateCommunicationPreferences(user.id, { preferences: [{ category: 'promotions', enabled: true }] }, META);
+
+    const history = await getConsentHistory({ user_id: user.id });
+
+    expect(history).toHaveLength(1);
+    expect(history[0].wording).toEqual(CONSENT_WORDING['promotions-v1']);
+    expect(history[0].ip_address).toEqual(META.ip_address);
+  });
+
+  it('should reject unknown users', async () => {
+    await expect(getConsentHistory({ user_id: 9999 })).rejects.toThrow('User not found');
+  });
+});
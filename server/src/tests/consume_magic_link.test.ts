@@ -0,0 +1,97 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, userSessionsTable, magicLinkTokensTable } from '../db/schema';
+import { consumeMagicLink, INVALID_MAGIC_LINK_MESSAGE, MAGIC_LINK_BROWSER_MISMATCH_MESSAGE } from '../handlers/consume_magic_link';
+import { hashToken, verifyAccessToken } from '../lib/tokens';
+import { eq } from 'drizzle-orm';
+
+const TOKEN = 'emailed-magic-link-token';
+const BROWSER_KEY = 'browser-key-0123456789abcdef';
+
+const createUser = async () => {
+  const result = await db.insert(usersTable)
+    .values({
+      email: 'test@example.com',
+      email_canonical: 'test@example.com',
+      first_name: 'Test',
+      last_name: 'User',
+      password_hash: 'hashed_Password123',
+      is_email_verified: false
+    })
+    .returning()
+    .execute();
+
+  return result[0];
+};
+
+const createLink = async (userId: number, overrides: Partial<typeof magicLinkTokensTable.$inferInsert> = {}) => {
+  await db.insert(magicLinkTokensTable)
+    .values({
+      user_id: userId,
+      token_hash: hashToken(TOKEN),
+      expires_at: new Date(Date.now() + 15 * 60 * 1000),
+      ...overrides
+    })
+    .execute();
+};
+
+describe('consumeMagicLink', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should sign the user in with a normal session', async () => {
+    const user = await createUser();
+    await createLink(user.id);
+
+    const result = await consumeMagicLink({ token: TOKEN }, { ip_address: '203.0.113.7' });
+
+    expect(result.user.id).toEqual(user.id);
+    expect(result.user).not.toHaveProperty('password_hash');
+    expect(result.is_new_user).toBe(false);
+    expect(result.refresh_token).toBeDefined();
+
+    const claims = await verifyAccessToken(result.token ?? '');
+    expect(claims.userId).toEqual(user.id);
+
+    const sessions = await db.select().from(userSessionsTable).where(eq(userSessionsTable.user_id, user.id)).execute();
+    expect(sessions).toHaveLength(1);
+    expect(sessions[0].ip_address).toEqual('203.0.113.7');
+
+    // Opening the link proves ownership of the email
+    expect(result.user.is_email_verified).toBe(true);
+
+    const links = await db.select().from(magicLinkTokensTable).execute();
+    expect(links[0].consumed_at).toBeInstanceOf(Date);
+  });
+
+  it('should reject a link that was already used', async () => {
+    const user = await createUser();
+    await createLink(user.id);
+
+    await consumeMagicLink({ token: TOKEN });
+
+    await expect(consumeMagicLink({ token: TOKEN })).rejects.toThrow(INVALID_MAGIC_LINK_MESSAGE);
+  });
+
+  it('should reject expired and unknown links', async () => {
+    const user = await createUser();
+    await createLink(user.id, { expires_at: new Date(Date.now() - 1000) });
+
+    await expect(consumeMagicLink({ token: TOKEN })).rejects.toThrow(INVALID_MAGIC_LINK_MESSAGE);
+    await expect(consumeMagicLink({ token: 'unknown' })).rejects.toThrow(INVALID_MAGIC_LINK_MESSAGE);
+  });
+
+  it('should only accept a bound link in the browser that requested it', async () => {
+    const user = await createUser();
+    await createLink(user.id, { browser_key_hash: hashToken(BROWSER_KEY) });
+
+    await expect(consumeMagicLink({ token: TOKEN })).rejects.toThrow(MAGIC_LINK_BROWSER_MISMATCH_MESSAGE);
+    await expect(consumeMagicLink({ token: TOKEN, browser_key: 'some-other-browser-key' }))
+      .rejects.toThrow(MAGIC_LINK_BROWSER_MISMATCH_MESSAGE);
+
+    // The rejected attempts leave the link usable by the right browser
+    const result = await consumeMagicLink({ token: TOKEN, browser_key: BROWSER_KEY });
+    expect(result.user.id).toEqual(user.id);
+  });
+});
@@ -0,0 +1,139 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, userSessionsTable } from '../db/schema';
+import { authenticate, type Context } from '../context';
+import { router, protectedProcedure, adminProcedure } from '../trpc';
+import { createSession, revokeSessionFamily, rotateSession } from '../lib/sessions';
+import { TRPCError } from '@trpc/server';
+import { eq } from 'drizzle-orm';
+
+const createUser = async (isAdmin = false) => {
+  const result = await db.insert(usersTable)
+    .values({
+      email: isAdmin ? 'admin@example.com' : 'test@example.com',
+      email_canonical: isAdmin ? 'admin@example.com' : 'test@example.com',
+      first_name: 'Test',
+      last_name: 'User',
+      password_hash: null,
+      is_email_verified: true,
+      is_admin: isAdmin
+    })
+    .returning()
+    .execute();
+
+  return result[0];
+};
+
+// Minimal router exercising the middleware chain
+const testRouter = router({
+  whoami: protectedProcedure.query(({ ctx }) => ctx.user.id),
+  adminOnly: adminProcedure.query(({ ctx }) => ctx.user.id)
+});
+
+const callerFor = async (token: string | null) => {
+  const auth = await authenticate(token ? { authorization: `Bearer ${token}` } : {});
+  const ctx: Context = { ...auth, meta: {} };
+  return testRouter.createCaller(ctx);
+};
+
+describe('authenticate', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should resolve user and session from a bearer token', async () => {
+    const user = await createUser();
+    const session = await createSession(user.id);
+
+    const auth = await authenticate({ authorization: `Bearer ${session.token}` });
+
+    expect(auth.user?.id).toEqual(user.id);
+    expect(auth.session?.family_id).toEqual(session.session_id);
+  });
+
+  it('should resolve user from the session cookie', async () => {
+    const user = await createUser();
+    const session = await createSession(user.id);
+
+    const auth = await authenticate({ cookie: `theme=dark; access_token=${session.token}` });
+
+    expect(auth.user?.id).toEqual(user.id);
+  });
+
+  it('should treat missing, malformed and revoked tokens as anonymous', async () => {
+    const user = await createUser();
+    const session = await createSession(user.id);
+
+    expect((await authenticate({})).user).toBeNull();
+    expect((await authenticate({ authorization: 'Bearer not-a-jwt' })).user).toBeNull();
+
+    await revokeSessionFamily(session.session_id);
+    expect((await authenticate({ authorization: `Bearer ${session.token}` })).user).toBeNull();
+  });
+
+  it('should follow the session family across refresh token rotation', async () => {
+    const user = await createUser();
+    const session = await createSession(user.id);
+    await rotateSession(session.refresh_token);
+
+    // The access token issued before rotation still maps to the live session row
+    const auth = await authenticate({ authorization: `Bearer ${session.token}` });
+    expect(auth.session?.rotated_at).toBeNull();
+
+    const sessions = await db.select()
+      .from(userSessionsTable)
+      .where(eq(userSessionsTable.family_id, session.session_id))
+      .execute();
+    expect(sessions).toHaveLength(2);
+  });
+});
+
+describe('protectedProcedure', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should allow signed-in users', async () => {
+    const user = await createUser();
+    const session = await createSession(user.id);
+
+    const caller = await callerFor(session.token);
+    expect(await caller.whoami()).toEqual(user.id);
+  });
+
+  it('should throw UNAUTHORIZED for anonymous requests', async () => {
+    const caller = await callerFor(null);
+
+    const error = await caller.whoami().catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(TRPCError);
+    expect((error as TRPCError).code).toEqual('UNAUTHORIZED');
+  });
+});
+
+describe('adminProcedure', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should allow administrators', async () => {
+    const admin = await createUser(true);
+    const session = await createSession(admin.id);
+
+    const caller = await callerFor(session.token);
+    expect(await caller.adminOnly()).toEqual(admin.id);
+  });
+
+  it('should throw FORBIDDEN for regular users', async () => {
+    const user = await createUser();
+    const session = await createSession(user.id);
+
+    const caller = await callerFor(session.token);
+    const error = await caller.adminOnly().catch((e: unknown) => e);
+    expect((error as TRPCError).code).toEqual('FORBIDDEN');
+  });
+
+  it('should throw UNAUTHORIZED before FORBIDDEN for anonymous requests', async () => {
+    const caller = await callerFor(null);
+
+    const error = await caller.adminOnly().catch((e: unknown) => e);
+    expect((error as TRPCError).code).toEqual('UNAUTHORIZED');
+  });
+});
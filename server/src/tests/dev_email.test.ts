@@ -0,0 +1,85 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from 'bun:test';
+import { createServer, type Server } from 'node:http';
+import { type AddressInfo } from 'node:net';
+import { resetDB, createDB } from '../helpers';
+import { handleDevEmailRoute } from '../routes/dev_email';
+import { queueEmail } from '../lib/email/outbox';
+import { type OutboxEmail } from '../db/schema';
+
+let server: Server;
+let baseUrl: string;
+
+const queueFor = (to: string, subject: string) =>
+  queueEmail({ kind: 'verify_email', to, subject, text: subject });
+
+describe('dev email inbox route', () => {
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      handleDevEmailRoute(req, res).then(handled => {
+        if (!handled) {
+          res.statusCode = 404;
+          res.end();
+        }
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(() => {
+    server.close();
+  });
+
+  beforeEach(async () => {
+    await createDB();
+    process.env['EMAIL_DEV_INBOX'] = 'true';
+  });
+
+  afterEach(async () => {
+    delete process.env['EMAIL_DEV_INBOX'];
+    await resetDB();
+  });
+
+  it('should list queued emails for an address, newest first', async () => {
+    await queueFor('ada@example.com', 'First');
+    await queueFor('grace@example.com', 'Other');
+    await queueFor('ada@example.com', 'Second');
+
+    const response = await fetch(`${baseUrl}/dev/emails?to=ada@example.com`);
+
+    expect(response.status).toEqual(200);
+    const emails = await response.json() as OutboxEmail[];
+    expect(emails.map(email => email.subject)).toEqual(['Second', 'First']);
+  });
+
+  it('should not exist unless enabled', async () => {
+    delete process.env['EMAIL_DEV_INBOX'];
+    await queueFor('ada@example.com', 'First');
+
+    const response = await fetch(`${baseUrl}/dev/emails?to=ada@example.com`);
+
+    expect(response.status).toEqual(404);
+  });
+
+  it('should preview templates with sample data', async () => {
+    const index = await fetch(`${baseUrl}/dev/emails/preview`);
+    expect(index.status).toEqual(200);
+    expect(await index.text()).toContain('/dev/emails/preview/verify_email?locale=es');
+
+    const html = await fetch(`${baseUrl}/dev/emails/preview/verify_email?locale=es`);
+    expect(html.headers.get('content-type')).toStartWith('text/html');
+    expect(await html.text()).toContain('Verifica tu dirección de correo');
+
+    const text = await fetch(`${baseUrl}/dev/emails/preview/verify_email?format=text`);
+    expect(text.headers.get('content-type')).toStartWith('text/plain');
+    expect(await text.text()).toStartWith('Subject: 482913 is your verification code');
+
+    expect((await fetch(`${baseUrl}/dev/emails/preview/receipt`)).status).toEqual(404);
+  });
+
+  it('should only allow GET', async () => {
+    const response = await fetch(`${baseUrl}/dev/emails`, { method: 'DELETE' });
+
+    expect(response.status).toEqual(405);
+  });
+});
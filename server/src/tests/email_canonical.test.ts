@@ -0,0 +1,46 @@
+import { afterEach, describe, expect, it } from 'bun:test';
+import { canonicalizeEmail, normalizeEmail } from '../lib/email_canonical';
+
+describe('normalizeEmail', () => {
+  const savedRules = process.env['EMAIL_CANONICAL_PROVIDER_RULES'];
+
+  afterEach(() => {
+    if (savedRules === undefined) delete process.env['EMAIL_CANONICAL_PROVIDER_RULES'];
+    else process.env['EMAIL_CANONICAL_PROVIDER_RULES'] = savedRules;
+  });
+
+  it('should trim, lowercase the domain and keep the local part as typed for display', () => {
+    expect(normalizeEmail('  Bob.Smith@Example.COM ')).toEqual({
+      display: 'Bob.Smith@example.com',
+      canonical: 'bob.smith@example.com'
+    });
+  });
+
+  it('should convert internationalized domains to punycode', () => {
+    expect(normalizeEmail('Ada@Bücher.example')).toEqual({
+      display: 'Ada@xn--bcher-kva.example',
+      canonical: 'ada@xn--bcher-kva.example'
+    });
+    expect(canonicalizeEmail('ada@xn--bcher-kva.example')).toEqual('ada@xn--bcher-kva.example');
+  });
+
+  it('should leave dots and plus tags alone unless provider rules are enabled', () => {
+    delete process.env['EMAIL_CANONICAL_PROVIDER_RULES'];
+
+    expect(canonicalizeEmail('John.Doe+news@gmail.com')).toEqual('john.doe+news@gmail.com');
+  });
+
+  it('should apply provider rules when enabled', () => {
+    process.env['EMAIL_CANONICAL_PROVIDER_RULES'] = 'true';
+
+    expect(canonicalizeEmail('John.Doe+news@gmail.com')).toEqual('johndoe@gmail.com');
+    expect(canonicalizeEmail('j.ohndoe@googlemail.com')).toEqual('johndoe@gmail.com');
+    expect(canonicalizeEmail('ada+shop@me.com')).toEqual('ada@icloud.com');
+    // Outlook does not ignore dots
+    expect(canonicalizeEmail('ada.lovelace+x@outlook.com')).toEqual('ada.lovelace@outlook.com');
+    // Other domains are untouched
+    expect(canonicalizeEmail('ada.lovelace+x@example.com')).toEqual('ada.lovelace+x@example.com');
+    // Only the display form keeps the tag
+    expect(normalizeEmail('Ada+shop@me.com').display).toEqual('Ada+shop@me.com');
+  });
+});
@@ -0,0 +1,161 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { emailOutboxTable } from '../db/schema';
+import { getMaxEmailAttempts, getRetryDelaySeconds, processOutbox, queueEmail } from '../lib/email/outbox';
+import { createMemoryTransport, type EmailTransport } from '../lib/email/transports';
+import { eq } from 'drizzle-orm';
+
+const failingTransport: EmailTransport = {
+  name: 'failing',
+  send: async () => {
+    throw new Error('Connection refused');
+  }
+};
+
+const queueTestEmail = () => queueEmail({
+  kind: 'verify_email',
+  to: 'ada@example.com',
+  subject: 'Hello',
+  text: 'Hello, Ada'
+});
+
+const getRow = async (id: number) => {
+  const rows = await db.select()
+    .from(emailOutboxTable)
+    .where(eq(emailOutboxTable.id, id))
+    .execute();
+  return rows[0];
+};
+
+describe('email outbox', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should queue messages as pending', async () => {
+    const queued = await queueTestEmail();
+
+    expect(queued.status).toEqual('pending');
+    expect(queued.attempts).toEqual(0);
+    expect(queued.to_address).toEqual('ada@example.com');
+  });
+
+  it('should deliver due messages and record the outcome', async () => {
+    const queued = await queueTestEmail();
+    const transport = createMemoryTransport();
+
+    const result = await processOutbox(transport);
+
+    expect(result).toEqual({ sent: 1, retried: 0, failed: 0 });
+    expect(transport.messages).toHaveLength(1);
+    expect(transport.messages[0].text).toEqual('Hello, Ada');
+
+    const row = await getRow(queued.id);
+    expect(row.status).toEqual('sent');
+    expect(row.attempts).toEqual(1);
+    expect(row.sent_at).toBeInstanceOf(Date);
+    expect(row.locked_at).toBeNull();
+    expect(row.provider_message_id).toEqual(transport.messages[0].message_id);
+    expect(row.text_body).toEqual('');
+    expect(row.html_body).toBeNull();
+
+    // Sent messages are not sent again
+    expect(await processOutbox(transport)).toEqual({ sent: 0, retried: 0, failed: 0 });
+  });
+
+  it('should schedule a retry with backoff after a failed attempt', async () => {
+    const queued = await queueTestEmail();
+
+    const before = Date.now();
+    const result = await processOutbox(failingTransport);
+
+    expect(result).toEqual({ sent: 0, retried: 1, failed: 0 });
+
+    const row = await getRow(queued.id);
+    expect(row.status).toEqual('pending');
+    expect(row.attempts).toEqual(1);
+    expect(row.last_error).toEqual('Connection refused');
+    expect(row.next_attempt_at.getTime()).toBeGreaterThanOrEqual(before + getRetryDelaySeconds(1) * 1000 - 1000);
+
+    // Not due yet
+    expect(await processOutbox(createMemoryTransport())).toEqual({ sent: 0, retried: 0, failed: 0 });
+  });
+
+  it('should double the delay between attempts up to an hour', () => {
+    expect(getRetryDelaySeconds(1)).toEqual(30);
+    expect(getRetryDelaySeconds(2)).toEqual(60);
+    expect(getRetryDelaySeconds(3)).toEqual(120);
+    expect(getRetryDelaySeconds(20)).toEqual(3600);
+  });
+
+  it('should mark a message failed after the last attempt', async () => {
+    const queued = await queueTestEmail();
+    await db.update(emailOutboxTable)
+      .set({ attempts: getMaxEmailAttempts() - 1 })
+      .where(eq(emailOutboxTable.id, queued.id))
+      .execute();
+
+    const result = await processOutbox(failingTransport);
+
+    expect(result).toEqual({ sent: 0, retried: 0, failed: 1 });
+    const row = await getRow(queued.id);
+    expect(row.status).toEqual('failed');
+    expect(row.attempts).toEqual(getMaxEmailAttempts());
+    expect(row.text_body).toEqual('');
+  });
+
+  it('should keep the body for a retry but not once a secret has been delivered', async () => {
+    const queued = await queueEmail({
+      kind: 'password_reset',
+      to: 'ada@example.com',
+      subject: 'Reset your password',
+      text: 'Reset it at https://app.test/reset-password?token=secret-token-123',
+      html: '<a href="https://app.test/reset-password?token=secret-token-123">Reset</a>'
+    });
+
+    await processOutbox(failingTransport);
+    expect((await getRow(queued.id)).text_body).toContain('secret-token-123');
+
+    await db.update(emailOutboxTable)
+      .set({ next_attempt_at: new Date() })
+      .where(eq(emailOutboxTable.id, queued.id))
+      .execute();
+    const transport = createMemoryTransport();
+    await processOutbox(transport);
+
+    expect(transport.messages[0].text).toContain('secret-token-123');
+    const row = await getRow(queued.id);
+    expect(row.status).toEqual('sent');
+    expect(JSON.stringify(row)).not.toContain('secret-token-123');
+  });
+
+  it('should pick up a message left sending by a sender that stopped', async () => {
+    const stuck = await queueTestEmail();
+    const inFlight = await queueTestEmail();
+
+    await db.update(emailOutboxTable)
+      .set({ status: 'sending', locked_at: new Date(Date.now() - 10 * 60 * 1000), attempts: 1 })
+      .where(eq(emailOutboxTable.id, stuck.id))
+      .execute();
+    await db.update(emailOutboxTable)
+      .set({ status: 'sending', locked_at: new Date(), attempts: 1 })
+      .where(eq(emailOutboxTable.id, inFlight.id))
+      .execute();
+
+    const result = await processOutbox(createMemoryTransport());
+
+    expect(result.sent).toEqual(1);
+    expect((await getRow(stuck.id)).status).toEqual('sent');
+    expect((await getRow(inFlight.id)).status).toEqual('sending');
+  });
+
+  it('should deliver at most one batch per run', async () => {
+    for (let i = 0; i < 3; i++) {
+      await queueTestEmail();
+    }
+
+    const transport = createMemoryTransport();
+    expect((await processOutbox(transport, 2)).sent).toEqual(2);
+    expect((await processOutbox(transport, 2)).sent).toEqual(1);
+  });
+});
@@ -0,0 +1,97 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable } from '../db/schema';
+import { alternativeCandidates, editDistance, suggestAvailableAlternatives, suggestDomainCorrection } from '../lib/email_suggestions';
+
+describe('editDistance', () => {
+  it('should count a swap of neighbouring characters as one edit', () => {
+    expect(editDistance('gmial.com', 'gmail.com')).toEqual(1);
+    expect(editDistance('gmail.co', 'gmail.com')).toEqual(1);
+    expect(editDistance('gmai.lcom', 'gmail.com')).toEqual(1);
+    expect(editDistance('yaho.cmo', 'yahoo.com')).toEqual(2);
+    expect(editDistance('example.org', 'gmail.com')).toBeGreaterThan(2);
+  });
+});
+
+describe('suggestDomainCorrection', () => {
+  const saved = {
+    EMAIL_SUGGESTION_DOMAINS: process.env['EMAIL_SUGGESTION_DOMAINS'],
+    EMAIL_KNOWN_DOMAINS: process.env['EMAIL_KNOWN_DOMAINS']
+  };
+
+  afterEach(() => {
+    for (const [name, value] of Object.entries(saved)) {
+      if (value === undefined) delete process.env[name];
+      else process.env[name] = value;
+    }
+  });
+
+  it('should correct common misspellings and keep the local part', () => {
+    expect(suggestDomainCorrection('Ada.Lovelace@gmial.com')).toEqual('Ada.Lovelace@gmail.com');
+    expect(suggestDomainCorrection('ada@hotmial.com')).toEqual('ada@hotmail.com');
+    expect(suggestDomainCorrection('ada@yahoo.cm')).toEqual('ada@yahoo.com');
+    expect(suggestDomainCorrection('ada@OUTLOOK.CON')).toEqual('ada@outlook.com');
+  });
+
+  it('should leave known and unrelated domains alone', () => {
+    expect(suggestDomainCorrection('ada@gmail.com')).toBeNull();
+    expect(suggestDomainCorrection('ada@example.org')).toBeNull();
+    expect(suggestDomainCorrection('ada@gmx.de')).toBeNull();
+  });
+
+  it('should never correct real domains that look like misspellings', () => {
+    expect(suggestDomainCorrection('ada@ymail.com')).toBeNull();
+    expect(suggestDomainCorrection('ada@email.com')).toBeNull();
+    expect(suggestDomainCorrection('ada@yahoo.co.jp')).toBeNull();
+    expect(suggestDomainCorrection('ada@hotmail.fr')).toBeNull();
+    expect(suggestDomainCorrection('ada@mac.com')).toBeNull();
+  });
+
+  it('should only correct a single edit, and not towards short domains', () => {
+    expect(suggestDomainCorrection('ada@gmaik.con')).toBeNull();
+    expect(suggestDomainCorrection('ada@yaho.cmo')).toBeNull();
+    expect(suggestDomainCorrection('ada@ms.com')).toBeNull();
+    expect(suggestDomainCorrection('ada@aol.cm')).toBeNull();
+  });
+
+  it('should add configured known domains', () => {
+    expect(suggestDomainCorrection('ada@gmail.co')).toEqual('ada@gmail.com');
+
+    process.env['EMAIL_KNOWN_DOMAINS'] = 'gmail.co';
+
+    expect(suggestDomainCorrection('ada@gmail.co')).toBeNull();
+    expect(suggestDomainCorrection('ada@ymail.com')).toBeNull();
+  });
+
+  it('should use the configured domain list', () => {
+    process.env['EMAIL_SUGGESTION_DOMAINS'] = 'example.org, company.test';
+
+    expect(suggestDomainCorrection('ada@exmaple.org')).toEqual('ada@example.org');
+    expect(suggestDomainCorrection('ada@gmial.com')).toBeNull();
+  });
+});
+
+describe('suggestAvailableAlternatives', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should skip alternatives that are already registered', async () => {
+    const [first, second] = alternativeCandidates('ada@example.com');
+    await db.insert(usersTable)
+      .values([first, second].map(email => ({ email, email_canonical: email, first_name: 'Ada', last_name: 'Taken', password_hash: 'hashed_password' })))
+      .execute();
+
+    const suggestions = await suggestAvailableAlternatives('ada@example.com', 3);
+
+    expect(suggestions).toEqual(alternativeCandidates('ada@example.com').slice(2, 5));
+  });
+
+  it('should not offer local parts longer than 64 characters', () => {
+    const local = 'a'.repeat(60);
+
+    alternativeCandidates(`${local}@example.com`).forEach(candidate => {
+      expect(candidate.split('@')[0].length).toBeLessThanOrEqual(64);
+    });
+  });
+});
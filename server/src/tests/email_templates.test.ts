@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'bun:test';
+import { EMAIL_KINDS, SAMPLE_EMAIL_VARIABLES, buildEmail, renderEmail, renderSampleEmail } from '../lib/email/templates';
+import { EMAIL_LOCALES, resolveEmailLocale } from '../lib/email/locales';
+import { previewEmail } from '../scripts/preview_email';
+
+describe('email templates', () => {
+  it('should render every template in every locale', () => {
+    for (const kind of EMAIL_KINDS) {
+      for (const locale of EMAIL_LOCALES) {
+        const rendered = renderSampleEmail(kind, locale);
+
+        expect(rendered.subject).not.toBeEmpty();
+        expect(rendered.html).toStartWith('<!DOCTYPE html>');
+        expect(rendered.html).toContain(`<html lang="${locale}">`);
+        expect(rendered.text).not.toContain('<');
+      }
+    }
+  });
+
+  it('should put codes and links in both parts', () => {
+    const rendered = renderSampleEmail('verify_email', 'en');
+    const { code, link_url } = SAMPLE_EMAIL_VARIABLES.verify_email;
+
+    expect(rendered.subject).toEqual(`${code} is your verification code`);
+    expect(rendered.text).toContain(code);
+    expect(rendered.text).toContain(`Verify email: ${link_url}`);
+    expect(rendered.html).toContain(code);
+    expect(rendered.html).toContain(`href="${link_url}"`);
+  });
+
+  it('should leave out the action when there is no link', () => {
+    const rendered = renderEmail('verify_email', 'en', { ...SAMPLE_EMAIL_VARIABLES.verify_email, link_url: null });
+
+    expect(rendered.text).not.toContain('Verify email:');
+    expect(rendered.html).not.toContain('<a ');
+  });
+
+  it('should escape variables in the HTML part', () => {
+    const rendered = renderEmail('welcome', 'en', { first_name: '<script>alert(1)</script>', shop_url: 'http://localhost/?a=1&b="2"' });
+
+    expect(rendered.html).not.toContain('<script>');
+    expect(rendered.html).toContain('&lt;script&gt;');
+    expect(rendered.html).toContain('href="http://localhost/?a=1&amp;b=&quot;2&quot;"');
+    expect(rendered.text).toContain('Welcome, <script>alert(1)</script>!'); // Plain text is not HTML
+  });
+
+  it('should render in the requested language', () => {
+    expect(renderSampleEmail('password_reset', 'es').subject).toEqual('Restablece tu contraseña');
+    expect(renderSampleEmail('password_reset', 'en').subject).toEqual('Reset your password');
+  });
+
+  it('should build a queueable email', () => {
+    const email = buildEmail('magic_link', 'ada@example.com', 'en', SAMPLE_EMAIL_VARIABLES.magic_link);
+
+    expect(email.kind).toEqual('magic_link');
+    expect(email.to).toEqual('ada@example.com');
+    expect(email.html).toContain('Sign in');
+  });
+});
+
+describe('resolveEmailLocale', () => {
+  it('should pick the most preferred supported language', () => {
+    expect(resolveEmailLocale('es-MX,es;q=0.9,en;q=0.8')).toEqual('es');
+    expect(resolveEmailLocale('fr-FR,fr;q=0.9,es;q=0.5,en;q=0.7')).toEqual('en');
+    expect(resolveEmailLocale('en;q=0.5, es')).toEqual('es');
+  });
+
+  it('should fall back to English', () => {
+    expect(resolveEmailLocale(undefined)).toEqual('en');
+    expect(resolveEmailLocale('')).toEqual('en');
+    expect(resolveEmailLocale('fr, de')).toEqual('en');
+    expect(resolveEmailLocale('es;q=0')).toEqual('en');
+  });
+});
+
+describe('previewEmail', () => {
+  it('should list templates without arguments', () => {
+    const { output } = previewEmail([]);
+
+    for (const kind of EMAIL_KINDS) {
+      expect(output).toContain(kind);
+    }
+  });
+
+  it('should render a template as HTML or text', () => {
+    expect(previewEmail(['welcome', 'es']).output).toContain('<html lang="es">');
+    expect(previewEmail(['welcome', '--text']).output).toStartWith('Subject: Welcome to Amazon');
+    expect(previewEmail(['welcome', '--out=/tmp/welcome.html']).file).toEqual('/tmp/welcome.html');
+  });
+
+  it('should reject unknown templates and locales', () => {
+    expect(() => previewEmail(['receipt'])).toThrow('Unknown email template');
+    expect(() => previewEmail(['welcome', 'fr'])).toThrow('Unsupported locale');
+  });
+});
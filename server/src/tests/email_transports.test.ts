@@ -0,0 +1,97 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { mkdtemp, readdir, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { startSmtpSink, type SmtpSinkStub } from '../helpers/smtp_sink';
+import {
+  createFileTransport,
+  createMemoryTransport,
+  createSmtpTransport,
+  getEmailTransportName
+} from '../lib/email/transports';
+
+const TRANSPORT_ENV = ['EMAIL_TRANSPORT', 'SMTP_URL', 'EMAIL_FROM'];
+
+const email = {
+  to: 'ada@example.com',
+  subject: '123456 is your verification code',
+  text: 'Your verification code is 123456.'
+};
+
+describe('email transports', () => {
+  let sink: SmtpSinkStub | null = null;
+  let directory: string | null = null;
+  const savedEnv = Object.fromEntries(TRANSPORT_ENV.map(name => [name, process.env[name]]));
+
+  beforeEach(() => {
+    for (const name of TRANSPORT_ENV) delete process.env[name];
+  });
+
+  afterEach(async () => {
+    await sink?.stop();
+    sink = null;
+    if (directory) await rm(directory, { recursive: true, force: true });
+    directory = null;
+    for (const [name, value] of Object.entries(savedEnv)) {
+      if (value === undefined) delete process.env[name];
+      else process.env[name] = value;
+    }
+  });
+
+  it('should deliver through an SMTP server', async () => {
+    sink = await startSmtpSink();
+    process.env['EMAIL_FROM'] = 'Shop <no-reply@shop.test>';
+
+    const result = await createSmtpTransport(sink.url).send(email);
+
+    expect(result.message_id).toBeString();
+    expect(sink.messages).toHaveLength(1);
+    expect(sink.messages[0].from).toEqual('no-reply@shop.test');
+    expect(sink.messages[0].to).toEqual(['ada@example.com']);
+    expect(sink.messages[0].data).toContain('Subject: 123456 is your verification code');
+    expect(sink.messages[0].data).toContain('Your verification code is 123456.');
+  });
+
+  it('should fail when the SMTP server refuses the recipient', async () => {
+    sink = await startSmtpSink({ rejectRecipients: ['ada@example.com'] });
+
+    await expect(createSmtpTransport(sink.url).send(email)).rejects.toThrow();
+  });
+
+  it('should write each message as an .eml file', async () => {
+    directory = await mkdtemp(path.join(tmpdir(), 'emails-'));
+
+    await createFileTransport(directory).send(email);
+
+    const files = await readdir(directory);
+    expect(files).toHaveLength(1);
+    expect(files[0]).toEndWith('.eml');
+
+    const contents = await readFile(path.join(directory, files[0]), 'utf8');
+    expect(contents).toContain('To: ada@example.com');
+    expect(contents).toContain('Your verification code is 123456.');
+  });
+
+  it('should keep messages in memory', async () => {
+    const transport = createMemoryTransport();
+
+    const result = await transport.send(email);
+
+    expect(transport.messages).toHaveLength(1);
+    expect(transport.messages[0].to).toEqual('ada@example.com');
+    expect(transport.messages[0].message_id).toEqual(result.message_id as string);
+  });
+
+  it('should choose SMTP when SMTP_URL is set and memory otherwise', () => {
+    expect(getEmailTransportName()).toEqual('memory');
+
+    process.env['SMTP_URL'] = 'smtp://localhost:1025';
+    expect(getEmailTransportName()).toEqual('smtp');
+
+    process.env['EMAIL_TRANSPORT'] = 'file';
+    expect(getEmailTransportName()).toEqual('file');
+
+    process.env['EMAIL_TRANSPORT'] = 'carrier-pigeon';
+    expect(() => getEmailTransportName()).toThrow();
+  });
+});
@@ -1,203 +1,322 @@
-import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
+import { startOidcIssuer, type OidcIssuerStub } from '../helpers/oidc_issuer';
 import { db } from '../db';
-import { usersTable } from '../db/schema';
-import { type GoogleSignInInput } from '../schema';
+import { usersTable, userIdentitiesTable, googleSignInNoncesTable } from '../db/schema';
 import { googleSignIn } from '../handlers/google_sign_in';
+import { type ExternalSignInResponse } from '../schema';
+import { INVALID_GOOGLE_TOKEN_MESSAGE } from '../lib/google_id_token';
+import { createGoogleNonce, readGoogleNonceBinding } from '../lib/google_nonce';
+import { startGoogleSignIn } from '../handlers/start_google_sign_in';
+import { UNVERIFIED_PROVIDER_EMAIL_MESSAGE } from '../lib/external_sign_in';
 import { eq } from 'drizzle-orm';
+import { generateKeyPair } from 'jose';
+import type { ServerResponse } from 'node:http';
 
-// Test input for Google sign-in
-const testGoogleInput: GoogleSignInInput = {
-  google_id: 'google_123456789',
+const CLIENT_ID = 'test-client.apps.googleusercontent.com';
+
+// Claims Google would put in the ID token for this test user
+const googleClaims = {
+  iss: 'https://accounts.google.com',
+  aud: CLIENT_ID,
+  sub: 'google_123456789',
   email: 'john.doe@gmail.com',
-  first_name: 'John',
-  last_name: 'Doe',
-  email_verified: true
+  email_verified: true,
+  given_name: 'John',
+  family_name: 'Doe'
+};
+
+let issuer: OidcIssuerStub;
+
+// Starts an attempt the way the browser would and signs in with a token carrying its nonce
+const signInWith = async (claims: Record<string, unknown> = {}, syncProfile = false) => {
+  const { nonce, binding } = await createGoogleNonce();
+  const idToken = await issuer.signIdToken({ ...googleClaims, nonce, ...claims });
+  return googleSignIn({ id_token: idToken, sync_profile: syncProfile }, {}, binding);
+};
+
+const googleIdentities = () =>
+  db.select()
+    .from(userIdentitiesTable)
+    .where(eq(userIdentitiesTable.provider, 'google'))
+    .execute();
+
+const createGoogleUser = async (values: { email: string; first_name: string; last_name: string; is_email_verified: boolean }, subject: string) => {
+  const users = await db.insert(usersTable)
+    .values({ ...values, email_canonical: values.email.toLowerCase(), password_hash: null })
+    .returning()
+    .execute();
+
+  await db.insert(userIdentitiesTable)
+    .values({ user_id: users[0].id, provider: 'google', subject, email: values.email })
+    .execute();
+
+  return users;
+};
+
+const signedIn = (result: ExternalSignInResponse) => {
+  if (result.status !== 'signed_in') {
+    throw new Error(`Expected to be signed in, got ${result.status}`);
+  }
+  return result;
 };
 
 describe('googleSignIn', () => {
+  beforeAll(async () => {
+    issuer = await startOidcIssuer();
+    process.env['GOOGLE_JWKS_URL'] = issuer.jwksUrl;
+    process.env['GOOGLE_CLIENT_ID'] = CLIENT_ID;
+  });
+
+  afterAll(() => {
+    issuer.stop();
+    delete process.env['GOOGLE_JWKS_URL'];
+    delete process.env['GOOGLE_CLIENT_ID'];
+  });
+
   beforeEach(createDB);
   afterEach(resetDB);
 
-  it('should create new user when Google user does not exist', async () => {
-    const result = await googleSignIn(testGoogleInput);
+  it('should create new user from the verified token claims', async () => {
+    const result = signedIn(await signInWith());
 
-    // Verify response structure
     expect(result.user.email).toEqual('john.doe@gmail.com');
     expect(result.user.first_name).toEqual('John');
     expect(result.user.last_name).toEqual('Doe');
-    expect(result.user.google_id).toEqual('google_123456789');
     expect(result.user.is_email_verified).toEqual(true);
-    expect(result.user.id).toBeDefined();
-    expect(result.user.created_at).toBeInstanceOf(Date);
-    expect(result.user.updated_at).toBeInstanceOf(Date);
     expect(result.token).toBeDefined();
+    expect(result.refresh_token).toBeDefined();
     expect(result.is_new_user).toEqual(true);
 
     // Verify password_hash is not returned
     expect('password_hash' in result.user).toBe(false);
-  });
-
-  it('should save new Google user to database correctly', async () => {
-    const result = await googleSignIn(testGoogleInput);
 
-    // Query database to verify user was saved
     const users = await db.select()
       .from(usersTable)
       .where(eq(usersTable.id, result.user.id))
       .execute();
 
     expect(users).toHaveLength(1);
-    const user = users[0];
-    expect(user.email).toEqual('john.doe@gmail.com');
-    expect(user.google_id).toEqual('google_123456789');
-    expect(user.password_hash).toBeNull(); // Google users have no password
-    expect(user.is_email_verified).toEqual(true);
-    expect(user.phone_number).toBeNull();
+    expect(users[0].password_hash).toBeNull(); // Google users have no password
+
+    const identities = await googleIdentities();
+    expect(identities).toHaveLength(1);
+    expect(identities[0].user_id).toEqual(result.user.id);
+    expect(identities[0].subject).toEqual('google_123456789');
+    expect(identities[0].email).toEqual('john.doe@gmail.com');
+    expect(identities[0].raw_claims?.['given_name']).toEqual('John');
   });
 
-  it('should update existing user when found by google_id', async () => {
-    // Create existing user with same google_id but different info
+  it('should take email_verified from the token', async () => {
+    const result = signedIn(await signInWith({ email_verified: false }));
+
+    expect(result.user.is_email_verified).toEqual(false);
+  });
+
+  it('should sign in the account linked to the Google identity without touching its profile', async () => {
+    const existingUser = await createGoogleUser({
+      email: 'john.doe@gmail.com',
+      first_name: 'OldFirst',
+      last_name: 'OldLast',
+      is_email_verified: false
+    }, 'google_123456789');
+
+    const result = signedIn(await signInWith());
+
+    expect(result.user.id).toEqual(existingUser[0].id);
+    expect(result.user.first_name).toEqual('OldFirst'); // Kept
+    expect(result.user.last_name).toEqual('OldLast'); // Kept
+    expect(result.user.is_email_verified).toEqual(true); // Upgraded by Google
+    expect(result.is_new_user).toEqual(false);
+  });
+
+  it('should overwrite the profile when sync_profile is requested', async () => {
+    await createGoogleUser({
+      email: 'john.doe@gmail.com',
+      first_name: 'OldFirst',
+      last_name: 'OldLast',
+      is_email_verified: true
+    }, 'google_123456789');
+
+    const result = signedIn(await signInWith({}, true));
+
+    expect(result.user.first_name).toEqual('John');
+    expect(result.user.last_name).toEqual('Doe');
+  });
+
+  it('should require linking when the email belongs to a password account', async () => {
     const existingUser = await db.insert(usersTable)
       .values({
-        email: 'old.email@example.com',
+        email: 'john.doe@gmail.com',
+        email_canonical: 'john.doe@gmail.com',
         first_name: 'OldFirst',
         last_name: 'OldLast',
-        google_id: 'google_123456789',
-        password_hash: null,
+        password_hash: 'some_hash',
         is_email_verified: false
       })
       .returning()
       .execute();
 
-    const result = await googleSignIn(testGoogleInput);
+    const result = await signInWith();
 
-    // Should update existing user, not create new one
-    expect(result.user.id).toEqual(existingUser[0].id);
-    expect(result.user.first_name).toEqual('John'); // Updated
-    expect(result.user.last_name).toEqual('Doe'); // Updated
-    expect(result.user.is_email_verified).toEqual(true); // Updated
-    expect(result.is_new_user).toEqual(false);
+    expect(result.status).toEqual('link_required');
+    if (result.status !== 'link_required') return;
+    expect(result.provider).toEqual('google');
+    expect(result.provider_name).toEqual('Google');
+    expect(result.email).toEqual('john.doe@gmail.com');
+    expect(result.link_token).toBeDefined();
+    expect(result.methods).toEqual(['password', 'email_code']);
 
-    // Verify database was updated
-    const updatedUsers = await db.select()
+    // Nothing is merged until ownership is proven
+    const users = await db.select()
       .from(usersTable)
-      .where(eq(usersTable.id, result.user.id))
+      .where(eq(usersTable.id, existingUser[0].id))
       .execute();
 
-    expect(updatedUsers).toHaveLength(1);
-    expect(updatedUsers[0].first_name).toEqual('John');
-    expect(updatedUsers[0].last_name).toEqual('Doe');
-    expect(updatedUsers[0].is_email_verified).toEqual(true);
+    expect(users[0].first_name).toEqual('OldFirst');
+    expect(await googleIdentities()).toHaveLength(0);
+    expect(users[0].is_email_verified).toEqual(false);
   });
 
-  it('should update existing user when found by email', async () => {
-    // Create existing user with same email but no google_id
-    const existingUser = await db.insert(usersTable)
+  it('should not offer linking when Google has not verified the email', async () => {
+    await db.insert(usersTable)
       .values({
         email: 'john.doe@gmail.com',
-        first_name: 'OldFirst',
-        last_name: 'OldLast',
-        google_id: null,
-        password_hash: 'some_hash',
-        is_email_verified: false
+        email_canonical: 'john.doe@gmail.com',
+        first_name: 'John',
+        last_name: 'Doe',
+        password_hash: 'some_hash'
       })
-      .returning()
       .execute();
 
-    const result = await googleSignIn(testGoogleInput);
+    await expect(signInWith({ email_verified: false }))
+      .rejects.toThrow(UNVERIFIED_PROVIDER_EMAIL_MESSAGE);
+    expect(await googleIdentities()).toHaveLength(0);
+  });
 
-    // Should update existing user and add Google info
-    expect(result.user.id).toEqual(existingUser[0].id);
-    expect(result.user.google_id).toEqual('google_123456789'); // Added
-    expect(result.user.first_name).toEqual('John'); // Updated
-    expect(result.user.is_email_verified).toEqual(true); // Updated
-    expect(result.is_new_user).toEqual(false);
+  it('should match an existing account whose email differs only in case', async () => {
+    await db.insert(usersTable)
+      .values({
+        email: 'John.Doe@gmail.com',
+        email_canonical: 'john.doe@gmail.com',
+        first_name: 'John',
+        last_name: 'Doe',
+        password_hash: 'some_hash'
+      })
+      .execute();
 
-    // Verify database was updated with Google info
-    const updatedUsers = await db.select()
-      .from(usersTable)
-      .where(eq(usersTable.id, result.user.id))
+    const result = await signInWith({ email: 'JOHN.DOE@Gmail.com' });
+
+    expect(result.status).toEqual('link_required');
+    expect(await db.select().from(usersTable).execute()).toHaveLength(1);
+  });
+
+  it('should only offer an email code when the existing account has no password', async () => {
+    await db.insert(usersTable)
+      .values({
+        email: 'john.doe@gmail.com',
+        email_canonical: 'john.doe@gmail.com',
+        first_name: 'John',
+        last_name: 'Doe',
+        password_hash: null,
+        is_email_verified: true
+      })
       .execute();
 
-    expect(updatedUsers).toHaveLength(1);
-    expect(updatedUsers[0].google_id).toEqual('google_123456789');
-    expect(updatedUsers[0].first_name).toEqual('John');
+    const result = await signInWith();
+
+    expect(result.status).toEqual('link_required');
+    if (result.status !== 'link_required') return;
+    expect(result.methods).toEqual(['email_code']);
   });
 
-  it('should handle email_verified defaulting to true', async () => {
-    // Create input without email_verified to test default behavior
-    const rawInput = {
-      google_id: 'google_987654321',
-      email: 'jane.smith@gmail.com',
-      first_name: 'Jane',
-      last_name: 'Smith'
-      // email_verified is omitted to test default value
-    };
+  it('should reject an email already linked to a different Google account', async () => {
+    await createGoogleUser({
+      email: 'john.doe@gmail.com',
+      first_name: 'John',
+      last_name: 'Doe',
+      is_email_verified: true
+    }, 'google_someone_else');
 
-    // The handler should handle undefined email_verified by defaulting to true
-    const result = await googleSignIn(rawInput as GoogleSignInInput);
+    await expect(signInWith()).rejects.toThrow(/already linked to a different account/i);
+  });
 
-    expect(result.user.is_email_verified).toEqual(true);
-    expect(result.is_new_user).toEqual(true);
+  it('should reject a token issued for a different client', async () => {
+    await expect(signInWith({ aud: 'someone-else.apps.googleusercontent.com' }))
+      .rejects.toThrow(INVALID_GOOGLE_TOKEN_MESSAGE);
   });
 
-  it('should respect explicitly set email_verified false', async () => {
-    const inputWithFalseEmailVerified: GoogleSignInInput = {
-      google_id: 'google_unverified',
-      email: 'unverified@gmail.com',
-      first_name: 'Unverified',
-      last_name: 'User',
-      email_verified: false
-    };
+  it('should reject a token from a different issuer', async () => {
+    await expect(signInWith({ iss: 'https://evil.example.com' }))
+      .rejects.toThrow(INVALID_GOOGLE_TOKEN_MESSAGE);
+  });
 
-    const result = await googleSignIn(inputWithFalseEmailVerified);
+  it('should reject a token whose nonce was not issued to this browser', async () => {
+    await expect(signInWith({ nonce: 'another-nonce-0123456789' }))
+      .rejects.toThrow(INVALID_GOOGLE_TOKEN_MESSAGE);
 
-    expect(result.user.is_email_verified).toEqual(false);
-    expect(result.is_new_user).toEqual(true);
+    const { nonce } = await createGoogleNonce();
+    const { binding: otherBinding } = await createGoogleNonce();
+    const idToken = await issuer.signIdToken({ ...googleClaims, nonce });
+
+    await expect(googleSignIn({ id_token: idToken, sync_profile: false }, {}, otherBinding))
+      .rejects.toThrow(INVALID_GOOGLE_TOKEN_MESSAGE);
+    await expect(googleSignIn({ id_token: idToken, sync_profile: false }, {}, null))
+      .rejects.toThrow(INVALID_GOOGLE_TOKEN_MESSAGE);
   });
 
-  it('should generate unique tokens for different sign-ins', async () => {
-    const result1 = await googleSignIn(testGoogleInput);
-    
-    // Wait a moment to ensure different timestamps
-    await new Promise(resolve => setTimeout(resolve, 10));
-    
-    const result2 = await googleSignIn({
-      ...testGoogleInput,
-      google_id: 'google_different_id'
-    });
-
-    expect(result1.token).toBeDefined();
-    expect(result2.token).toBeDefined();
-    expect(result1.token).not.toEqual(result2.token);
-  });
-
-  it('should handle multiple users with different Google IDs', async () => {
-    // Create first user
-    const result1 = await googleSignIn(testGoogleInput);
-
-    // Create second user with different Google ID and email
-    const secondInput: GoogleSignInInput = {
-      google_id: 'google_different_id',
-      email: 'different@gmail.com',
-      first_name: 'Jane',
-      last_name: 'Smith',
-      email_verified: false
-    };
-
-    const result2 = await googleSignIn(secondInput);
-
-    // Both should be new users with different IDs
-    expect(result1.is_new_user).toEqual(true);
-    expect(result2.is_new_user).toEqual(true);
-    expect(result1.user.id).not.toEqual(result2.user.id);
-
-    // Verify both users exist in database
-    const allUsers = await db.select()
-      .from(usersTable)
+  it('should issue the nonce in the response and its binding in an HttpOnly cookie', async () => {
+    const headers: Record<string, string> = {};
+    const res = { setHeader: (name: string, value: string) => { headers[name] = value; } } as unknown as ServerResponse;
+
+    const { nonce } = await startGoogleSignIn(res);
+
+    const binding = readGoogleNonceBinding(headers['Set-Cookie']?.split(';')[0]);
+    expect(headers['Set-Cookie']).toContain('HttpOnly');
+    expect(binding).not.toBeNull();
+
+    const idToken = await issuer.signIdToken({ ...googleClaims, nonce });
+    signedIn(await googleSignIn({ id_token: idToken, sync_profile: false }, {}, binding));
+  });
+
+  it('should use each nonce only once', async () => {
+    const { nonce, binding } = await createGoogleNonce();
+    const idToken = await issuer.signIdToken({ ...googleClaims, nonce });
+
+    signedIn(await googleSignIn({ id_token: idToken, sync_profile: false }, {}, binding));
+
+    await expect(googleSignIn({ id_token: idToken, sync_profile: false }, {}, binding))
+      .rejects.toThrow(INVALID_GOOGLE_TOKEN_MESSAGE);
+  });
+
+  it('should reject an expired nonce', async () => {
+    const { nonce, binding } = await createGoogleNonce();
+    await db.update(googleSignInNoncesTable)
+      .set({ expires_at: new Date(Date.now() - 1000) })
       .execute();
+    const idToken = await issuer.signIdToken({ ...googleClaims, nonce });
+
+    await expect(googleSignIn({ id_token: idToken, sync_profile: false }, {}, binding))
+      .rejects.toThrow(INVALID_GOOGLE_TOKEN_MESSAGE);
+  });
+
+  it('should reject an expired token', async () => {
+    const { nonce, binding } = await createGoogleNonce();
+    const idToken = await issuer.signIdToken({ ...googleClaims, nonce }, { expiresAt: Math.floor(Date.now() / 1000) - 60 });
+
+    await expect(googleSignIn({ id_token: idToken, sync_profile: false }, {}, binding))
+      .rejects.toThrow(INVALID_GOOGLE_TOKEN_MESSAGE);
+  });
+
+  it('should reject a token not signed by a published key', async () => {
+    const { privateKey } = await generateKeyPair('RS256');
+    const { nonce, binding } = await createGoogleNonce();
+    const idToken = await issuer.signIdToken({ ...googleClaims, nonce }, { key: privateKey });
+
+    await expect(googleSignIn({ id_token: idToken, sync_profile: false }, {}, binding))
+      .rejects.toThrow(INVALID_GOOGLE_TOKEN_MESSAGE);
 
-    expect(allUsers).toHaveLength(2);
+    const users = await db.select().from(usersTable).execute();
+    expect(users).toHaveLength(0);
   });
-});
\ No newline at end of file
+});
@@ -0,0 +1,279 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, userIdentitiesTable, emailVerificationTable, signInFailuresTable, userSessionsTable } from '../db/schema';
+import { linkExternalAccount } from '../handlers/link_external_account';
+import { signIn } from '../handlers/sign_in';
+import { TooManyRequestsError } from '../trpc';
+import { hashPassword } from '../lib/password';
+import { createLinkToken, INVALID_LINK_TOKEN_MESSAGE } from '../lib/account_linking';
+import { IDENTITY_ALREADY_LINKED_MESSAGE, type ExternalIdentity } from '../lib/identities';
+import { signPurposeToken } from '../lib/tokens';
+import { createSession } from '../lib/sessions';
+import { eq } from 'drizzle-orm';
+import { hashVerificationCode } from '../lib/verification_codes';
+
+const identity: ExternalIdentity = {
+  provider: 'google',
+  subject: 'google_123456789',
+  email: 'john.doe@gmail.com',
+  email_verified: true,
+  first_name: 'Johnny',
+  last_name: 'Google',
+  claims: { sub: 'google_123456789', email: 'john.doe@gmail.com' }
+};
+
+const googleIdentities = () =>
+  db.select()
+    .from(userIdentitiesTable)
+    .where(eq(userIdentitiesTable.provider, 'google'))
+    .execute();
+
+const createPasswordUser = async () => {
+  const result = await db.insert(usersTable)
+    .values({
+      email: 'john.doe@gmail.com',
+      email_canonical: 'john.doe@gmail.com',
+      first_name: 'John',
+      last_name: 'Doe',
+      password_hash: await hashPassword('Password123'),
+      is_email_verified: false
+    })
+    .returning()
+    .execute();
+
+  return result[0];
+};
+
+const createLinkCode = async (code: string, expiresAt = new Date(Date.now() + 60 * 1000)) => {
+  await db.insert(emailVerificationTable)
+    .values({
+      email: 'john.doe@gmail.com',
+      code_hash: hashVerificationCode(code),
+      purpose: 'link_account',
+      expires_at: expiresAt
+    })
+    .execute();
+};
+
+describe('linkExternalAccount', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should link Google after the password is confirmed', async () => {
+    const user = await createPasswordUser();
+    const linkToken = await createLinkToken({ userId: user.id, identity });
+
+    const result = await linkExternalAccount({ link_token: linkToken, password: 'Password123' });
+
+    expect(result.user.id).toEqual(user.id);
+    expect(result.user.first_name).toEqual('John'); // Profile is not overwritten
+    expect(result.user.is_email_verified).toEqual(true); // Google verified the email
+    expect(result.token).toBeDefined();
+    expect(result.is_new_user).toEqual(false);
+
+    const identities = await googleIdentities();
+    expect(identities).toHaveLength(1);
+    expect(identities[0].user_id).toEqual(user.id);
+    expect(identities[0].subject).toEqual('google_123456789');
+  });
+
+  it('should not link with a wrong password', async () => {
+    const user = await createPasswordUser();
+    const linkToken = await createLinkToken({ userId: user.id, identity });
+
+    await expect(linkExternalAccount({ link_token: linkToken, password: 'WrongPassword1' }))
+      .rejects.toThrow(/incorrect password/i);
+
+    expect(await googleIdentities()).toHaveLength(0);
+  });
+
+  it('should link when the provider email differs from the account email only in case', async () => {
+    const user = await createPasswordUser();
+    const mixedCase = { ...identity, email: 'John.Doe@Gmail.com' };
+    const linkToken = await createLinkToken({ userId: user.id, identity: mixedCase });
+
+    const result = await linkExternalAccount({ link_token: linkToken, password: 'Password123' });
+
+    expect(result.user.id).toEqual(user.id);
+    expect(await googleIdentities()).toHaveLength(1);
+  });
+
+  it('should count wrong passwords towards the sign-in lock', async () => {
+    const saved = { SIGN_IN_BACKOFF_AFTER: process.env['SIGN_IN_BACKOFF_AFTER'], SIGN_IN_LOCK_AFTER: process.env['SIGN_IN_LOCK_AFTER'] };
+    process.env['SIGN_IN_BACKOFF_AFTER'] = '100';
+    process.env['SIGN_IN_LOCK_AFTER'] = '3';
+    try {
+      const user = await createPasswordUser();
+      const linkToken = await createLinkToken({ userId: user.id, identity });
+
+      for (let i = 0; i < 2; i++) {
+        await expect(linkExternalAccount({ link_token: linkToken, password: 'WrongPassword1' }))
+          .rejects.toThrow(/incorrect password/i);
+      }
+      await expect(linkExternalAccount({ link_token: linkToken, password: 'WrongPassword1' }))
+        .rejects.toBeInstanceOf(TooManyRequestsError);
+
+      // Locked for the right password too, and for sign-in
+      await expect(linkExternalAccount({ link_token: linkToken, password: 'Password123' }))
+        .rejects.toBeInstanceOf(TooManyRequestsError);
+      await expect(signIn({ email: 'john.doe@gmail.com', password: 'Password123' }))
+        .rejects.toBeInstanceOf(TooManyRequestsError);
+
+      const failures = await db.select().from(signInFailuresTable).execute();
+      expect(failures).toHaveLength(3);
+      expect(await googleIdentities()).toHaveLength(0);
+    } finally {
+      for (const [name, value] of Object.entries(saved)) {
+        if (value === undefined) delete process.env[name];
+        else process.env[name] = value;
+      }
+    }
+  });
+
+  it('should clear earlier sign-in failures once the password is confirmed', async () => {
+    const user = await createPasswordUser();
+    const linkToken = await createLinkToken({ userId: user.id, identity });
+
+    await expect(linkExternalAccount({ link_token: linkToken, password: 'WrongPassword1' }))
+      .rejects.toThrow(/incorrect password/i);
+    await linkExternalAccount({ link_token: linkToken, password: 'Password123' });
+
+    expect(await db.select().from(signInFailuresTable).execute()).toHaveLength(0);
+  });
+
+  it('should link Google with a valid emailed code and consume it', async () => {
+    const user = await createPasswordUser();
+    const linkToken = await createLinkToken({ userId: user.id, identity: { ...identity, email_verified: false } });
+    await createLinkCode('123456');
+
+    const result = await linkExternalAccount({ link_token: linkToken, verification_code: '123456' });
+
+    expect(result.user.is_email_verified).toEqual(true); // Proven by the code
+    expect(await googleIdentities()).toHaveLength(1);
+
+    const codes = await db.select().from(emailVerificationTable).execute();
+    expect(codes).toHaveLength(0);
+  });
+
+  it('should drop the password and sessions of an unverified account proven by email code', async () => {
+    // Someone registered the address first and never verified it
+    const user = await createPasswordUser();
+    await createSession(user.id);
+    const linkToken = await createLinkToken({ userId: user.id, identity: { ...identity, email_verified: false } });
+    await createLinkCode('123456');
+
+    const result = await linkExternalAccount({ link_token: linkToken, verification_code: '123456' });
+
+    const users = await db.select().from(usersTable).where(eq(usersTable.id, user.id)).execute();
+    expect(users[0].password_hash).toBeNull();
+    await expect(signIn({ email: 'john.doe@gmail.com', password: 'Password123' }))
+      .rejects.toThrow('Invalid email or password');
+
+    // Only the session just created for the owner is left
+    const sessions = await db.select().from(userSessionsTable).where(eq(userSessionsTable.user_id, user.id)).execute();
+    expect(sessions.filter(session => session.revoked_at === null)).toHaveLength(1);
+    expect(result.refresh_token).toBeDefined();
+  });
+
+  it('should keep the password of a verified account linked by email code', async () => {
+    const user = await createPasswordUser();
+    await db.update(usersTable).set({ is_email_verified: true }).where(eq(usersTable.id, user.id)).execute();
+    await createSession(user.id);
+    const linkToken = await createLinkToken({ userId: user.id, identity });
+    await createLinkCode('123456');
+
+    await linkExternalAccount({ link_token: linkToken, verification_code: '123456' });
+
+    expect((await signIn({ email: 'john.doe@gmail.com', password: 'Password123' })).user.id).toEqual(user.id);
+    const sessions = await db.select().from(userSessionsTable).where(eq(userSessionsTable.user_id, user.id)).execute();
+    expect(sessions.every(session => session.revoked_at === null)).toBe(true);
+  });
+
+  it('should count code guesses per account across fresh codes', async () => {
+    const user = await createPasswordUser();
+    const linkToken = await createLinkToken({ userId: user.id, identity });
+
+    // Each new code allows 5 guesses; the account allows 10 in all
+    for (let i = 0; i < 10; i++) {
+      if (i % 5 === 0) {
+        await db.delete(emailVerificationTable).execute();
+        await createLinkCode('123456');
+      }
+      await expect(linkExternalAccount({ link_token: linkToken, verification_code: '000000' })).rejects.toThrow();
+    }
+
+    await db.delete(emailVerificationTable).execute();
+    await createLinkCode('123456');
+    await expect(linkExternalAccount({ link_token: linkToken, verification_code: '123456' }))
+      .rejects.toBeInstanceOf(TooManyRequestsError);
+    expect(await googleIdentities()).toHaveLength(0);
+  });
+
+  it('should reject wrong, expired and email verification codes', async () => {
+    const user = await createPasswordUser();
+    const linkToken = await createLinkToken({ userId: user.id, identity });
+
+    await createLinkCode('111111', new Date(Date.now() - 1000));
+    await db.insert(emailVerificationTable)
+      .values({
+        email: 'john.doe@gmail.com',
+        code_hash: hashVerificationCode('222222'),
+        expires_at: new Date(Date.now() + 60 * 1000)
+      })
+      .execute();
+
+    for (const code of ['000000', '111111', '222222']) {
+      await expect(linkExternalAccount({ link_token: linkToken, verification_code: code }))
+        .rejects.toThrow(/invalid or expired/i);
+    }
+  });
+
+  it('should reject tampered and foreign tokens', async () => {
+    const user = await createPasswordUser();
+    const linkToken = await createLinkToken({ userId: user.id, identity });
+    const otherPurpose = await signPurposeToken('something_else', { sub: String(user.id), identity: { ...identity } }, 60);
+
+    await expect(linkExternalAccount({ link_token: `${linkToken}x`, password: 'Password123' }))
+      .rejects.toThrow(INVALID_LINK_TOKEN_MESSAGE);
+    await expect(linkExternalAccount({ link_token: otherPurpose, password: 'Password123' }))
+      .rejects.toThrow(INVALID_LINK_TOKEN_MESSAGE);
+  });
+
+  it('should refuse when the account email changed or it is already linked', async () => {
+    const user = await createPasswordUser();
+    const linkToken = await createLinkToken({ userId: user.id, identity });
+
+    await db.insert(userIdentitiesTable)
+      .values({ user_id: user.id, provider: 'google', subject: 'google_other' })
+      .execute();
+
+    await expect(linkExternalAccount({ link_token: linkToken, password: 'Password123' }))
+      .rejects.toThrow(/already linked/i);
+
+    await db.delete(userIdentitiesTable).execute();
+    await db.update(usersTable)
+      .set({ email: 'changed@example.com', email_canonical: 'changed@example.com' })
+      .where(eq(usersTable.id, user.id))
+      .execute();
+
+    await expect(linkExternalAccount({ link_token: linkToken, password: 'Password123' }))
+      .rejects.toThrow(INVALID_LINK_TOKEN_MESSAGE);
+  });
+
+  it('should refuse a Google account that is linked to someone else', async () => {
+    const user = await createPasswordUser();
+    const linkToken = await createLinkToken({ userId: user.id, identity });
+
+    const otherUser = await db.insert(usersTable)
+      .values({ email: 'other@example.com', email_canonical: 'other@example.com', first_name: 'Other', last_name: 'User' })
+      .returning()
+      .execute();
+    await db.insert(userIdentitiesTable)
+      .values({ user_id: otherUser[0].id, provider: 'google', subject: 'google_123456789' })
+      .execute();
+
+    await expect(linkExternalAccount({ link_token: linkToken, password: 'Password123' }))
+      .rejects.toThrow(IDENTITY_ALREADY_LINKED_MESSAGE);
+  });
+});
@@ -0,0 +1,53 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, userIdentitiesTable } from '../db/schema';
+import { listLinkedIdentities } from '../handlers/list_linked_identities';
+
+const createUser = async (email: string) => {
+  const result = await db.insert(usersTable)
+    .values({
+      email,
+      email_canonical: email,
+      first_name: 'Test',
+      last_name: 'User',
+      password_hash: null,
+      is_email_verified: true
+    })
+    .returning()
+    .execute();
+
+  return result[0];
+};
+
+describe('listLinkedIdentities', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should list only the identities of the given user without raw claims', async () => {
+    const user = await createUser('test@example.com');
+    const otherUser = await createUser('other@example.com');
+
+    await db.insert(userIdentitiesTable)
+      .values([
+        { user_id: user.id, provider: 'google', subject: 'google_1', email: 'test@gmail.com', raw_claims: { sub: 'google_1' } },
+        { user_id: otherUser.id, provider: 'google', subject: 'google_2', email: 'other@gmail.com' }
+      ])
+      .execute();
+
+    const identities = await listLinkedIdentities(user.id);
+
+    expect(identities).toHaveLength(1);
+    expect(identities[0].provider).toEqual('google');
+    expect(identities[0].email).toEqual('test@gmail.com');
+    expect(identities[0].linked_at).toBeInstanceOf(Date);
+    expect('raw_claims' in identities[0]).toBe(false);
+    expect('subject' in identities[0]).toBe(false);
+  });
+
+  it('should return an empty list for password-only accounts', async () => {
+    const user = await createUser('test@example.com');
+
+    expect(await listLinkedIdentities(user.id)).toEqual([]);
+  });
+});
@@ -0,0 +1,86 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, userSessionsTable } from '../db/schema';
+import { listSessions } from '../handlers/list_sessions';
+import { createSession, revokeSessionFamily, rotateSession } from '../lib/sessions';
+import { and, eq, isNull } from 'drizzle-orm';
+
+const createUser = async (email = 'test@example.com') => {
+  const result = await db.insert(usersTable)
+    .values({
+      email,
+      email_canonical: email,
+      first_name: 'Test',
+      last_name: 'User',
+      password_hash: null,
+      is_email_verified: true
+    })
+    .returning()
+    .execute();
+
+  return result[0];
+};
+
+const liveSession = async (familyId: string) => {
+  const rows = await db.select()
+    .from(userSessionsTable)
+    .where(and(eq(userSessionsTable.family_id, familyId), isNull(userSessionsTable.rotated_at)))
+    .execute();
+
+  return rows[0];
+};
+
+describe('listSessions', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should list active sessions with device details', async () => {
+    const user = await createUser();
+    const laptop = await createSession(user.id, { user_agent: 'Mozilla/5.0 (Macintosh)', ip_address: '203.0.113.5' });
+    const phone = await createSession(user.id, { user_agent: 'Mozilla/5.0 (iPhone)', ip_address: '198.51.100.7' });
+
+    const result = await listSessions(user.id, await liveSession(laptop.session_id));
+
+    expect(result).toHaveLength(2);
+    const current = result.find(session => session.id === laptop.session_id);
+    const other = result.find(session => session.id === phone.session_id);
+    expect(current?.is_current).toBe(true);
+    expect(current?.user_agent).toEqual('Mozilla/5.0 (Macintosh)');
+    expect(current?.ip_address).toEqual('203.0.113.5');
+    expect(current?.created_at).toBeInstanceOf(Date);
+    expect(current?.last_seen_at).toBeInstanceOf(Date);
+    expect(other?.is_current).toBe(false);
+  });
+
+  it('should show one entry per session across refresh token rotation', async () => {
+    const user = await createUser();
+    const session = await createSession(user.id, { user_agent: 'Original agent' });
+    const originalRow = await liveSession(session.session_id);
+
+    await rotateSession(session.refresh_token, { ip_address: '192.0.2.10' });
+
+    const result = await listSessions(user.id, await liveSession(session.session_id));
+
+    expect(result).toHaveLength(1);
+    expect(result[0].id).toEqual(session.session_id);
+    expect(result[0].user_agent).toEqual('Original agent');
+    expect(result[0].ip_address).toEqual('192.0.2.10');
+    expect(result[0].created_at).toEqual(originalRow.created_at);
+  });
+
+  it('should exclude revoked sessions and other users', async () => {
+    const user = await createUser();
+    const otherUser = await createUser('other@example.com');
+    const current = await createSession(user.id);
+    const revoked = await createSession(user.id);
+    await createSession(otherUser.id);
+
+    await revokeSessionFamily(revoked.session_id);
+
+    const result = await listSessions(user.id, await liveSession(current.session_id));
+
+    expect(result).toHaveLength(1);
+    expect(result[0].id).toEqual(current.session_id);
+  });
+});
@@ -0,0 +1,85 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { emailVerificationTable, usersTable } from '../db/schema';
+import { migrateCanonicalEmails } from '../scripts/migrate_canonical_emails';
+import { sql } from 'drizzle-orm';
+
+// Recreates the pre-migration table shape, where only email was stored
+const createLegacyUsers = async (emails: string[]) => {
+  await db.execute(sql`alter table users drop column email_canonical`);
+  for (const email of emails) {
+    await db.execute(sql`
+      insert into users (email, first_name, last_name, password_hash)
+      values (${email}, 'Legacy', 'User', 'hashed_password')
+    `);
+  }
+};
+
+describe('migrateCanonicalEmails', () => {
+  beforeEach(createDB);
+  afterEach(async () => {
+    delete process.env['EMAIL_CANONICAL_PROVIDER_RULES'];
+    await resetDB();
+  });
+
+  it('should fill in canonical emails once', async () => {
+    await createLegacyUsers(['Bob@Example.com', 'ada@example.com']);
+    await db.execute(sql`
+      insert into email_verification (email, code_hash, expires_at)
+      values ('Bob@Example.com', 'hash', now() + interval '1 hour')
+    `);
+
+    expect(await migrateCanonicalEmails()).toEqual({ updated: 2, collisions: [] });
+    expect(await migrateCanonicalEmails()).toEqual({ updated: 0, collisions: [] });
+
+    const users = await db.select().from(usersTable).orderBy(usersTable.id).execute();
+    expect(users.map(user => [user.email, user.email_canonical])).toEqual([
+      ['Bob@Example.com', 'bob@example.com'],
+      ['ada@example.com', 'ada@example.com']
+    ]);
+
+    const codes = await db.select().from(emailVerificationTable).execute();
+    expect(codes[0].email).toEqual('bob@example.com');
+  });
+
+  it('should report accounts that share a canonical email and write nothing', async () => {
+    await createLegacyUsers(['Bob@Example.com', 'bob@example.com', 'ada@example.com']);
+
+    const result = await migrateCanonicalEmails();
+
+    expect(result.updated).toEqual(0);
+    expect(result.collisions).toHaveLength(1);
+    expect(result.collisions[0].canonical).toEqual('bob@example.com');
+    expect(result.collisions[0].users.map(user => user.email)).toEqual(['Bob@Example.com', 'bob@example.com']);
+
+    const filled = await db.execute(sql`select count(*)::int as count from users where email_canonical is not null`);
+    expect(filled.rows[0]['count']).toEqual(0);
+  });
+
+  it('should apply changes that trade values between accounts', async () => {
+    // Stale canonical forms, each held by the other account
+    await db.insert(usersTable)
+      .values([
+        { email: 'ada@example.com', email_canonical: 'bob@example.com', first_name: 'Ada', last_name: 'User', password_hash: 'hash' },
+        { email: 'bob@example.com', email_canonical: 'ada@example.com', first_name: 'Bob', last_name: 'User', password_hash: 'hash' }
+      ])
+      .execute();
+
+    expect(await migrateCanonicalEmails()).toEqual({ updated: 2, collisions: [] });
+
+    const users = await db.select().from(usersTable).orderBy(usersTable.id).execute();
+    expect(users.map(user => user.email_canonical)).toEqual(['ada@example.com', 'bob@example.com']);
+  });
+
+  it('should recompute canonical emails after provider rules are turned on', async () => {
+    await createLegacyUsers(['john.doe+news@gmail.com']);
+    await migrateCanonicalEmails();
+
+    process.env['EMAIL_CANONICAL_PROVIDER_RULES'] = 'true';
+    expect(await migrateCanonicalEmails()).toEqual({ updated: 1, collisions: [] });
+
+    const users = await db.select().from(usersTable).execute();
+    expect(users[0].email_canonical).toEqual('johndoe@gmail.com');
+  });
+});
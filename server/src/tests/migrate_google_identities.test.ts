@@ -0,0 +1,39 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, userIdentitiesTable } from '../db/schema';
+import { migrateGoogleIdentities } from '../scripts/migrate_google_identities';
+import { sql } from 'drizzle-orm';
+
+describe('migrateGoogleIdentities', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should do nothing once the legacy column is gone', async () => {
+    expect(await migrateGoogleIdentities()).toEqual(0);
+  });
+
+  it('should copy legacy google_id values into user_identities once', async () => {
+    // Recreate the pre-migration column
+    await db.execute(sql`alter table users add column google_id varchar(255)`);
+
+    const users = await db.insert(usersTable)
+      .values([
+        { email: 'google@example.com', email_canonical: 'google@example.com', first_name: 'Google', last_name: 'User' },
+        { email: 'password@example.com', email_canonical: 'password@example.com', first_name: 'Password', last_name: 'User', password_hash: 'some_hash' }
+      ])
+      .returning()
+      .execute();
+    await db.execute(sql`update users set google_id = 'google_123' where id = ${users[0].id}`);
+
+    expect(await migrateGoogleIdentities()).toEqual(1);
+    expect(await migrateGoogleIdentities()).toEqual(0);
+
+    const identities = await db.select().from(userIdentitiesTable).execute();
+    expect(identities).toHaveLength(1);
+    expect(identities[0].user_id).toEqual(users[0].id);
+    expect(identities[0].provider).toEqual('google');
+    expect(identities[0].subject).toEqual('google_123');
+    expect(identities[0].email).toEqual('google@example.com');
+  });
+});
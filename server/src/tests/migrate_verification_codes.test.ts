@@ -0,0 +1,52 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { emailVerificationTable } from '../db/schema';
+import { migrateVerificationCodes } from '../scripts/migrate_verification_codes';
+import { hashVerificationCode } from '../lib/verification_codes';
+import { sql } from 'drizzle-orm';
+
+// Recreates the pre-migration table shape with one pending raw code
+const createLegacyCode = async () => {
+  await db.execute(sql`alter table email_verification drop column code_hash`);
+  await db.execute(sql`alter table email_verification drop column attempts`);
+  await db.execute(sql`alter table email_verification add column verification_code varchar(6)`);
+  await db.execute(sql`
+    insert into email_verification (email, verification_code, expires_at)
+    values ('test@example.com', '123456', now() + interval '1 hour')
+  `);
+};
+
+describe('migrateVerificationCodes', () => {
+  beforeEach(createDB);
+  afterEach(async () => {
+    delete process.env['VERIFICATION_CODE_SECRET'];
+    await resetDB();
+  });
+
+  it('should do nothing once the legacy column is gone', async () => {
+    expect(await migrateVerificationCodes()).toEqual(0);
+  });
+
+  it('should hash pending raw codes once', async () => {
+    process.env['VERIFICATION_CODE_SECRET'] = 'test-secret';
+    await createLegacyCode();
+
+    expect(await migrateVerificationCodes()).toEqual(1);
+    expect(await migrateVerificationCodes()).toEqual(0);
+
+    const codes = await db.select().from(emailVerificationTable).execute();
+    expect(codes).toHaveLength(1);
+    expect(codes[0].code_hash).toEqual(hashVerificationCode('123456'));
+    expect(codes[0].attempts).toEqual(0);
+  });
+
+  it('should delete pending codes when hashes would not survive a restart', async () => {
+    await createLegacyCode();
+
+    expect(await migrateVerificationCodes()).toEqual(0);
+
+    const remaining = await db.execute(sql`select count(*)::int as count from email_verification`);
+    expect(remaining.rows[0]['count']).toEqual(0);
+  });
+});
@@ -0,0 +1,176 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { startOidcIssuer, type OidcIssuerStub } from '../helpers/oidc_issuer';
+import { db } from '../db';
+import { oauthStatesTable, userIdentitiesTable, usersTable } from '../db/schema';
+import { createAuthorizationUrl, completeAuthorization } from '../lib/oauth/client';
+import { getOAuthProvider, listOAuthProviders, type OAuthProvider } from '../lib/oauth/providers';
+import { OAUTH_STATE_EXPIRED_MESSAGE, OAUTH_STATE_INVALID_MESSAGE } from '../lib/oauth/state';
+import { signInWithExternalIdentity } from '../lib/external_sign_in';
+import { hashToken } from '../lib/tokens';
+import { eq } from 'drizzle-orm';
+
+const REDIRECT_URI = 'http://localhost:2022/auth/oidc/callback';
+
+const OAUTH_ENV = ['OIDC_ISSUER', 'OIDC_CLIENT_ID', 'OIDC_CLIENT_SECRET', 'OIDC_PROVIDER_NAME', 'GITHUB_CLIENT_ID', 'GITHUB_CLIENT_SECRET', 'GITHUB_URL', 'GITHUB_API_URL'];
+
+let issuer: OidcIssuerStub;
+
+const provider = (id: string): OAuthProvider => {
+  const configured = getOAuthProvider(id);
+  if (!configured) {
+    throw new Error(`Provider ${id} is not configured`);
+  }
+  return configured;
+};
+
+describe('OAuth client', () => {
+  beforeAll(async () => {
+    issuer = await startOidcIssuer();
+    process.env['OIDC_ISSUER'] = issuer.url;
+    process.env['OIDC_CLIENT_ID'] = issuer.clientId;
+    process.env['OIDC_CLIENT_SECRET'] = issuer.clientSecret;
+    process.env['OIDC_PROVIDER_NAME'] = 'Acme SSO';
+    process.env['GITHUB_CLIENT_ID'] = issuer.clientId;
+    process.env['GITHUB_CLIENT_SECRET'] = issuer.clientSecret;
+    process.env['GITHUB_URL'] = issuer.url;
+    process.env['GITHUB_API_URL'] = issuer.url;
+  });
+
+  afterAll(() => {
+    issuer.stop();
+    for (const name of OAUTH_ENV) {
+      delete process.env[name];
+    }
+  });
+
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should only offer configured providers', () => {
+    const providers = listOAuthProviders().map(configured => configured.id);
+
+    expect(providers).toContain('oidc');
+    expect(providers).toContain('github');
+    expect(providers).not.toContain('apple');
+    expect(getOAuthProvider('oidc')?.name).toEqual('Acme SSO');
+    expect(getOAuthProvider('unknown')).toBeNull();
+  });
+
+  it('should build an authorization URL and persist state, nonce and PKCE verifier', async () => {
+    const url = new URL(await createAuthorizationUrl(provider('oidc'), { redirectUri: REDIRECT_URI, returnTo: '/account/security' }));
+
+    expect(url.origin + url.pathname).toEqual(`${issuer.url}/authorize`);
+    expect(url.searchParams.get('response_type')).toEqual('code');
+    expect(url.searchParams.get('client_id')).toEqual(issuer.clientId);
+    expect(url.searchParams.get('redirect_uri')).toEqual(REDIRECT_URI);
+    expect(url.searchParams.get('scope')).toEqual('openid email profile');
+    expect(url.searchParams.get('code_challenge_method')).toEqual('S256');
+
+    const state = url.searchParams.get('state') ?? '';
+    const rows = await db.select().from(oauthStatesTable).execute();
+    expect(rows).toHaveLength(1);
+    expect(rows[0].state_hash).toEqual(hashToken(state)); // Only the hash is stored
+    expect(rows[0].provider).toEqual('oidc');
+    expect(rows[0].nonce).toEqual(url.searchParams.get('nonce') ?? '');
+    expect(rows[0].code_verifier).not.toEqual(url.searchParams.get('code_challenge'));
+    expect(rows[0].return_to).toEqual('/account/security');
+    expect(rows[0].expires_at > new Date()).toBe(true);
+  });
+
+  it('should complete the flow and map OIDC claims', async () => {
+    const url = await createAuthorizationUrl(provider('oidc'), { redirectUri: REDIRECT_URI, returnTo: '/account/security' });
+    const { code, state } = issuer.authorize(url, {
+      sub: 'user-42',
+      email: 'ada@example.com',
+      email_verified: true,
+      name: 'Ada King Lovelace'
+    });
+
+    const result = await completeAuthorization(provider('oidc'), state, code);
+
+    expect(result.returnTo).toEqual('/account/security');
+    expect(result.identity.provider).toEqual('oidc');
+    expect(result.identity.subject).toEqual('user-42');
+    expect(result.identity.email).toEqual('ada@example.com');
+    expect(result.identity.email_verified).toBe(true);
+    expect(result.identity.first_name).toEqual('Ada');
+    expect(result.identity.last_name).toEqual('King Lovelace');
+
+    // The identity signs up a new user like any other provider
+    const signIn = await signInWithExternalIdentity(result.identity);
+    expect(signIn.status).toEqual('signed_in');
+
+    const users = await db.select().from(usersTable).where(eq(usersTable.email, 'ada@example.com')).execute();
+    expect(users).toHaveLength(1);
+    expect(users[0].first_name).toEqual('Ada');
+
+    const identities = await db.select().from(userIdentitiesTable).execute();
+    expect(identities[0].provider).toEqual('oidc');
+    expect(identities[0].subject).toEqual('user-42');
+  });
+
+  it('should reject a replayed callback', async () => {
+    const url = await createAuthorizationUrl(provider('oidc'), { redirectUri: REDIRECT_URI });
+    const { code, state } = issuer.authorize(url, { sub: 'user-42', email: 'ada@example.com' });
+
+    await completeAuthorization(provider('oidc'), state, code);
+
+    await expect(completeAuthorization(provider('oidc'), state, code))
+      .rejects.toThrow(OAUTH_STATE_INVALID_MESSAGE);
+  });
+
+  it('should reject unknown, expired and cross-provider states', async () => {
+    await expect(completeAuthorization(provider('oidc'), 'made-up-state', 'code'))
+      .rejects.toThrow(OAUTH_STATE_INVALID_MESSAGE);
+
+    const url = await createAuthorizationUrl(provider('oidc'), { redirectUri: REDIRECT_URI });
+    const { code, state } = issuer.authorize(url, { sub: 'user-42' });
+
+    await expect(completeAuthorization(provider('github'), state, code))
+      .rejects.toThrow(OAUTH_STATE_INVALID_MESSAGE);
+
+    const expiredUrl = await createAuthorizationUrl(provider('oidc'), { redirectUri: REDIRECT_URI });
+    const expired = issuer.authorize(expiredUrl, { sub: 'user-42' });
+    await db.update(oauthStatesTable)
+      .set({ expires_at: new Date(Date.now() - 1000) })
+      .where(eq(oauthStatesTable.state_hash, hashToken(expired.state)))
+      .execute();
+
+    await expect(completeAuthorization(provider('oidc'), expired.state, expired.code))
+      .rejects.toThrow(OAUTH_STATE_EXPIRED_MESSAGE);
+  });
+
+  it('should reject an ID token whose nonce does not match', async () => {
+    const url = await createAuthorizationUrl(provider('oidc'), { redirectUri: REDIRECT_URI });
+    const { code, state } = issuer.authorize(url, { sub: 'user-42', nonce: 'attacker-nonce' });
+
+    await expect(completeAuthorization(provider('oidc'), state, code))
+      .rejects.toThrow(/nonce/i);
+  });
+
+  it('should use the verified primary email from a plain OAuth2 provider', async () => {
+    const url = await createAuthorizationUrl(provider('github'), { redirectUri: 'http://localhost:2022/auth/github/callback' });
+    expect(new URL(url).searchParams.get('nonce')).toBeNull();
+
+    const { code, state } = issuer.authorize(url, {
+      id: 583231,
+      login: 'octocat',
+      name: 'The Octocat',
+      email: 'public@example.com', // User-chosen profile email, not trusted
+      emails: [
+        { email: 'public@example.com', primary: false, verified: false },
+        { email: 'octocat@example.com', primary: true, verified: true }
+      ]
+    });
+
+    const result = await completeAuthorization(provider('github'), state, code);
+
+    expect(result.identity.provider).toEqual('github');
+    expect(result.identity.subject).toEqual('583231');
+    expect(result.identity.email).toEqual('octocat@example.com');
+    expect(result.identity.email_verified).toBe(true);
+    expect(result.identity.first_name).toEqual('The');
+    expect(result.identity.last_name).toEqual('Octocat');
+  });
+});
@@ -0,0 +1,222 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from 'bun:test';
+import { createServer, type Server } from 'node:http';
+import { type AddressInfo } from 'node:net';
+import { resetDB, createDB } from '../helpers';
+import { startOidcIssuer, type OidcIssuerStub } from '../helpers/oidc_issuer';
+import { db } from '../db';
+import { oauthStatesTable, usersTable } from '../db/schema';
+import { handleOAuthRoute, OAUTH_BROWSER_MISMATCH_MESSAGE, OAUTH_CANCELLED_MESSAGE } from '../routes/oauth';
+import { OAUTH_STATE_EXPIRED_MESSAGE, OAUTH_STATE_INVALID_MESSAGE } from '../lib/oauth/state';
+import { UNVERIFIED_PROVIDER_EMAIL_MESSAGE } from '../lib/external_sign_in';
+import { verifyAccessToken } from '../lib/tokens';
+import { listSignInProviders } from '../handlers/list_sign_in_providers';
+import { eq } from 'drizzle-orm';
+
+const APP_BASE_URL = 'http://app.test';
+const ROUTE_ENV = ['OIDC_ISSUER', 'OIDC_CLIENT_ID', 'OIDC_CLIENT_SECRET', 'APP_BASE_URL', 'OAUTH_CALLBACK_BASE_URL'];
+
+let issuer: OidcIssuerStub;
+let server: Server;
+let baseUrl: string;
+
+const get = (path: string, cookie?: string) =>
+  fetch(`${baseUrl}${path}`, { redirect: 'manual', headers: cookie ? { cookie } : {} });
+
+// Starts a flow, returning the provider's code and state plus the browser's binding cookie
+const startFlow = async (returnTo = '/account/security', claims: Record<string, unknown> = {}) => {
+  const response = await get(`/auth/oidc/start?return_to=${encodeURIComponent(returnTo)}`);
+  expect(response.status).toEqual(302);
+
+  const cookie = (response.headers.get('set-cookie') ?? '').split(';')[0];
+  const { code, state } = issuer.authorize(response.headers.get('location') ?? '', {
+    sub: 'user-42',
+    email: 'ada@example.com',
+    email_verified: true,
+    given_name: 'Ada',
+    family_name: 'Lovelace',
+    ...claims
+  });
+
+  return { code, state, cookie };
+};
+
+// Fragment parameters of the redirect back to the client's /auth/complete page
+const completion = (response: Response): URLSearchParams => {
+  expect(response.status).toEqual(302);
+  const location = new URL(response.headers.get('location') ?? '');
+  expect(location.origin + location.pathname).toEqual(`${APP_BASE_URL}/auth/complete`);
+  expect(location.search).toEqual('');
+  return new URLSearchParams(location.hash.slice(1));
+};
+
+describe('OAuth redirect routes', () => {
+  beforeAll(async () => {
+    issuer = await startOidcIssuer();
+    server = createServer((req, res) => {
+      handleOAuthRoute(req, res).then(handled => {
+        if (!handled) {
+          res.statusCode = 404;
+          res.end();
+        }
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    process.env['OIDC_ISSUER'] = issuer.url;
+    process.env['OIDC_CLIENT_ID'] = issuer.clientId;
+    process.env['OIDC_CLIENT_SECRET'] = issuer.clientSecret;
+    process.env['APP_BASE_URL'] = APP_BASE_URL;
+    process.env['OAUTH_CALLBACK_BASE_URL'] = baseUrl;
+  });
+
+  afterAll(async () => {
+    issuer.stop();
+    await new Promise(resolve => server.close(resolve));
+    for (const name of ROUTE_ENV) {
+      delete process.env[name];
+    }
+  });
+
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should list configured providers for the sign-in page', async () => {
+    expect(await listSignInProviders()).toEqual([{ id: 'oidc', name: 'Single sign-on' }]);
+  });
+
+  it('should redirect to the provider and bind the state to the browser', async () => {
+    const response = await get('/auth/oidc/start?return_to=/account/security');
+
+    expect(response.status).toEqual(302);
+    const location = new URL(response.headers.get('location') ?? '');
+    expect(location.origin).toEqual(issuer.url);
+    expect(location.searchParams.get('redirect_uri')).toEqual(`${baseUrl}/auth/oidc/callback`);
+
+    const cookie = response.headers.get('set-cookie') ?? '';
+    expect(cookie).toContain(`oauth_state=${location.searchParams.get('state')}`);
+    expect(cookie).toContain('HttpOnly');
+    expect(cookie).toContain('SameSite=Lax');
+
+    const states = await db.select().from(oauthStatesTable).execute();
+    expect(states).toHaveLength(1);
+    expect(states[0].return_to).toEqual('/account/security');
+  });
+
+  it('should sign in and hand the session to the client', async () => {
+    const { code, state, cookie } = await startFlow();
+
+    const params = completion(await get(`/auth/oidc/callback?code=${code}&state=${state}`, cookie));
+
+    expect(params.get('status')).toEqual('signed_in');
+    expect(params.get('return_to')).toEqual('/account/security');
+    expect(params.get('refresh_token')).toBeTruthy();
+
+    const claims = await verifyAccessToken(params.get('token') ?? '');
+    const users = await db.select().from(usersTable).where(eq(usersTable.email, 'ada@example.com')).execute();
+    expect(claims.userId).toEqual(users[0].id);
+    expect(users[0].first_name).toEqual('Ada');
+  });
+
+  it('should accept form_post callbacks', async () => {
+    const { code, state, cookie } = await startFlow();
+
+    const response = await fetch(`${baseUrl}/auth/oidc/callback`, {
+      method: 'POST',
+      redirect: 'manual',
+      headers: { cookie, 'content-type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({ code, state })
+    });
+
+    expect(completion(response).get('status')).toEqual('signed_in');
+  });
+
+  it('should reject a replayed callback', async () => {
+    const { code, state, cookie } = await startFlow();
+    await get(`/auth/oidc/callback?code=${code}&state=${state}`, cookie);
+
+    const replay = completion(await get(`/auth/oidc/callback?code=${code}&state=${state}`, cookie));
+
+    expect(replay.get('error')).toEqual(OAUTH_STATE_INVALID_MESSAGE);
+    expect(replay.get('token')).toBeNull();
+  });
+
+  it('should reject a stale callback', async () => {
+    const { code, state, cookie } = await startFlow();
+    await db.update(oauthStatesTable).set({ expires_at: new Date(Date.now() - 1000) }).execute();
+
+    const params = completion(await get(`/auth/oidc/callback?code=${code}&state=${state}`, cookie));
+
+    expect(params.get('error')).toEqual(OAUTH_STATE_EXPIRED_MESSAGE);
+  });
+
+  it('should reject a callback from a different browser', async () => {
+    const { code, state } = await startFlow();
+
+    const params = completion(await get(`/auth/oidc/callback?code=${code}&state=${state}`));
+
+    expect(params.get('error')).toEqual(OAUTH_BROWSER_MISMATCH_MESSAGE);
+    // The state was not consumed by the rejected attempt
+    const states = await db.select().from(oauthStatesTable).execute();
+    expect(states[0].consumed_at).toBeNull();
+  });
+
+  it('should report a cancelled sign-in', async () => {
+    const { state, cookie } = await startFlow();
+
+    const params = completion(await get(`/auth/oidc/callback?error=access_denied&state=${state}`, cookie));
+
+    expect(params.get('error')).toEqual(OAUTH_CANCELLED_MESSAGE);
+  });
+
+  it('should hand a link request to the client for an existing email', async () => {
+    await db.insert(usersTable)
+      .values({ email: 'ada@example.com', email_canonical: 'ada@example.com', first_name: 'Ada', last_name: 'Lovelace', password_hash: 'hash' })
+      .execute();
+    const { code, state, cookie } = await startFlow();
+
+    const params = completion(await get(`/auth/oidc/callback?code=${code}&state=${state}`, cookie));
+
+    expect(params.get('status')).toEqual('link_required');
+    expect(params.get('provider')).toEqual('oidc');
+    expect(params.get('email')).toEqual('ada@example.com');
+    expect(params.get('link_token')).toBeTruthy();
+    expect(params.get('methods')).toEqual('password,email_code');
+    expect(params.get('token')).toBeNull();
+  });
+
+  it('should pass sign-in errors meant for users through to the client', async () => {
+    await db.insert(usersTable)
+      .values({ email: 'ada@example.com', email_canonical: 'ada@example.com', first_name: 'Ada', last_name: 'Lovelace', password_hash: 'hash' })
+      .execute();
+    const { code, state, cookie } = await startFlow('/', { email_verified: false });
+
+    const params = completion(await get(`/auth/oidc/callback?code=${code}&state=${state}`, cookie));
+
+    expect(params.get('error')).toEqual(UNVERIFIED_PROVIDER_EMAIL_MESSAGE);
+  });
+
+  it('should not leak internal errors to the client', async () => {
+    // The provider refuses the code, so the token exchange fails with its own error
+    const { state, cookie } = await startFlow();
+
+    const params = completion(await get(`/auth/oidc/callback?code=not-the-code&state=${state}`, cookie));
+
+    expect(params.get('error')).toEqual('Sign-in with Single sign-on failed. Please try again.');
+    expect(params.get('token')).toBeNull();
+  });
+
+  it('should ignore return_to values outside the app', async () => {
+    for (const returnTo of ['//evil.example', 'https://evil.example', '/\\evil.example']) {
+      const { code, state, cookie } = await startFlow(returnTo);
+      const params = completion(await get(`/auth/oidc/callback?code=${code}&state=${state}`, cookie));
+      expect(params.get('return_to')).toBeNull();
+    }
+  });
+
+  it('should return 404 for unknown providers and ignore other paths', async () => {
+    expect((await get('/auth/myspace/start')).status).toEqual(404);
+    expect((await get('/healthcheck')).status).toEqual(404);
+    expect((await fetch(`${baseUrl}/auth/oidc/start`, { method: 'POST', redirect: 'manual' })).status).toEqual(405);
+  });
+});
@@ -0,0 +1,137 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable } from '../db/schema';
+import { hashPassword, verifyPassword, needsRehash, verifyUserPassword, type PasswordHashConfig } from '../lib/password';
+import { eq } from 'drizzle-orm';
+
+// Low costs keep the suite fast while still exercising real hashing
+const argon2Config: PasswordHashConfig = {
+  algorithm: 'argon2id',
+  argon2MemoryCost: 4096,
+  argon2TimeCost: 2,
+  bcryptCost: 4
+};
+
+const bcryptConfig: PasswordHashConfig = {
+  ...argon2Config,
+  algorithm: 'bcrypt'
+};
+
+const createUser = async (passwordHash: string) => {
+  const result = await db.insert(usersTable)
+    .values({
+      email: 'test@example.com',
+      email_canonical: 'test@example.com',
+      first_name: 'Test',
+      last_name: 'User',
+      password_hash: passwordHash,
+      is_email_verified: true
+    })
+    .returning()
+    .execute();
+
+  return result[0];
+};
+
+describe('password hashing', () => {
+  it('should produce PHC-formatted argon2id hashes', async () => {
+    const hash = await hashPassword('SecurePass123', argon2Config);
+
+    expect(hash).toMatch(/^\$argon2id\$v=19\$m=4096,t=2,p=1\$/);
+    expect(await verifyPassword('SecurePass123', hash)).toBe(true);
+    expect(await verifyPassword('WrongPass123', hash)).toBe(false);
+  });
+
+  it('should produce bcrypt hashes when configured', async () => {
+    const hash = await hashPassword('SecurePass123', bcryptConfig);
+
+    expect(hash).toMatch(/^\$2b\$04\$/);
+    expect(await verifyPassword('SecurePass123', hash)).toBe(true);
+    expect(await verifyPassword('WrongPass123', hash)).toBe(false);
+  });
+
+  it('should verify legacy prefixed values', async () => {
+    expect(await verifyPassword('SecurePass123', 'hashed_SecurePass123')).toBe(true);
+    expect(await verifyPassword('WrongPass123', 'hashed_SecurePass123')).toBe(false);
+  });
+
+  it('should reject unknown hash formats', async () => {
+    expect(await verifyPassword('SecurePass123', 'not-a-hash')).toBe(false);
+  });
+
+  it('should flag legacy, weaker and foreign-algorithm hashes for rehash', async () => {
+    const current = await hashPassword('SecurePass123', argon2Config);
+    const weaker = await hashPassword('SecurePass123', { ...argon2Config, argon2MemoryCost: 2048 });
+    const bcryptHash = await hashPassword('SecurePass123', bcryptConfig);
+
+    expect(needsRehash(current, argon2Config)).toBe(false);
+    expect(needsRehash('hashed_SecurePass123', argon2Config)).toBe(true);
+    expect(needsRehash(weaker, argon2Config)).toBe(true);
+    expect(needsRehash(bcryptHash, argon2Config)).toBe(true);
+    expect(needsRehash(bcryptHash, bcryptConfig)).toBe(false);
+    expect(needsRehash(bcryptHash, { ...bcryptConfig, bcryptCost: 5 })).toBe(true);
+  });
+});
+
+describe('verifyUserPassword', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should upgrade legacy hashes after a successful check', async () => {
+    const user = await createUser('hashed_SecurePass123');
+
+    expect(await verifyUserPassword(user, 'SecurePass123')).toBe(true);
+
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, user.id))
+      .execute();
+
+    expect(users[0].password_hash).toStartWith('$argon2id$');
+    expect(await verifyPassword('SecurePass123', users[0].password_hash!)).toBe(true);
+  });
+
+  it('should not touch the stored hash after a failed check', async () => {
+    const user = await createUser('hashed_SecurePass123');
+
+    expect(await verifyUserPassword(user, 'WrongPass123')).toBe(false);
+
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, user.id))
+      .execute();
+
+    expect(users[0].password_hash).toEqual('hashed_SecurePass123');
+  });
+
+  it('should keep hashes that already match the configuration', async () => {
+    const currentHash = await hashPassword('SecurePass123');
+    const user = await createUser(currentHash);
+
+    expect(await verifyUserPassword(user, 'SecurePass123')).toBe(true);
+
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, user.id))
+      .execute();
+
+    expect(users[0].password_hash).toEqual(currentHash);
+  });
+
+  it('should reject users without a password', async () => {
+    const result = await db.insert(usersTable)
+      .values({
+        email: 'google@example.com',
+        email_canonical: 'google@example.com',
+        first_name: 'Google',
+        last_name: 'User',
+        password_hash: null,
+        is_email_verified: true
+      })
+      .returning()
+      .execute();
+
+    expect(await verifyUserPassword(result[0], 'SecurePass123')).toBe(false);
+  });
+});
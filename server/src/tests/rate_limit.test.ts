@@ -0,0 +1,187 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { rateLimitCountersTable } from '../db/schema';
+import { router, publicProcedure, TooManyRequestsError } from '../trpc';
+import { type Context } from '../context';
+import { checkRateLimit, getRateLimitRules, getRetryAfterMs, RATE_LIMITS, type RateLimitSubject } from '../lib/rate_limit/limiter';
+import { createMemoryRateLimitStore, createPostgresRateLimitStore } from '../lib/rate_limit/stores';
+import { z } from 'zod';
+
+const MINUTE = 60 * 1000;
+const START = Date.UTC(2026, 0, 1, 12, 0, 0); // On a window boundary for every rule
+
+// Three calls a minute per IP, two per email
+const RULES = JSON.stringify({
+  testProcedure: [
+    { scope: 'ip', limit: 3, window_seconds: 60 },
+    { scope: 'email', limit: 2, window_seconds: 60 }
+  ]
+});
+
+const hit = (store = createMemoryRateLimitStore(), subject: RateLimitSubject = { ip_address: '203.0.113.7' }, now = START) =>
+  checkRateLimit('testProcedure', subject, store, now);
+
+describe('checkRateLimit', () => {
+  const saved = { RATE_LIMITS: process.env['RATE_LIMITS'], RATE_LIMIT_STORE: process.env['RATE_LIMIT_STORE'] };
+
+  beforeEach(() => {
+    process.env['RATE_LIMITS'] = RULES;
+  });
+
+  afterEach(() => {
+    for (const [name, value] of Object.entries(saved)) {
+      if (value === undefined) delete process.env[name];
+      else process.env[name] = value;
+    }
+  });
+
+  it('should allow calls up to the limit and then refuse with a wait', async () => {
+    const store = createMemoryRateLimitStore();
+
+    for (let i = 0; i < 3; i++) {
+      expect((await hit(store, undefined, START + i * 1000)).allowed).toBe(true);
+    }
+
+    const decision = await hit(store, undefined, START + 10_000);
+    expect(decision.allowed).toBe(false);
+    if (!decision.allowed) {
+      expect(decision.rule.scope).toEqual('ip');
+      expect(decision.retry_after_seconds).toBeGreaterThan(50);
+      expect(decision.retry_after_seconds).toBeLessThanOrEqual(120);
+    }
+  });
+
+  it('should count IPs separately', async () => {
+    const store = createMemoryRateLimitStore();
+    for (let i = 0; i < 3; i++) {
+      await hit(store);
+    }
+
+    expect((await hit(store, { ip_address: '198.51.100.1' })).allowed).toBe(true);
+  });
+
+  it('should count an email across IPs, ignoring case', async () => {
+    const store = createMemoryRateLimitStore();
+    await hit(store, { ip_address: '198.51.100.1', email: 'ada@example.com' });
+    await hit(store, { ip_address: '198.51.100.2', email: 'ADA@example.com' });
+
+    const decision = await hit(store, { ip_address: '198.51.100.3', email: 'ada@example.com' });
+
+    expect(decision.allowed).toBe(false);
+    if (!decision.allowed) expect(decision.rule.scope).toEqual('email');
+  });
+
+  it('should slide the window instead of resetting at its boundary', async () => {
+    const store = createMemoryRateLimitStore();
+    for (let i = 0; i < 3; i++) {
+      await hit(store, undefined, START + 50_000);
+    }
+
+    // Just after the boundary most of the previous window still counts
+    expect((await hit(store, undefined, START + MINUTE + 5_000)).allowed).toBe(false);
+    // Once enough of it has slid out there is room again
+    expect((await hit(store, undefined, START + MINUTE + 50_000)).allowed).toBe(true);
+  });
+
+  it('should not count calls refused per client against the global rule', async () => {
+    process.env['RATE_LIMITS'] = JSON.stringify({
+      testProcedure: [
+        { scope: 'global', limit: 5, window_seconds: 60 },
+        { scope: 'ip', limit: 2, window_seconds: 60 }
+      ]
+    });
+    const store = createMemoryRateLimitStore();
+
+    // One client hammering only ever uses two of the five global calls
+    for (let i = 0; i < 20; i++) {
+      await hit(store);
+    }
+
+    for (const ip of ['198.51.100.1', '198.51.100.2', '198.51.100.3']) {
+      expect((await hit(store, { ip_address: ip })).allowed).toBe(true);
+    }
+    expect((await hit(store, { ip_address: '198.51.100.4' })).allowed).toBe(false);
+  });
+
+  it('should compute the wait until one more call fits', () => {
+    // 6 calls in this window, limit 5: wait for the window to end and a third of it to slide out
+    expect(getRetryAfterMs({ current: 6, previous: 0 }, 5, MINUTE, 10_000)).toEqual(50_000 + 20_000);
+    // Room in this window once the previous window has mostly slid out
+    expect(getRetryAfterMs({ current: 2, previous: 4 }, 5, MINUTE, 15_000)).toEqual(30_000 - 15_000);
+  });
+
+  it('should apply defaults and allow overrides per procedure', () => {
+    delete process.env['RATE_LIMITS'];
+    expect(getRateLimitRules('registerUser')).toEqual(RATE_LIMITS['registerUser']);
+    expect(getRateLimitRules('healthcheck')).toEqual([]);
+    expect(getRateLimitRules('somethingElse')[0].scope).toEqual('ip');
+
+    process.env['RATE_LIMITS'] = JSON.stringify({ registerUser: [] });
+    expect(getRateLimitRules('registerUser')).toEqual([]);
+
+    process.env['RATE_LIMITS'] = JSON.stringify({ registerUser: [{ scope: 'planet', limit: 1, window_seconds: 1 }] });
+    expect(() => getRateLimitRules('registerUser')).toThrow();
+  });
+});
+
+describe('Postgres rate limit store', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should share counters through the database', async () => {
+    const windowStart = START;
+    const first = createPostgresRateLimitStore();
+    const second = createPostgresRateLimitStore();
+
+    await first.increment('k', windowStart - MINUTE, MINUTE);
+    await first.increment('k', windowStart, MINUTE);
+    const counts = await second.increment('k', windowStart, MINUTE);
+
+    expect(counts).toEqual({ current: 2, previous: 1 });
+
+    const rows = await db.select().from(rateLimitCountersTable).execute();
+    expect(rows).toHaveLength(2);
+    expect(rows.find(row => row.window_start.getTime() === windowStart)?.expires_at.getTime()).toEqual(windowStart + 2 * MINUTE);
+  });
+});
+
+describe('publicProcedure rate limiting', () => {
+  const saved = { RATE_LIMITS: process.env['RATE_LIMITS'], RATE_LIMIT_STORE: process.env['RATE_LIMIT_STORE'] };
+
+  const testRouter = router({
+    testProcedure: publicProcedure
+      .input(z.object({ email: z.string() }))
+      .mutation(({ input }) => input.email)
+  });
+
+  const callerFor = (ip: string) => {
+    const ctx: Context = { user: null, session: null, meta: { ip_address: ip } };
+    return testRouter.createCaller(ctx);
+  };
+
+  beforeEach(() => {
+    process.env['RATE_LIMITS'] = RULES;
+    process.env['RATE_LIMIT_STORE'] = 'memory';
+  });
+
+  afterEach(() => {
+    for (const [name, value] of Object.entries(saved)) {
+      if (value === undefined) delete process.env[name];
+      else process.env[name] = value;
+    }
+  });
+
+  it('should throw TOO_MANY_REQUESTS with the wait once the email limit is reached', async () => {
+    const email = `limited-${Date.now()}@example.com`;
+    await callerFor('192.0.2.1').testProcedure({ email });
+    await callerFor('192.0.2.2').testProcedure({ email });
+
+    const error = await callerFor('192.0.2.3').testProcedure({ email }).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(TooManyRequestsError);
+    expect((error as TooManyRequestsError).code).toEqual('TOO_MANY_REQUESTS');
+    expect((error as TooManyRequestsError).retryAfterSeconds).toBeGreaterThan(0);
+    expect((error as TooManyRequestsError).message).toStartWith('Too many attempts. Please try again in');
+  });
+});
@@ -0,0 +1,132 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, userSessionsTable } from '../db/schema';
+import { refreshSession } from '../handlers/refresh_session';
+import { createSession } from '../lib/sessions';
+import { hashToken, verifyAccessToken } from '../lib/tokens';
+import { decodeProtectedHeader } from 'jose';
+import { eq } from 'drizzle-orm';
+
+const createUser = async () => {
+  const result = await db.insert(usersTable)
+    .values({
+      email: 'test@example.com',
+      email_canonical: 'test@example.com',
+      first_name: 'Test',
+      last_name: 'User',
+      password_hash: null,
+      is_email_verified: true
+    })
+    .returning()
+    .execute();
+
+  return result[0];
+};
+
+describe('refreshSession', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should issue signed access tokens with a key id', async () => {
+    const user = await createUser();
+    const session = await createSession(user.id);
+
+    const header = decodeProtectedHeader(session.token);
+    expect(header.alg).toEqual('HS256');
+    expect(header.kid).toBeDefined();
+
+    const claims = await verifyAccessToken(session.token);
+    expect(claims.userId).toEqual(user.id);
+    expect(claims.sessionId).toEqual(session.session_id);
+  });
+
+  it('should store only a hash of the refresh token', async () => {
+    const user = await createUser();
+    const session = await createSession(user.id);
+
+    const sessions = await db.select()
+      .from(userSessionsTable)
+      .where(eq(userSessionsTable.user_id, user.id))
+      .execute();
+
+    expect(sessions).toHaveLength(1);
+    expect(sessions[0].refresh_token_hash).toEqual(hashToken(session.refresh_token));
+    expect(sessions[0].refresh_token_hash).not.toEqual(session.refresh_token);
+    expect(sessions[0].family_id).toEqual(session.session_id);
+    expect(sessions[0].expires_at > new Date()).toBe(true);
+  });
+
+  it('should rotate the refresh token', async () => {
+    const user = await createUser();
+    const session = await createSession(user.id);
+
+    const result = await refreshSession({ refresh_token: session.refresh_token });
+
+    expect(result.refresh_token).not.toEqual(session.refresh_token);
+    const claims = await verifyAccessToken(result.token);
+    expect(claims.userId).toEqual(user.id);
+    expect(claims.sessionId).toEqual(session.session_id);
+
+    // Old row is marked rotated, new row continues the family
+    const sessions = await db.select()
+      .from(userSessionsTable)
+      .where(eq(userSessionsTable.family_id, session.session_id))
+      .execute();
+
+    expect(sessions).toHaveLength(2);
+    const oldRow = sessions.find(row => row.refresh_token_hash === hashToken(session.refresh_token));
+    const newRow = sessions.find(row => row.refresh_token_hash === hashToken(result.refresh_token));
+    expect(oldRow?.rotated_at).toBeInstanceOf(Date);
+    expect(newRow?.rotated_at).toBeNull();
+    expect(newRow?.revoked_at).toBeNull();
+  });
+
+  it('should revoke the whole family when a rotated token is reused', async () => {
+    const user = await createUser();
+    const session = await createSession(user.id);
+    const rotated = await refreshSession({ refresh_token: session.refresh_token });
+
+    await expect(refreshSession({ refresh_token: session.refresh_token }))
+      .rejects.toThrow(/session has expired/i);
+
+    // The legitimate latest token no longer works either
+    await expect(refreshSession({ refresh_token: rotated.refresh_token }))
+      .rejects.toThrow(/session has expired/i);
+
+    const sessions = await db.select()
+      .from(userSessionsTable)
+      .where(eq(userSessionsTable.family_id, session.session_id))
+      .execute();
+
+    sessions.forEach(row => expect(row.revoked_at).toBeInstanceOf(Date));
+  });
+
+  it('should not affect other sessions when one family is revoked', async () => {
+    const user = await createUser();
+    const first = await createSession(user.id);
+    const second = await createSession(user.id);
+
+    await refreshSession({ refresh_token: first.refresh_token });
+    await expect(refreshSession({ refresh_token: first.refresh_token })).rejects.toThrow();
+
+    const result = await refreshSession({ refresh_token: second.refresh_token });
+    expect(result.token).toBeDefined();
+  });
+
+  it('should reject unknown and expired refresh tokens', async () => {
+    const user = await createUser();
+    const session = await createSession(user.id);
+
+    await expect(refreshSession({ refresh_token: 'unknown-token' }))
+      .rejects.toThrow(/session has expired/i);
+
+    await db.update(userSessionsTable)
+      .set({ expires_at: new Date(Date.now() - 1000) })
+      .where(eq(userSessionsTable.family_id, session.session_id))
+      .execute();
+
+    await expect(refreshSession({ refresh_token: session.refresh_token }))
+      .rejects.toThrow(/session has expired/i);
+  });
+});
@@ -1,9 +1,10 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { usersTable, emailVerificationTable } from '../db/schema';
-import { type RegisterUserInput } from '../schema';
-import { registerUser } from '../handlers/register_user';
+import { usersTable, emailVerificationTable, emailOutboxTable, consentRecordsTable, userSessionsTable } from '../db/schema';
+import { registerUserInputSchema, type RegisterUserInput } from '../schema';
+import { CONSENT_WORDING } from '../lib/consent';
+import { registerUser, submitRegistration, CHECK_INBOX_MESSAGE } from '../handlers/register_user';
 import { eq } from 'drizzle-orm';
 
 // Test input with all required fields
@@ -37,7 +38,6 @@ describe('registerUser', () => {
     expect(result.user.last_name).toEqual('Doe');
     expect(result.user.phone_number).toEqual('+1234567890');
     expect(result.user.is_email_verified).toBe(false);
-    expect(result.user.google_id).toBeNull();
     expect(result.user.id).toBeDefined();
     expect(result.user.created_at).toBeInstanceOf(Date);
     expect(result.user.updated_at).toBeInstanceOf(Date);
@@ -79,7 +79,7 @@ describe('registerUser', () => {
     expect(savedUser.is_email_verified).toBe(false);
     expect(savedUser.password_hash).toBeDefined();
     expect(savedUser.password_hash).not.toEqual('SecurePass123'); // Password should be hashed
-    expect(savedUser.password_hash).toContain('hashed_'); // Our simple hash prefix
+    expect(savedUser.password_hash).toStartWith('$argon2id$'); // PHC-formatted argon2id hash
     expect(savedUser.created_at).toBeInstanceOf(Date);
     expect(savedUser.updated_at).toBeInstanceOf(Date);
   });
@@ -96,12 +96,72 @@ describe('registerUser', () => {
     expect(verifications).toHaveLength(1);
     const verification = verifications[0];
     expect(verification.email).toEqual('test@example.com');
-    expect(verification.verification_code).toMatch(/^\d{6}$/); // 6-digit code
+    expect(verification.code_hash).toMatch(/^[0-9a-f]{64}$/); // Only the keyed hash is stored
     expect(verification.expires_at).toBeInstanceOf(Date);
     expect(verification.expires_at > new Date()).toBe(true); // Should expire in future
     expect(verification.created_at).toBeInstanceOf(Date);
   });
 
+  it('should email the verification code', async () => {
+    await registerUser(testInput);
+
+    const emails = await db.select().from(emailOutboxTable).execute();
+    expect(emails).toHaveLength(1);
+    expect(emails[0].kind).toEqual('verify_email');
+    expect(emails[0].to_address).toEqual('test@example.com');
+    expect(emails[0].subject).toMatch(/^\d{6} is your verification code$/);
+    expect(emails[0].text_body).toContain('Hi John,');
+    expect(emails[0].html_body).toContain('<h1');
+  });
+
+  it('should follow the shared verification code policy', async () => {
+    const result = await registerUser(testInput);
+
+    // Same lifetime as resent codes, and the client learns when it may resend
+    expect(result.verification_retry_after_seconds).toEqual(60);
+
+    const verifications = await db.select()
+      .from(emailVerificationTable)
+      .where(eq(emailVerificationTable.email, result.user.email))
+      .execute();
+    expect(verifications[0].expires_at.getTime()).toBeLessThanOrEqual(Date.now() + 15 * 60 * 1000);
+  });
+
+  it('should record the marketing choice from the form', async () => {
+    const meta = { ip_address: '203.0.113.7', user_agent: 'Mozilla/5.0' };
+    const result = await registerUser({ ...testInput, marketing_emails: true, marketing_consent_version: 'signup-marketing-v1' }, meta);
+
+    const records = await db.select()
+      .from(consentRecordsTable)
+      .where(eq(consentRecordsTable.user_id, result.user.id))
+      .execute();
+
+    expect(records.map(record => record.category).sort()).toEqual(['promotions', 'recommendations']);
+    expect(records.every(record => record.granted)).toBe(true);
+    expect(records[0].source).toEqual('registration');
+    expect(records[0].wording_version).toEqual('signup-marketing-v1');
+    expect(records[0].ip_address).toEqual('203.0.113.7');
+    expect(records[0].created_at).toBeInstanceOf(Date);
+  });
+
+  it('should only accept consent wording versions the server has on record', () => {
+    const parse = (version: string) => registerUserInputSchema.safeParse({ ...testInput, marketing_consent_version: version });
+
+    expect(parse('signup-marketing-v1').success).toBe(true);
+    expect(CONSENT_WORDING['signup-marketing-v1']).toBeDefined();
+    expect(parse('signup-marketing-v99').success).toBe(false);
+    expect(parse('promotions-v1').success).toBe(false); // Not the sign-up checkbox
+  });
+
+  it('should record an opt-out, and nothing when no choice was offered', async () => {
+    await registerUser({ ...testInput, marketing_emails: false });
+    await registerUser({ ...testInput, email: 'other@example.com', marketing_emails: undefined });
+
+    const records = await db.select().from(consentRecordsTable).execute();
+    expect(records).toHaveLength(2);
+    expect(records.every(record => !record.granted)).toBe(true);
+  });
+
   it('should reject duplicate email registration', async () => {
     // Register first user
     await registerUser(testInput);
@@ -117,7 +177,7 @@ describe('registerUser', () => {
       .rejects.toThrow(/already registered/i);
   });
 
-  it('should handle case-sensitive email uniqueness', async () => {
+  it('should treat emails differing only in case as the same account', async () => {
     // Register user with lowercase email
     await registerUser(testInput);
 
@@ -129,9 +189,21 @@ describe('registerUser', () => {
       last_name: 'User'
     };
 
-    // This should succeed since we're not doing case-insensitive comparison
-    const result = await registerUser(uppercaseInput);
-    expect(result.user.email).toEqual('TEST@EXAMPLE.COM');
+    await expect(registerUser(uppercaseInput))
+      .rejects.toThrow(/already registered/i);
+  });
+
+  it('should keep the email as typed and store its canonical form', async () => {
+    const result = await registerUser({ ...testInput, email: '  Ada.Lovelace@Example.COM ' });
+
+    expect(result.user.email).toEqual('Ada.Lovelace@example.com');
+    expect(result.user.email_canonical).toEqual('ada.lovelace@example.com');
+
+    const codes = await db.select()
+      .from(emailVerificationTable)
+      .where(eq(emailVerificationTable.email, 'ada.lovelace@example.com'))
+      .execute();
+    expect(codes).toHaveLength(1);
   });
 
   it('should generate unique tokens for different users', async () => {
@@ -159,9 +231,79 @@ describe('registerUser', () => {
 
     const savedUser = users[0];
     expect(savedUser.is_email_verified).toBe(false);
-    expect(savedUser.google_id).toBeNull();
     expect(savedUser.phone_number).toBeNull();
     expect(savedUser.created_at).toBeInstanceOf(Date);
     expect(savedUser.updated_at).toBeInstanceOf(Date);
   });
-});
\ No newline at end of file
+});
+
+describe('submitRegistration', () => {
+  const savedPrivacyMode = process.env['EMAIL_PRIVACY_MODE'];
+
+  beforeEach(createDB);
+  afterEach(async () => {
+    if (savedPrivacyMode === undefined) delete process.env['EMAIL_PRIVACY_MODE'];
+    else process.env['EMAIL_PRIVACY_MODE'] = savedPrivacyMode;
+    await resetDB();
+  });
+
+  it('should register new users and sign them in outside privacy mode', async () => {
+    delete process.env['EMAIL_PRIVACY_MODE'];
+
+    const result = await submitRegistration(testInput);
+
+    expect(result.status).toEqual('registered');
+    if (result.status === 'registered') {
+      expect(result.user.email).toEqual('test@example.com');
+      expect(result.token).toBeDefined();
+    }
+  });
+
+  it('should answer new users like existing ones in privacy mode, without a session', async () => {
+    process.env['EMAIL_PRIVACY_MODE'] = 'true';
+
+    const result = await submitRegistration(testInput);
+
+    expect(result).toEqual({ status: 'check_inbox', email: 'test@example.com', message: CHECK_INBOX_MESSAGE });
+
+    const users = await db.select().from(usersTable).execute();
+    expect(users).toHaveLength(1);
+    expect(users[0].is_email_verified).toEqual(false);
+
+    const sessions = await db.select().from(userSessionsTable).execute();
+    expect(sessions).toHaveLength(0);
+
+    const emails = await db.select().from(emailOutboxTable).execute();
+    expect(emails.map(email => email.kind)).toEqual(['verify_email']);
+  });
+
+  it('should reject an existing email outside privacy mode', async () => {
+    delete process.env['EMAIL_PRIVACY_MODE'];
+    await registerUser(testInput);
+
+    await expect(submitRegistration({ ...testInput, first_name: 'Someone' }))
+      .rejects.toThrow(/already registered/i);
+  });
+
+  it('should email the owner instead of failing in privacy mode', async () => {
+    process.env['EMAIL_PRIVACY_MODE'] = 'true';
+    await registerUser(testInput);
+
+    const result = await submitRegistration({ ...testInput, first_name: 'Someone', password: 'OtherPass789' });
+
+    expect(result).toEqual({ status: 'check_inbox', email: 'test@example.com', message: CHECK_INBOX_MESSAGE });
+
+    const emails = await db.select()
+      .from(emailOutboxTable)
+      .where(eq(emailOutboxTable.kind, 'account_exists'))
+      .execute();
+    expect(emails).toHaveLength(1);
+    expect(emails[0].to_address).toEqual('test@example.com');
+    expect(emails[0].text_body).toContain('Hi John,');
+
+    // The existing account is untouched
+    const users = await db.select().from(usersTable).execute();
+    expect(users).toHaveLength(1);
+    expect(users[0].first_name).toEqual('John');
+  });
+});
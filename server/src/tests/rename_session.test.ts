@@ -0,0 +1,54 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, userSessionsTable } from '../db/schema';
+import { renameSession } from '../handlers/rename_session';
+import { createSession, rotateSession } from '../lib/sessions';
+import { and, eq, isNull } from 'drizzle-orm';
+
+const createUser = async (email = 'test@example.com') => {
+  const result = await db.insert(usersTable)
+    .values({
+      email,
+      email_canonical: email,
+      first_name: 'Test',
+      last_name: 'User',
+      password_hash: null,
+      is_email_verified: true
+    })
+    .returning()
+    .execute();
+
+  return result[0];
+};
+
+describe('renameSession', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should rename a session and keep the name across rotation', async () => {
+    const user = await createUser();
+    const session = await createSession(user.id);
+
+    const result = await renameSession(user.id, { session_id: session.session_id, device_name: 'Work laptop' });
+    expect(result.success).toBe(true);
+
+    await rotateSession(session.refresh_token);
+
+    const rows = await db.select()
+      .from(userSessionsTable)
+      .where(and(eq(userSessionsTable.family_id, session.session_id), isNull(userSessionsTable.rotated_at)))
+      .execute();
+
+    expect(rows[0].device_name).toEqual('Work laptop');
+  });
+
+  it('should not rename sessions of other users', async () => {
+    const user = await createUser();
+    const otherUser = await createUser('other@example.com');
+    const otherSession = await createSession(otherUser.id);
+
+    await expect(renameSession(user.id, { session_id: otherSession.session_id, device_name: 'Mine now' }))
+      .rejects.toThrow(/not found/i);
+  });
+});
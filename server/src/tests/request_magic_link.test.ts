@@ -0,0 +1,83 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, magicLinkTokensTable, emailOutboxTable } from '../db/schema';
+import { requestMagicLink, MAGIC_LINK_REQUESTED_MESSAGE } from '../handlers/request_magic_link';
+import { hashToken } from '../lib/tokens';
+
+const BROWSER_KEY = 'browser-key-0123456789abcdef';
+
+const createUser = async () => {
+  const result = await db.insert(usersTable)
+    .values({
+      email: 'test@example.com',
+      email_canonical: 'test@example.com',
+      first_name: 'Test',
+      last_name: 'User',
+      password_hash: null,
+      is_email_verified: true
+    })
+    .returning()
+    .execute();
+
+  return result[0];
+};
+
+describe('requestMagicLink', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should store a hashed, short-lived link for an existing account', async () => {
+    const user = await createUser();
+
+    const result = await requestMagicLink({ email: 'test@example.com' });
+
+    expect(result).toEqual({ success: true, message: MAGIC_LINK_REQUESTED_MESSAGE });
+
+    const links = await db.select().from(magicLinkTokensTable).execute();
+    expect(links).toHaveLength(1);
+    expect(links[0].user_id).toEqual(user.id);
+    expect(links[0].token_hash).toMatch(/^[0-9a-f]{64}$/);
+    expect(links[0].browser_key_hash).toBeNull();
+    expect(links[0].consumed_at).toBeNull();
+    expect(links[0].expires_at.getTime()).toBeLessThanOrEqual(Date.now() + 15 * 60 * 1000);
+    expect(links[0].expires_at > new Date()).toBe(true);
+
+    const emails = await db.select().from(emailOutboxTable).execute();
+    expect(emails).toHaveLength(1);
+    expect(emails[0].kind).toEqual('magic_link');
+    const token = emails[0].text_body.match(/magic-link\?token=([\w-]+)/)?.[1] ?? '';
+    expect(hashToken(token)).toEqual(links[0].token_hash);
+  });
+
+  it('should bind the link to the requesting browser when asked', async () => {
+    await createUser();
+
+    await requestMagicLink({ email: 'test@example.com', browser_key: BROWSER_KEY });
+
+    const links = await db.select().from(magicLinkTokensTable).execute();
+    expect(links[0].browser_key_hash).toEqual(hashToken(BROWSER_KEY));
+  });
+
+  it('should respond the same for unknown emails without creating a link', async () => {
+    await createUser();
+
+    const result = await requestMagicLink({ email: 'nobody@example.com' });
+
+    expect(result).toEqual({ success: true, message: MAGIC_LINK_REQUESTED_MESSAGE });
+    expect(await db.select().from(magicLinkTokensTable).execute()).toHaveLength(0);
+    expect(await db.select().from(emailOutboxTable).execute()).toHaveLength(0);
+  });
+
+  it('should replace an unused earlier link', async () => {
+    await createUser();
+
+    await requestMagicLink({ email: 'test@example.com' });
+    const [first] = await db.select().from(magicLinkTokensTable).execute();
+    await requestMagicLink({ email: 'test@example.com' });
+
+    const links = await db.select().from(magicLinkTokensTable).execute();
+    expect(links).toHaveLength(1);
+    expect(links[0].token_hash).not.toEqual(first.token_hash);
+  });
+});
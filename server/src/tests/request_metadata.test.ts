@@ -0,0 +1,37 @@
+import { afterEach, describe, expect, it } from 'bun:test';
+import type { IncomingMessage } from 'node:http';
+import { getRequestMetadata } from '../lib/request_metadata';
+
+const request = (remoteAddress: string, headers: Record<string, string> = {}) =>
+  ({ socket: { remoteAddress }, headers }) as unknown as IncomingMessage;
+
+describe('getRequestMetadata', () => {
+  const savedProxies = process.env['TRUSTED_PROXIES'];
+
+  afterEach(() => {
+    if (savedProxies === undefined) delete process.env['TRUSTED_PROXIES'];
+    else process.env['TRUSTED_PROXIES'] = savedProxies;
+  });
+
+  it('should take the client address from a trusted proxy', () => {
+    expect(getRequestMetadata(request('127.0.0.1', { 'x-real-ip': '203.0.113.7' })).ip_address).toEqual('203.0.113.7');
+    expect(getRequestMetadata(request('::ffff:127.0.0.1', { 'x-forwarded-for': '203.0.113.7' })).ip_address).toEqual('203.0.113.7');
+  });
+
+  it('should ignore forwarding headers from anyone else', () => {
+    const forged = { 'x-real-ip': '198.51.100.1', 'x-forwarded-for': '198.51.100.2' };
+
+    expect(getRequestMetadata(request('203.0.113.7', forged)).ip_address).toEqual('203.0.113.7');
+    expect(getRequestMetadata(request('::ffff:203.0.113.7', forged)).ip_address).toEqual('203.0.113.7');
+  });
+
+  it('should skip trusted hops in X-Forwarded-For', () => {
+    process.env['TRUSTED_PROXIES'] = '127.0.0.1, 10.0.0.0/8';
+
+    const forwarded = { 'x-forwarded-for': '198.51.100.1, 203.0.113.7, 10.1.2.3' };
+
+    // The leftmost entry is whatever the client sent; the nearest untrusted hop is the client
+    expect(getRequestMetadata(request('10.0.0.5', forwarded)).ip_address).toEqual('203.0.113.7');
+    expect(getRequestMetadata(request('192.0.2.1', forwarded)).ip_address).toEqual('192.0.2.1');
+  });
+});
@@ -0,0 +1,89 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, passwordResetTokensTable, emailOutboxTable } from '../db/schema';
+import { type RequestPasswordResetInput } from '../schema';
+import { requestPasswordReset } from '../handlers/request_password_reset';
+import { eq } from 'drizzle-orm';
+import { hashToken } from '../lib/tokens';
+
+// Test input
+const testInput: RequestPasswordResetInput = {
+  email: 'test@example.com'
+};
+
+const createUser = async () => {
+  const result = await db.insert(usersTable)
+    .values({
+      email: 'test@example.com',
+      email_canonical: 'test@example.com',
+      first_name: 'Test',
+      last_name: 'User',
+      password_hash: 'hashed_OldPass123',
+      is_email_verified: true
+    })
+    .returning()
+    .execute();
+
+  return result[0];
+};
+
+describe('requestPasswordReset', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should create a hashed reset token for an existing account', async () => {
+    const user = await createUser();
+
+    const result = await requestPasswordReset(testInput);
+
+    expect(result.success).toBe(true);
+
+    const tokens = await db.select()
+      .from(passwordResetTokensTable)
+      .where(eq(passwordResetTokensTable.user_id, user.id))
+      .execute();
+
+    expect(tokens).toHaveLength(1);
+    expect(tokens[0].token_hash).toMatch(/^[0-9a-f]{64}$/); // SHA-256 hex, never the raw token
+    expect(tokens[0].consumed_at).toBeNull();
+    expect(tokens[0].expires_at > new Date()).toBe(true);
+
+    // The emailed link carries the token that was stored
+    const emails = await db.select().from(emailOutboxTable).execute();
+    expect(emails).toHaveLength(1);
+    expect(emails[0].kind).toEqual('password_reset');
+    expect(emails[0].to_address).toEqual('test@example.com');
+    const token = emails[0].text_body.match(/reset-password\?token=([\w-]+)/)?.[1] ?? '';
+    expect(hashToken(token)).toEqual(tokens[0].token_hash);
+  });
+
+  it('should answer the same way for unknown emails', async () => {
+    await createUser();
+    const known = await requestPasswordReset(testInput);
+    const unknown = await requestPasswordReset({ email: 'nobody@example.com' });
+
+    expect(unknown).toEqual(known);
+
+    const tokens = await db.select()
+      .from(passwordResetTokensTable)
+      .execute();
+
+    expect(tokens).toHaveLength(1); // Only the known account got a token
+    expect(await db.select().from(emailOutboxTable).execute()).toHaveLength(1);
+  });
+
+  it('should replace earlier unused tokens', async () => {
+    const user = await createUser();
+
+    await requestPasswordReset(testInput);
+    await requestPasswordReset(testInput);
+
+    const tokens = await db.select()
+      .from(passwordResetTokensTable)
+      .where(eq(passwordResetTokensTable.user_id, user.id))
+      .execute();
+
+    expect(tokens).toHaveLength(1);
+  });
+});
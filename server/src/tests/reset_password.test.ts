@@ -0,0 +1,113 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, passwordResetTokensTable, userSessionsTable, signInFailuresTable } from '../db/schema';
+import { type ResetPasswordInput } from '../schema';
+import { resetPassword } from '../handlers/reset_password';
+import { hashToken } from '../lib/tokens';
+import { verifyPassword } from '../lib/password';
+import { createSession } from '../lib/sessions';
+import { getSignInThrottle } from '../lib/account_lockout';
+import { eq } from 'drizzle-orm';
+
+// Test input
+const testInput: ResetPasswordInput = {
+  token: 'reset-token-123',
+  new_password: 'NewSecurePass456'
+};
+
+const createUserWithToken = async (expiresAt = new Date(Date.now() + 60 * 60 * 1000)) => {
+  const users = await db.insert(usersTable)
+    .values({
+      email: 'test@example.com',
+      email_canonical: 'test@example.com',
+      first_name: 'Test',
+      last_name: 'User',
+      password_hash: 'hashed_OldPass123',
+      is_email_verified: true
+    })
+    .returning()
+    .execute();
+
+  await db.insert(passwordResetTokensTable)
+    .values({
+      user_id: users[0].id,
+      token_hash: hashToken(testInput.token),
+      expires_at: expiresAt
+    })
+    .execute();
+
+  return users[0];
+};
+
+describe('resetPassword', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should set the new password and consume the token', async () => {
+    const user = await createUserWithToken();
+
+    const result = await resetPassword(testInput);
+
+    expect(result.success).toBe(true);
+
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, user.id))
+      .execute();
+
+    expect(await verifyPassword('NewSecurePass456', users[0].password_hash!)).toBe(true);
+    expect(await verifyPassword('OldPass123', users[0].password_hash!)).toBe(false);
+
+    const tokens = await db.select()
+      .from(passwordResetTokensTable)
+      .where(eq(passwordResetTokensTable.user_id, user.id))
+      .execute();
+
+    expect(tokens[0].consumed_at).toBeInstanceOf(Date);
+  });
+
+  it('should only work once', async () => {
+    await createUserWithToken();
+
+    await resetPassword(testInput);
+    const result = await resetPassword({ ...testInput, new_password: 'AnotherPass789' });
+
+    expect(result.success).toBe(false);
+    expect(result.message).toMatch(/invalid or has expired/i);
+  });
+
+  it('should reject expired and unknown tokens', async () => {
+    await createUserWithToken(new Date(Date.now() - 1000));
+
+    expect((await resetPassword(testInput)).success).toBe(false);
+    expect((await resetPassword({ ...testInput, token: 'unknown' })).success).toBe(false);
+  });
+
+  it('should revoke all existing sessions', async () => {
+    const user = await createUserWithToken();
+    await createSession(user.id);
+    await createSession(user.id);
+
+    await resetPassword(testInput);
+
+    const sessions = await db.select()
+      .from(userSessionsTable)
+      .where(eq(userSessionsTable.user_id, user.id))
+      .execute();
+
+    expect(sessions).toHaveLength(2);
+    sessions.forEach(session => expect(session.revoked_at).toBeInstanceOf(Date));
+  });
+
+  it('should lift a sign-in lock', async () => {
+    const user = await createUserWithToken();
+    await db.insert(signInFailuresTable)
+      .values(Array.from({ length: 10 }, () => ({ user_id: user.id, email_hash: hashToken('test@example.com') })))
+      .execute();
+
+    await resetPassword(testInput);
+
+    expect(await getSignInThrottle('test@example.com')).toEqual({ status: 'open' });
+  });
+});
@@ -0,0 +1,72 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, userSessionsTable } from '../db/schema';
+import { revokeAllOtherSessions } from '../handlers/revoke_all_other_sessions';
+import { createSession } from '../lib/sessions';
+import { eq } from 'drizzle-orm';
+
+const createUser = async (email = 'test@example.com') => {
+  const result = await db.insert(usersTable)
+    .values({
+      email,
+      email_canonical: email,
+      first_name: 'Test',
+      last_name: 'User',
+      password_hash: null,
+      is_email_verified: true
+    })
+    .returning()
+    .execute();
+
+  return result[0];
+};
+
+describe('revokeAllOtherSessions', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should revoke every session except the current one', async () => {
+    const user = await createUser();
+    const otherUser = await createUser('other@example.com');
+    const current = await createSession(user.id);
+    await createSession(user.id);
+    await createSession(user.id);
+    const unrelated = await createSession(otherUser.id);
+
+    const currentRows = await db.select()
+      .from(userSessionsTable)
+      .where(eq(userSessionsTable.family_id, current.session_id))
+      .execute();
+
+    const result = await revokeAllOtherSessions(user.id, currentRows[0]);
+
+    expect(result.revoked_count).toEqual(2);
+
+    const rows = await db.select()
+      .from(userSessionsTable)
+      .execute();
+
+    rows.forEach(row => {
+      if (row.family_id === current.session_id || row.family_id === unrelated.session_id) {
+        expect(row.revoked_at).toBeNull();
+      } else {
+        expect(row.revoked_at).toBeInstanceOf(Date);
+      }
+    });
+  });
+
+  it('should report zero when there are no other sessions', async () => {
+    const user = await createUser();
+    const current = await createSession(user.id);
+
+    const currentRows = await db.select()
+      .from(userSessionsTable)
+      .where(eq(userSessionsTable.family_id, current.session_id))
+      .execute();
+
+    const result = await revokeAllOtherSessions(user.id, currentRows[0]);
+
+    expect(result.revoked_count).toEqual(0);
+  });
+});
@@ -0,0 +1,72 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, userSessionsTable } from '../db/schema';
+import { revokeSession } from '../handlers/revoke_session';
+import { createSession, rotateSession } from '../lib/sessions';
+import { eq } from 'drizzle-orm';
+
+const createUser = async (email = 'test@example.com') => {
+  const result = await db.insert(usersTable)
+    .values({
+      email,
+      email_canonical: email,
+      first_name: 'Test',
+      last_name: 'User',
+      password_hash: null,
+      is_email_verified: true
+    })
+    .returning()
+    .execute();
+
+  return result[0];
+};
+
+describe('revokeSession', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should revoke every token in the session', async () => {
+    const user = await createUser();
+    const session = await createSession(user.id);
+    const rotated = await rotateSession(session.refresh_token);
+
+    const result = await revokeSession(user.id, { session_id: session.session_id });
+
+    expect(result.success).toBe(true);
+
+    const rows = await db.select()
+      .from(userSessionsTable)
+      .where(eq(userSessionsTable.family_id, session.session_id))
+      .execute();
+
+    rows.forEach(row => expect(row.revoked_at).toBeInstanceOf(Date));
+    await expect(rotateSession(rotated.refresh_token)).rejects.toThrow(/session has expired/i);
+  });
+
+  it('should not revoke sessions of other users', async () => {
+    const user = await createUser();
+    const otherUser = await createUser('other@example.com');
+    const otherSession = await createSession(otherUser.id);
+
+    await expect(revokeSession(user.id, { session_id: otherSession.session_id }))
+      .rejects.toThrow(/not found/i);
+
+    const rows = await db.select()
+      .from(userSessionsTable)
+      .where(eq(userSessionsTable.family_id, otherSession.session_id))
+      .execute();
+
+    expect(rows[0].revoked_at).toBeNull();
+  });
+
+  it('should reject sessions that are already revoked', async () => {
+    const user = await createUser();
+    const session = await createSession(user.id);
+
+    await revokeSession(user.id, { session_id: session.session_id });
+
+    await expect(revokeSession(user.id, { session_id: session.session_id }))
+      .rejects.toThrow(/not found/i);
+  });
+});
@@ -0,0 +1,119 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, emailVerificationTable, emailOutboxTable } from '../db/schema';
+import { sendLinkVerificationCode } from '../handlers/send_link_verification_code';
+import { createLinkToken, INVALID_LINK_TOKEN_MESSAGE } from '../lib/account_linking';
+import { hashVerificationCode } from '../lib/verification_codes';
+import { TooManyRequestsError } from '../trpc';
+
+const createUser = async () => {
+  const result = await db.insert(usersTable)
+    .values({
+      email: 'john.doe@gmail.com',
+      email_canonical: 'john.doe@gmail.com',
+      first_name: 'John',
+      last_name: 'Doe',
+      password_hash: null,
+      is_email_verified: true
+    })
+    .returning()
+    .execute();
+
+  return result[0];
+};
+
+const identity = {
+  provider: 'google',
+  subject: 'google_123456789',
+  email: 'john.doe@gmail.com',
+  email_verified: true,
+  first_name: 'John',
+  last_name: 'Doe',
+  claims: {}
+};
+
+describe('sendLinkVerificationCode', () => {
+  const savedCooldown = process.env['VERIFICATION_RESEND_COOLDOWN_SECONDS'];
+
+  beforeEach(createDB);
+  afterEach(async () => {
+    if (savedCooldown === undefined) delete process.env['VERIFICATION_RESEND_COOLDOWN_SECONDS'];
+    else process.env['VERIFICATION_RESEND_COOLDOWN_SECONDS'] = savedCooldown;
+    await resetDB();
+  });
+
+  it('should store a linking code for the account email', async () => {
+    const user = await createUser();
+    const linkToken = await createLinkToken({ userId: user.id, identity });
+
+    const result = await sendLinkVerificationCode({ link_token: linkToken });
+
+    expect(result.success).toBe(true);
+
+    const codes = await db.select().from(emailVerificationTable).execute();
+    expect(codes).toHaveLength(1);
+    expect(codes[0].email).toEqual('john.doe@gmail.com');
+    expect(codes[0].purpose).toEqual('link_account');
+    expect(codes[0].code_hash).toMatch(/^[0-9a-f]{64}$/); // Only the keyed hash is stored
+    expect(codes[0].expires_at > new Date()).toBe(true);
+
+    const emails = await db.select().from(emailOutboxTable).execute();
+    expect(emails).toHaveLength(1);
+    expect(emails[0].kind).toEqual('link_account');
+    expect(emails[0].to_address).toEqual('john.doe@gmail.com');
+    const code = emails[0].subject.match(/\d{6}/)?.[0] ?? '';
+    expect(codes[0].code_hash).toEqual(hashVerificationCode(code));
+  });
+
+  it('should replace the previous linking code but keep email verification codes', async () => {
+    const user = await createUser();
+    const linkToken = await createLinkToken({ userId: user.id, identity });
+
+    await db.insert(emailVerificationTable)
+      .values({
+        email: 'john.doe@gmail.com',
+        code_hash: hashVerificationCode('123456'),
+        expires_at: new Date(Date.now() + 60 * 1000)
+      })
+      .execute();
+    process.env['VERIFICATION_RESEND_COOLDOWN_SECONDS'] = '0';
+
+    await sendLinkVerificationCode({ link_token: linkToken });
+    await sendLinkVerificationCode({ link_token: linkToken });
+
+    const codes = await db.select().from(emailVerificationTable).execute();
+    expect(codes.filter(code => code.purpose === 'link_account')).toHaveLength(1);
+    expect(codes.filter(code => code.purpose === 'verify_email')).toHaveLength(1);
+  });
+
+  it('should not send another code before the resend cooldown has passed', async () => {
+    const user = await createUser();
+    const linkToken = await createLinkToken({ userId: user.id, identity });
+
+    await sendLinkVerificationCode({ link_token: linkToken });
+    const error = await sendLinkVerificationCode({ link_token: linkToken }).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(TooManyRequestsError);
+    expect((error as TooManyRequestsError).retryAfterSeconds).toBeGreaterThan(0);
+    expect(await db.select().from(emailOutboxTable).execute()).toHaveLength(1);
+  });
+
+  it('should limit how many codes an account is sent, whatever the cooldown', async () => {
+    const user = await createUser();
+    const linkToken = await createLinkToken({ userId: user.id, identity });
+    process.env['VERIFICATION_RESEND_COOLDOWN_SECONDS'] = '0';
+
+    for (let i = 0; i < 5; i++) {
+      await sendLinkVerificationCode({ link_token: linkToken });
+    }
+
+    await expect(sendLinkVerificationCode({ link_token: linkToken })).rejects.toBeInstanceOf(TooManyRequestsError);
+    expect(await db.select().from(emailOutboxTable).execute()).toHaveLength(5);
+  });
+
+  it('should reject an invalid link token', async () => {
+    await expect(sendLinkVerificationCode({ link_token: 'not-a-token' }))
+      .rejects.toThrow(INVALID_LINK_TOKEN_MESSAGE);
+  });
+});
@@ -1,10 +1,11 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { emailVerificationTable, usersTable } from '../db/schema';
+import { emailOutboxTable, emailVerificationTable, usersTable } from '../db/schema';
 import { type CheckEmailInput } from '../schema';
 import { sendVerificationCode } from '../handlers/send_verification_code';
 import { eq, and, gt } from 'drizzle-orm';
+import { hashVerificationCode } from '../lib/verification_codes';
 
 // Test input
 const testInput: CheckEmailInput = {
@@ -29,11 +30,35 @@ describe('sendVerificationCode', () => {
 
     expect(codes).toHaveLength(1);
     expect(codes[0].email).toEqual(testInput.email);
-    expect(codes[0].verification_code).toMatch(/^\d{6}$/); // 6-digit code
+    expect(codes[0].code_hash).toMatch(/^[0-9a-f]{64}$/); // Only the keyed hash is stored // 6-digit code
     expect(codes[0].expires_at).toBeInstanceOf(Date);
     expect(codes[0].expires_at > new Date()).toBe(true); // Should expire in the future
   });
 
+  it('should email the code and verification link', async () => {
+    await sendVerificationCode(testInput);
+
+    const emails = await db.select().from(emailOutboxTable).execute();
+    expect(emails).toHaveLength(1);
+    expect(emails[0].kind).toEqual('verify_email');
+    expect(emails[0].to_address).toEqual(testInput.email);
+    expect(emails[0].status).toEqual('pending');
+    expect(emails[0].text_body).toContain('/verify?token=');
+
+    // The emailed code is the one that was stored
+    const code = emails[0].subject.match(/\d{6}/)?.[0] ?? '';
+    const codes = await db.select().from(emailVerificationTable).execute();
+    expect(codes[0].code_hash).toEqual(hashVerificationCode(code));
+  });
+
+  it('should email in the language the browser prefers', async () => {
+    await sendVerificationCode(testInput, { accept_language: 'es-ES,es;q=0.9,en;q=0.8' });
+
+    const emails = await db.select().from(emailOutboxTable).execute();
+    expect(emails[0].subject).toMatch(/^\d{6} es tu código de verificación$/);
+    expect(emails[0].html_body).toContain('<html lang="es">');
+  });
+
   it('should set expiration time to 15 minutes from now', async () => {
     const beforeTime = new Date();
     await sendVerificationCode(testInput);
@@ -57,6 +82,7 @@ describe('sendVerificationCode', () => {
     await db.insert(usersTable)
       .values({
         email: testInput.email,
+        email_canonical: testInput.email,
         first_name: 'Test',
         last_name: 'User',
         password_hash: 'hashed_password',
@@ -78,11 +104,50 @@ describe('sendVerificationCode', () => {
     expect(codes).toHaveLength(0);
   });
 
+  it('should answer a verified user like any other email in privacy mode', async () => {
+    await db.insert(usersTable)
+      .values({
+        email: testInput.email,
+        email_canonical: testInput.email,
+        first_name: 'Test',
+        last_name: 'User',
+        password_hash: 'hashed_password',
+        is_email_verified: true
+      })
+      .execute();
+
+    const saved = process.env['EMAIL_PRIVACY_MODE'];
+    process.env['EMAIL_PRIVACY_MODE'] = 'true';
+    try {
+      const verified = await sendVerificationCode(testInput);
+      const unknown = await sendVerificationCode({ email: 'nobody@example.com' });
+
+      expect(verified).toEqual(unknown);
+      expect(verified.success).toBe(true);
+
+      // The owner is reminded of the account instead of getting a code
+      const emails = await db.select()
+        .from(emailOutboxTable)
+        .where(eq(emailOutboxTable.to_address, testInput.email))
+        .execute();
+      expect(emails.map(email => email.kind)).toEqual(['account_exists']);
+
+      // And a second request waits out the same cooldown
+      const again = await sendVerificationCode(testInput);
+      expect(again.success).toBe(false);
+      expect(again.retry_after_seconds).toBeGreaterThan(0);
+    } finally {
+      if (saved === undefined) delete process.env['EMAIL_PRIVACY_MODE'];
+      else process.env['EMAIL_PRIVACY_MODE'] = saved;
+    }
+  });
+
   it('should allow code for unverified user', async () => {
     // Create an unverified user
     await db.insert(usersTable)
       .values({
         email: testInput.email,
+        email_canonical: testInput.email,
         first_name: 'Test',
         last_name: 'User',
         password_hash: 'hashed_password',
@@ -104,13 +169,13 @@ describe('sendVerificationCode', () => {
     expect(codes).toHaveLength(1);
   });
 
-  it('should reject if valid code already exists', async () => {
-    // Create an existing valid verification code
+  it('should reject a resend within the cooldown', async () => {
+    // Create a verification code that was just sent
     const futureExpiry = new Date(Date.now() + 10 * 60 * 1000); // 10 minutes from now
     await db.insert(emailVerificationTable)
       .values({
         email: testInput.email,
-        verification_code: '123456',
+        code_hash: hashVerificationCode('123456'),
         expires_at: futureExpiry
       })
       .execute();
@@ -119,6 +184,8 @@ describe('sendVerificationCode', () => {
 
     expect(result.success).toBe(false);
     expect(result.message).toEqual('A verification code was already sent recently. Please check your email or wait before requesting a new code.');
+    expect(result.retry_after_seconds).toBeGreaterThan(55);
+    expect(result.retry_after_seconds).toBeLessThanOrEqual(60);
 
     // Verify only the original code exists
     const codes = await db.select()
@@ -127,7 +194,54 @@ describe('sendVerificationCode', () => {
       .execute();
 
     expect(codes).toHaveLength(1);
-    expect(codes[0].verification_code).toEqual('123456');
+    expect(codes[0].code_hash).toEqual(hashVerificationCode('123456'));
+  });
+
+  it('should replace a still valid code once the cooldown has passed', async () => {
+    // A long-lived code sent at signup an hour ago
+    await db.insert(emailVerificationTable)
+      .values({
+        email: testInput.email,
+        code_hash: hashVerificationCode('123456'),
+        expires_at: new Date(Date.now() + 23 * 60 * 60 * 1000),
+        created_at: new Date(Date.now() - 60 * 60 * 1000)
+      })
+      .execute();
+
+    const result = await sendVerificationCode(testInput);
+
+    expect(result.success).toBe(true);
+    expect(result.retry_after_seconds).toEqual(60);
+
+    // The old code is invalidated
+    const codes = await db.select()
+      .from(emailVerificationTable)
+      .where(eq(emailVerificationTable.email, testInput.email))
+      .execute();
+
+    expect(codes).toHaveLength(1);
+    expect(codes[0].code_hash).not.toEqual(hashVerificationCode('123456'));
+  });
+
+  it('should use the configured cooldown and lifetime', async () => {
+    process.env['VERIFICATION_RESEND_COOLDOWN_SECONDS'] = '0';
+    process.env['VERIFICATION_CODE_TTL_MINUTES'] = '5';
+    try {
+      expect((await sendVerificationCode(testInput)).retry_after_seconds).toEqual(0);
+      expect((await sendVerificationCode(testInput)).success).toBe(true);
+
+      const codes = await db.select()
+        .from(emailVerificationTable)
+        .where(eq(emailVerificationTable.email, testInput.email))
+        .execute();
+
+      expect(codes).toHaveLength(1);
+      expect(codes[0].expires_at.getTime()).toBeLessThanOrEqual(Date.now() + 5 * 60 * 1000);
+      expect(codes[0].expires_at.getTime()).toBeGreaterThan(Date.now() + 4 * 60 * 1000);
+    } finally {
+      delete process.env['VERIFICATION_RESEND_COOLDOWN_SECONDS'];
+      delete process.env['VERIFICATION_CODE_TTL_MINUTES'];
+    }
   });
 
   it('should clean up expired codes and create new one', async () => {
@@ -136,8 +250,9 @@ describe('sendVerificationCode', () => {
     await db.insert(emailVerificationTable)
       .values({
         email: testInput.email,
-        verification_code: '123456',
-        expires_at: pastExpiry
+        code_hash: hashVerificationCode('123456'),
+        expires_at: pastExpiry,
+        created_at: new Date(Date.now() - 20 * 60 * 1000)
       })
       .execute();
 
@@ -153,7 +268,7 @@ describe('sendVerificationCode', () => {
       .execute();
 
     expect(codes).toHaveLength(1);
-    expect(codes[0].verification_code).not.toEqual('123456'); // Should be a new code
+    expect(codes[0].code_hash).not.toEqual(hashVerificationCode('123456')); // Should be a new code
     expect(codes[0].expires_at > new Date()).toBe(true); // Should be valid
   });
 
@@ -166,7 +281,7 @@ describe('sendVerificationCode', () => {
       .from(emailVerificationTable)
       .where(eq(emailVerificationTable.email, testInput.email))
       .execute();
-    const firstCode = codes[0].verification_code;
+    const firstCode = codes[0].code_hash;
 
     // Clean up the first code to allow a second one
     await db.delete(emailVerificationTable)
@@ -181,12 +296,12 @@ describe('sendVerificationCode', () => {
       .from(emailVerificationTable)
       .where(eq(emailVerificationTable.email, testInput.email))
       .execute();
-    const secondCode = codes[0].verification_code;
+    const secondCode = codes[0].code_hash;
 
     // Codes should be different (very high probability with 6-digit codes)
     expect(firstCode).not.toEqual(secondCode);
-    expect(firstCode).toMatch(/^\d{6}$/);
-    expect(secondCode).toMatch(/^\d{6}$/);
+    expect(firstCode).toMatch(/^[0-9a-f]{64}$/);
+    expect(secondCode).toMatch(/^[0-9a-f]{64}$/);
   });
 
   it('should handle multiple emails independently', async () => {
@@ -0,0 +1,99 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, userSessionsTable } from '../db/schema';
+import { type SetPasswordInput } from '../schema';
+import { setPassword } from '../handlers/set_password';
+import { verifyPassword } from '../lib/password';
+import { createSession } from '../lib/sessions';
+import { eq } from 'drizzle-orm';
+
+// Test input
+const testInput: SetPasswordInput = {
+  new_password: 'NewSecurePass456'
+};
+
+const createUser = async (passwordHash: string | null) => {
+  const result = await db.insert(usersTable)
+    .values({
+      email: 'test@example.com',
+      email_canonical: 'test@example.com',
+      first_name: 'Test',
+      last_name: 'User',
+      password_hash: passwordHash,
+      is_email_verified: true
+    })
+    .returning()
+    .execute();
+
+  return result[0];
+};
+
+const sessionRow = async (familyId: string) => {
+  const rows = await db.select()
+    .from(userSessionsTable)
+    .where(eq(userSessionsTable.family_id, familyId))
+    .execute();
+
+  return rows[0];
+};
+
+describe('setPassword', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should set a password for a Google-only account after a recent sign-in', async () => {
+    const user = await createUser(null);
+    const session = await createSession(user.id);
+
+    const result = await setPassword(user, await sessionRow(session.session_id), testInput);
+
+    expect(result.success).toBe(true);
+
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, user.id))
+      .execute();
+
+    expect(await verifyPassword('NewSecurePass456', users[0].password_hash!)).toBe(true);
+  });
+
+  it('should require a recent re-authentication', async () => {
+    const user = await createUser(null);
+    const session = await createSession(user.id);
+
+    await db.update(userSessionsTable)
+      .set({ authenticated_at: new Date(Date.now() - 60 * 60 * 1000) })
+      .where(eq(userSessionsTable.family_id, session.session_id))
+      .execute();
+
+    await expect(setPassword(user, await sessionRow(session.session_id), testInput))
+      .rejects.toThrow(/sign in again/i);
+
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, user.id))
+      .execute();
+
+    expect(users[0].password_hash).toBeNull();
+  });
+
+  it('should reject accounts that already have a password', async () => {
+    const user = await createUser('hashed_SecurePass123');
+    const session = await createSession(user.id);
+
+    await expect(setPassword(user, await sessionRow(session.session_id), testInput))
+      .rejects.toThrow(/already has a password/i);
+  });
+
+  it('should revoke other sessions but keep the current one', async () => {
+    const user = await createUser(null);
+    const current = await createSession(user.id);
+    const other = await createSession(user.id);
+
+    await setPassword(user, await sessionRow(current.session_id), testInput);
+
+    expect((await sessionRow(current.session_id)).revoked_at).toBeNull();
+    expect((await sessionRow(other.session_id)).revoked_at).toBeInstanceOf(Date);
+  });
+});
@@ -0,0 +1,237 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, signInFailuresTable, emailOutboxTable, accountUnlockTokensTable } from '../db/schema';
+import { type SignInInput } from '../schema';
+import { signIn } from '../handlers/sign_in';
+import { hashPassword } from '../lib/password';
+import { getThrottleFromFailures } from '../lib/account_lockout';
+import { describeUserAgent } from '../lib/account_notifications';
+import { TooManyRequestsError } from '../trpc';
+import { eq } from 'drizzle-orm';
+
+// Test input
+const testInput: SignInInput = {
+  email: 'test@example.com',
+  password: 'SecurePass123'
+};
+
+const createPasswordUser = async (passwordHash: string) => {
+  const result = await db.insert(usersTable)
+    .values({
+      email: 'test@example.com',
+      email_canonical: 'test@example.com',
+      first_name: 'Test',
+      last_name: 'User',
+      password_hash: passwordHash,
+      is_email_verified: true
+    })
+    .returning()
+    .execute();
+
+  return result[0];
+};
+
+describe('signIn', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should sign in with correct credentials', async () => {
+    const user = await createPasswordUser(await hashPassword('SecurePass123'));
+
+    const result = await signIn(testInput);
+
+    expect(result.user.id).toEqual(user.id);
+    expect(result.user.email).toEqual('test@example.com');
+    expect(result.user.first_name).toEqual('Test');
+    expect(result.token).toBeDefined();
+    expect(result.is_new_user).toBe(false);
+
+    // Ensure password hash is not returned
+    expect('password_hash' in result.user).toBe(false);
+  });
+
+  it('should reject a wrong password', async () => {
+    await createPasswordUser(await hashPassword('SecurePass123'));
+
+    await expect(signIn({ ...testInput, password: 'WrongPass123' }))
+      .rejects.toThrow('Invalid email or password');
+  });
+
+  it('should reject an unknown email with the same message', async () => {
+    await expect(signIn({ ...testInput, email: 'nobody@example.com' }))
+      .rejects.toThrow('Invalid email or password');
+  });
+
+  it('should reject accounts without a password with the same message', async () => {
+    await db.insert(usersTable)
+      .values({
+        email: 'test@example.com',
+        email_canonical: 'test@example.com',
+        first_name: 'Google',
+        last_name: 'User',
+        password_hash: null,
+        is_email_verified: true
+      })
+      .execute();
+
+    await expect(signIn(testInput))
+      .rejects.toThrow('Invalid email or password');
+  });
+
+  it('should only sign in verified accounts in email privacy mode', async () => {
+    const user = await createPasswordUser(await hashPassword('SecurePass123'));
+    await db.update(usersTable)
+      .set({ is_email_verified: false })
+      .where(eq(usersTable.id, user.id))
+      .execute();
+
+    const saved = process.env['EMAIL_PRIVACY_MODE'];
+    process.env['EMAIL_PRIVACY_MODE'] = 'true';
+    try {
+      await expect(signIn(testInput))
+        .rejects.toThrow('Invalid email or password');
+
+      delete process.env['EMAIL_PRIVACY_MODE'];
+      expect((await signIn(testInput)).user.id).toEqual(user.id);
+    } finally {
+      if (saved === undefined) delete process.env['EMAIL_PRIVACY_MODE'];
+      else process.env['EMAIL_PRIVACY_MODE'] = saved;
+    }
+  });
+
+  it('should email the owner about a sign-in from a new device', async () => {
+    await createPasswordUser(await hashPassword('SecurePass123'));
+    const firefox = 'Mozilla/5.0 (Macintosh; Intel Mac OS X 14.5; rv:128.0) Gecko/20100101 Firefox/128.0';
+    const chrome = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0.0.0 Safari/537.36';
+
+    // The first device and a return to it are not reported
+    await signIn(testInput, { user_agent: firefox });
+    await signIn(testInput, { user_agent: firefox });
+    expect(await db.select().from(emailOutboxTable).execute()).toHaveLength(0);
+
+    await signIn(testInput, { user_agent: chrome, ip_address: '203.0.113.7' });
+
+    const emails = await db.select().from(emailOutboxTable).execute();
+    expect(emails).toHaveLength(1);
+    expect(emails[0].kind).toEqual('new_device');
+    expect(emails[0].to_address).toEqual('test@example.com');
+    expect(emails[0].text_body).toContain('Chrome on Windows');
+    expect(emails[0].text_body).toContain('203.0.113.7');
+  });
+
+  it('should name devices from their user agent', () => {
+    expect(describeUserAgent('Mozilla/5.0 (iPhone; CPU iPhone OS 17_5 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.5 Mobile/15E148 Safari/604.1')).toEqual('Safari on iOS');
+    expect(describeUserAgent('Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0.0.0 Safari/537.36 Edg/126.0.0.0')).toEqual('Edge on Windows');
+    expect(describeUserAgent('curl/8.7.1')).toEqual('curl/8.7.1');
+  });
+
+  it('should upgrade a legacy hash on successful sign-in', async () => {
+    const user = await createPasswordUser('hashed_SecurePass123');
+
+    await signIn(testInput);
+
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, user.id))
+      .execute();
+
+    expect(users[0].password_hash).toStartWith('$argon2id$');
+  });
+});
+
+describe('signIn lockout', () => {
+  const saved = {
+    SIGN_IN_BACKOFF_AFTER: process.env['SIGN_IN_BACKOFF_AFTER'],
+    SIGN_IN_LOCK_AFTER: process.env['SIGN_IN_LOCK_AFTER']
+  };
+
+  const failOnce = (input: SignInInput) => signIn(input).catch((e: unknown) => e);
+
+  beforeEach(createDB);
+  afterEach(async () => {
+    for (const [name, value] of Object.entries(saved)) {
+      if (value === undefined) delete process.env[name];
+      else process.env[name] = value;
+    }
+    await resetDB();
+  });
+
+  it('should double the delay after each failure past the backoff threshold', () => {
+    const last = new Date('2026-01-01T12:00:00Z');
+    const at = (seconds: number) => new Date(last.getTime() + seconds * 1000);
+
+    expect(getThrottleFromFailures(2, last, last)).toEqual({ status: 'open' });
+    expect(getThrottleFromFailures(3, last, last)).toEqual({ status: 'backoff', retry_after_seconds: 1 });
+    expect(getThrottleFromFailures(5, last, last)).toEqual({ status: 'backoff', retry_after_seconds: 4 });
+    expect(getThrottleFromFailures(5, last, at(4))).toEqual({ status: 'open' });
+    expect(getThrottleFromFailures(10, last, at(60))).toEqual({ status: 'locked', retry_after_seconds: 29 * 60 });
+    expect(getThrottleFromFailures(10, last, at(30 * 60))).toEqual({ status: 'open' });
+  });
+
+  it('should refuse even the right password while a delay applies', async () => {
+    await createPasswordUser('hashed_SecurePass123');
+
+    for (let i = 0; i < 3; i++) {
+      await failOnce({ ...testInput, password: 'WrongPass123' });
+    }
+
+    const error = await failOnce(testInput);
+    expect(error).toBeInstanceOf(TooManyRequestsError);
+    expect((error as TooManyRequestsError).retryAfterSeconds).toEqual(1);
+  });
+
+  it('should lock the account and email an unlock link', async () => {
+    process.env['SIGN_IN_BACKOFF_AFTER'] = '100';
+    process.env['SIGN_IN_LOCK_AFTER'] = '3';
+    const user = await createPasswordUser('hashed_SecurePass123');
+
+    await failOnce({ ...testInput, password: 'WrongPass123' });
+    await failOnce({ ...testInput, password: 'WrongPass123' });
+    const error = await failOnce({ ...testInput, password: 'WrongPass123' });
+
+    expect(error).toBeInstanceOf(TooManyRequestsError);
+    expect((error as Error).message).toContain('we\'ve sent it a link to unlock sign-in');
+
+    const failures = await db.select().from(signInFailuresTable).execute();
+    expect(failures).toHaveLength(3);
+    expect(failures[0].user_id).toEqual(user.id);
+
+    const emails = await db.select().from(emailOutboxTable).execute();
+    expect(emails).toHaveLength(1);
+    expect(emails[0].kind).toEqual('account_locked');
+    expect(emails[0].to_address).toEqual('test@example.com');
+    expect(emails[0].text_body).toContain('/unlock-account?token=');
+
+    const tokens = await db.select().from(accountUnlockTokensTable).execute();
+    expect(tokens).toHaveLength(1);
+
+    // Locked attempts are refused without being counted
+    await expect(signIn(testInput)).rejects.toBeInstanceOf(TooManyRequestsError);
+    expect(await db.select().from(signInFailuresTable).execute()).toHaveLength(3);
+  });
+
+  it('should treat unknown emails exactly like accounts, without sending email', async () => {
+    process.env['SIGN_IN_BACKOFF_AFTER'] = '100';
+    process.env['SIGN_IN_LOCK_AFTER'] = '3';
+    const unknown = { ...testInput, email: 'nobody@example.com' };
+
+    await failOnce(unknown);
+    await failOnce(unknown);
+    const error = await failOnce(unknown);
+
+    expect(error).toBeInstanceOf(TooManyRequestsError);
+    expect((error as Error).message).toContain('we\'ve sent it a link to unlock sign-in');
+    expect(await db.select().from(emailOutboxTable).execute()).toHaveLength(0);
+  });
+
+  it('should clear failures after a successful sign-in', async () => {
+    await createPasswordUser('hashed_SecurePass123');
+
+    await failOnce({ ...testInput, password: 'WrongPass123' });
+    await failOnce({ ...testInput, password: 'WrongPass123' });
+    await signIn(testInput);
+
+    expect(await db.select().from(signInFailuresTable).execute()).toHaveLength(0);
+  });
+});
@@ -0,0 +1,78 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, userIdentitiesTable } from '../db/schema';
+import { unlinkIdentity, LAST_SIGN_IN_METHOD_MESSAGE } from '../handlers/unlink_identity';
+
+const createUser = async (email: string, passwordHash: string | null) => {
+  const result = await db.insert(usersTable)
+    .values({
+      email,
+      email_canonical: email,
+      first_name: 'Test',
+      last_name: 'User',
+      password_hash: passwordHash,
+      is_email_verified: true
+    })
+    .returning()
+    .execute();
+
+  return result[0];
+};
+
+const linkIdentity = async (userId: number, provider: string, subject: string) => {
+  const result = await db.insert(userIdentitiesTable)
+    .values({ user_id: userId, provider, subject })
+    .returning()
+    .execute();
+
+  return result[0];
+};
+
+describe('unlinkIdentity', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should unlink an identity when the user has a password', async () => {
+    const user = await createUser('test@example.com', 'some_hash');
+    const identity = await linkIdentity(user.id, 'google', 'google_1');
+
+    const result = await unlinkIdentity(user.id, { identity_id: identity.id });
+
+    expect(result.success).toBe(true);
+    expect(await db.select().from(userIdentitiesTable).execute()).toHaveLength(0);
+  });
+
+  it('should unlink an identity when another identity remains', async () => {
+    const user = await createUser('test@example.com', null);
+    const google = await linkIdentity(user.id, 'google', 'google_1');
+    await linkIdentity(user.id, 'github', 'github_1');
+
+    await unlinkIdentity(user.id, { identity_id: google.id });
+
+    const remaining = await db.select().from(userIdentitiesTable).execute();
+    expect(remaining).toHaveLength(1);
+    expect(remaining[0].provider).toEqual('github');
+  });
+
+  it('should refuse to unlink the last way to sign in', async () => {
+    const user = await createUser('test@example.com', null);
+    const identity = await linkIdentity(user.id, 'google', 'google_1');
+
+    await expect(unlinkIdentity(user.id, { identity_id: identity.id }))
+      .rejects.toThrow(LAST_SIGN_IN_METHOD_MESSAGE);
+
+    expect(await db.select().from(userIdentitiesTable).execute()).toHaveLength(1);
+  });
+
+  it('should not unlink another user\'s identity', async () => {
+    const user = await createUser('test@example.com', 'some_hash');
+    const otherUser = await createUser('other@example.com', 'some_hash');
+    const identity = await linkIdentity(otherUser.id, 'google', 'google_1');
+
+    await expect(unlinkIdentity(user.id, { identity_id: identity.id }))
+      .rejects.toThrow(/not found/i);
+
+    expect(await db.select().from(userIdentitiesTable).execute()).toHaveLength(1);
+  });
+});
@@ -0,0 +1,73 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, accountUnlockTokensTable, signInFailuresTable } from '../db/schema';
+import { unlockAccount } from '../handlers/unlock_account';
+import { getSignInThrottle } from '../lib/account_lockout';
+import { hashToken } from '../lib/tokens';
+
+const TOKEN = 'unlock-token-123';
+
+const createLockedUser = async (expiresAt = new Date(Date.now() + 60 * 60 * 1000)) => {
+  const users = await db.insert(usersTable)
+    .values({
+      email: 'test@example.com',
+      email_canonical: 'test@example.com',
+      first_name: 'Test',
+      last_name: 'User',
+      password_hash: 'hashed_SecurePass123',
+      is_email_verified: true
+    })
+    .returning()
+    .execute();
+
+  await db.insert(signInFailuresTable)
+    .values(Array.from({ length: 10 }, () => ({ user_id: users[0].id, email_hash: hashToken('test@example.com') })))
+    .execute();
+
+  await db.insert(accountUnlockTokensTable)
+    .values({
+      user_id: users[0].id,
+      token_hash: hashToken(TOKEN),
+      expires_at: expiresAt
+    })
+    .execute();
+
+  return users[0];
+};
+
+describe('unlockAccount', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should lift the lock and consume the link', async () => {
+    await createLockedUser();
+    expect((await getSignInThrottle('test@example.com')).status).toEqual('locked');
+
+    const result = await unlockAccount({ token: TOKEN });
+
+    expect(result.success).toBe(true);
+    expect(await getSignInThrottle('test@example.com')).toEqual({ status: 'open' });
+
+    const tokens = await db.select().from(accountUnlockTokensTable).execute();
+    expect(tokens[0].consumed_at).toBeInstanceOf(Date);
+  });
+
+  it('should only work once', async () => {
+    await createLockedUser();
+    await unlockAccount({ token: TOKEN });
+
+    const result = await unlockAccount({ token: TOKEN });
+
+    expect(result.success).toBe(false);
+    expect(result.message).toContain('invalid or has expired');
+  });
+
+  it('should reject expired and unknown links', async () => {
+    await createLockedUser(new Date(Date.now() - 1000));
+
+    expect((await unlockAccount({ token: TOKEN })).success).toBe(false);
+    expect((await unlockAccount({ token: 'something-else' })).success).toBe(false);
+    expect((await getSignInThrottle('test@example.com')).status).toEqual('locked');
+  });
+});
@@ -1,10 +1,11 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { usersTable, emailVerificationTable } from '../db/schema';
+import { usersTable, emailVerificationTable, emailOutboxTable } from '../db/schema';
 import { type VerifyEmailInput } from '../schema';
 import { verifyEmail } from '../handlers/verify_email';
 import { eq } from 'drizzle-orm';
+import { hashVerificationCode } from '../lib/verification_codes';
 
 // Test input
 const testInput: VerifyEmailInput = {
@@ -21,6 +22,7 @@ describe('verifyEmail', () => {
     const userResult = await db.insert(usersTable)
       .values({
         email: 'test@example.com',
+        email_canonical: 'test@example.com',
         first_name: 'Test',
         last_name: 'User',
         password_hash: 'hashedpassword',
@@ -36,7 +38,7 @@ describe('verifyEmail', () => {
     await db.insert(emailVerificationTable)
       .values({
         email: 'test@example.com',
-        verification_code: '123456',
+        code_hash: hashVerificationCode('123456'),
         expires_at: expiresAt
       })
       .execute();
@@ -64,11 +66,43 @@ describe('verifyEmail', () => {
     expect(verificationRecords).toHaveLength(0);
   });
 
+  it('should send a welcome email only the first time the email is verified', async () => {
+    await db.insert(usersTable)
+      .values({
+        email: 'test@example.com',
+        email_canonical: 'test@example.com',
+        first_name: 'Test',
+        last_name: 'User',
+        password_hash: 'hashedpassword',
+        is_email_verified: false
+      })
+      .execute();
+
+    for (let i = 0; i < 2; i++) {
+      await db.insert(emailVerificationTable)
+        .values({
+          email: 'test@example.com',
+          code_hash: hashVerificationCode('123456'),
+          expires_at: new Date(Date.now() + 60 * 60 * 1000)
+        })
+        .execute();
+
+      expect((await verifyEmail(testInput, { accept_language: 'es-ES' })).success).toBe(true);
+    }
+
+    const emails = await db.select().from(emailOutboxTable).execute();
+    expect(emails).toHaveLength(1);
+    expect(emails[0].kind).toEqual('welcome');
+    expect(emails[0].to_address).toEqual('test@example.com');
+    expect(emails[0].text_body).toContain('Test');
+  });
+
   it('should fail with invalid verification code', async () => {
     // Create test user
     await db.insert(usersTable)
       .values({
         email: 'test@example.com',
+        email_canonical: 'test@example.com',
         first_name: 'Test',
         last_name: 'User',
         password_hash: 'hashedpassword',
@@ -83,7 +117,7 @@ describe('verifyEmail', () => {
     await db.insert(emailVerificationTable)
       .values({
         email: 'test@example.com',
-        verification_code: '654321', // Different code
+        code_hash: hashVerificationCode('654321'), // Different code
         expires_at: expiresAt
       })
       .execute();
@@ -107,6 +141,7 @@ describe('verifyEmail', () => {
     await db.insert(usersTable)
       .values({
         email: 'test@example.com',
+        email_canonical: 'test@example.com',
         first_name: 'Test',
         last_name: 'User',
         password_hash: 'hashedpassword',
@@ -121,7 +156,7 @@ describe('verifyEmail', () => {
     await db.insert(emailVerificationTable)
       .values({
         email: 'test@example.com',
-        verification_code: '123456',
+        code_hash: hashVerificationCode('123456'),
         expires_at: expiredTime
       })
       .execute();
@@ -153,6 +188,7 @@ describe('verifyEmail', () => {
     await db.insert(usersTable)
       .values({
         email: 'test@example.com',
+        email_canonical: 'test@example.com',
         first_name: 'Test',
         last_name: 'User',
         password_hash: 'hashedpassword',
@@ -182,7 +218,7 @@ describe('verifyEmail', () => {
     await db.insert(emailVerificationTable)
       .values({
         email: 'test@example.com',
-        verification_code: '123456',
+        code_hash: hashVerificationCode('123456'),
         expires_at: expiresAt
       })
       .execute();
@@ -206,6 +242,7 @@ describe('verifyEmail', () => {
     await db.insert(usersTable)
       .values({
         email: 'test@example.com',
+        email_canonical: 'test@example.com',
         first_name: 'Test',
         last_name: 'User',
         password_hash: 'hashedpassword',
@@ -220,7 +257,7 @@ describe('verifyEmail', () => {
     await db.insert(emailVerificationTable)
       .values({
         email: 'test@example.com',
-        verification_code: '123456',
+        code_hash: hashVerificationCode('123456'),
         expires_at: expiresAt
       })
       .execute();
@@ -233,10 +270,8 @@ describe('verifyEmail', () => {
 
     const result = await verifyEmail(uppercaseInput);
 
-    // This should fail since we're doing exact string matching
-    // In a real application, you might want to normalize emails to lowercase
-    expect(result.success).toBe(false);
-    expect(result.message).toBe('Invalid verification code. Please check your email and try again.');
+    // The input is canonicalized before the lookup
+    expect(result.success).toBe(true);
   });
 
   it('should update user updated_at timestamp', async () => {
@@ -244,6 +279,7 @@ describe('verifyEmail', () => {
     const userResult = await db.insert(usersTable)
       .values({
         email: 'test@example.com',
+        email_canonical: 'test@example.com',
         first_name: 'Test',
         last_name: 'User',
         password_hash: 'hashedpassword',
@@ -264,7 +300,7 @@ describe('verifyEmail', () => {
     await db.insert(emailVerificationTable)
       .values({
         email: 'test@example.com',
-        verification_code: '123456',
+        code_hash: hashVerificationCode('123456'),
         expires_at: expiresAt
       })
       .execute();
@@ -280,4 +316,59 @@ describe('verifyEmail', () => {
     expect(updatedUsers[0].updated_at).toBeInstanceOf(Date);
     expect(updatedUsers[0].updated_at.getTime()).toBeGreaterThan(originalUpdatedAt.getTime());
   });
-});
\ No newline at end of file
+
+  it('should count wrong guesses and invalidate the code at the limit', async () => {
+    await db.insert(usersTable)
+      .values({
+        email: 'test@example.com',
+        email_canonical: 'test@example.com',
+        first_name: 'Test',
+        last_name: 'User',
+        password_hash: 'hashedpassword',
+        is_email_verified: false
+      })
+      .execute();
+    await db.insert(emailVerificationTable)
+      .values({
+        email: 'test@example.com',
+        code_hash: hashVerificationCode('123456'),
+        expires_at: new Date(Date.now() + 60 * 60 * 1000)
+      })
+      .execute();
+
+    for (let attempt = 1; attempt < 5; attempt++) {
+      const result = await verifyEmail({ ...testInput, verification_code: '000000' });
+      expect(result.message).toBe('Invalid verification code. Please check your email and try again.');
+    }
+
+    const records = await db.select().from(emailVerificationTable).execute();
+    expect(records[0].attempts).toEqual(4);
+
+    const last = await verifyEmail({ ...testInput, verification_code: '000000' });
+    expect(last.success).toBe(false);
+    expect(last.message).toBe('Too many incorrect attempts. Please request a new code.');
+    expect(await db.select().from(emailVerificationTable).execute()).toHaveLength(0);
+
+    // The correct code no longer works either
+    const afterLockout = await verifyEmail(testInput);
+    expect(afterLockout.success).toBe(false);
+
+    const users = await db.select().from(usersTable).execute();
+    expect(users[0].is_email_verified).toBe(false);
+  });
+
+  it('should respond the same for a wrong code and an email without a pending code', async () => {
+    await db.insert(emailVerificationTable)
+      .values({
+        email: 'test@example.com',
+        code_hash: hashVerificationCode('123456'),
+        expires_at: new Date(Date.now() + 60 * 60 * 1000)
+      })
+      .execute();
+
+    const wrongCode = await verifyEmail({ ...testInput, verification_code: '000000' });
+    const noPendingCode = await verifyEmail({ email: 'nobody@example.com', verification_code: '000000' });
+
+    expect(noPendingCode).toEqual(wrongCode);
+  });
+});
@@ -0,0 +1,124 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, emailVerificationTable, emailOutboxTable } from '../db/schema';
+import { verifyEmailByToken, INVALID_VERIFICATION_LINK_MESSAGE } from '../handlers/verify_email_by_token';
+import { verifyEmail } from '../handlers/verify_email';
+import { issueVerificationCode } from '../lib/verification_policy';
+import { hashToken } from '../lib/tokens';
+import { eq } from 'drizzle-orm';
+
+const createUser = async () => {
+  await db.insert(usersTable)
+    .values({
+      email: 'test@example.com',
+      email_canonical: 'test@example.com',
+      first_name: 'Test',
+      last_name: 'User',
+      password_hash: 'hashedpassword',
+      is_email_verified: false
+    })
+    .execute();
+};
+
+// Issues a code and link for the same pending verification
+const issue = async () => {
+  const verification = await issueVerificationCode('test@example.com', 'verify_email');
+  const token = new URL(verification.link_url ?? '').searchParams.get('token') ?? '';
+  return { code: verification.code, token, linkUrl: verification.link_url ?? '' };
+};
+
+const isVerified = async (): Promise<boolean> => {
+  const users = await db.select().from(usersTable).where(eq(usersTable.email, 'test@example.com')).execute();
+  return users[0].is_email_verified;
+};
+
+describe('verifyEmailByToken', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should issue a link alongside the code and store only its hash', async () => {
+    const { token, linkUrl } = await issue();
+
+    expect(new URL(linkUrl).pathname).toEqual('/verify');
+    expect(token.length).toBeGreaterThanOrEqual(43);
+
+    const records = await db.select().from(emailVerificationTable).execute();
+    expect(records).toHaveLength(1);
+    expect(records[0].link_token_hash).toEqual(hashToken(token));
+  });
+
+  it('should verify the email and spend the code with it', async () => {
+    await createUser();
+    const { code, token } = await issue();
+
+    const result = await verifyEmailByToken({ token });
+
+    expect(result.success).toBe(true);
+    expect(result.message).toEqual('Email successfully verified!');
+    expect(await isVerified()).toBe(true);
+    expect(await db.select().from(emailVerificationTable).execute()).toHaveLength(0);
+
+    const emails = await db.select().from(emailOutboxTable).execute();
+    expect(emails.map(email => email.kind)).toEqual(['welcome']);
+
+    const withCode = await verifyEmail({ email: 'test@example.com', verification_code: code });
+    expect(withCode.success).toBe(false);
+  });
+
+  it('should stop working once the code has been used', async () => {
+    await createUser();
+    const { code, token } = await issue();
+
+    expect((await verifyEmail({ email: 'test@example.com', verification_code: code })).success).toBe(true);
+
+    const result = await verifyEmailByToken({ token });
+    expect(result.success).toBe(false);
+    expect(result.message).toEqual(INVALID_VERIFICATION_LINK_MESSAGE);
+  });
+
+  it('should reject unknown and replayed links', async () => {
+    await createUser();
+    const { token } = await issue();
+
+    expect((await verifyEmailByToken({ token: 'not-a-real-token' })).message).toEqual(INVALID_VERIFICATION_LINK_MESSAGE);
+
+    expect((await verifyEmailByToken({ token })).success).toBe(true);
+    const replay = await verifyEmailByToken({ token });
+    expect(replay.success).toBe(false);
+    expect(replay.message).toEqual(INVALID_VERIFICATION_LINK_MESSAGE);
+  });
+
+  it('should reject a link superseded by a newer code', async () => {
+    await createUser();
+    const first = await issue();
+    await issue();
+
+    expect((await verifyEmailByToken({ token: first.token })).message).toEqual(INVALID_VERIFICATION_LINK_MESSAGE);
+    expect(await isVerified()).toBe(false);
+  });
+
+  it('should reject an expired link', async () => {
+    await createUser();
+    const { token } = await issue();
+    await db.update(emailVerificationTable)
+      .set({ expires_at: new Date(Date.now() - 1000) })
+      .execute();
+
+    const result = await verifyEmailByToken({ token });
+
+    expect(result.success).toBe(false);
+    expect(result.message).toEqual('This verification link has expired. Please request a new code.');
+    expect(await isVerified()).toBe(false);
+  });
+
+  it('should keep the pending verification when the account no longer exists', async () => {
+    const { token } = await issue();
+
+    const result = await verifyEmailByToken({ token });
+
+    expect(result.success).toBe(false);
+    expect(result.message).toEqual('User account not found. Please contact support.');
+    expect(await db.select().from(emailVerificationTable).execute()).toHaveLength(1);
+  });
+});
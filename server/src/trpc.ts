@@ -0,0 +1,90 @@
+import { initTRPC, TRPCError } from '@trpc/server';
+import superjson from 'superjson';
+import { type Context } from './context';
+import { checkRateLimit } from './lib/rate_limit/limiter';
+
+// Thrown when a caller has exceeded a rate limit or must wait before trying
+// again; the wait is passed to the client as data.retry_after_seconds and in a
+// Retry-After header
+export class TooManyRequestsError extends TRPCError {
+  readonly retryAfterSeconds: number;
+
+  constructor(retryAfterSeconds: number, message: string = tooManyRequestsMessage(retryAfterSeconds)) {
+    super({ code: 'TOO_MANY_REQUESTS', message });
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
+// e.g. "45 seconds", "2 minutes"
+export const formatWait = (seconds: number): string => seconds < 60
+  ? `${seconds} second${seconds === 1 ? '' : 's'}`
+  : `${Math.ceil(seconds / 60)} minute${Math.ceil(seconds / 60) === 1 ? '' : 's'}`;
+
+export const tooManyRequestsMessage = (retryAfterSeconds: number): string =>
+  `Too many attempts. Please try again in ${formatWait(retryAfterSeconds)}.`;
+
+const t = initTRPC.context<Context>().create({
+  transformer: superjson,
+  errorFormatter: ({ shape, error }) => ({
+    ...shape,
+    data: {
+      ...shape.data,
+      retry_after_seconds: error instanceof TooManyRequestsError ? error.retryAfterSeconds : null
+    }
+  })
+});
+
+export const router = t.router;
+
+// Counts every public call against the procedure's rate limits (lib/rate_limit)
+const rateLimited = t.middleware(async ({ ctx, path, getRawInput, next }) => {
+  const input = await getRawInput();
+  const email = typeof input === 'object' && input !== null && 'email' in input && typeof input.email === 'string'
+    ? input.email
+    : null;
+
+  const decision = await checkRateLimit(path, { ip_address: ctx.meta.ip_address, email });
+  if (!decision.allowed) {
+    console.warn(`Rate limit hit on ${path} (${decision.rule.scope}, ${decision.rule.limit}/${decision.rule.window_seconds}s)`);
+    throw new TooManyRequestsError(decision.retry_after_seconds);
+  }
+
+  return next();
+});
+
+export const publicProcedure = t.procedure.use(rateLimited);
+
+// For procedures whose input carries no email (e.g. a link token): once the
+// handler knows the address, counts the call against the procedure's per-email
+// rules. The middleware has already counted the per-IP ones.
+export const enforceEmailRateLimit = async (procedure: string, email: string): Promise<void> => {
+  const decision = await checkRateLimit(procedure, { email });
+  if (!decision.allowed) {
+    console.warn(`Rate limit hit on ${procedure} (${decision.rule.scope}, ${decision.rule.limit}/${decision.rule.window_seconds}s)`);
+    throw new TooManyRequestsError(decision.retry_after_seconds);
+  }
+};
+
+// Requires a valid access token; narrows ctx.user and ctx.session to non-null
+export const protectedProcedure = t.procedure.use(({ ctx, next }) => {
+  if (!ctx.user || !ctx.session) {
+    throw new TRPCError({ code: 'UNAUTHORIZED', message: 'Please sign in to continue.' });
+  }
+
+  return next({
+    ctx: {
+      ...ctx,
+      user: ctx.user,
+      session: ctx.session
+    }
+  });
+});
+
+// Requires a signed-in administrator
+export const adminProcedure = protectedProcedure.use(({ ctx, next }) => {
+  if (!ctx.user.is_admin) {
+    throw new TRPCError({ code: 'FORBIDDEN', message: 'You do not have permission to perform this action.' });
+  }
+
+  return next({ ctx });
+});